@@ -0,0 +1,12 @@
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+// Give every test file its own rate limit ledger, so tests neither use up nor wait for
+// the real Quip request budget in ~/.quip-migration/rate-limit.json
+const ledgerDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'quip-rate-limit-ledger-'));
+process.env.QUIP_RATE_LIMIT_LEDGER = path.join(ledgerDirectory, 'rate-limit.json');
+
+afterAll(() => {
+  fs.rmSync(ledgerDirectory, { recursive: true, force: true });
+});
@@ -201,6 +201,122 @@ describe('ExportConfigManager', () => {
       expect(result.errors).toContain('Included folders must be an array');
     });
 
+    it('should reject invalid folder selections', () => {
+      const config = {
+        ...ExportConfigManager.createDefault(),
+        includeFolders: ['https://quip.com/AbCdEf123456/Team'],
+        excludeFolders: ['not a folder'],
+        excludePatterns: ['Archive/**', '']
+      };
+
+      const result = ExportConfigManager.validateConfig(config);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual([
+        'Excluded folder must be a folder ID or Quip folder URL: not a folder',
+        'Excluded path patterns must be an array of non-empty strings'
+      ]);
+    });
+
+    it('should validate S3 storage settings', () => {
+      const valid = {
+        ...ExportConfigManager.createDefault(),
+        storage: { type: 's3' as const, bucket: 'archive', prefix: 'quip', endpoint: 'http://localhost:9000' }
+      };
+      const invalid = {
+        ...ExportConfigManager.createDefault(),
+        storage: { type: 's3' as const, bucket: ' ', endpoint: 'localhost:9000', partSize: 1024 }
+      };
+
+      expect(ExportConfigManager.validateConfig(valid).isValid).toBe(true);
+      expect(ExportConfigManager.validateConfig(invalid).errors).toEqual([
+        'S3 storage requires a bucket name',
+        'S3 endpoint must be an http:// or https:// URL',
+        'S3 part size must be an integer of at least 5242880 bytes (5 MiB)'
+      ]);
+    });
+
+    it('should validate archive settings', () => {
+      const valid = {
+        ...ExportConfigManager.createDefault(),
+        archive: { format: 'tar.gz' as const, maxVolumeSize: 100 * 1024 * 1024 }
+      };
+      const invalid = {
+        ...ExportConfigManager.createDefault(),
+        archive: { format: 'rar' as any, path: ' ', maxVolumeSize: 1024 },
+        storage: { type: 's3' as const, bucket: 'archive' }
+      };
+
+      expect(ExportConfigManager.validateConfig(valid).isValid).toBe(true);
+      expect(ExportConfigManager.validateConfig(invalid).errors).toEqual([
+        'Archive format must be "zip" or "tar.gz"',
+        'Archive path must be a non-empty string',
+        'Archive volume size must be an integer of at least 1048576 bytes (1 MiB)',
+        'Archive output cannot be combined with S3 storage'
+      ]);
+    });
+
+    it('should validate mirror mode settings', () => {
+      const valid = { ...ExportConfigManager.createDefault(), mirror: 'trash' as const };
+      const invalid = {
+        ...ExportConfigManager.createDefault(),
+        mirror: 'purge' as any,
+        archive: { format: 'zip' as const },
+        maxDocuments: 100
+      };
+
+      expect(ExportConfigManager.validateConfig(valid).isValid).toBe(true);
+      expect(ExportConfigManager.validateConfig(invalid).errors).toEqual([
+        'Mirror mode must be "trash" or "delete"',
+        'Mirror mode cannot be combined with archive output',
+        'Mirror mode cannot be combined with a document limit'
+      ]);
+    });
+
+    it('should validate git output settings', () => {
+      const valid = { ...ExportConfigManager.createDefault(), git: true };
+      const invalid = {
+        ...ExportConfigManager.createDefault(),
+        git: true,
+        archive: { format: 'zip' as const },
+        storage: { type: 's3' as const, bucket: 'exports' }
+      };
+
+      expect(ExportConfigManager.validateConfig(valid).isValid).toBe(true);
+      expect(ExportConfigManager.validateConfig(invalid).errors).toEqual(
+        expect.arrayContaining([
+          'Git output cannot be combined with archive output',
+          'Git output requires local storage'
+        ])
+      );
+    });
+
+    it('should validate the chat transcript date range', () => {
+      const valid = { ...ExportConfigManager.createDefault(), chatTranscripts: { since: '2026-01-01' } };
+      const invalid = {
+        ...ExportConfigManager.createDefault(),
+        chatTranscripts: { since: '2026-03-01', until: '2026-02-01' }
+      };
+      const unparseable = { ...ExportConfigManager.createDefault(), chatTranscripts: { until: 'last week' } };
+
+      expect(ExportConfigManager.validateConfig(valid).isValid).toBe(true);
+      expect(ExportConfigManager.validateConfig(invalid).errors).toContain(
+        'Chat since date 2026-03-01 is after until date 2026-02-01'
+      );
+      expect(ExportConfigManager.validateConfig(unparseable).errors).toContain('Invalid chat until date: last week');
+    });
+
+    it('should validate the export profile', () => {
+      const valid = { ...ExportConfigManager.createDefault(), profile: 'obsidian' as const };
+      const invalid = { ...ExportConfigManager.createDefault(), profile: 'evernote' as any };
+
+      expect(ExportConfigManager.validateConfig(valid).isValid).toBe(true);
+      expect(ExportConfigManager.getConfigSummary(valid)['Export Profile']).toBe('Obsidian');
+      expect(ExportConfigManager.validateConfig(invalid).errors).toContain(
+        'Export profile must be one of: obsidian, notion'
+      );
+    });
+
     it('should reject output directory with invalid characters', () => {
       const config = {
         ...ExportConfigManager.createDefault(),
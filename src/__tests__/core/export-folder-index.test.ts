@@ -0,0 +1,67 @@
+import { writeFolderIndexes } from '../../core/export-folder-index';
+import { DocumentExportTask } from '../../core/export-types';
+import { LocalStorageBackend } from '../../services/storage/local-storage-backend';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('Export folder index', () => {
+  let tempDir: string;
+  const storage = new LocalStorageBackend();
+
+  const createTask = (documentTitle: string, filePath?: string): DocumentExportTask => ({
+    documentId: documentTitle,
+    documentTitle,
+    documentType: 'DOCUMENT',
+    folderPath: '',
+    exportFormat: 'html',
+    priority: 0,
+    retryCount: 0,
+    status: 'completed',
+    filePaths: filePath ? { 'html-standalone': filePath } : { html: path.join(tempDir, 'other.html') }
+  });
+
+  const writeExportedFile = async (relativePath: string): Promise<string> => {
+    const filePath = path.join(tempDir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, relativePath);
+    return filePath;
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'quip-folder-index-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should write an index into each folder and its parents', async () => {
+    const written = await writeFolderIndexes(
+      [
+        createTask('Roadmap', await writeExportedFile('Private/Plans/Roadmap.html')),
+        createTask('Budget Notes', await writeExportedFile('Private/Plans/Budget Notes.html')),
+        createTask('Welcome', await writeExportedFile('Welcome.html')),
+        createTask('Plain HTML')
+      ],
+      tempDir,
+      storage
+    );
+
+    expect(written).toBe(3);
+
+    const root = await fs.readFile(path.join(tempDir, '_index.html'), 'utf-8');
+    expect(root).toContain('<li><a href="Private/_index.html">Private</a></li>');
+    expect(root).toContain('<li><a href="Welcome.html">Welcome</a></li>');
+    expect(root).not.toContain('Plain HTML');
+
+    const plans = await fs.readFile(path.join(tempDir, 'Private', 'Plans', '_index.html'), 'utf-8');
+    expect(plans).toContain('<h1>Plans</h1>');
+    expect(plans).toContain('<a href="../../_index.html">All documents</a>');
+    expect(plans.indexOf('Budget%20Notes.html')).toBeLessThan(plans.indexOf('Roadmap.html'));
+
+    const privateIndex = await fs.readFile(path.join(tempDir, 'Private', '_index.html'), 'utf-8');
+    expect(privateIndex).toContain('<li><a href="Plans/_index.html">Plans</a></li>');
+    expect(privateIndex).not.toContain('<h2>Documents</h2>');
+  });
+});
@@ -0,0 +1,115 @@
+import {
+  formatGitCommitMessage,
+  resolveGitAuthors,
+  summarizeDocumentChanges
+} from '../../core/export-git-commit';
+import { DocumentExportTask } from '../../core/export-types';
+import { MirrorAction } from '../../core/export-mirror';
+import { QuipDocument } from '../../types';
+import * as path from 'path';
+
+describe('Export git commit', () => {
+  const outputDirectory = path.resolve('/exports');
+
+  const createTask = (documentId: string, title: string, authorId: string, files: string[]): DocumentExportTask => ({
+    documentId,
+    documentTitle: title,
+    documentType: 'DOCUMENT',
+    folderPath: 'Private',
+    metadata: { id: documentId, author_id: authorId } as QuipDocument,
+    exportFormat: 'markdown',
+    priority: 0,
+    retryCount: 0,
+    status: 'completed',
+    filePaths: Object.fromEntries(files.map((file, index) => [`format${index}`, path.join(outputDirectory, file)]))
+  });
+
+  const removal: MirrorAction = {
+    documentId: 'doc4',
+    documentTitle: 'Retired Spec',
+    path: 'Private/Retired Spec.md',
+    action: 'trash',
+    reason: 'removed',
+    status: 'done'
+  };
+
+  it('should group file changes into added, updated and removed documents', () => {
+    const tasks = [
+      createTask('doc1', 'Roadmap', 'user1', ['Private/Roadmap.md', 'Private/Roadmap.html']),
+      createTask('doc2', 'Design Doc', 'user1', ['Engineering/Design Doc.md']),
+      createTask('doc3', 'Retro', 'user2', ['Private/Retro.md'])
+    ];
+
+    const changes = summarizeDocumentChanges(
+      [
+        { path: 'Private/Roadmap.md', status: 'added' },
+        { path: 'Private/Roadmap.html', status: 'added' },
+        { path: 'Engineering/Design Doc.md', status: 'added' }, // Moved from Private
+        { path: 'Private/Design Doc.md', status: 'deleted' },
+        { path: 'Private/Retro.md', status: 'modified' },
+        { path: 'Private/Retired Spec.md', status: 'deleted' },
+        { path: 'Stray.md', status: 'deleted' },
+        { path: 'Private/_index.html', status: 'modified' } // Folder index of standalone HTML
+      ],
+      tasks,
+      [{ ...removal, documentId: 'doc2', documentTitle: 'Design Doc', path: 'Private/Design Doc.md' }, removal],
+      outputDirectory
+    );
+
+    expect(changes.added.map(document => document.title)).toEqual(['Roadmap']);
+    expect(changes.updated.map(document => document.title)).toEqual(['Design Doc', 'Retro']);
+    expect(changes.removed.map(document => document.title)).toEqual(['Retired Spec', 'Stray']);
+  });
+
+  it('should attribute the commit to the only Quip author and list several as co-authors', () => {
+    const users = new Map([
+      ['user1', { id: 'user1', name: 'Ada Lovelace', emails: ['ada@example.com'] }],
+      ['user2', { id: 'user2', name: 'Alan Turing', emails: ['alan@example.com'] }]
+    ]);
+    const single = { added: [{ title: 'Roadmap', authorId: 'user1' }], updated: [], removed: [] };
+    const several = { ...single, updated: [{ title: 'Retro', authorId: 'user2' }] };
+
+    expect(resolveGitAuthors(single, users)).toEqual({
+      author: { name: 'Ada Lovelace', email: 'ada@example.com' },
+      coAuthors: []
+    });
+    expect(resolveGitAuthors(several, users)).toEqual({
+      coAuthors: [
+        { name: 'Ada Lovelace', email: 'ada@example.com' },
+        { name: 'Alan Turing', email: 'alan@example.com' }
+      ]
+    });
+    expect(resolveGitAuthors(single, new Map())).toEqual({ coAuthors: [] });
+  });
+
+  it('should summarize the changed documents in the commit message', () => {
+    const message = formatGitCommitMessage(
+      {
+        added: [{ title: 'Roadmap' }, { title: 'Onboarding' }],
+        updated: [],
+        removed: [{ title: 'Retired Spec' }]
+      },
+      'session-1',
+      new Date('2026-03-14T12:00:00Z'),
+      [{ name: 'Ada Lovelace', email: 'ada@example.com' }]
+    );
+
+    expect(message).toBe(
+      [
+        'Quip export 2026-03-14: 2 added, 0 updated, 1 removed',
+        '',
+        'Added:',
+        '- Onboarding',
+        '- Roadmap',
+        '',
+        'Removed:',
+        '- Retired Spec',
+        '',
+        'Export session: session-1',
+        '',
+        'Co-authored-by: Ada Lovelace <ada@example.com>',
+        ''
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,127 @@
+import { ExportIndex, EXPORT_INDEX_FILE_NAME } from '../../core/export-index';
+import { DocumentExportTask } from '../../core/export-types';
+import { ConsoleLogger } from '../../core/logger';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('ExportIndex', () => {
+  let tempDir: string;
+  let logger: ConsoleLogger;
+
+  const createTask = (overrides: Partial<DocumentExportTask> = {}): DocumentExportTask => ({
+    documentId: 'doc1',
+    documentTitle: 'Design Doc',
+    documentType: 'DOCUMENT',
+    folderPath: 'Private/Engineering',
+    updatedUsec: 1000,
+    exportFormat: 'docx',
+    priority: 0,
+    retryCount: 0,
+    status: 'completed',
+    ...overrides,
+  });
+
+  const writeExportedFile = async (relativePath: string): Promise<string> => {
+    const filePath = path.join(tempDir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, 'content');
+    return filePath;
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'quip-export-index-test-'));
+    logger = new ConsoleLogger('ERROR'); // Suppress logs during tests
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should start empty when no index exists', async () => {
+    const index = new ExportIndex(tempDir, logger);
+    await index.load();
+
+    expect(index.getEntries()).toHaveLength(0);
+    expect(await index.isUnchanged(createTask())).toBe(false);
+  });
+
+  it('should persist exported documents with paths relative to the output directory', async () => {
+    const filePath = await writeExportedFile('Private/Engineering/Design Doc.docx');
+
+    const index = new ExportIndex(tempDir, logger);
+    index.recordExport(createTask({ filePath }));
+    await index.save();
+
+    const reloaded = new ExportIndex(tempDir, logger);
+    await reloaded.load();
+
+    const entry = reloaded.getEntry('doc1');
+    expect(entry).toBeDefined();
+    expect(entry!.updatedUsec).toBe(1000);
+    expect(entry!.files).toEqual({ docx: 'Private/Engineering/Design Doc.docx' });
+    expect(reloaded.resolvePath(entry!.files.docx)).toBe(path.resolve(filePath));
+  });
+
+  it('should detect unchanged, updated and moved documents', async () => {
+    const filePath = await writeExportedFile('Private/Engineering/Design Doc.docx');
+
+    const index = new ExportIndex(tempDir, logger);
+    index.recordExport(createTask({ filePath }));
+
+    expect(await index.isUnchanged(createTask({ status: 'pending' }))).toBe(true);
+    expect(await index.isUnchanged(createTask({ updatedUsec: 2000 }))).toBe(false);
+    expect(await index.isUnchanged(createTask({ folderPath: 'Private/Archive' }))).toBe(false);
+    expect(await index.isUnchanged(createTask({ documentId: 'doc2' }))).toBe(false);
+  });
+
+  it('should treat documents exported with other formats or options as changed', async () => {
+    const filePath = await writeExportedFile('Private/Engineering/Design Doc.docx');
+    const output = { formats: ['native', 'html'], options: { includeComments: false, profile: undefined } };
+
+    const index = new ExportIndex(tempDir, logger);
+    index.recordExport(createTask({ filePath }), output);
+    await index.save();
+    const reloaded = new ExportIndex(tempDir, logger);
+    await reloaded.load();
+
+    expect(await reloaded.isUnchanged(createTask(), { formats: ['html', 'native'], options: { includeComments: false } })).toBe(true);
+    expect(await reloaded.isUnchanged(createTask(), { ...output, formats: ['native', 'html', 'markdown'] })).toBe(false);
+    expect(await reloaded.isUnchanged(createTask(), { ...output, options: { includeComments: true } })).toBe(false);
+
+    // Entries written before the output was recorded cannot tell what they hold
+    index.recordExport(createTask({ filePath }));
+    expect(await index.isUnchanged(createTask(), output)).toBe(false);
+  });
+
+  it('should treat documents whose files were deleted as changed', async () => {
+    const filePath = await writeExportedFile('Design Doc.docx');
+
+    const index = new ExportIndex(tempDir, logger);
+    index.recordExport(createTask({ filePath }));
+    await fs.unlink(filePath);
+
+    expect(await index.isUnchanged(createTask())).toBe(false);
+  });
+
+  it('should remove previously exported files for a document', async () => {
+    const docxPath = await writeExportedFile('docx/Design Doc.docx');
+    const htmlPath = await writeExportedFile('html/Design Doc.html');
+
+    const index = new ExportIndex(tempDir, logger);
+    index.recordExport(createTask({ filePaths: { docx: docxPath, html: htmlPath } }));
+    await index.removeExportedFiles('doc1');
+
+    await expect(fs.access(docxPath)).rejects.toThrow();
+    await expect(fs.access(htmlPath)).rejects.toThrow();
+  });
+
+  it('should ignore a corrupted index file', async () => {
+    await fs.writeFile(path.join(tempDir, EXPORT_INDEX_FILE_NAME), '{ not json');
+
+    const index = new ExportIndex(tempDir, logger);
+    await index.load();
+
+    expect(index.getEntries()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,171 @@
+import {
+  buildExportManifest,
+  readExportManifest,
+  verifyExportManifest,
+  EXPORT_MANIFEST_FILE_NAME,
+  EXPORT_REPORTS_DIRECTORY
+} from '../../core/export-manifest';
+import { EXPORT_INDEX_FILE_NAME } from '../../core/export-index';
+import { DocumentExportTask } from '../../core/export-types';
+import { LocalStorageBackend } from '../../services/storage/local-storage-backend';
+import { ExportedAsset } from '../../services/quip/blob-assets';
+import { QuipDocument } from '../../types';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('Export manifest', () => {
+  let tempDir: string;
+  const storage = new LocalStorageBackend();
+
+  const createTask = (overrides: Partial<DocumentExportTask> = {}): DocumentExportTask => ({
+    documentId: 'doc1',
+    documentTitle: 'Design Doc',
+    documentType: 'DOCUMENT',
+    folderPath: 'Private',
+    updatedUsec: 1000,
+    metadata: { id: 'doc1', link: 'https://quip.com/abc123' } as QuipDocument,
+    exportFormat: 'html',
+    priority: 0,
+    retryCount: 0,
+    status: 'completed',
+    ...overrides,
+  });
+
+  const createAsset = (filePath: string): ExportedAsset => ({
+    threadId: 'doc1',
+    blobId: 'blob1',
+    sourceUrl: 'https://quip.com/blob/doc1/blob1',
+    filePath,
+    reused: false,
+  });
+
+  const writeExportedFile = async (relativePath: string, content: string): Promise<string> => {
+    const filePath = path.join(tempDir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+    return filePath;
+  };
+
+  const writeManifest = async (tasks: DocumentExportTask[]): Promise<void> => {
+    const previous = await readExportManifest(tempDir, storage);
+    const manifest = await buildExportManifest('session-1', tasks, tempDir, storage, previous);
+    await fs.writeFile(path.join(tempDir, EXPORT_MANIFEST_FILE_NAME), JSON.stringify(manifest));
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'quip-export-manifest-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should list the files and assets of exported documents with checksums', async () => {
+    const html = await writeExportedFile('html/Private/Design Doc.html', '<h1>Design</h1>');
+    const image = await writeExportedFile('html/Private/assets/Design Doc/diagram.png', 'png');
+
+    const manifest = await buildExportManifest(
+      'session-1',
+      [
+        createTask({
+          filePaths: { html },
+          assets: [createAsset(image)]
+        }),
+        createTask({ documentId: 'doc2', status: 'failed', filePaths: { html } })
+      ],
+      tempDir,
+      storage
+    );
+
+    expect(manifest.sessionId).toBe('session-1');
+    expect(manifest.files).toEqual([
+      {
+        documentId: 'doc1',
+        title: 'Design Doc',
+        sourceUrl: 'https://quip.com/abc123',
+        path: 'html/Private/Design Doc.html',
+        format: 'html',
+        size: 15,
+        sha256: crypto.createHash('sha256').update('<h1>Design</h1>').digest('hex'),
+        updatedUsec: 1000
+      },
+      expect.objectContaining({ path: 'html/Private/assets/Design Doc/diagram.png', format: 'asset', size: 3 })
+    ]);
+  });
+
+  it('should use the checksums of downloads hashed while they were written', async () => {
+    const docx = await writeExportedFile('Design Doc.docx', 'docx');
+    const xlsx = await writeExportedFile('Budget.xlsx', 'changed since');
+    const storageRead = jest.spyOn(storage, 'read');
+
+    const manifest = await buildExportManifest(
+      'session-1',
+      [
+        createTask({
+          filePaths: { native: docx, xlsx },
+          fileSizes: { native: 4, xlsx: 4 },
+          fileHashes: { native: 'recorded', xlsx: 'stale' }
+        })
+      ],
+      tempDir,
+      storage
+    );
+
+    expect(manifest.files.map(file => [file.path, file.sha256])).toEqual([
+      ['Design Doc.docx', 'recorded'],
+      ['Budget.xlsx', crypto.createHash('sha256').update('changed since').digest('hex')]
+    ]);
+    expect(storageRead).toHaveBeenCalledTimes(1);
+    storageRead.mockRestore();
+  });
+
+  it('should keep the previous entries of documents skipped by an incremental export', async () => {
+    const html = await writeExportedFile('Design Doc.html', 'design');
+    const image = await writeExportedFile('assets/diagram.png', 'png');
+    await writeManifest([createTask({ filePaths: { html }, assets: [createAsset(image)] })]);
+
+    // The export index only knows the document files, not the assets
+    await writeManifest([createTask({ status: 'skipped', filePaths: { html } })]);
+
+    const manifest = await readExportManifest(tempDir, storage);
+    expect(manifest!.files.map(file => file.path)).toEqual(['Design Doc.html', 'assets/diagram.png']);
+  });
+
+  it('should report missing, modified and extra files', async () => {
+    const first = await writeExportedFile('One.html', 'one');
+    const second = await writeExportedFile('Two.html', 'two');
+    const third = await writeExportedFile('Three.html', 'three');
+    await writeExportedFile(EXPORT_INDEX_FILE_NAME, '{}');
+    await writeExportedFile(`${EXPORT_REPORTS_DIRECTORY}/export-report.html`, '<h1>Report</h1>');
+    await writeManifest([
+      createTask({ documentId: 'doc1', filePaths: { html: first } }),
+      createTask({ documentId: 'doc2', filePaths: { html: second } }),
+      createTask({ documentId: 'doc3', filePaths: { html: third } })
+    ]);
+
+    expect(await verifyExportManifest(tempDir, storage)).toMatchObject({
+      verified: 3,
+      missing: [],
+      modified: [],
+      extra: []
+    });
+
+    await fs.rm(first);
+    await fs.writeFile(second, 'TWO'); // Same size, different content
+    await writeExportedFile('notes/Stray.md', 'stray');
+
+    const result = await verifyExportManifest(tempDir, storage);
+    expect(result.verified).toBe(1);
+    expect(result.missing.map(file => file.path)).toEqual(['One.html']);
+    expect(result.modified.map(file => file.path)).toEqual(['Two.html']);
+    expect(result.extra).toEqual(['notes/Stray.md']);
+  });
+
+  it('should fail when the output directory has no manifest', async () => {
+    await expect(verifyExportManifest(tempDir, storage)).rejects.toThrow(
+      `No ${EXPORT_MANIFEST_FILE_NAME} found in ${tempDir}`
+    );
+  });
+});
@@ -0,0 +1,148 @@
+import { applyMirrorActions, planMirrorActions } from '../../core/export-mirror';
+import { ExportManifest, ExportManifestFile } from '../../core/export-manifest';
+import { DocumentExportTask } from '../../core/export-types';
+import { ConsoleLogger } from '../../core/logger';
+import { LocalStorageBackend } from '../../services/storage/local-storage-backend';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('Export mirror', () => {
+  let tempDir: string;
+  const storage = new LocalStorageBackend();
+  const logger = new ConsoleLogger('ERROR');
+
+  const createTask = (overrides: Partial<DocumentExportTask> = {}): DocumentExportTask => ({
+    documentId: 'doc1',
+    documentTitle: 'Design Doc',
+    documentType: 'DOCUMENT',
+    folderPath: 'Private',
+    exportFormat: 'html',
+    priority: 0,
+    retryCount: 0,
+    status: 'completed',
+    ...overrides,
+  });
+
+  const createManifest = (files: Partial<ExportManifestFile>[]): ExportManifest => ({
+    version: 1,
+    sessionId: 'previous',
+    generatedAt: new Date().toISOString(),
+    files: files.map(file => ({
+      documentId: 'doc1',
+      title: 'Design Doc',
+      path: '',
+      format: 'html',
+      size: 0,
+      sha256: '',
+      ...file
+    }))
+  });
+
+  const writeExportedFile = async (relativePath: string): Promise<string> => {
+    const filePath = path.join(tempDir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, relativePath);
+    return filePath;
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'quip-export-mirror-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should plan removals for documents that left the export and files that were replaced', async () => {
+    const outputDirectory = path.join(tempDir, 'export');
+    const current = await writeExportedFile('export/Engineering/Design Doc.html');
+    const shared = await writeExportedFile('export/assets/logo.png');
+    await writeExportedFile('export/Private/Design Doc.html');
+    await writeExportedFile('export/Private/Old Notes.html');
+    await writeExportedFile('export/Private/Retro.html');
+    await writeExportedFile('outside.html');
+
+    const previous = createManifest([
+      { documentId: 'doc1', path: 'Private/Design Doc.html' }, // Moved to another folder
+      { documentId: 'doc1', path: 'assets/logo.png', format: 'asset' },
+      { documentId: 'doc2', title: 'Old Notes', path: 'Private/Old Notes.html' }, // Deleted in Quip
+      { documentId: 'doc2', title: 'Old Notes', path: 'assets/logo.png', format: 'asset' }, // Still used by doc1
+      { documentId: 'doc3', title: 'Retro', path: 'Private/Retro.html' }, // Failed this time
+      { documentId: 'doc4', title: 'Gone', path: 'Private/Gone.html' }, // Already missing
+      { documentId: 'doc5', title: 'Escape', path: '../outside.html' }
+    ]);
+    const tasks = [
+      createTask({
+        filePaths: { html: current },
+        assets: [{ threadId: 'doc1', blobId: 'b1', sourceUrl: '', filePath: shared, reused: false }]
+      }),
+      createTask({ documentId: 'doc3', documentTitle: 'Retro', status: 'failed' })
+    ];
+
+    const actions = await planMirrorActions(previous, tasks, outputDirectory, storage, 'trash');
+
+    expect(actions).toEqual([
+      {
+        documentId: 'doc1',
+        documentTitle: 'Design Doc',
+        path: 'Private/Design Doc.html',
+        action: 'trash',
+        reason: 'replaced',
+        status: 'planned'
+      },
+      {
+        documentId: 'doc2',
+        documentTitle: 'Old Notes',
+        path: 'Private/Old Notes.html',
+        action: 'trash',
+        reason: 'removed',
+        status: 'planned'
+      }
+    ]);
+  });
+
+  it('should move files into a timestamped trash folder', async () => {
+    await writeExportedFile('Private/Old Notes.html');
+    const previous = createManifest([{ documentId: 'doc2', title: 'Old Notes', path: 'Private/Old Notes.html' }]);
+
+    const actions = await applyMirrorActions(
+      await planMirrorActions(previous, [], tempDir, storage, 'trash'),
+      tempDir,
+      storage,
+      logger
+    );
+
+    expect(actions[0].status).toBe('done');
+    expect(actions[0].trashPath).toMatch(/^\.trash\/\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}\/Private\/Old Notes\.html$/);
+    expect(await fs.readFile(path.join(tempDir, actions[0].trashPath!), 'utf-8')).toBe('Private/Old Notes.html');
+    await expect(fs.access(path.join(tempDir, 'Private/Old Notes.html'))).rejects.toThrow();
+  });
+
+  it('should delete files and record failures without stopping', async () => {
+    await writeExportedFile('One.html');
+    await writeExportedFile('Two.html');
+    const actions = await planMirrorActions(
+      createManifest([{ path: 'One.html' }, { documentId: 'doc2', path: 'Two.html' }]),
+      [],
+      tempDir,
+      storage,
+      'delete'
+    );
+    const failingStorage = Object.create(storage);
+    failingStorage.delete = jest.fn(async (filePath: string) => {
+      if (filePath.endsWith('One.html')) {
+        throw new Error('EACCES: permission denied');
+      }
+      await storage.delete(filePath);
+    });
+
+    await applyMirrorActions(actions, tempDir, failingStorage, logger);
+
+    expect(actions.map(action => [action.path, action.status, action.error])).toEqual([
+      ['One.html', 'failed', 'EACCES: permission denied'],
+      ['Two.html', 'done', undefined]
+    ]);
+    await expect(fs.access(path.join(tempDir, 'Two.html'))).rejects.toThrow();
+  });
+});
@@ -1,7 +1,16 @@
 import { ExportStateManager } from '../../core/export-state-manager';
 import { ExportConfigManager } from '../../core/export-config-manager';
+import { ExportOrchestrator } from '../../core/export-orchestrator';
 import { ConsoleLogger } from '../../core/logger';
 import { ExportConfig } from '../../core/export-types';
+import { LocalStorageBackend } from '../../services/storage/local-storage-backend';
+import { EXPORT_MANIFEST_FILE_NAME } from '../../core/export-manifest';
+import { ExportReporter } from '../../progress/export-reporter';
+import { ExportLogger } from '../../progress/export-logger';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
 
 describe('Export Orchestration Integration', () => {
   let logger: ConsoleLogger;
@@ -89,4 +98,630 @@ describe('Export Orchestration Integration', () => {
       expect(largeRecommendation.config.rateLimitDelay).toBe(500);
     });
   });
-});
\ No newline at end of file
+
+  describe('Multi-Format Export', () => {
+    const document = {
+      id: 'doc1',
+      title: 'Design Doc',
+      type: 'DOCUMENT',
+      updated_usec: 1000,
+      secret_path: 'abc123',
+    };
+
+    let documentDiscovery: any;
+    let documentExporter: any;
+    let fileWriter: any;
+    let folderMapper: any;
+    let orchestrator: ExportOrchestrator;
+    let outputDirectory: string;
+
+    beforeEach(async () => {
+      outputDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'quip-orchestrator-test-'));
+      documentDiscovery = {
+        discoverDocuments: jest.fn().mockResolvedValue({
+          documents: [{ document, folderPath: 'Private/Specs', isShared: false }],
+        }),
+      };
+      documentExporter = {
+        exportDocument: jest.fn(async (_doc: any, options: any) => ({
+          success: true,
+          documentId: 'doc1',
+          title: 'Design Doc',
+          format: options.preferredFormat === 'native' ? 'docx' : options.preferredFormat,
+          content: Buffer.from(`content-${options.preferredFormat}`),
+        })),
+      };
+      fileWriter = {
+        writeFormatDocument: jest.fn(async (options: any) => ({
+          success: true,
+          filePath: `/out/${options.format}/${options.quipFolderPath}/${options.fileName}`,
+          size: options.content.length,
+        })),
+      };
+      const directoryManager: any = {
+        initializeBaseDirectory: jest.fn().mockResolvedValue({ success: true }),
+        getFormatDirectoryPath: jest.fn(
+          (format: string, folderPath: string) => `/out/${format}/${folderPath}`
+        ),
+        cleanupEmptyDirectories: jest.fn().mockResolvedValue(undefined),
+      };
+
+      folderMapper = {
+        registerDocumentFiles: jest.fn(),
+        resolveDocumentLink: jest.fn(),
+      };
+
+      orchestrator = new ExportOrchestrator(
+        logger,
+        stateManager,
+        documentDiscovery,
+        documentExporter,
+        fileWriter,
+        folderMapper,
+        directoryManager
+      );
+
+      config = {
+        ...config,
+        outputDirectory,
+        exportFormats: ['docx', 'html', 'markdown'],
+        useFormatDirectories: true,
+        incremental: false,
+        rateLimitDelay: 0,
+        retryAttempts: 0,
+      };
+    });
+
+    afterEach(async () => {
+      await fs.rm(outputDirectory, { recursive: true, force: true });
+    });
+
+    it('should export and write every requested format in one pass', async () => {
+      const result = await orchestrator.startExport(config);
+
+      expect(result.successfulExports).toBe(1);
+      expect(documentExporter.exportDocument).toHaveBeenCalledTimes(3);
+      expect(
+        documentExporter.exportDocument.mock.calls.map((call: any[]) => call[1].preferredFormat)
+      ).toEqual(['native', 'html', 'markdown']);
+      // HTML is requested explicitly, so other formats must not fall back to it
+      expect(documentExporter.exportDocument.mock.calls[0][1].fallbackToHtml).toBe(false);
+
+      expect(fileWriter.writeFormatDocument).toHaveBeenCalledTimes(3);
+      expect(fileWriter.writeFormatDocument.mock.calls.map((call: any[]) => call[0].format)).toEqual(
+        ['docx', 'html', 'markdown']
+      );
+      expect(fileWriter.writeFormatDocument.mock.calls[0][0].quipFolderPath).toBe('Private/Specs');
+
+      const task = stateManager.getCurrentSession()!.tasks![0];
+      expect(task.status).toBe('completed');
+      expect(Object.keys(task.filePaths!)).toEqual(['native', 'html', 'markdown']);
+      expect(task.filePath).toBe('/out/docx/Private/Specs/Design Doc');
+
+      const manifest = JSON.parse(
+        await fs.readFile(path.join(outputDirectory, EXPORT_MANIFEST_FILE_NAME), 'utf-8')
+      );
+      expect(manifest.sessionId).toBe(stateManager.getCurrentSession()!.id);
+    });
+
+    it('should ask the exporter to download assets relative to each format directory', async () => {
+      await orchestrator.startExport(config);
+
+      expect(documentExporter.exportDocument.mock.calls[1][1].assets).toEqual({
+        outputDirectory,
+        documentDirectory: '/out/html/Private/Specs',
+        storage: expect.any(LocalStorageBackend),
+      });
+
+      documentExporter.exportDocument.mockClear();
+      await orchestrator.startExport({ ...config, downloadAssets: false });
+
+      expect(documentExporter.exportDocument.mock.calls[1][1].assets).toBeUndefined();
+    });
+
+    it('should move streamed downloads into place and report their progress', async () => {
+      const file = { path: '/tmp/quip-download-1.tmp', size: 4096, sha256: 'abc' };
+      documentExporter.exportDocument.mockImplementation(async (_doc: any, options: any) => {
+        if (options.preferredFormat !== 'native') {
+          return {
+            success: true,
+            documentId: 'doc1',
+            title: 'Design Doc',
+            format: options.preferredFormat,
+            content: Buffer.from('content'),
+          };
+        }
+        options.download.onProgress({ bytesDownloaded: 4096, totalBytes: 4096 });
+        return { success: true, documentId: 'doc1', title: 'Design Doc', format: 'docx', file };
+      });
+      fileWriter.writeFormatDocument.mockImplementation(async (options: any) => ({
+        success: true,
+        filePath: `/out/${options.format}/${options.fileName}`,
+        size: options.sourceFile ? options.sourceFile.size : options.content.length,
+        sha256: options.sourceFile?.sha256,
+      }));
+      const downloads: any[] = [];
+      orchestrator.onDownloadProgress((progress) => downloads.push(progress));
+
+      const result = await orchestrator.startExport(config);
+
+      expect(result.successfulExports).toBe(1);
+      expect(downloads).toEqual([
+        { documentId: 'doc1', documentTitle: 'Design Doc', bytesDownloaded: 4096, totalBytes: 4096 },
+      ]);
+      const docxWrite = fileWriter.writeFormatDocument.mock.calls[0][0];
+      expect(docxWrite.sourceFile).toBe(file);
+      expect(docxWrite.content).toBeUndefined();
+
+      const task = stateManager.getCurrentSession()!.tasks![0];
+      expect(task.fileSizes!.native).toBe(4096);
+      expect(task.fileHashes).toEqual({ native: 'abc' });
+    });
+
+    it('should re-export unchanged documents when another format is requested', async () => {
+      fileWriter.writeFormatDocument.mockImplementation(async (options: any) => {
+        const filePath = path.join(outputDirectory, options.format, `${options.fileName}.${options.format}`);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, options.content);
+        return { success: true, filePath, size: options.content.length };
+      });
+      const incrementalConfig: ExportConfig = { ...config, incremental: true, exportFormats: ['docx'] };
+
+      await orchestrator.startExport(incrementalConfig);
+      documentExporter.exportDocument.mockClear();
+
+      const unchanged = await orchestrator.startExport(incrementalConfig);
+      expect(unchanged.skippedDocuments).toBe(1);
+      expect(documentExporter.exportDocument).not.toHaveBeenCalled();
+
+      const withMarkdown = await orchestrator.startExport({ ...incrementalConfig, exportFormats: ['docx', 'markdown'] });
+      expect(withMarkdown.successfulExports).toBe(1);
+      expect(documentExporter.exportDocument.mock.calls.map((call: any[]) => call[1].preferredFormat)).toEqual([
+        'native',
+        'markdown'
+      ]);
+    });
+
+    it('should track format failures separately and keep successful formats', async () => {
+      documentExporter.exportDocument.mockImplementation(async (_doc: any, options: any) =>
+        options.preferredFormat === 'markdown'
+          ? {
+              success: false,
+              documentId: 'doc1',
+              title: 'Design Doc',
+              format: 'markdown',
+              error: 'conversion failed',
+            }
+          : {
+              success: true,
+              documentId: 'doc1',
+              title: 'Design Doc',
+              format: options.preferredFormat === 'native' ? 'docx' : options.preferredFormat,
+              content: Buffer.from('content'),
+            }
+      );
+      const completeFormatSpy = jest.spyOn(stateManager, 'completeFormatExport');
+
+      const result = await orchestrator.startExport(config);
+
+      expect(result.failedExports).toBe(1);
+      expect(completeFormatSpy).toHaveBeenCalledWith('doc1', 'native', true);
+      expect(completeFormatSpy).toHaveBeenCalledWith('doc1', 'html', true);
+      expect(completeFormatSpy).toHaveBeenCalledWith(
+        'doc1',
+        'markdown',
+        false,
+        expect.any(Error)
+      );
+
+      const task = stateManager.getCurrentSession()!.tasks![0];
+      expect(task.status).toBe('failed');
+      expect(task.formatErrors).toEqual({ markdown: 'conversion failed' });
+      expect(Object.keys(task.filePaths!)).toEqual(['native', 'html']);
+    });
+
+    it('should only discover chats when their transcripts or messages are exported', async () => {
+      await orchestrator.startExport(config);
+      await orchestrator.startExport({ ...config, includeComments: true });
+      await orchestrator.startExport({ ...config, chatTranscripts: {} });
+
+      expect(documentDiscovery.discoverDocuments.mock.calls.map((call: any[]) => call[0].types)).toEqual([
+        ['DOCUMENT', 'SPREADSHEET'],
+        ['DOCUMENT', 'SPREADSHEET', 'CHAT'],
+        ['DOCUMENT', 'SPREADSHEET', 'CHAT']
+      ]);
+    });
+
+    it('should write a JSON transcript next to chats instead of their comments', async () => {
+      documentDiscovery.discoverDocuments.mockResolvedValue({
+        documents: [{ document: { ...document, type: 'CHAT', title: 'Team Chat' }, folderPath: 'Private', isShared: false }],
+      });
+      documentExporter.exportComments = jest.fn();
+      documentExporter.exportChatTranscript = jest.fn().mockResolvedValue({
+        success: true,
+        documentId: 'doc1',
+        json: Buffer.from('{}'),
+      });
+      fileWriter.writeDocument = jest.fn(async (directory: string, options: any) => ({
+        success: true,
+        filePath: `${directory}/${options.fileName}`,
+        size: options.content.length,
+      }));
+      const chatTranscripts = { since: '2024-01-01' };
+
+      const result = await orchestrator.startExport({ ...config, includeComments: true, chatTranscripts });
+
+      expect(result.successfulExports).toBe(1);
+      expect(documentExporter.exportDocument.mock.calls[0][1].chat).toBe(chatTranscripts);
+      expect(documentExporter.exportChatTranscript).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'doc1' }),
+        chatTranscripts
+      );
+      expect(documentExporter.exportComments).not.toHaveBeenCalled();
+
+      const task = stateManager.getCurrentSession()!.tasks![0];
+      expect(task.filePaths!.transcript).toBe('/out/docx/Private/Team Chat.transcript.json');
+    });
+
+    it('should write comments next to the first exported format when enabled', async () => {
+      documentExporter.exportComments = jest.fn().mockResolvedValue({
+        success: true,
+        documentId: 'doc1',
+        comments: [],
+        json: Buffer.from('{}'),
+        markdown: Buffer.from('# Comments'),
+      });
+      fileWriter.writeDocument = jest.fn(async (directory: string, options: any) => ({
+        success: true,
+        filePath: `${directory}/${options.fileName}`,
+        size: options.content.length,
+      }));
+
+      const result = await orchestrator.startExport({ ...config, includeComments: true });
+
+      expect(result.successfulExports).toBe(1);
+      expect(documentExporter.exportComments).toHaveBeenCalledTimes(1);
+      expect(fileWriter.writeDocument.mock.calls.map((call: any[]) => call[1].fileName)).toEqual([
+        'Design Doc.comments.md',
+        'Design Doc.comments.json',
+      ]);
+
+      const task = stateManager.getCurrentSession()!.tasks![0];
+      expect(task.filePaths!.comments).toBe('/out/docx/Private/Specs/Design Doc.comments.json');
+      expect(task.filePath).toBe('/out/docx/Private/Specs/Design Doc');
+    });
+
+    it('should write metadata sidecars next to formats without front matter', async () => {
+      fileWriter.writeFormatDocument.mockImplementation(async (options: any) => ({
+        success: true,
+        filePath: `/out/${options.format}/${options.fileName}.${options.format === 'markdown' ? 'md' : options.format}`,
+        size: options.content.length,
+      }));
+      fileWriter.writeDocument = jest.fn(async (directory: string, options: any) => ({
+        success: true,
+        filePath: `${directory}/${options.fileName}`,
+        size: options.content.length,
+      }));
+
+      const result = await orchestrator.startExport({ ...config, documentMetadata: true });
+
+      expect(result.successfulExports).toBe(1);
+      expect(documentExporter.exportDocument.mock.calls[2][1]).toMatchObject({
+        folderPath: 'Private/Specs',
+        formatSpecificOptions: { markdown: { frontMatter: true } },
+      });
+      expect(fileWriter.writeDocument.mock.calls.map((call: any[]) => [call[0], call[1].fileName])).toEqual([
+        ['/out/docx', 'Design Doc.meta.json'],
+        ['/out/html', 'Design Doc.meta.json'],
+      ]);
+      expect(JSON.parse(fileWriter.writeDocument.mock.calls[0][1].content.toString())).toMatchObject({
+        id: 'doc1',
+        title: 'Design Doc',
+        folder_path: 'Private/Specs',
+      });
+
+      const task = stateManager.getCurrentSession()!.tasks![0];
+      expect(task.filePaths!['metadata-native']).toBe('/out/docx/Design Doc.meta.json');
+      expect(task.filePaths!['metadata-markdown']).toBeUndefined();
+      expect(folderMapper.registerDocumentFiles.mock.calls[0][1]).not.toHaveProperty('metadata-native');
+    });
+
+    it('should write one CSV file per sheet and skip sheet formats for documents', async () => {
+      documentDiscovery.discoverDocuments.mockResolvedValue({
+        documents: [
+          { document: { ...document, type: 'SPREADSHEET', title: 'Budget' }, folderPath: 'Finance', isShared: false },
+          { document: { ...document, id: 'doc2' }, folderPath: 'Private/Specs', isShared: false },
+        ],
+      });
+      documentExporter.exportDocument.mockImplementation(async (doc: any, options: any) => ({
+        success: true,
+        documentId: doc.id,
+        title: doc.title,
+        format: options.preferredFormat === 'native' ? 'docx' : options.preferredFormat,
+        content: Buffer.from('Item,Cost\r\n'),
+        sheets:
+          options.preferredFormat === 'csv'
+            ? [
+                { name: 'Q1', content: Buffer.from('Item,Cost\r\n') },
+                { name: 'Q2', content: Buffer.from('Item,Cost\r\n') },
+              ]
+            : undefined,
+      }));
+
+      const result = await orchestrator.startExport({ ...config, exportFormats: ['html', 'csv'] });
+
+      expect(result.successfulExports).toBe(2);
+      expect(
+        documentExporter.exportDocument.mock.calls.map((call: any[]) => `${call[0].id}:${call[1].preferredFormat}`).sort()
+      ).toEqual(['doc1:csv', 'doc1:html', 'doc2:html']);
+
+      const task = stateManager.getCurrentSession()!.tasks![0];
+      expect(task.filePaths).toEqual({
+        html: '/out/html/Finance/Budget',
+        csv: '/out/csv/Finance/Budget - Q1',
+        'csv-sheet-2': '/out/csv/Finance/Budget - Q2',
+      });
+      expect(folderMapper.registerDocumentFiles.mock.calls[0][1]).not.toHaveProperty('csv-sheet-2');
+    });
+
+    it('should write folder index pages for standalone HTML exports', async () => {
+      fileWriter.writeFormatDocument.mockImplementation(async (options: any) => {
+        const filePath = path.join(outputDirectory, options.format, options.quipFolderPath, `${options.fileName}.html`);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, options.content);
+        return { success: true, filePath, size: options.content.length };
+      });
+
+      await orchestrator.startExport({ ...config, exportFormats: ['html-standalone'] });
+
+      expect(documentExporter.exportDocument.mock.calls[0][1].navigationPath).toBe('Private/Specs');
+      const specsIndex = await fs.readFile(
+        path.join(outputDirectory, 'html-standalone', 'Private', 'Specs', '_index.html'),
+        'utf-8'
+      );
+      expect(specsIndex).toContain('<a href="Design%20Doc.html">Design Doc</a>');
+      const rootIndex = await fs.readFile(path.join(outputDirectory, 'html-standalone', '_index.html'), 'utf-8');
+      expect(rootIndex).toContain('<a href="Private/_index.html">Private</a>');
+
+      const manifest = JSON.parse(
+        await fs.readFile(path.join(outputDirectory, EXPORT_MANIFEST_FILE_NAME), 'utf-8')
+      );
+      expect(manifest.files.map((file: any) => file.path)).toEqual([
+        'html-standalone/Private/Specs/Design Doc.html',
+      ]);
+    });
+
+    it('should register exported document files for link rewriting', async () => {
+      const result = await orchestrator.startExport(config);
+
+      expect(folderMapper.registerDocumentFiles).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 'doc1', secret_path: 'abc123' }),
+        {
+          native: '/out/docx/Private/Specs/Design Doc',
+          html: '/out/html/Private/Specs/Design Doc',
+          markdown: '/out/markdown/Private/Specs/Design Doc',
+        }
+      );
+      expect(result.unresolvedLinks).toEqual([]);
+
+      folderMapper.registerDocumentFiles.mockClear();
+      await orchestrator.startExport({ ...config, rewriteLinks: false });
+
+      expect(folderMapper.registerDocumentFiles).not.toHaveBeenCalled();
+    });
+
+    // Leave the file of a document that is no longer discovered, listed in the previous run's manifest
+    const writeStaleFile = async (): Promise<string> => {
+      const stalePath = path.join(outputDirectory, 'Private', 'Old Notes.html');
+      await fs.mkdir(path.dirname(stalePath), { recursive: true });
+      await fs.writeFile(stalePath, 'old');
+      await fs.writeFile(
+        path.join(outputDirectory, EXPORT_MANIFEST_FILE_NAME),
+        JSON.stringify({
+          version: 1,
+          sessionId: 'previous',
+          generatedAt: new Date().toISOString(),
+          files: [
+            {
+              documentId: 'doc2',
+              title: 'Old Notes',
+              path: 'Private/Old Notes.html',
+              format: 'html',
+              size: 3,
+              sha256: '',
+            },
+          ],
+        })
+      );
+      return stalePath;
+    };
+
+    it('should remove files of documents that are no longer discovered in mirror mode', async () => {
+      const stalePath = await writeStaleFile();
+
+      const preview = await orchestrator.previewMirror({ ...config, mirror: 'delete' });
+      expect(preview).toEqual([expect.objectContaining({ path: 'Private/Old Notes.html', status: 'planned' })]);
+      expect(documentExporter.exportDocument).not.toHaveBeenCalled();
+      await expect(fs.access(stalePath)).resolves.toBeUndefined();
+
+      const result = await orchestrator.startExport({ ...config, mirror: 'delete' });
+
+      expect(result.mirrorActions).toEqual([
+        expect.objectContaining({
+          documentId: 'doc2',
+          path: 'Private/Old Notes.html',
+          action: 'delete',
+          reason: 'removed',
+          status: 'done',
+        }),
+      ]);
+      await expect(fs.access(stalePath)).rejects.toThrow();
+
+      const manifest = JSON.parse(
+        await fs.readFile(path.join(outputDirectory, EXPORT_MANIFEST_FILE_NAME), 'utf-8')
+      );
+      expect(manifest.files.map((file: any) => file.documentId)).not.toContain('doc2');
+    });
+
+    it('should not remove files in mirror mode when discovery stopped at the document limit', async () => {
+      const stalePath = await writeStaleFile();
+      documentDiscovery.discoverDocuments.mockResolvedValue({
+        documents: [{ document, folderPath: 'Private/Specs', isShared: false }],
+        limitReached: true,
+      });
+
+      expect(await orchestrator.previewMirror({ ...config, maxDocuments: 1, mirror: 'delete' })).toEqual([]);
+      const result = await orchestrator.startExport({ ...config, maxDocuments: 1, mirror: 'delete' });
+
+      expect(result.mirrorActions).toEqual([]);
+      await expect(fs.access(stalePath)).resolves.toBeUndefined();
+    });
+
+    it('should not remove files in mirror mode when a folder failed to load during discovery', async () => {
+      const stalePath = await writeStaleFile();
+      documentDiscovery.discoverDocuments.mockResolvedValue({
+        documents: [{ document, folderPath: 'Private/Specs', isShared: false }],
+        failedFolderIds: ['desktop1'],
+      });
+
+      const result = await orchestrator.startExport({ ...config, mirror: 'trash' });
+
+      expect(result.success).toBe(true);
+      expect(result.mirrorActions).toEqual([]);
+      await expect(fs.access(stalePath)).resolves.toBeUndefined();
+      expect(stateManager.getCurrentSession()?.incompleteDiscovery).toBe(
+        '1 folder failed to load during discovery'
+      );
+    });
+
+    it('should record exported documents, their assets and unresolved links, and mirror removals in the export report', async () => {
+      await writeStaleFile();
+      documentExporter.exportDocument.mockImplementation(async (_doc: any, options: any) => ({
+        success: true,
+        documentId: 'doc1',
+        title: 'Design Doc',
+        format: options.preferredFormat === 'native' ? 'docx' : options.preferredFormat,
+        content: Buffer.from('<a href="https://quip.com/zzzz9999abc/Roadmap">Roadmap</a>'),
+        assets:
+          options.preferredFormat === 'html'
+            ? [
+                {
+                  blobId: 'blob1',
+                  sourceUrl: '/blob/doc1/blob1',
+                  filePath: path.join(outputDirectory, '_assets', 'doc1', 'chart.png'),
+                  fileSize: 42,
+                  reused: false,
+                },
+              ]
+            : undefined,
+      }));
+      fileWriter.writeFormatDocument.mockImplementation(async (options: any) => {
+        const filePath = path.join(outputDirectory, options.format, `${options.fileName}.${options.format}`);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, options.content);
+        return { success: true, filePath, size: options.content.length };
+      });
+      const reporter = new ExportReporter(
+        new ExportLogger({
+          sessionId: 'test',
+          logLevel: 'ERROR',
+          outputDirectory,
+          enableFileLogging: false,
+          enableConsoleLogging: false,
+          enableAuditTrail: false,
+        }),
+        outputDirectory
+      );
+      orchestrator.setReporter(reporter);
+
+      const result = await orchestrator.startExport({
+        ...config,
+        exportFormats: ['html'],
+        mirror: 'delete',
+      });
+      const report = await reporter.generateReport(
+        {
+          sessionId: 'test',
+          totalDocuments: result.totalDocuments,
+          processedDocuments: result.totalDocuments,
+          successfulExports: result.successfulExports,
+          failedExports: result.failedExports,
+          startTime: new Date(),
+          lastUpdateTime: new Date(),
+        },
+        { outputFormat: 'json', outputDirectory: path.join(outputDirectory, 'reports') }
+      );
+
+      expect(report.documentMappings).toHaveLength(1);
+      expect(report.documentMappings[0]).toEqual(
+        expect.objectContaining({
+          quipDocumentId: 'doc1',
+          status: 'success',
+          relativePath: path.join('html', 'Design Doc.html'),
+          formatResults: { html: expect.objectContaining({ success: true }) },
+          unresolvedLinks: ['https://quip.com/zzzz9999abc/Roadmap'],
+          assets: [
+            {
+              blobId: 'blob1',
+              sourceUrl: '/blob/doc1/blob1',
+              localPath: path.join(outputDirectory, '_assets', 'doc1', 'chart.png'),
+              relativePath: path.join('_assets', 'doc1', 'chart.png'),
+              fileSize: 42,
+              status: 'downloaded',
+              error: undefined,
+            },
+          ],
+        })
+      );
+      expect(report.mirrorActions).toEqual([
+        expect.objectContaining({ relativePath: 'Private/Old Notes.html', action: 'delete', status: 'done' }),
+      ]);
+    });
+
+    it('should commit the exported Markdown and HTML files in git output mode', async () => {
+      documentDiscovery.discoverDocuments.mockResolvedValue({
+        documents: [
+          { document: { ...document, author_id: 'user1' }, folderPath: 'Private/Specs', isShared: false },
+        ],
+      });
+      documentDiscovery.getUsers = jest.fn().mockResolvedValue(
+        new Map([['user1', { id: 'user1', name: 'Ada Lovelace', emails: ['ada@example.com'] }]])
+      );
+      fileWriter.writeFormatDocument.mockImplementation(async (options: any) => {
+        const extension = options.format === 'markdown' ? 'md' : options.format;
+        const filePath = path.join(outputDirectory, options.format, `${options.fileName}.${extension}`);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, options.content);
+        return { success: true, filePath, size: options.content.length };
+      });
+
+      const result = await orchestrator.startExport({ ...config, git: true });
+
+      expect(result.gitCommit).toEqual({
+        hash: expect.stringMatching(/^[0-9a-f]{40}$/),
+        added: ['Design Doc'],
+        updated: [],
+        removed: [],
+        author: { name: 'Ada Lovelace', email: 'ada@example.com' },
+      });
+      const files = execFileSync('git', ['ls-files'], { cwd: outputDirectory, encoding: 'utf-8' });
+      expect(files.trim().split('\n')).toEqual(['html/Design Doc.html', 'markdown/Design Doc.md']);
+    });
+
+    it('should fail the document when its comments cannot be exported', async () => {
+      documentExporter.exportComments = jest.fn().mockResolvedValue({
+        success: false,
+        documentId: 'doc1',
+        comments: [],
+        error: 'HTTP 403: Forbidden',
+      });
+
+      const result = await orchestrator.startExport({ ...config, includeComments: true });
+
+      expect(result.failedExports).toBe(1);
+      const task = stateManager.getCurrentSession()!.tasks![0];
+      expect(task.formatErrors).toEqual({ comments: 'HTTP 403: Forbidden' });
+      expect(Object.keys(task.filePaths!)).toEqual(['native', 'html', 'markdown']);
+    });
+  });
+});
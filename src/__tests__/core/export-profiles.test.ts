@@ -0,0 +1,52 @@
+import { applyExportProfile, getExportProfile, isExportProfile } from '../../core/export-profiles';
+import { ExportConfig } from '../../core/export-types';
+
+describe('Export profiles', () => {
+  it('should recognize the supported profiles', () => {
+    expect(isExportProfile('obsidian')).toBe(true);
+    expect(isExportProfile('notion')).toBe(true);
+    expect(isExportProfile('evernote')).toBe(false);
+    expect(isExportProfile('toString')).toBe(false);
+    expect(getExportProfile('obsidian')).toMatchObject({ assetsDirectoryName: 'attachments', wikiLinks: true });
+    expect(getExportProfile()).toBeUndefined();
+  });
+
+  it('should leave the settings alone without a profile', () => {
+    const config: Partial<ExportConfig> = { exportFormat: 'html', useFormatDirectories: true };
+
+    expect(applyExportProfile(config)).toBe(config);
+  });
+
+  it('should export an Obsidian vault of Markdown with front matter', () => {
+    const config = applyExportProfile<Partial<ExportConfig>>({
+      profile: 'obsidian',
+      exportFormat: 'native',
+      exportFormats: ['docx', 'html'],
+      useFormatDirectories: true,
+      formatSpecificOptions: { markdown: { preserveComments: true, imageHandling: 'skip', frontMatter: false } }
+    });
+
+    expect(config).toMatchObject({
+      exportFormat: 'markdown',
+      exportFormats: ['markdown', 'csv'],
+      useFormatDirectories: false,
+      documentMetadata: true,
+      formatSpecificOptions: { markdown: { preserveComments: true, imageHandling: 'separate', frontMatter: true } }
+    });
+    expect(config.archive).toBeUndefined();
+  });
+
+  it('should export a zip of Markdown and CSV for Notion', () => {
+    const config = applyExportProfile<Partial<ExportConfig>>({
+      profile: 'notion',
+      archive: { format: 'tar.gz', maxVolumeSize: 1024 }
+    });
+
+    expect(config).toMatchObject({
+      exportFormats: ['markdown', 'csv'],
+      documentMetadata: false,
+      formatSpecificOptions: { markdown: { preserveComments: false, imageHandling: 'separate', frontMatter: false } },
+      archive: { format: 'zip', maxVolumeSize: 1024 }
+    });
+  });
+});
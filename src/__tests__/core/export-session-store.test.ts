@@ -0,0 +1,133 @@
+import { ExportSessionStore, getDefaultExportSessionDir, getResumableTasks } from '../../core/export-session-store';
+import { ExportStateManager } from '../../core/export-state-manager';
+import { ExportConfigManager } from '../../core/export-config-manager';
+import { DocumentExportTask } from '../../core/export-types';
+import { ConsoleLogger } from '../../core/logger';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('ExportSessionStore', () => {
+  let tempDir: string;
+  let store: ExportSessionStore;
+  let logger: ConsoleLogger;
+
+  const createTask = (
+    documentId: string,
+    status: DocumentExportTask['status']
+  ): DocumentExportTask => ({
+    documentId,
+    documentTitle: `Document ${documentId}`,
+    documentType: 'DOCUMENT',
+    folderPath: 'Private',
+    exportFormat: 'docx',
+    priority: 0,
+    retryCount: 0,
+    status,
+  });
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'quip-export-session-test-'));
+    store = new ExportSessionStore(path.join(tempDir, 'sessions'));
+    logger = new ConsoleLogger('ERROR'); // Suppress logs during tests
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should persist sessions and restore dates on load', async () => {
+    const stateManager = new ExportStateManager(logger, store);
+    const session = stateManager.createSession(ExportConfigManager.createDefault());
+    stateManager.initializeExport(2);
+    stateManager.setTasks([
+      { ...createTask('doc1', 'completed'), exportedAt: new Date() },
+      createTask('doc2', 'pending'),
+    ]);
+    stateManager.failDocumentExport('doc3', 'Document doc3', 'Private', 'Export error');
+    await stateManager.persistSession();
+
+    const loaded = await store.loadSession(session.id);
+
+    expect(loaded).not.toBeNull();
+    expect(loaded!.createdAt).toBeInstanceOf(Date);
+    expect(loaded!.state.startTime).toBeInstanceOf(Date);
+    expect(loaded!.state.errors[0].timestamp).toBeInstanceOf(Date);
+    expect(loaded!.tasks).toHaveLength(2);
+    expect(loaded!.tasks![0].exportedAt).toBeInstanceOf(Date);
+    expect(loaded!.tasks![1].exportedAt).toBeUndefined();
+  });
+
+  it('should return null for unknown sessions', async () => {
+    expect(await store.loadSession('missing')).toBeNull();
+    expect(await store.listSessions()).toEqual([]);
+  });
+
+  it('should keep sessions under the config directory by default', () => {
+    // Not relative to the working directory, so resume finds sessions from anywhere
+    expect(getDefaultExportSessionDir()).toBe(path.join(os.homedir(), '.quip-migration', 'export-sessions'));
+  });
+
+  it('should select pending, in-progress and failed tasks for resume', () => {
+    const stateManager = new ExportStateManager(logger);
+    const session = stateManager.createSession(ExportConfigManager.createDefault());
+    session.tasks = [
+      createTask('doc1', 'completed'),
+      createTask('doc2', 'pending'),
+      createTask('doc3', 'in_progress'),
+      createTask('doc4', 'failed'),
+      createTask('doc5', 'skipped'),
+    ];
+
+    expect(getResumableTasks(session).map((task) => task.documentId)).toEqual([
+      'doc2',
+      'doc3',
+      'doc4',
+    ]);
+  });
+
+  it('should find the latest session with remaining work', async () => {
+    const stateManager = new ExportStateManager(logger, store);
+
+    const older = stateManager.createSession(ExportConfigManager.createDefault());
+    stateManager.setTasks([createTask('doc1', 'pending')]);
+    older.updatedAt = new Date(Date.now() - 60000);
+    await store.saveSession(older);
+
+    const finished = stateManager.createSession(ExportConfigManager.createDefault());
+    stateManager.setTasks([createTask('doc1', 'completed')]);
+    finished.updatedAt = new Date(Date.now() + 60000);
+    await store.saveSession(finished);
+
+    const latest = await store.findLatestResumableSession();
+
+    expect(latest?.id).toBe(older.id);
+  });
+
+  it('should recalculate counters when restoring a session', async () => {
+    const stateManager = new ExportStateManager(logger, store);
+    const session = stateManager.createSession(ExportConfigManager.createDefault());
+    stateManager.initializeExport(4);
+    stateManager.setTasks([
+      createTask('doc1', 'completed'),
+      createTask('doc2', 'skipped'),
+      createTask('doc3', 'pending'),
+      createTask('doc4', 'pending'),
+    ]);
+    stateManager.completeDocumentExport();
+    stateManager.failDocumentExport('doc3', 'Document doc3', 'Private', 'Export error');
+    await stateManager.persistSession();
+
+    const loaded = await stateManager.loadSession(session.id);
+    const restoredManager = new ExportStateManager(logger, store);
+    restoredManager.restoreSession(loaded!);
+
+    const state = restoredManager.getCurrentSession()!.state;
+    expect(state.totalDocuments).toBe(4);
+    expect(state.processedDocuments).toBe(2);
+    expect(state.successfulExports).toBe(1);
+    expect(state.skippedDocuments).toBe(1);
+    expect(state.failedExports).toBe(0);
+    expect(state.errors).toHaveLength(0);
+  });
+});
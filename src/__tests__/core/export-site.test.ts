@@ -0,0 +1,120 @@
+import { buildExportSite } from '../../core/export-site';
+import { ExportManifestFile } from '../../core/export-manifest';
+import { ConsoleLogger } from '../../core/logger';
+import { DirectoryManager } from '../../services/local/directory-manager';
+import { LocalStorageBackend } from '../../services/storage/local-storage-backend';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('Export site', () => {
+  let tempDir: string;
+  let exportDirectory: string;
+  let siteDirectory: string;
+  const storage = new LocalStorageBackend();
+  const logger = new ConsoleLogger('ERROR');
+
+  const writeExport = async (files: (Partial<ExportManifestFile> & { path: string; content?: string })[]): Promise<void> => {
+    for (const file of files) {
+      if (file.content !== undefined) {
+        const filePath = path.join(exportDirectory, file.path);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, file.content);
+      }
+    }
+    const manifest = {
+      version: 1,
+      sessionId: 'session1',
+      generatedAt: new Date().toISOString(),
+      files: files.map(({ content, ...file }) => ({
+        documentId: 'doc1',
+        title: 'Design Doc',
+        format: 'html',
+        size: content?.length || 0,
+        sha256: '',
+        ...file
+      }))
+    };
+    await fs.writeFile(path.join(exportDirectory, 'manifest.json'), JSON.stringify(manifest));
+  };
+
+  const build = () =>
+    buildExportSite({
+      exportDirectory,
+      siteDirectory,
+      source: storage,
+      target: storage,
+      directoryManager: new DirectoryManager(
+        { baseOutputPath: exportDirectory, preserveFolderStructure: true, sanitizeFileNames: true, conflictResolution: 'number' },
+        logger,
+        storage
+      ),
+      logger
+    });
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'quip-export-site-test-'));
+    exportDirectory = path.join(tempDir, 'export');
+    siteDirectory = path.join(tempDir, 'site');
+    await fs.mkdir(exportDirectory);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should build document, folder and search pages from the manifest', async () => {
+    await writeExport([
+      {
+        path: 'Private/Specs/Design Doc.html',
+        sourceUrl: 'https://quip.com/doc1',
+        updatedUsec: 1705314720000000,
+        content: '<html><body><h1>Design</h1><p>Caching layer</p><img src="../../_assets/doc1/img.png"></body></html>'
+      },
+      { path: 'Private/Specs/Design Doc.md', format: 'markdown', content: '# Design' },
+      { path: '_assets/doc1/img.png', format: 'asset', content: 'png' },
+      { path: 'Notes.md', documentId: 'doc2', title: 'Notes', format: 'markdown', content: 'Quarterly <roadmap>' },
+      { path: 'Budget.xlsx', documentId: 'doc3', title: 'Budget', format: 'native', content: 'xlsx' },
+      { path: 'Gone.html', documentId: 'doc4', title: 'Gone' }
+    ]);
+
+    const result = await build();
+
+    expect(result).toEqual({ pages: 3, folders: 3, copiedFiles: 4, missingFiles: ['Gone.html'] });
+
+    const page = await fs.readFile(path.join(siteDirectory, 'Private', 'Specs', 'Design Doc.html'), 'utf-8');
+    expect(page).toContain('<article>\n<h1>Design</h1><p>Caching layer</p><img src="../../_assets/doc1/img.png">\n</article>');
+    expect(page).toContain('<p class="details">Updated 2024-01-15 · <a href="https://quip.com/doc1">Open in Quip</a></p>');
+    expect(page).toContain('<li><a href="Design%20Doc.md">Design Doc.md</a> <span class="format">markdown</span></li>');
+    expect(page).toContain('<form class="search" action="../../search.html">');
+    expect(page).toContain('<a href="../../Private/Specs/_index.html" class="current">Specs</a>');
+    expect(page).toContain('<span><a href="_index.html">Specs</a></span>');
+    await expect(fs.readFile(path.join(siteDirectory, '_assets', 'doc1', 'img.png'), 'utf-8')).resolves.toBe('png');
+
+    const notes = await fs.readFile(path.join(siteDirectory, 'Notes.html'), 'utf-8');
+    expect(notes).toContain('<pre class="source">Quarterly &lt;roadmap&gt;</pre>');
+    const budget = await fs.readFile(path.join(siteDirectory, 'Budget.html'), 'utf-8');
+    expect(budget).toContain('No preview is available');
+    expect(budget).toContain('<a href="Budget.xlsx">Budget.xlsx</a>');
+
+    const rootIndex = await fs.readFile(path.join(siteDirectory, '_index.html'), 'utf-8');
+    expect(rootIndex).toContain('<li><a href="Private/_index.html">Private</a></li>');
+    expect(rootIndex.indexOf('Budget.html')).toBeLessThan(rootIndex.indexOf('Notes.html'));
+    await expect(fs.access(path.join(siteDirectory, 'Private', 'Specs', '_index.html'))).resolves.toBeUndefined();
+
+    const searchIndex = await fs.readFile(path.join(siteDirectory, 'search-index.js'), 'utf-8');
+    const entries = JSON.parse(searchIndex.replace(/^window\.QUIP_SEARCH_INDEX = /, '').replace(/;\n$/, ''));
+    expect(entries).toContainEqual({
+      title: 'Design Doc',
+      path: 'Private/Specs/Design Doc.html',
+      folder: 'Private/Specs',
+      text: 'Design Caching layer'
+    });
+    expect(entries.find((entry: any) => entry.title === 'Notes').text).toBe('Quarterly <roadmap>');
+    await expect(fs.access(path.join(siteDirectory, 'search.html'))).resolves.toBeUndefined();
+  });
+
+  it('should fail without an export manifest', async () => {
+    await expect(build()).rejects.toThrow('No export manifest found');
+  });
+});
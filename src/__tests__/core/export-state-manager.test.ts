@@ -258,6 +258,18 @@ describe('ExportStateManager', () => {
       expect(summary.duration).toBeGreaterThan(0);
     });
 
+    it('should count unchanged documents as skipped', () => {
+      stateManager.skipDocumentExport();
+      stateManager.skipDocumentExport();
+      stateManager.completeDocumentExport();
+
+      const summary = stateManager.generateSummary();
+
+      expect(stateManager.getCurrentSession()!.state.processedDocuments).toBe(3);
+      expect(summary.successfulExports).toBe(1);
+      expect(summary.skippedDocuments).toBe(9);
+    });
+
     it('should include folder summaries in export summary', () => {
       const folderSummaries = [
         {
@@ -39,8 +39,7 @@ describe('FormatValidator', () => {
     it('should check markdown dependencies', async () => {
       const markdownDeps = await validator.checkFormatDependencies('markdown');
       
-      expect(markdownDeps).toHaveLength(2);
-      expect(markdownDeps.find(d => d.name === 'turndown')).toBeDefined();
+      expect(markdownDeps).toHaveLength(1);
       expect(markdownDeps.find(d => d.name === 'cheerio')).toBeDefined();
       
       // Dependencies should be marked as required
@@ -60,7 +59,7 @@ describe('FormatValidator', () => {
     it('should return capabilities for all supported formats', async () => {
       const capabilities = await validator.getFormatCapabilities();
       
-      expect(capabilities).toHaveLength(3); // native, html, markdown
+      expect(capabilities).toHaveLength(6); // native, html, markdown, csv, json, html-standalone
       
       const formats = capabilities.map(c => c.format);
       expect(formats).toContain('native');
@@ -137,6 +136,15 @@ describe('FormatValidator', () => {
       )).toBe(true);
     });
 
+    it('should accept CSV and JSON only for spreadsheets', async () => {
+      const spreadsheetResult = await validator.validateFormatSelection(['csv', 'json'], ['SPREADSHEET']);
+      expect(spreadsheetResult.valid).toBe(true);
+      expect(spreadsheetResult.warnings.some(warning => warning.startsWith('SPREADSHEET + csv:'))).toBe(true);
+
+      const documentResult = await validator.validateFormatSelection(['csv'], ['DOCUMENT']);
+      expect(documentResult.valid).toBe(false);
+    });
+
     it('should provide warnings for suboptimal format choices', async () => {
       const result = await validator.validateFormatSelection(
         ['html'], 
@@ -196,11 +204,9 @@ describe('FormatValidator', () => {
     it('should return installation instructions for markdown', () => {
       const instructions = validator.getDependencyInstructions('markdown');
       
-      expect(instructions).toHaveLength(2);
-      expect(instructions[0]).toContain('Install turndown');
-      expect(instructions[1]).toContain('Install cheerio');
+      expect(instructions).toHaveLength(1);
+      expect(instructions[0]).toContain('Install cheerio');
       expect(instructions[0]).toContain('npm install');
-      expect(instructions[1]).toContain('npm install');
     });
 
     it('should return empty instructions for native formats', () => {
@@ -267,7 +273,7 @@ describe('FormatValidator', () => {
       
       expect(result.valid).toBe(true);
       expect(result.errors).toHaveLength(0);
-      expect(result.capabilities).toHaveLength(3);
+      expect(result.capabilities).toHaveLength(6);
     });
 
     it('should handle undefined document types', async () => {
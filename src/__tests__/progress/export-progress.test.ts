@@ -0,0 +1,79 @@
+import { trackExportProgress } from '../../progress/export-progress';
+import { ProgressTracker, RequestThrottle, DocumentDownload } from '../../progress/progress-tracker';
+import { ExportStateManager } from '../../core/export-state-manager';
+import { ExportConfigManager } from '../../core/export-config-manager';
+import { ConsoleLogger } from '../../core/logger';
+
+describe('trackExportProgress', () => {
+  let stateManager: ExportStateManager;
+  let throttleListeners: Array<(throttle: RequestThrottle) => void>;
+  let downloadListeners: Array<(download: DocumentDownload) => void>;
+  let started: ProgressTracker[];
+  let finished: ProgressTracker[];
+
+  beforeEach(() => {
+    stateManager = new ExportStateManager(new ConsoleLogger('ERROR'));
+    stateManager.createSession(ExportConfigManager.createDefault());
+    throttleListeners = [];
+    downloadListeners = [];
+    started = [];
+    finished = [];
+
+    trackExportProgress(
+      {
+        stateManager,
+        orchestrator: { onDownloadProgress: listener => downloadListeners.push(listener) },
+        apiClient: { onThrottle: listener => throttleListeners.push(listener) }
+      },
+      {
+        onStart: tracker => started.push(tracker),
+        onFinish: tracker => finished.push(tracker)
+      }
+    );
+  });
+
+  it('should start tracking once discovery is done and follow the documents', () => {
+    stateManager.initializeExport(3);
+    expect(started).toHaveLength(0);
+
+    stateManager.startExport();
+    const tracker = started[0];
+    expect(tracker.getState().totalDocuments).toBe(3);
+
+    stateManager.startDocumentExport('doc1', 'Design Doc', 'Private/Specs', ['docx']);
+    expect(tracker.getState().currentDocument).toBe('Design Doc');
+    expect(tracker.getState().currentFolder).toBe('Private/Specs');
+
+    stateManager.completeDocumentExport();
+    stateManager.startDocumentExport('doc2', 'Budget', 'Private', ['xlsx']);
+    stateManager.failDocumentExport('doc2', 'Budget', 'Private', 'HTTP 500');
+    stateManager.skipDocumentExport();
+
+    expect(tracker.getState()).toMatchObject({ processedDocuments: 3, successfulExports: 2, failedExports: 1 });
+
+    stateManager.completeExport();
+    expect(finished).toEqual([tracker]);
+  });
+
+  it('should report the request pace and streamed download bytes to the tracker', () => {
+    const nextSlotAt = new Date(Date.now() + 12000);
+
+    // Pacing reported during discovery is shown once the tracker starts
+    throttleListeners.forEach(listener => listener({ requestsPerMinute: 5, nextSlotAt }));
+    stateManager.initializeExport(1);
+    stateManager.startExport();
+    const tracker = started[0];
+
+    expect(tracker.getState().requestRate).toBe(5);
+    expect(tracker.getThrottleStatus()).toMatch(/throttled, next slot in 1[12]s/);
+
+    throttleListeners.forEach(listener => listener({ requestsPerMinute: 50 }));
+    expect(tracker.getState().requestRate).toBe(50);
+    expect(tracker.getState().throttledUntil).toBeUndefined();
+
+    downloadListeners.forEach(listener =>
+      listener({ documentTitle: 'Budget', bytesDownloaded: 3 * 1024 * 1024, totalBytes: 12 * 1024 * 1024 })
+    );
+    expect(tracker.getDownloadStatus()).toBe('3.0 MB of 12.0 MB (25%)');
+  });
+});
@@ -0,0 +1,123 @@
+import { DocumentLinkRewriter, parseQuipDocumentLink } from '../../../services/local/document-link-rewriter';
+import { FolderStructureMapper } from '../../../services/local/folder-structure-mapper';
+import { DirectoryManager } from '../../../services/local/directory-manager';
+import { LocalDirectoryConfig } from '../../../services/local/types';
+import { ConsoleLogger } from '../../../core/logger';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('DocumentLinkRewriter', () => {
+  let tempDir: string;
+  let folderMapper: FolderStructureMapper;
+  let rewriter: DocumentLinkRewriter;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'quip-link-rewriter-test-'));
+
+    const logger = new ConsoleLogger('ERROR');
+    const config: LocalDirectoryConfig = {
+      baseOutputPath: tempDir,
+      preserveFolderStructure: true,
+      sanitizeFileNames: true,
+      conflictResolution: 'number'
+    };
+
+    folderMapper = new FolderStructureMapper(new DirectoryManager(config, logger), config, logger);
+    rewriter = new DocumentLinkRewriter(folderMapper, logger);
+
+    folderMapper.registerDocumentFiles(
+      { id: 'thread00001', title: 'Roadmap', secret_path: 'RoadmapAbc12' },
+      {
+        html: path.join(tempDir, 'html', 'Shared', 'Team Plans', 'Roadmap.html'),
+        markdown: path.join(tempDir, 'markdown', 'Shared', 'Team Plans', 'Roadmap.md')
+      }
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('parseQuipDocumentLink', () => {
+    it('should extract the secret path and fragment of Quip document URLs', () => {
+      expect(parseQuipDocumentLink('https://quip.com/RoadmapAbc12/Roadmap')).toEqual({
+        key: 'RoadmapAbc12',
+        fragment: undefined
+      });
+      expect(parseQuipDocumentLink('https://acme.quip.com/RoadmapAbc12#temp:C:abc')).toEqual({
+        key: 'RoadmapAbc12',
+        fragment: '#temp:C:abc'
+      });
+      expect(parseQuipDocumentLink('https://quip.com/blob/thread/blob')).toBeUndefined();
+      expect(parseQuipDocumentLink('https://example.com/RoadmapAbc12')).toBeUndefined();
+    });
+  });
+
+  describe('rewriteContent', () => {
+    it('should rewrite HTML links relative to the linking file and keep section anchors', () => {
+      const source = path.join(tempDir, 'html', 'Private', 'Notes.html');
+      const html = '<a href="https://quip.com/RoadmapAbc12/Roadmap#sec1">plan</a>' +
+        '<a href="https://quip.com/OtherDoc1234">other</a>' +
+        '<a href="https://example.com">web</a>';
+
+      const result = rewriter.rewriteContent(html, source, 'html');
+
+      expect(result.content).toBe(
+        '<a href="../Shared/Team%20Plans/Roadmap.html#sec1">plan</a>' +
+        '<a href="https://quip.com/OtherDoc1234">other</a>' +
+        '<a href="https://example.com">web</a>'
+      );
+      expect(result.rewritten).toBe(1);
+      expect(result.unresolved).toEqual(['https://quip.com/OtherDoc1234']);
+    });
+
+    it('should rewrite Markdown links and autolinks to the Markdown export', () => {
+      const source = path.join(tempDir, 'markdown', 'Shared', 'Team Plans', 'Notes.md');
+      const markdown = 'See [the roadmap](https://quip.com/RoadmapAbc12#sec1) and <https://quip.com/thread00001>.';
+
+      const result = rewriter.rewriteContent(markdown, source, 'markdown');
+
+      expect(result.content).toBe('See [the roadmap](Roadmap.md) and [https://quip.com/thread00001](Roadmap.md).');
+      expect(result.rewritten).toBe(2);
+    });
+
+    it('should write Markdown links as wiki-links relative to the vault', () => {
+      const vault = path.join(tempDir, 'markdown');
+      const source = path.join(vault, 'Private', 'Notes.md');
+      const markdown = 'See [Roadmap](https://quip.com/RoadmapAbc12), [the plan](https://quip.com/RoadmapAbc12#sec1), ' +
+        '<https://quip.com/thread00001> and ![chart](https://quip.com/RoadmapAbc12).';
+
+      const result = rewriter.rewriteContent(markdown, source, 'markdown', { wikiLinkRoot: vault });
+
+      expect(result.content).toBe(
+        'See [[Shared/Team Plans/Roadmap]], [[Shared/Team Plans/Roadmap|the plan]], ' +
+        '[[Shared/Team Plans/Roadmap]] and ![chart](https://quip.com/RoadmapAbc12).'
+      );
+      expect(result.rewritten).toBe(3);
+    });
+  });
+
+  describe('rewriteFiles', () => {
+    it('should update exported HTML and Markdown files and report unresolved links', async () => {
+      const htmlPath = path.join(tempDir, 'html', 'Notes.html');
+      const docxPath = path.join(tempDir, 'docx', 'Notes.docx');
+      await fs.mkdir(path.dirname(htmlPath), { recursive: true });
+      await fs.writeFile(htmlPath, '<a href="https://quip.com/RoadmapAbc12">a</a><a href="https://quip.com/Missing12345">b</a>');
+
+      const result = await rewriter.rewriteFiles([
+        { documentId: 'notes', documentTitle: 'Notes', filePath: htmlPath },
+        { documentId: 'notes', documentTitle: 'Notes', filePath: docxPath }
+      ]);
+
+      expect(result.filesUpdated).toBe(1);
+      expect(result.linksRewritten).toBe(1);
+      expect(result.unresolvedLinks).toEqual([
+        { documentId: 'notes', documentTitle: 'Notes', filePath: htmlPath, url: 'https://quip.com/Missing12345' }
+      ]);
+      expect(await fs.readFile(htmlPath, 'utf-8')).toBe(
+        '<a href="Shared/Team%20Plans/Roadmap.html">a</a><a href="https://quip.com/Missing12345">b</a>'
+      );
+    });
+  });
+});
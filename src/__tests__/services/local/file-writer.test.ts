@@ -264,6 +264,40 @@ describe('FileWriter', () => {
       expect(finalProgress.bytesWritten).toBe(largeContent.length);
     });
 
+    it('should move a streamed download into place', async () => {
+      const sourcePath = path.join(tempDir, 'download.tmp');
+      await fs.writeFile(sourcePath, 'streamed xlsx');
+
+      const result = await fileWriter.writeDocument(path.join(tempDir, 'out'), {
+        fileName: 'Budget',
+        sourceFile: { path: sourcePath, size: 13, sha256: 'abc' },
+        documentType: 'SPREADSHEET',
+        exportFormat: 'xlsx'
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.filePath).toBe(path.join(tempDir, 'out', 'Budget.xlsx'));
+      expect(result.size).toBe(13);
+      expect(result.sha256).toBe('abc');
+      expect(await fs.readFile(result.filePath!, 'utf8')).toBe('streamed xlsx');
+      await expect(fs.access(sourcePath)).rejects.toThrow();
+    });
+
+    it('should reject a streamed download of the wrong size and remove it', async () => {
+      const sourcePath = path.join(tempDir, 'download.tmp');
+      await fs.writeFile(sourcePath, 'truncated');
+
+      const result = await fileWriter.writeDocument(tempDir, {
+        fileName: 'Spec.docx',
+        sourceFile: { path: sourcePath, size: 4096 },
+        exportFormat: 'docx'
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('File size mismatch');
+      expect(await fs.readdir(tempDir)).toEqual([]);
+    });
+
     it('should handle undefined content gracefully', async () => {
       const result = await fileWriter.writeDocument(tempDir, {
         fileName: 'test.html',
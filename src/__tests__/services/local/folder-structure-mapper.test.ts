@@ -312,6 +312,24 @@ describe('FolderStructureMapper', () => {
     });
   });
 
+  describe('Document Link Registry', () => {
+    it('should resolve documents by thread ID, secret path and link', () => {
+      const files = { html: path.join(tempDir, 'Private', 'Spec.html') };
+      folderMapper.registerDocumentFiles(
+        { id: 'thread12345', title: 'Spec', secret_path: 'AbCdEfGhIjKl', link: 'https://acme.quip.com/ZyXwVuTsRqPo/Spec' },
+        files
+      );
+
+      expect(folderMapper.resolveDocumentLink('thread12345')!.files).toEqual(files);
+      expect(folderMapper.resolveDocumentLink('AbCdEfGhIjKl')!.documentTitle).toBe('Spec');
+      expect(folderMapper.resolveDocumentLink('ZyXwVuTsRqPo')!.documentId).toBe('thread12345');
+      expect(folderMapper.resolveDocumentLink('unknown')).toBeUndefined();
+
+      folderMapper.clearMappings();
+      expect(folderMapper.resolveDocumentLink('thread12345')).toBeUndefined();
+    });
+  });
+
   describe('Folder Path Validation', () => {
     it('should validate correct folder paths', () => {
       const result = folderMapper.validateQuipFolderPath('Private/Projects/Important');
@@ -0,0 +1,100 @@
+import { GitRepository } from '../../../services/local/git-repository';
+import { DirectoryManager } from '../../../services/local/directory-manager';
+import { ConsoleLogger } from '../../../core/logger';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('GitRepository', () => {
+  let tempDir: string;
+  let repository: GitRepository;
+  const logger = new ConsoleLogger('ERROR');
+
+  const git = (...args: string[]): string => execFileSync('git', args, { cwd: tempDir, encoding: 'utf-8' });
+
+  const writeExportedFile = async (relativePath: string, content: string): Promise<void> => {
+    const filePath = path.join(tempDir, relativePath);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'quip-git-repository-test-'));
+    repository = new GitRepository(tempDir, logger);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should initialize the repository once', async () => {
+    expect(await repository.initialize()).toBe(true);
+    expect(await repository.initialize()).toBe(false);
+    expect((await fs.stat(path.join(tempDir, '.git'))).isDirectory()).toBe(true);
+  });
+
+  it('should stage only Markdown and HTML files outside the trash and the reports', async () => {
+    await repository.initialize();
+    await writeExportedFile('Engineering/Design Doc.md', '# Design');
+    await writeExportedFile('Engineering/Design Doc.html', '<h1>Design</h1>');
+    await writeExportedFile('Engineering/Budget.xlsx', 'xlsx');
+    await writeExportedFile('manifest.json', '{}');
+    await writeExportedFile('.trash/2026-01-01T00-00-00/Old.md', '# Old');
+    await writeExportedFile('_reports/export-report.html', '<h1>Report</h1>');
+
+    const changes = await repository.stageExportedFiles();
+
+    expect(changes).toEqual([
+      { path: 'Engineering/Design Doc.html', status: 'added' },
+      { path: 'Engineering/Design Doc.md', status: 'added' }
+    ]);
+  });
+
+  it('should commit changes with the given author and report deletions', async () => {
+    await repository.initialize();
+    await writeExportedFile('Notes.md', 'first');
+    await writeExportedFile('Old.md', 'old');
+    await repository.stageExportedFiles();
+
+    const first = await repository.commit('First export\n', { name: 'Ada Lovelace', email: 'ada@example.com' });
+
+    expect(first).toMatch(/^[0-9a-f]{40}$/);
+    expect(git('log', '-1', '--format=%an <%ae>|%s')).toBe('Ada Lovelace <ada@example.com>|First export\n');
+
+    await writeExportedFile('Notes.md', 'second');
+    await fs.rm(path.join(tempDir, 'Old.md'));
+
+    expect(await repository.stageExportedFiles()).toEqual([
+      { path: 'Notes.md', status: 'modified' },
+      { path: 'Old.md', status: 'deleted' }
+    ]);
+    expect(await repository.commit('Second export\n')).not.toBe(first);
+    expect(git('rev-list', '--count', 'HEAD').trim()).toBe('2');
+  });
+
+  it('should not commit when nothing changed', async () => {
+    await repository.initialize();
+    await writeExportedFile('Budget.xlsx', 'xlsx');
+
+    expect(await repository.stageExportedFiles()).toEqual([]);
+    expect(await repository.commit('Empty export\n')).toBeNull();
+  });
+
+  it('should be initialized with the base directory in git output mode', async () => {
+    const outputDirectory = path.join(tempDir, 'export');
+    const directoryManager = new DirectoryManager(
+      {
+        baseOutputPath: outputDirectory,
+        preserveFolderStructure: true,
+        sanitizeFileNames: true,
+        conflictResolution: 'number',
+        gitRepository: true
+      },
+      logger
+    );
+
+    expect((await directoryManager.initializeBaseDirectory()).success).toBe(true);
+    expect((await fs.stat(path.join(outputDirectory, '.git'))).isDirectory()).toBe(true);
+  });
+});
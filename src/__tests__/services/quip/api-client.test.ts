@@ -2,6 +2,11 @@ import { QuipApiClient } from '../../../services/quip/api-client';
 import { AuthManager } from '../../../auth/auth-manager';
 import { ConsoleLogger } from '../../../core/logger';
 import { QuipAuthConfig } from '../../../auth/types';
+import { RateLimitLedger } from '../../../services/quip/rate-limit-ledger';
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
 
 // Mock fetch globally
 global.fetch = jest.fn();
@@ -168,5 +173,291 @@ describe('QuipApiClient Core Functionality', () => {
     });
   });
 
+  describe('Blob Downloads', () => {
+    it('should download a blob with its content type and file name', async () => {
+      mockAuthManager.getValidToken.mockResolvedValue('personal-token');
+
+      const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({
+          'Content-Type': 'image/png',
+          'Content-Disposition': 'attachment; filename="diagram.png"'
+        }),
+        arrayBuffer: async () => new Uint8Array([1, 2, 3]).buffer
+      } as Response);
+
+      const result = await apiClient.downloadBlob('thread1', 'blob1');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://platform.quip.com/1/blob/thread1/blob1',
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'Authorization': 'Bearer personal-token' })
+        })
+      );
+      expect(result.success).toBe(true);
+      expect(result.data!.data).toEqual(Buffer.from([1, 2, 3]));
+      expect(result.data!.contentType).toBe('image/png');
+      expect(result.data!.fileName).toBe('diagram.png');
+    });
+
+    it('should not retry missing blobs', async () => {
+      mockAuthManager.getValidToken.mockResolvedValue('personal-token');
+
+      const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        headers: new Headers(),
+        text: async () => 'Not found'
+      } as Response);
+
+      const result = await apiClient.downloadBlob('thread1', 'missing');
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(result.success).toBe(false);
+      expect(result.statusCode).toBe(404);
+    });
+  });
+
+  describe('Streamed Exports', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'quip-api-client-test-'));
+      mockAuthManager.getValidToken.mockResolvedValue('personal-token');
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should stream a large export to a temp file, hashing it on the way', async () => {
+      const content = Buffer.alloc(3000, 'x');
+      const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+      mockFetch.mockResolvedValueOnce(new Response(content, { headers: { 'Content-Length': '3000' } }));
+      const progress: number[] = [];
+
+      const result = await apiClient.streamSpreadsheetXlsx('sheet1', {
+        tempDirectory: tempDir,
+        streamThreshold: 1024,
+        onProgress: update => progress.push(update.bytesDownloaded)
+      });
+
+      expect(mockFetch).toHaveBeenCalledWith('https://platform.quip.com/1/threads/sheet1/export/xlsx', expect.anything());
+      expect(result.success).toBe(true);
+      expect(result.data!.data).toBeUndefined();
+      const file = result.data!.file!;
+      expect(path.dirname(file.path)).toBe(tempDir);
+      expect(await fs.readFile(file.path)).toEqual(content);
+      expect(file.size).toBe(3000);
+      expect(file.sha256).toBe(crypto.createHash('sha256').update(content).digest('hex'));
+      expect(progress[progress.length - 1]).toBe(3000);
+    });
+
+    it('should read a small export into memory', async () => {
+      const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+      mockFetch.mockResolvedValueOnce(new Response(Buffer.from('docx'), { headers: { 'Content-Length': '4' } }));
+
+      const result = await apiClient.streamDocumentDocx('doc1', { tempDirectory: tempDir });
+
+      expect(result.data!.data).toEqual(Buffer.from('docx'));
+      expect(result.data!.file).toBeUndefined();
+      expect(await fs.readdir(tempDir)).toEqual([]);
+    });
+
+    it('should remove the temp file of a download that breaks off', async () => {
+      const brokenBody = () => new ReadableStream({
+        start(controller) {
+          controller.enqueue(new Uint8Array(2048));
+          controller.error(new Error('connection reset'));
+        }
+      });
+      const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+      mockFetch.mockImplementation(async () => new Response(brokenBody()));
+      jest.spyOn(apiClient as any, 'sleep').mockResolvedValue(undefined);
+
+      const result = await apiClient.streamDocumentDocx('doc1', { tempDirectory: tempDir });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('connection reset');
+      expect(await fs.readdir(tempDir)).toEqual([]);
+      mockFetch.mockReset();
+    });
+  });
+
+  describe('Batched Lookups', () => {
+    it('should look up several threads in one request', async () => {
+      mockAuthManager.getValidToken.mockResolvedValue('personal-token');
+
+      const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ doc1: { thread: { id: 'doc1' } }, doc2: { thread: { id: 'doc2' } } })
+      } as Response);
+
+      const result = await apiClient.getThreads(['doc1', 'doc2']);
+
+      expect(mockFetch).toHaveBeenCalledWith('https://platform.quip.com/1/threads/?ids=doc1%2Cdoc2', expect.anything());
+      expect(Object.keys(result.data!)).toEqual(['doc1', 'doc2']);
+    });
+
+    it('should key a single folder by its ID', async () => {
+      mockAuthManager.getValidToken.mockResolvedValue('personal-token');
+
+      const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ folder: { id: 'folder1', title: 'Specs' }, children: [{ thread_id: 'doc1' }] })
+      } as Response);
+
+      const result = await apiClient.getFolders(['folder1']);
+
+      expect(mockFetch).toHaveBeenCalledWith('https://platform.quip.com/1/folders/?ids=folder1', expect.anything());
+      expect(result.data!.folder1.children).toEqual([{ thread_id: 'doc1' }]);
+    });
+
+    it('should key a single user by its ID', async () => {
+      mockAuthManager.getValidToken.mockResolvedValue('personal-token');
+
+      const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        json: async () => ({ id: 'user1', name: 'Ada Lovelace', emails: ['ada@example.com'] })
+      } as Response);
+
+      const result = await apiClient.getUsers(['user1']);
+
+      expect(mockFetch).toHaveBeenCalledWith('https://platform.quip.com/1/users/?ids=user1', expect.anything());
+      expect(result.data).toEqual({ user1: { id: 'user1', name: 'Ada Lovelace', emails: ['ada@example.com'] } });
+    });
+  });
+
+  describe('Rate Limiting', () => {
+    let tempDir: string;
+
+    beforeEach(async () => {
+      tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'quip-api-client-test-'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+
+    it('should record the budget Quip reports in its rate limit headers', async () => {
+      mockAuthManager.getValidToken.mockResolvedValue('personal-token');
+      const ledger = new RateLimitLedger(path.join(tempDir, 'rate-limit.json'));
+      const client = new QuipApiClient(mockAuthManager, logger, undefined, undefined, ledger);
+      const resetAt = Math.floor(Date.now() / 1000) + 60;
+
+      const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        status: 200,
+        headers: new Headers({
+          'X-Ratelimit-Limit': '50',
+          'X-Ratelimit-Remaining': '40',
+          'X-Ratelimit-Reset': String(resetAt),
+          'X-Company-RateLimit-Limit': '600',
+          'X-Company-RateLimit-Remaining': '12',
+          'X-Company-RateLimit-Reset': String(resetAt)
+        }),
+        json: async () => ({ id: 'user1' })
+      } as Response);
+
+      await client.getCurrentUser();
+
+      const status = await ledger.getStatus();
+      expect(status.quipRemaining).toBe(12);
+      expect(status.quipResetAt).toEqual(new Date(resetAt * 1000));
+    });
+  });
+
+  describe('Thread Messages', () => {
+    const message = (id: string, createdUsec: number) => ({
+      id,
+      author_id: 'user1',
+      created_usec: createdUsec,
+      text: `message ${id}`
+    });
+
+    it('should page back through messages and return them oldest first', async () => {
+      mockAuthManager.getValidToken.mockResolvedValue('personal-token');
+
+      const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => [message('m4', 400), message('m3', 300)]
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => [message('m3', 300), message('m2', 200)]
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => [message('m1', 100)]
+        } as Response);
+
+      const result = await apiClient.getThreadMessages('thread1', 2);
+
+      expect(result.success).toBe(true);
+      expect(result.data!.map(m => m.id)).toEqual(['m1', 'm2', 'm3', 'm4']);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(mockFetch.mock.calls[0][0]).toBe('https://platform.quip.com/1/messages/thread1?count=2');
+      expect(mockFetch.mock.calls[1][0]).toBe(
+        'https://platform.quip.com/1/messages/thread1?count=2&max_created_usec=300'
+      );
+    });
+
+    it('should stop paging once messages are older than the requested range', async () => {
+      mockAuthManager.getValidToken.mockResolvedValue('personal-token');
+
+      const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => [message('m4', 400), message('m3', 300)]
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          status: 200,
+          json: async () => [message('m3', 300), message('m2', 200)]
+        } as Response);
+
+      const result = await apiClient.getThreadMessages('thread1', 2, { sinceUsec: 250, untilUsec: 350 });
+
+      expect(result.data!.map(m => m.id)).toEqual(['m3']);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        'https://platform.quip.com/1/messages/thread1?count=2&max_created_usec=350'
+      );
+    });
+
+    it('should return an error when a page cannot be retrieved', async () => {
+      mockAuthManager.getValidToken.mockResolvedValue('personal-token');
+
+      const mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 403,
+        text: async () => 'Forbidden'
+      } as Response);
+
+      const result = await apiClient.getThreadMessages('thread1');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('HTTP 403: Forbidden');
+    });
+  });
+
   // PDF export functionality has been removed
 });
\ No newline at end of file
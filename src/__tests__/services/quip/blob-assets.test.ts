@@ -0,0 +1,119 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { BlobAssetManager, findBlobReferences } from '../../../services/quip/blob-assets';
+import { ConsoleLogger } from '../../../core/logger';
+
+describe('Blob assets', () => {
+  describe('findBlobReferences', () => {
+    it('should find relative and absolute Quip blob links once each', () => {
+      const html =
+        '<img src="/blob/thread1/blobA">' +
+        '<a href="https://acme.quip.com/blob/thread1/blobB?name=spec.pdf">spec</a>' +
+        "<img src='/blob/thread1/blobA'>" +
+        '<a href="https://example.com/blob/x/y">external</a>';
+
+      expect(findBlobReferences(html)).toEqual([
+        { url: '/blob/thread1/blobA', threadId: 'thread1', blobId: 'blobA' },
+        {
+          url: 'https://acme.quip.com/blob/thread1/blobB?name=spec.pdf',
+          threadId: 'thread1',
+          blobId: 'blobB'
+        }
+      ]);
+    });
+  });
+
+  describe('BlobAssetManager', () => {
+    let outputDirectory: string;
+    let apiClient: any;
+    let manager: BlobAssetManager;
+
+    beforeEach(async () => {
+      outputDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'blob-assets-'));
+      apiClient = {
+        downloadBlob: jest.fn(async (_threadId: string, blobId: string) =>
+          blobId === 'missing'
+            ? { success: false, error: 'HTTP 404: Not found', statusCode: 404 }
+            : {
+                success: true,
+                data: { data: Buffer.from(`bytes-${blobId}`), contentType: 'image/png' },
+                statusCode: 200
+              }
+        )
+      };
+      manager = new BlobAssetManager(apiClient, new ConsoleLogger('ERROR'));
+    });
+
+    afterEach(async () => {
+      await fs.rm(outputDirectory, { recursive: true, force: true });
+    });
+
+    it('should download blobs into the document assets folder and rewrite links', async () => {
+      const documentDirectory = path.join(outputDirectory, 'Private', 'Specs');
+      const html = '<p><img src="/blob/thread1/blobA"></p>';
+
+      const result = await manager.localizeHtml(html, 'doc1', { outputDirectory, documentDirectory });
+
+      expect(result.html).toBe('<p><img src="../../_assets/doc1/blobA.png"></p>');
+      expect(result.assets).toHaveLength(1);
+      expect(result.assets[0]).toMatchObject({ blobId: 'blobA', reused: false, fileSize: 11 });
+
+      const content = await fs.readFile(path.join(outputDirectory, '_assets', 'doc1', 'blobA.png'));
+      expect(content.toString()).toBe('bytes-blobA');
+    });
+
+    it('should download a blob shared by several documents only once', async () => {
+      const html = '<img src="/blob/thread1/blobA">';
+
+      await manager.localizeHtml(html, 'doc1', { outputDirectory, documentDirectory: outputDirectory });
+      const second = await manager.localizeHtml(html, 'doc2', {
+        outputDirectory,
+        documentDirectory: path.join(outputDirectory, 'Shared')
+      });
+
+      expect(apiClient.downloadBlob).toHaveBeenCalledTimes(1);
+      expect(second.assets[0].reused).toBe(true);
+      expect(second.html).toBe('<img src="../_assets/doc1/blobA.png">');
+    });
+
+    it('should download blobs into a custom assets folder', async () => {
+      const html = '<img src="/blob/thread1/blobA">';
+
+      const result = await manager.localizeHtml(html, 'doc1', {
+        outputDirectory,
+        documentDirectory: path.join(outputDirectory, 'Shared'),
+        directoryName: 'attachments'
+      });
+
+      expect(result.html).toBe('<img src="../attachments/doc1/blobA.png">');
+      const content = await fs.readFile(path.join(outputDirectory, 'attachments', 'doc1', 'blobA.png'));
+      expect(content.toString()).toBe('bytes-blobA');
+    });
+
+    it('should keep the original link when a blob cannot be downloaded', async () => {
+      const html = '<img src="/blob/thread1/missing"><img src="/blob/thread1/blobA">';
+
+      const result = await manager.localizeHtml(html, 'doc1', {
+        outputDirectory,
+        documentDirectory: outputDirectory
+      });
+
+      expect(result.html).toBe('<img src="/blob/thread1/missing"><img src="_assets/doc1/blobA.png">');
+      expect(result.assets[0].error).toBe('HTTP 404: Not found');
+    });
+
+    it('should retry a failed download for the next document unless the blob is missing', async () => {
+      apiClient.downloadBlob.mockResolvedValueOnce({ success: false, error: 'HTTP 503: Over rate limit', statusCode: 503 });
+      const html = '<img src="/blob/thread1/blobA"><img src="/blob/thread1/missing">';
+
+      const first = await manager.localizeHtml(html, 'doc1', { outputDirectory, documentDirectory: outputDirectory });
+      const second = await manager.localizeHtml(html, 'doc2', { outputDirectory, documentDirectory: outputDirectory });
+
+      expect(first.assets[0].error).toBe('HTTP 503: Over rate limit');
+      expect(second.assets[0]).toMatchObject({ reused: false, filePath: expect.stringContaining('blobA.png') });
+      expect(second.assets[1]).toMatchObject({ reused: true, error: 'HTTP 404: Not found' });
+      expect(apiClient.downloadBlob).toHaveBeenCalledTimes(3);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import {
+  ChatExporter,
+  parseTranscriptRange,
+  renderChatTranscriptHtml
+} from '../../../services/quip/chat-exporter';
+import { ConsoleLogger } from '../../../core/logger';
+import { QuipDocument } from '../../../types';
+
+describe('ChatExporter', () => {
+  const chat: QuipDocument = {
+    id: 'chat1',
+    title: 'Team Chat',
+    type: 'CHAT',
+    created_usec: 1700000000000000,
+    updated_usec: 1700000000000000,
+    author_id: 'user1',
+    owning_company_id: null,
+    link: 'https://quip.com/chat1',
+    secret_path: 'secret1',
+    is_template: false,
+    is_deleted: false
+  };
+
+  let apiClient: any;
+  let exporter: ChatExporter;
+
+  beforeEach(() => {
+    apiClient = {
+      getThreadMessages: jest.fn().mockResolvedValue({
+        success: true,
+        data: [
+          {
+            id: 'm1',
+            author_id: 'user1',
+            author_name: 'Alice',
+            created_usec: 1705314720000000, // 2024-01-15 10:32 UTC
+            text: 'Release is out <3',
+            reactions: [{ emoji: '🎉', user_ids: ['user2', 'user3'] }]
+          },
+          {
+            id: 'm2',
+            author_id: 'user2',
+            created_usec: 1705400000000000, // 2024-01-16 10:13 UTC
+            updated_usec: 1705400060000000,
+            text: 'Notes attached',
+            files: [{ hash: 'blob1', name: 'notes.pdf' }]
+          },
+          { id: 'm3', author_id: 'user2', created_usec: 1705400010000000, text: 'removed', visible: false }
+        ],
+        statusCode: 200
+      }),
+      getUsers: jest.fn().mockResolvedValue({
+        success: true,
+        data: { user2: { id: 'user2', name: 'Bob' } },
+        statusCode: 200
+      })
+    };
+    exporter = new ChatExporter(apiClient, new ConsoleLogger('ERROR'));
+  });
+
+  it('should export visible messages with sender names, attachments and reactions', async () => {
+    const result = await exporter.exportTranscript(chat);
+
+    expect(result.success).toBe(true);
+    expect(apiClient.getUsers).toHaveBeenCalledWith(['user2', 'user3']);
+    expect(result.transcript!.messageCount).toBe(2);
+    expect(result.transcript!.messages).toEqual([
+      {
+        id: 'm1',
+        senderId: 'user1',
+        senderName: 'Alice',
+        sentAt: '2024-01-15T10:32:00.000Z',
+        editedAt: undefined,
+        text: 'Release is out <3',
+        attachments: [],
+        reactions: [{ emoji: '🎉', users: ['Bob', 'user3'] }]
+      },
+      {
+        id: 'm2',
+        senderId: 'user2',
+        senderName: 'Bob',
+        sentAt: '2024-01-16T10:13:20.000Z',
+        editedAt: '2024-01-16T10:14:20.000Z',
+        text: 'Notes attached',
+        attachments: [{ hash: 'blob1', name: 'notes.pdf', url: '/blob/chat1/blob1' }],
+        reactions: []
+      }
+    ]);
+    expect(JSON.parse(result.json!.toString('utf-8')).title).toBe('Team Chat');
+  });
+
+  it('should limit the messages to the date range', async () => {
+    const result = await exporter.exportTranscript(chat, { since: '2024-01-15', until: '2024-01-15' });
+
+    expect(apiClient.getThreadMessages).toHaveBeenCalledWith('chat1', 100, {
+      sinceUsec: 1705276800000000,
+      untilUsec: 1705363199999000
+    });
+    expect(result.transcript!.since).toBe('2024-01-15T00:00:00.000Z');
+    expect(result.transcript!.until).toBe('2024-01-15T23:59:59.999Z');
+  });
+
+  it('should reject invalid date ranges', async () => {
+    expect(() => parseTranscriptRange({ since: 'yesterday' })).toThrow('Invalid chat since date: yesterday');
+    expect(parseTranscriptRange({ until: '2024-01-15T12:00:00Z' })).toEqual({
+      sinceUsec: undefined,
+      untilUsec: 1705320000000000
+    });
+
+    const result = await exporter.exportTranscript(chat, { since: '2024-02-01', until: '2024-01-01' });
+    expect(result.success).toBe(false);
+    expect(apiClient.getThreadMessages).not.toHaveBeenCalled();
+  });
+
+  it('should render the transcript as HTML grouped by day', async () => {
+    const { transcript } = await exporter.exportTranscript(chat);
+
+    const html = renderChatTranscriptHtml(transcript!);
+
+    expect(html).toContain('<p>2 messages</p>');
+    expect(html.indexOf('<h2>2024-01-15</h2>')).toBeLessThan(html.indexOf('<h2>2024-01-16</h2>'));
+    expect(html).toContain('<h3>Alice — 10:32 UTC</h3>\n<p>Release is out &lt;3</p>');
+    expect(html).toContain('<p class="reactions">Reactions: 🎉 Bob, user3</p>');
+    expect(html).toContain('<h3>Bob — 10:13 UTC (edited)</h3>');
+    expect(html).toContain('<li><a href="/blob/chat1/blob1">notes.pdf</a></li>');
+  });
+});
@@ -0,0 +1,138 @@
+import { CommentExporter, renderCommentsMarkdown } from '../../../services/quip/comment-exporter';
+import { ConsoleLogger } from '../../../core/logger';
+import { QuipDocument } from '../../../types';
+
+describe('CommentExporter', () => {
+  const document: QuipDocument = {
+    id: 'doc1',
+    title: 'Design Doc',
+    type: 'DOCUMENT',
+    created_usec: 1700000000000000,
+    updated_usec: 1700000000000000,
+    author_id: 'user1',
+    owning_company_id: null,
+    link: 'https://quip.com/doc1',
+    secret_path: 'secret1',
+    is_template: false,
+    is_deleted: false
+  };
+
+  let apiClient: any;
+  let exporter: CommentExporter;
+
+  beforeEach(() => {
+    apiClient = {
+      getThreadMessages: jest.fn().mockResolvedValue({
+        success: true,
+        data: [
+          {
+            id: 'm1',
+            author_id: 'user1',
+            author_name: 'Alice',
+            created_usec: 1705314720000000,
+            text: 'Should we rename this?',
+            annotation: { id: 'a1', highlight_section_ids: ['sec1'] }
+          },
+          {
+            id: 'm2',
+            author_id: 'user2',
+            author_name: 'Bob',
+            created_usec: 1705318320000000,
+            text: 'Looks good overall',
+            files: [{ hash: 'f1', name: 'notes.pdf' }]
+          },
+          { id: 'm3', author_id: 'user2', created_usec: 1705318330000000, text: 'deleted', visible: false }
+        ],
+        statusCode: 200
+      }),
+      exportDocumentHtml: jest.fn().mockResolvedValue({
+        success: true,
+        data: '<h1 id="sec1">Architecture   overview</h1><p id="sec2">Body</p>',
+        statusCode: 200
+      })
+    };
+    exporter = new CommentExporter(apiClient, new ConsoleLogger('ERROR'));
+  });
+
+  it('should export visible messages with authors, timestamps and anchored sections', async () => {
+    const result = await exporter.exportComments(document);
+
+    expect(result.success).toBe(true);
+    expect(result.comments).toHaveLength(2);
+    expect(result.comments[0]).toEqual({
+      id: 'm1',
+      authorId: 'user1',
+      authorName: 'Alice',
+      createdAt: '2024-01-15T10:32:00.000Z',
+      updatedAt: undefined,
+      text: 'Should we rename this?',
+      section: { id: 'sec1', text: 'Architecture overview' },
+      files: []
+    });
+    expect(apiClient.exportDocumentHtml).toHaveBeenCalledWith('secret1');
+
+    const json = JSON.parse(result.json!.toString('utf-8'));
+    expect(json.documentId).toBe('doc1');
+    expect(json.messageCount).toBe(2);
+    expect(json.messages[1].files).toEqual([{ hash: 'f1', name: 'notes.pdf' }]);
+  });
+
+  it('should render a readable markdown transcript', async () => {
+    const result = await exporter.exportComments(document);
+
+    expect(result.markdown!.toString('utf-8')).toBe(
+      [
+        '# Comments on Design Doc',
+        '',
+        '_2 messages_',
+        '',
+        '### Alice — 2024-01-15 10:32:00 UTC',
+        '',
+        '> On "Architecture overview"',
+        '',
+        'Should we rename this?',
+        '',
+        '### Bob — 2024-01-15 11:32:00 UTC',
+        '',
+        'Looks good overall',
+        '',
+        'Attachments: notes.pdf',
+        ''
+      ].join('\n')
+    );
+  });
+
+  it('should not fetch the document when no comment is anchored', async () => {
+    apiClient.getThreadMessages.mockResolvedValue({ success: true, data: [], statusCode: 200 });
+
+    const result = await exporter.exportComments({ ...document, type: 'CHAT' });
+
+    expect(apiClient.exportDocumentHtml).not.toHaveBeenCalled();
+    expect(result.markdown!.toString('utf-8')).toBe('# Conversation: Design Doc\n\n_No messages._\n');
+  });
+
+  it('should report message retrieval failures', async () => {
+    apiClient.getThreadMessages.mockResolvedValue({ success: false, error: 'HTTP 403: Forbidden', statusCode: 403 });
+
+    const result = await exporter.exportComments(document);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('HTTP 403: Forbidden');
+  });
+
+  it('should keep anchors without excerpts when the section is not found', () => {
+    const markdown = renderCommentsMarkdown(document, [
+      {
+        id: 'm1',
+        authorId: 'user1',
+        authorName: 'Alice',
+        createdAt: '2024-01-15T10:32:00.000Z',
+        text: 'Hi',
+        section: { id: 'gone' },
+        files: []
+      }
+    ]);
+
+    expect(markdown).toContain('> On section gone');
+  });
+});
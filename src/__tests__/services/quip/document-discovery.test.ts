@@ -43,6 +43,8 @@ describe('DocumentDiscovery', () => {
       getFolderContents: jest.fn(),
       searchDocuments: jest.fn(),
       getDocumentMetadata: jest.fn(),
+      getThreads: jest.fn(),
+      getFolders: jest.fn(),
     } as any;
 
     logger = new ConsoleLogger('ERROR'); // Suppress logs during tests
@@ -317,6 +319,196 @@ describe('DocumentDiscovery', () => {
     });
   });
 
+  describe('Folder Paths', () => {
+    // private: Private > Engineering > Platform > RFCs; desktop: Private, Engineering
+    const folderContents: { [folderId: string]: any } = {
+      'private-1': { folder: { id: 'private-1', title: 'Private' }, children: [{ thread_id: 'doc-root' }, { folder_id: 'eng-1' }] },
+      'eng-1': { folder: { id: 'eng-1', title: 'Engineering', parent_id: 'private-1' }, children: [{ folder_id: 'platform-1' }] },
+      'platform-1': { folder: { id: 'platform-1', title: 'Platform', parent_id: 'eng-1' }, children: [{ folder_id: 'rfcs-1' }, { thread_id: 'doc-shared' }] },
+      'rfcs-1': { folder: { id: 'rfcs-1', title: 'RFCs', parent_id: 'platform-1' }, children: [{ thread_id: 'doc-rfc' }, { thread_id: 'doc-shared' }] },
+      'desktop-1': { folder: { id: 'desktop-1', title: 'Desktop' }, children: [{ folder_id: 'private-1' }, { folder_id: 'team-1' }] },
+      'team-1': { folder: { id: 'team-1', title: 'Team' }, children: [{ thread_id: 'doc-team' }, { thread_id: 'doc-rfc' }] },
+    };
+
+    beforeEach(() => {
+      mockApiClient.getCurrentUser.mockResolvedValue({
+        success: true,
+        data: {
+          id: 'user-123',
+          name: 'Test User',
+          private_folder_id: 'private-1',
+          desktop_folder_id: 'desktop-1',
+          folders: []
+        },
+        statusCode: 200,
+      });
+      mockApiClient.getFolderContents.mockImplementation(async (folderId: string) =>
+        folderContents[folderId]
+          ? { success: true, data: folderContents[folderId], statusCode: 200 }
+          : { success: false, error: 'HTTP 404: Not found', statusCode: 404 }
+      );
+      mockApiClient.getDocumentMetadata.mockImplementation(async (documentId: string) => ({
+        success: true,
+        data: { ...mockDocument, id: documentId, title: documentId },
+        statusCode: 200,
+      }));
+      mockApiClient.getThreads.mockImplementation(async (threadIds: string[]) => ({
+        success: true,
+        data: Object.fromEntries(threadIds.map(id => [id, { thread: { ...mockDocument, id, title: id } }])),
+        statusCode: 200,
+      }));
+      mockApiClient.getFolders.mockImplementation(async (folderIds: string[]) => ({
+        success: true,
+        data: Object.fromEntries(folderIds.filter(id => folderContents[id]).map(id => [id, folderContents[id]])),
+        statusCode: 200,
+      }));
+    });
+
+    // Threads and folders looked up one by one or in batches
+    const fetchedThreadIds = (): string[] => [
+      ...mockApiClient.getDocumentMetadata.mock.calls.map(([id]) => id),
+      ...mockApiClient.getThreads.mock.calls.flatMap(([ids]) => ids),
+    ];
+    const fetchedFolderIds = (): string[] => [
+      ...mockApiClient.getFolderContents.mock.calls.map(([id]) => id),
+      ...mockApiClient.getFolders.mock.calls.flatMap(([ids]) => ids),
+    ];
+
+    it('should resolve the full ancestor path of every document', async () => {
+      const result = await documentDiscovery.discoverDocuments();
+
+      const paths = Object.fromEntries(result.documents.map(doc => [doc.document.id, doc.folderPath]));
+      expect(paths).toEqual({
+        'doc-root': 'Private',
+        'doc-shared': 'Private/Engineering/Platform',
+        'doc-rfc': 'Private/Engineering/Platform/RFCs',
+        'doc-team': 'Team',
+      });
+      expect(result.folders.map(folder => folder.path)).toEqual(['Private', 'Team']);
+      expect(result.folders[0].children[0].children[0].children[0].path).toBe('Private/Engineering/Platform/RFCs');
+    });
+
+    it('should export documents filed in several folders once with all their paths', async () => {
+      const result = await documentDiscovery.discoverDocuments();
+
+      expect(result.documents).toHaveLength(4);
+      const rfc = result.documents.find(doc => doc.document.id === 'doc-rfc')!;
+      expect(rfc.folderPaths).toEqual(['Private/Engineering/Platform/RFCs', 'Team']);
+      const shared = result.documents.find(doc => doc.document.id === 'doc-shared')!;
+      expect(shared.folderPaths).toEqual(['Private/Engineering/Platform', 'Private/Engineering/Platform/RFCs']);
+    });
+
+    it('should look up threads and folders in batches, each once per run', async () => {
+      await documentDiscovery.discoverDocuments();
+
+      // Only the root folders are fetched one by one
+      expect(mockApiClient.getFolderContents.mock.calls.map(([id]) => id)).toEqual(['private-1', 'desktop-1']);
+      expect(mockApiClient.getFolders.mock.calls).toEqual([[['eng-1']], [['platform-1']], [['rfcs-1']], [['team-1']]]);
+      expect(mockApiClient.getThreads.mock.calls).toEqual([
+        [['doc-root']],
+        [['doc-shared']],
+        [['doc-rfc']],
+        [['doc-team']],
+      ]);
+      expect(mockApiClient.getDocumentMetadata).not.toHaveBeenCalled();
+    });
+
+    it('should look up threads one by one when a batch misses them', async () => {
+      mockApiClient.getThreads.mockResolvedValue({ success: false, error: 'HTTP 500: Server error', statusCode: 500 });
+
+      const result = await documentDiscovery.discoverDocuments();
+
+      expect(result.documents.find(doc => doc.document.id === 'doc-rfc')!.document.title).toBe('doc-rfc');
+      expect(mockApiClient.getDocumentMetadata.mock.calls.map(([id]) => id).sort()).toEqual([
+        'doc-rfc',
+        'doc-root',
+        'doc-shared',
+        'doc-team',
+      ]);
+    });
+
+    it('should resolve nested paths when discovery is limited', async () => {
+      const result = await documentDiscovery.discoverDocuments({ maxDocuments: 3 });
+
+      expect(result.documents.map(doc => [doc.document.id, doc.folderPath])).toEqual([
+        ['doc-root', 'Private'],
+        ['doc-shared', 'Private/Engineering/Platform'],
+        ['doc-rfc', 'Private/Engineering/Platform/RFCs'],
+      ]);
+      expect(fetchedFolderIds()).not.toContain('team-1');
+    });
+
+    it('should report a reached limit and folders that failed to load', async () => {
+      expect((await documentDiscovery.discoverDocuments()).failedFolderIds).toEqual([]);
+      expect((await documentDiscovery.discoverDocuments({ maxDocuments: 3 })).limitReached).toBe(true);
+
+      documentDiscovery.clearCache();
+      mockApiClient.getFolderContents.mockImplementation(async (folderId: string) =>
+        folderId === 'desktop-1'
+          ? { success: false, error: 'HTTP 503: Over rate limit', statusCode: 503 }
+          : { success: true, data: folderContents[folderId], statusCode: 200 }
+      );
+      const result = await documentDiscovery.discoverDocuments();
+
+      expect(result.failedFolderIds).toEqual(['desktop-1']);
+      expect(result.documents.map(doc => doc.document.id)).not.toContain('doc-team');
+    });
+
+    it('should start discovery from the selected folders with their full paths', async () => {
+      const result = await documentDiscovery.discoverDocuments({
+        includeFolders: ['platform-1'],
+      });
+
+      expect(result.documents.map(doc => [doc.document.id, doc.folderPath])).toEqual([
+        ['doc-shared', 'Private/Engineering/Platform'],
+        ['doc-rfc', 'Private/Engineering/Platform/RFCs'],
+      ]);
+      expect(fetchedFolderIds()).not.toContain('desktop-1');
+      expect(fetchedThreadIds()).not.toContain('doc-root');
+    });
+
+    it('should prune excluded folders before fetching their threads', async () => {
+      const result = await documentDiscovery.discoverDocuments({
+        excludeFolders: ['team-1'],
+        excludePatterns: ['Private/Engineering/Platform/**'],
+      });
+
+      expect(result.documents.map(doc => doc.document.id)).toEqual(['doc-root']);
+      expect(fetchedThreadIds()).not.toContain('doc-rfc');
+      expect(fetchedThreadIds()).not.toContain('doc-team');
+    });
+
+    it('should apply folder selection when discovery is limited', async () => {
+      const result = await documentDiscovery.discoverDocuments({
+        maxDocuments: 5,
+        excludePatterns: ['**/RFCs'],
+      });
+
+      // doc-rfc is also filed in Team, which is not excluded
+      expect(result.documents.map(doc => [doc.document.id, doc.folderPath])).toEqual([
+        ['doc-root', 'Private'],
+        ['doc-shared', 'Private/Engineering/Platform'],
+        ['doc-team', 'Team'],
+        ['doc-rfc', 'Team'],
+      ]);
+      expect(result.documents[1].folderPaths).toEqual(['Private/Engineering/Platform']);
+    });
+
+    it('should follow parent folders for documents outside discovery', async () => {
+      mockApiClient.searchDocuments.mockResolvedValue({
+        success: true,
+        data: {
+          'doc-rfc': { thread: { ...mockDocument, id: 'doc-rfc', title: 'RFC' }, shared_folder_ids: ['rfcs-1'] },
+        } as any,
+        statusCode: 200,
+      });
+
+      const result = await documentDiscovery.searchDocuments('RFC');
+
+      expect(result[0].folderPath).toBe('Private/Engineering/Platform/RFCs');
+    });
+  });
+
   describe('Document Search', () => {
     it('should search documents by query', async () => {
       mockApiClient.searchDocuments.mockResolvedValue({
@@ -369,6 +561,25 @@ describe('DocumentDiscovery', () => {
       expect(mockApiClient.getDocumentMetadata).toHaveBeenCalledWith('doc-123');
     });
 
+    it('should get the metadata of several documents in batches', async () => {
+      mockApiClient.getThreads.mockImplementation(async (threadIds: string[]) => ({
+        success: true,
+        data: Object.fromEntries(
+          threadIds.map(id => [id, { thread: { ...mockDocument, id, secret_path: `secret-${id}` } }])
+        ),
+        statusCode: 200,
+      }));
+      const ids = Array.from({ length: 30 }, (_, i) => `doc-${i}`);
+
+      const result = await documentDiscovery.getDocumentsMetadata([...ids, 'doc-0']);
+      await documentDiscovery.getDocumentsMetadata(['doc-1', 'secret-doc-2']);
+
+      expect(result.size).toBe(30);
+      expect(result.get('doc-29')!.secret_path).toBe('secret-doc-29');
+      expect(mockApiClient.getThreads.mock.calls.map(([batch]) => batch.length)).toEqual([25, 5]);
+      expect(mockApiClient.getDocumentMetadata).not.toHaveBeenCalled();
+    });
+
     it('should cache document metadata', async () => {
       mockApiClient.getDocumentMetadata.mockResolvedValue({
         success: true,
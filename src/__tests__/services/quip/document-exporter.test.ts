@@ -2,6 +2,9 @@ import { DocumentExporter } from '../../../services/quip/document-exporter';
 import { QuipApiClient } from '../../../services/quip/api-client';
 import { ConsoleLogger } from '../../../core/logger';
 import { QuipDocument } from '../../../types';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
 
 import { FormatValidator } from '../../../core/format-validator';
 
@@ -34,7 +37,11 @@ describe('DocumentExporter', () => {
       exportDocumentDocx: jest.fn(),
       exportDocumentHtml: jest.fn(),
       exportSpreadsheetXlsx: jest.fn(),
-
+      streamDocumentDocx: jest.fn(),
+      streamSpreadsheetXlsx: jest.fn(),
+      downloadBlob: jest.fn(),
+      getThreadMessages: jest.fn(),
+      getUsers: jest.fn(),
     } as any;
 
     logger = new ConsoleLogger('ERROR'); // Suppress logs during tests
@@ -82,6 +89,31 @@ describe('DocumentExporter', () => {
       expect(mockApiClient.exportSpreadsheetXlsx).toHaveBeenCalledWith('doc-123');
     });
 
+    it('should return the temp file of a streamed XLSX export instead of its content', async () => {
+      const spreadsheetDoc = { ...mockDocument, type: 'SPREADSHEET' as const };
+      const file = { path: '/tmp/quip-download-1.tmp', size: 5000000, sha256: 'abc' };
+      mockApiClient.streamSpreadsheetXlsx.mockResolvedValue({
+        success: true,
+        data: { file },
+        statusCode: 200,
+      });
+      const download = { onProgress: jest.fn() };
+
+      const result = await documentExporter.exportDocument(spreadsheetDoc, {
+        preferredFormat: 'native',
+        fallbackToHtml: false,
+        includeMetadata: true,
+        download,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.format).toBe('xlsx');
+      expect(result.file).toBe(file);
+      expect(result.content).toBeUndefined();
+      expect(mockApiClient.streamSpreadsheetXlsx).toHaveBeenCalledWith('doc-123', download);
+      expect(mockApiClient.exportSpreadsheetXlsx).not.toHaveBeenCalled();
+    });
+
     it('should choose HTML for CHAT type', async () => {
       // Requirement 3.2: System SHALL preserve original format when possible
       const chatDoc = { ...mockDocument, type: 'CHAT' as const };
@@ -293,6 +325,8 @@ describe('DocumentExporter', () => {
       expect(documentExporter.getFileExtension('native', 'SPREADSHEET')).toBe('.xlsx');
       expect(documentExporter.getFileExtension('html')).toBe('.html');
       expect(documentExporter.getFileExtension('markdown')).toBe('.md');
+      expect(documentExporter.getFileExtension('csv')).toBe('.csv');
+      expect(documentExporter.getFileExtension('json')).toBe('.json');
     });
 
     it('should generate correct MIME types', () => {
@@ -300,6 +334,8 @@ describe('DocumentExporter', () => {
       expect(documentExporter.getMimeType('native', 'SPREADSHEET')).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
       expect(documentExporter.getMimeType('html')).toBe('text/html');
       expect(documentExporter.getMimeType('markdown')).toBe('text/markdown');
+      expect(documentExporter.getMimeType('csv')).toBe('text/csv');
+      expect(documentExporter.getMimeType('json')).toBe('application/json');
     });
 
     it('should sanitize filenames', () => {
@@ -320,9 +356,12 @@ describe('DocumentExporter', () => {
       expect(documentExporter.isValidExportFormat('DOCUMENT', 'markdown')).toBe(true);
       expect(documentExporter.isValidExportFormat('DOCUMENT', 'invalid')).toBe(false);
       
-      // SPREADSHEET type supports native and html
+      // SPREADSHEET type supports native, html, and per-sheet csv and json
       expect(documentExporter.isValidExportFormat('SPREADSHEET', 'native')).toBe(true);
       expect(documentExporter.isValidExportFormat('SPREADSHEET', 'html')).toBe(true);
+      expect(documentExporter.isValidExportFormat('SPREADSHEET', 'csv')).toBe(true);
+      expect(documentExporter.isValidExportFormat('SPREADSHEET', 'json')).toBe(true);
+      expect(documentExporter.isValidExportFormat('DOCUMENT', 'csv')).toBe(false);
       expect(documentExporter.isValidExportFormat('SPREADSHEET', 'markdown')).toBe(false);
       expect(documentExporter.isValidExportFormat('SPREADSHEET', 'invalid')).toBe(false);
       
@@ -441,6 +480,215 @@ describe('DocumentExporter', () => {
     });
   });
 
+  describe('Embedded Assets', () => {
+    let outputDirectory: string;
+
+    beforeEach(async () => {
+      outputDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'exporter-assets-'));
+      mockApiClient.exportDocumentHtml.mockResolvedValue({
+        success: true,
+        data: '<p>Diagram:</p><img src="/blob/doc-123/blob-1">',
+        statusCode: 200,
+      });
+      mockApiClient.downloadBlob.mockResolvedValue({
+        success: true,
+        data: { data: Buffer.from('png'), contentType: 'image/png' },
+        statusCode: 200,
+      });
+    });
+
+    afterEach(async () => {
+      await fs.rm(outputDirectory, { recursive: true, force: true });
+    });
+
+    it('should point markdown images at downloaded local copies', async () => {
+      const result = await documentExporter.exportDocument(mockDocument, {
+        preferredFormat: 'markdown',
+        fallbackToHtml: false,
+        includeMetadata: true,
+        assets: { outputDirectory, documentDirectory: path.join(outputDirectory, 'markdown') },
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.content!.toString('utf-8')).toContain('![](../_assets/doc-123/blob-1.png)');
+      expect(result.assets).toHaveLength(1);
+      expect(mockApiClient.downloadBlob).toHaveBeenCalledWith('doc-123', 'blob-1');
+    });
+
+    it('should leave blob links untouched without asset options', async () => {
+      const result = await documentExporter.exportDocument(mockDocument, {
+        preferredFormat: 'html',
+        fallbackToHtml: false,
+        includeMetadata: true,
+      });
+
+      expect(result.content!.toString('utf-8')).toContain('src="/blob/doc-123/blob-1"');
+      expect(mockApiClient.downloadBlob).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Front Matter', () => {
+    const document = { ...mockDocument, created_usec: 1700000000000000, updated_usec: 1710000000000000 };
+
+    beforeEach(() => {
+      mockApiClient.exportDocumentHtml.mockResolvedValue({
+        success: true,
+        data: '<h1>Test Document</h1>',
+        statusCode: 200,
+      });
+    });
+
+    it('should start markdown with YAML front matter when enabled', async () => {
+      const result = await documentExporter.exportDocument(document, {
+        preferredFormat: 'markdown',
+        fallbackToHtml: false,
+        includeMetadata: true,
+        folderPath: 'Engineering/Specs',
+        formatSpecificOptions: {
+          markdown: { imageHandling: 'separate', preserveComments: false, frontMatter: true },
+        },
+      });
+
+      const markdown = result.content!.toString('utf-8');
+      expect(markdown.startsWith([
+        '---',
+        'id: "doc-123"',
+        'title: "Test Document"',
+        'link: "https://quip.com/doc-123"',
+        'author_id: "user-123"',
+        'created: "2023-11-14T22:13:20.000Z"',
+        'updated: "2024-03-09T16:00:00.000Z"',
+        'type: "DOCUMENT"',
+        'folder_path: "Engineering/Specs"',
+        '---',
+        '',
+        ''
+      ].join('\n'))).toBe(true);
+      expect(markdown).toContain('# Test Document');
+    });
+
+    it('should leave markdown without front matter by default', async () => {
+      const result = await documentExporter.exportDocument(document, {
+        preferredFormat: 'markdown',
+        fallbackToHtml: false,
+        includeMetadata: true,
+      });
+
+      expect(result.content!.toString('utf-8')).not.toContain('---');
+    });
+  });
+
+  describe('Chat Transcripts', () => {
+    const chatDoc = { ...mockDocument, type: 'CHAT' as const, title: 'Team Chat' };
+
+    beforeEach(() => {
+      mockApiClient.getThreadMessages.mockResolvedValue({
+        success: true,
+        data: [
+          { id: 'm1', author_id: 'user-1', author_name: 'Alice', created_usec: 1705314720000000, text: 'Hello team' },
+        ],
+        statusCode: 200,
+      });
+    });
+
+    it('should render chats from their messages when transcripts are enabled', async () => {
+      const result = await documentExporter.exportDocument(chatDoc, {
+        preferredFormat: 'markdown',
+        fallbackToHtml: false,
+        includeMetadata: true,
+        chat: { since: '2024-01-01' },
+      });
+
+      expect(result.success).toBe(true);
+      expect(mockApiClient.exportDocumentHtml).not.toHaveBeenCalled();
+      expect(mockApiClient.getThreadMessages.mock.calls[0][2]).toEqual({ sinceUsec: 1704067200000000, untilUsec: undefined });
+
+      const markdown = result.content!.toString('utf-8');
+      expect(markdown).toContain('## 2024-01-15');
+      expect(markdown).toContain('### Alice — 10:32 UTC');
+      expect(markdown).toContain('Hello team');
+    });
+
+    it('should export the JSON transcript of a chat', async () => {
+      const result = await documentExporter.exportChatTranscript(chatDoc);
+
+      expect(result.success).toBe(true);
+      expect(JSON.parse(result.json!.toString('utf-8')).messages[0].senderName).toBe('Alice');
+    });
+  });
+
+  describe('Spreadsheet Sheets', () => {
+    const spreadsheet = { ...mockDocument, type: 'SPREADSHEET' as const, title: 'Budget' };
+
+    beforeEach(() => {
+      mockApiClient.exportDocumentHtml.mockResolvedValue({
+        success: true,
+        data: '<table title="Q1"><tr><td>Item</td><td>Cost</td></tr><tr><td>Laptop</td><td>1200</td></tr></table>' +
+          '<table title="Q2"><tr><td>Item</td><td>Cost</td></tr><tr><td>Desk</td><td>300</td></tr></table>',
+        statusCode: 200,
+      });
+    });
+
+    it('should export every sheet as CSV', async () => {
+      const result = await documentExporter.exportDocument(spreadsheet, {
+        preferredFormat: 'csv',
+        fallbackToHtml: false,
+        includeMetadata: true,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.format).toBe('csv');
+      expect(result.content!.toString('utf-8')).toBe('Item,Cost\r\nLaptop,1200\r\n');
+      expect(result.sheets!.map(sheet => sheet.name)).toEqual(['Q1', 'Q2']);
+      expect(result.sheets![1].content.toString('utf-8')).toBe('Item,Cost\r\nDesk,300\r\n');
+    });
+
+    it('should export sheets as JSON arrays without a header row', async () => {
+      const result = await documentExporter.exportDocument(spreadsheet, {
+        preferredFormat: 'json',
+        fallbackToHtml: false,
+        includeMetadata: true,
+        formatSpecificOptions: { spreadsheet: { headerRow: false } },
+      });
+
+      expect(JSON.parse(result.content!.toString('utf-8'))).toEqual([['Item', 'Cost'], ['Laptop', '1200']]);
+    });
+
+    it('should reject CSV export for documents', async () => {
+      const result = await documentExporter.exportDocument(mockDocument, {
+        preferredFormat: 'csv',
+        fallbackToHtml: false,
+        includeMetadata: true,
+      });
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('Standalone HTML', () => {
+    it('should export a complete page with breadcrumbs for the folder', async () => {
+      mockApiClient.exportDocumentHtml.mockResolvedValue({
+        success: true,
+        data: '<h1>Test</h1><p>Content</p>',
+        statusCode: 200,
+      });
+
+      const result = await documentExporter.exportDocument(mockDocument, {
+        preferredFormat: 'html-standalone',
+        fallbackToHtml: false,
+        includeMetadata: true,
+        navigationPath: 'Engineering',
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.format).toBe('html-standalone');
+      const html = result.content!.toString('utf-8');
+      expect(html).toContain('<title>Test Document</title>');
+      expect(html).toContain('<a href="../_index.html">All documents</a>');
+      expect(html).toContain('<main>\n<h1>Test</h1><p>Content</p>\n</main>');
+    });
+  });
+
   // Multi-format export functionality has been removed - only single format exports are supported
 
   describe('Format Validation and Dependency Management', () => {
@@ -453,7 +701,7 @@ describe('DocumentExporter', () => {
       }, ['DOCUMENT']);
 
       expect(validation.valid).toBe(true);
-      expect(validation.capabilities).toHaveLength(3); // All supported formats
+      expect(validation.capabilities).toHaveLength(6); // All supported formats
       expect(validation.errors).toHaveLength(0);
     });
 
@@ -490,7 +738,7 @@ describe('DocumentExporter', () => {
     it('should check format availability and dependencies', async () => {
       const capabilities = await documentExporter.getFormatCapabilities();
       
-      expect(capabilities).toHaveLength(3);
+      expect(capabilities).toHaveLength(6);
       
       // Native formats should be available
       const nativeFormats = ['native', 'html', 'native', 'native'];
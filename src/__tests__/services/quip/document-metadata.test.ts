@@ -0,0 +1,47 @@
+import { renderFrontMatter, renderMetadataSidecar } from '../../../services/quip/document-metadata';
+import { QuipDocument } from '../../../types';
+
+describe('Document metadata', () => {
+  const document: QuipDocument = {
+    id: 'doc-123',
+    title: 'Q3 "Roadmap": draft',
+    type: 'SPREADSHEET',
+    created_usec: 1700000000000000,
+    updated_usec: 1710000000000000,
+    author_id: 'user-123',
+    owning_company_id: null,
+    link: 'https://quip.com/abc123',
+    secret_path: 'abc123',
+    is_template: false,
+    is_deleted: false
+  };
+
+  it('should quote strings in the front matter and leave out empty fields', () => {
+    const frontMatter = renderFrontMatter({ ...document, author_id: '', link: '' });
+
+    expect(frontMatter).toBe(
+      [
+        '---',
+        'id: "doc-123"',
+        'title: "Q3 \\"Roadmap\\": draft"',
+        'created: "2023-11-14T22:13:20.000Z"',
+        'updated: "2024-03-09T16:00:00.000Z"',
+        'type: "SPREADSHEET"',
+        '---',
+        '',
+        ''
+      ].join('\n')
+    );
+  });
+
+  it('should write the Quip fields with readable timestamps to the sidecar', () => {
+    const sidecar = JSON.parse(renderMetadataSidecar(document, 'Finance/Planning').toString('utf-8'));
+
+    expect(sidecar).toEqual({
+      ...document,
+      created: '2023-11-14T22:13:20.000Z',
+      updated: '2024-03-09T16:00:00.000Z',
+      folder_path: 'Finance/Planning'
+    });
+  });
+});
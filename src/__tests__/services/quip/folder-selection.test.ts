@@ -0,0 +1,54 @@
+import { FolderSelection, folderPatternToRegExp, parseFolderReference } from '../../../services/quip/folder-selection';
+
+describe('Folder selection', () => {
+  describe('parseFolderReference', () => {
+    it('should accept folder IDs and Quip folder URLs', () => {
+      expect(parseFolderReference(' AbCdEf123456 ')).toBe('AbCdEf123456');
+      expect(parseFolderReference('https://quip.com/AbCdEf123456/Engineering')).toBe('AbCdEf123456');
+      expect(parseFolderReference('https://acme.quip.com/AbCdEf123456')).toBe('AbCdEf123456');
+      expect(parseFolderReference('https://example.com/AbCdEf123456')).toBeUndefined();
+      expect(parseFolderReference('Engineering/Platform')).toBeUndefined();
+    });
+  });
+
+  describe('folderPatternToRegExp', () => {
+    it('should match folder paths with glob wildcards', () => {
+      const archive = folderPatternToRegExp('Archive/**');
+      expect(archive.test('Archive')).toBe(true);
+      expect(archive.test('Archive/2019/Q1')).toBe(true);
+      expect(archive.test('Archived')).toBe(false);
+
+      const drafts = folderPatternToRegExp('**/Drafts');
+      expect(drafts.test('Drafts')).toBe(true);
+      expect(drafts.test('Private/Notes/Drafts')).toBe(true);
+      expect(drafts.test('Private/Drafts/Old')).toBe(false);
+
+      const quarter = folderPatternToRegExp('Reports/Q?-*');
+      expect(quarter.test('Reports/Q1-2024')).toBe(true);
+      expect(quarter.test('Reports/Q1-2024/Final')).toBe(false);
+      expect(folderPatternToRegExp('Team (old)').test('Team (old)')).toBe(true);
+    });
+  });
+
+  describe('FolderSelection', () => {
+    it('should exclude folders by ID, URL or path pattern', () => {
+      const selection = new FolderSelection({
+        includeFolders: ['https://quip.com/Root12345678/Team', 'Root12345678'],
+        excludeFolders: ['https://quip.com/Skip12345678'],
+        excludePatterns: ['Private/Archive/**']
+      });
+
+      expect(selection.includeFolderIds).toEqual(['Root12345678']);
+      expect(selection.hasIncludedFolders()).toBe(true);
+      expect(selection.isExcluded('Skip12345678', 'Team/Skipped')).toBe(true);
+      expect(selection.isExcluded('folder-1', 'Private/Archive/2019')).toBe(true);
+      expect(selection.isExcluded('folder-2', 'Private/Current')).toBe(false);
+    });
+
+    it('should reject invalid folder references', () => {
+      expect(() => new FolderSelection({ includeFolders: ['https://example.com/folder'] })).toThrow(
+        'Invalid folder ID or URL: https://example.com/folder'
+      );
+    });
+  });
+});
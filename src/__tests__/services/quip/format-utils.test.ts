@@ -0,0 +1,11 @@
+import { escapeHtml, usecToIso } from '../../../services/quip/format-utils';
+
+describe('Format utilities', () => {
+  it('should escape markup and quotes in HTML text', () => {
+    expect(escapeHtml('<a href="x">Q&A</a>')).toBe('&lt;a href=&quot;x&quot;&gt;Q&amp;A&lt;/a&gt;');
+  });
+
+  it('should convert Quip microsecond timestamps to ISO dates', () => {
+    expect(usecToIso(1700000000123456)).toBe('2023-11-14T22:13:20.123Z');
+  });
+});
@@ -0,0 +1,175 @@
+import { CASSETTE_REDACTED_TOKEN, HttpCassette } from '../../../services/quip/http-cassette';
+import { QuipApiClient } from '../../../services/quip/api-client';
+import { RateLimitLedger } from '../../../services/quip/rate-limit-ledger';
+import { AuthManager } from '../../../auth/auth-manager';
+import { ConsoleLogger } from '../../../core/logger';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('HttpCassette', () => {
+  const token = 'secret-token-123';
+  const logger = new ConsoleLogger('ERROR');
+  const originalFetch = global.fetch;
+  let mockFetch: jest.Mock;
+  let tempDir: string;
+  let cassetteDir: string;
+
+  const jsonResponse = (body: unknown, status = 200): Response =>
+    new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+
+  beforeEach(async () => {
+    mockFetch = jest.fn();
+    global.fetch = mockFetch;
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'quip-cassette-test-'));
+    cassetteDir = path.join(tempDir, 'cassette');
+  });
+
+  afterEach(async () => {
+    global.fetch = originalFetch;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should record requests and responses with the token redacted', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ id: 'user1', echo: token }));
+    const cassette = await HttpCassette.open('record', cassetteDir, logger);
+
+    const response = await cassette.fetch(`https://platform.quip.com/1/users/current?token=${token}`, {
+      headers: { Authorization: `Bearer ${token}` }
+    });
+
+    // The caller still gets the real response
+    expect(await response.json()).toEqual({ id: 'user1', echo: token });
+
+    const files = await fs.readdir(cassetteDir);
+    expect(files).toEqual(['00001-GET-1-users-current.json']);
+    const saved = await fs.readFile(path.join(cassetteDir, files[0]), 'utf8');
+    expect(saved).not.toContain(token);
+
+    const interaction = JSON.parse(saved);
+    expect(interaction.request.headers.authorization).toBe(`Bearer ${CASSETTE_REDACTED_TOKEN}`);
+    expect(interaction.response.status).toBe(200);
+    expect(interaction.response.bodyEncoding).toBe('utf8');
+  });
+
+  it('should record binary bodies as base64 and continue the sequence of an existing cassette', async () => {
+    const docx = Buffer.from([0x50, 0x4b, 0x03, 0x04, 0xff]);
+    mockFetch.mockResolvedValueOnce(jsonResponse({ id: 'user1' }));
+    mockFetch.mockResolvedValueOnce(new Response(docx, { headers: { 'Content-Type': 'application/octet-stream' } }));
+
+    // An interaction is saved once the caller has read the response body
+    await (await (await HttpCassette.open('record', cassetteDir)).fetch('https://platform.quip.com/1/users/current')).text();
+    await (
+      await (await HttpCassette.open('record', cassetteDir)).fetch('https://platform.quip.com/1/threads/abc/export/docx')
+    ).arrayBuffer();
+
+    const files = await fs.readdir(cassetteDir);
+    expect(files.sort()).toEqual(['00001-GET-1-users-current.json', '00002-GET-1-threads-abc-export-docx.json']);
+
+    const replay = await HttpCassette.open('replay', cassetteDir);
+    const response = await replay.fetch('https://platform.quip.com/1/threads/abc/export/docx');
+    expect(Buffer.from(await response.arrayBuffer())).toEqual(docx);
+  });
+
+  it('should stream the body to the caller while recording it', async () => {
+    let source!: ReadableStreamDefaultController<Uint8Array>;
+    const body = new ReadableStream<Uint8Array>({ start: controller => (source = controller) });
+    mockFetch.mockResolvedValue(new Response(body, { headers: { 'Content-Type': 'application/octet-stream' } }));
+
+    const cassette = await HttpCassette.open('record', cassetteDir);
+    const reader = (await cassette.fetch('https://platform.quip.com/1/blob/abc/def')).body!.getReader();
+
+    // The first chunk reaches the caller before the download has finished
+    source.enqueue(new Uint8Array([1, 2]));
+    expect(Buffer.from((await reader.read()).value!)).toEqual(Buffer.from([1, 2]));
+
+    source.enqueue(new Uint8Array([3]));
+    source.close();
+    expect(Buffer.from((await reader.read()).value!)).toEqual(Buffer.from([3]));
+    expect((await reader.read()).done).toBe(true);
+
+    const [file] = await fs.readdir(cassetteDir);
+    const interaction = JSON.parse(await fs.readFile(path.join(cassetteDir, file), 'utf8'));
+    expect(Buffer.from(interaction.response.body, 'base64')).toEqual(Buffer.from([1, 2, 3]));
+  });
+
+  it('should replay responses in recorded order without network access', async () => {
+    mockFetch.mockResolvedValueOnce(jsonResponse({ error: 'Over rate limit' }, 503));
+    mockFetch.mockResolvedValueOnce(jsonResponse({ id: 'user1' }));
+    const recorder = await HttpCassette.open('record', cassetteDir);
+    await (await recorder.fetch('https://platform.quip.com/1/users/current')).text();
+    await (await recorder.fetch('https://platform.quip.com/1/users/current')).text();
+    mockFetch.mockClear();
+
+    // Matched by path and query, so another domain replays the same cassette
+    const cassette = await HttpCassette.open('replay', cassetteDir, logger);
+    const statuses = [];
+    for (let i = 0; i < 3; i++) {
+      statuses.push((await cassette.fetch('https://platform.quip-enterprise.com/1/users/current')).status);
+    }
+
+    // Once the recorded responses run out, the last one repeats
+    expect(statuses).toEqual([503, 200, 200]);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should answer requests missing from the cassette with 404', async () => {
+    mockFetch.mockResolvedValue(jsonResponse({ id: 'user1' }));
+    await (await (await HttpCassette.open('record', cassetteDir)).fetch('https://platform.quip.com/1/users/current')).text();
+    mockFetch.mockClear();
+
+    const cassette = await HttpCassette.open('replay', cassetteDir, logger);
+    const response = await cassette.fetch('https://platform.quip.com/1/threads/unknown', { method: 'POST' });
+
+    expect(response.status).toBe(404);
+    expect(await response.text()).toContain('POST /1/threads/unknown');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should refuse to replay a missing or empty cassette', async () => {
+    await expect(HttpCassette.open('replay', cassetteDir)).rejects.toThrow('Cassette directory not found');
+
+    await fs.mkdir(cassetteDir);
+    await expect(HttpCassette.open('replay', cassetteDir)).rejects.toThrow('No recorded requests in cassette');
+  });
+
+  it('should let the API client replay a session recorded with a token', async () => {
+    const authManager = { getValidToken: jest.fn().mockResolvedValue(null) } as unknown as AuthManager;
+    const ledgerPath = path.join(tempDir, 'rate-limit.json');
+    const authConfig = {
+      domain: 'quip.com',
+      baseUrl: 'https://platform.quip.com',
+      tokenUrl: 'https://quip.com/dev/token',
+      personalAccessToken: token
+    };
+
+    mockFetch.mockResolvedValue(jsonResponse({ id: 'user1', name: 'Test User' }));
+    const recordingClient = new QuipApiClient(
+      authManager,
+      logger,
+      authConfig,
+      undefined,
+      new RateLimitLedger(ledgerPath),
+      await HttpCassette.open('record', cassetteDir)
+    );
+    expect((await recordingClient.getCurrentUser()).success).toBe(true);
+    mockFetch.mockClear();
+
+    // Replaying needs neither a token nor the request budget
+    const replayLedger = new RateLimitLedger(path.join(tempDir, 'replay-rate-limit.json'));
+    const replayClient = new QuipApiClient(
+      authManager,
+      logger,
+      undefined,
+      undefined,
+      replayLedger,
+      await HttpCassette.open('replay', cassetteDir)
+    );
+    const result = await replayClient.getCurrentUser();
+
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({ id: 'user1', name: 'Test User' });
+    expect(mockFetch).not.toHaveBeenCalled();
+    await expect(fs.access(path.join(tempDir, 'replay-rate-limit.json'))).rejects.toThrow();
+  });
+});
@@ -0,0 +1,126 @@
+import { QuipMarkdownConverter } from '../../../services/quip/format-converters/markdown-converter';
+import { FormatConverterRegistry } from '../../../services/quip/format-converters';
+
+describe('QuipMarkdownConverter', () => {
+  let converter: QuipMarkdownConverter;
+
+  beforeEach(() => {
+    converter = new QuipMarkdownConverter();
+  });
+
+  describe('converter registration', () => {
+    it('should convert documents and chats to markdown only', () => {
+      expect(converter.canConvert('DOCUMENT', 'markdown')).toBe(true);
+      expect(converter.canConvert('CHAT', 'markdown')).toBe(true);
+      expect(converter.canConvert('SPREADSHEET', 'markdown')).toBe(false);
+      expect(converter.canConvert('DOCUMENT', 'html')).toBe(false);
+    });
+
+    it('should be registered in the default registry', async () => {
+      const registry = FormatConverterRegistry.createDefault();
+
+      const result = await registry.convert('DOCUMENT', 'markdown', '<h1>Title</h1>');
+
+      expect(result.success).toBe(true);
+      expect(result.content!.toString('utf-8')).toBe('# Title\n');
+    });
+  });
+
+  describe('headings and paragraphs', () => {
+    it('should convert headings with the configured style', () => {
+      const html = '<h1>Title</h1><h2>Section</h2><h3>Detail</h3><p>Body text</p>';
+
+      expect(converter.convertHtml(html)).toBe(
+        '# Title\n\n## Section\n\n### Detail\n\nBody text\n'
+      );
+      expect(converter.convertHtml(html, { headingStyle: 'setext' })).toBe(
+        'Title\n=====\n\nSection\n-------\n\n### Detail\n\nBody text\n'
+      );
+    });
+
+    it('should convert inline formatting and line breaks', () => {
+      const html =
+        '<p>Some <b>bold</b>, <i>italic</i>, <del>gone</del> and <code>a_b</code> text<br/>next line</p>';
+
+      expect(converter.convertHtml(html)).toBe(
+        'Some **bold**, *italic*, ~~gone~~ and `a_b` text  \nnext line\n'
+      );
+    });
+
+    it('should escape markdown characters in text', () => {
+      const html = '<p>Use *stars* and [brackets] with snake_case</p><p># not a heading</p>';
+
+      expect(converter.convertHtml(html)).toBe(
+        'Use \\*stars\\* and \\[brackets\\] with snake\\_case\n\n\\# not a heading\n'
+      );
+    });
+
+    it('should skip empty Quip paragraphs', () => {
+      const html = '<p class="line">First</p><p class="line"><br></p><p class="line">Second</p>';
+
+      expect(converter.convertHtml(html)).toBe('First\n\nSecond\n');
+    });
+  });
+
+  describe('lists', () => {
+    it('should convert nested lists using the configured bullet marker', () => {
+      const html =
+        '<ul><li>One<ul><li>One A</li></ul></li><li>Two</li></ul>' +
+        '<ol><li>First</li><li>Second<ol><li>Inner</li></ol></li></ol>';
+
+      expect(converter.convertHtml(html, { bulletMarker: '*' })).toBe(
+        '* One\n  * One A\n* Two\n\n1. First\n2. Second\n   1. Inner\n'
+      );
+    });
+
+    it('should handle Quip sibling-nested lists', () => {
+      const html =
+        '<div data-section-style="5"><ul><li>Parent</li><ul><li>Child</li><ul><li>Grandchild</li></ul></ul><li>Next</li></ul></div>';
+
+      expect(converter.convertHtml(html)).toBe('- Parent\n  - Child\n    - Grandchild\n- Next\n');
+    });
+
+    it('should convert Quip checklists', () => {
+      const html =
+        '<div data-section-style="7"><ul><li class="checked">Done</li><li>Todo</li></ul></div>';
+
+      expect(converter.convertHtml(html)).toBe('- [x] Done\n- [ ] Todo\n');
+    });
+  });
+
+  describe('tables, code, links and images', () => {
+    it('should convert tables to GFM tables', () => {
+      const html =
+        '<table><tbody><tr><td>Name</td><td>Value</td></tr>' +
+        '<tr><td><b>a|b</b></td><td>line 1<br>line 2</td></tr><tr><td>short</td></tr></tbody></table>';
+
+      expect(converter.convertHtml(html)).toBe(
+        '| Name | Value |\n| --- | --- |\n| **a\\|b** | line 1<br>line 2 |\n| short |  |\n'
+      );
+    });
+
+    it('should convert code blocks with line breaks', () => {
+      const html = '<pre>const a = 1;<br>if (a) {<br>  run();<br>}</pre>';
+
+      expect(converter.convertHtml(html)).toBe(
+        '```\nconst a = 1;\nif (a) {\n  run();\n}\n```\n'
+      );
+    });
+
+    it('should convert links and images', () => {
+      const html =
+        '<p>See <a href="https://quip.com/abc">the spec</a></p>' +
+        '<p><img src="/blob/thread/image id" alt="Diagram"></p>';
+
+      expect(converter.convertHtml(html)).toBe(
+        'See [the spec](https://quip.com/abc)\n\n![Diagram](/blob/thread/image%20id)\n'
+      );
+    });
+
+    it('should drop images when image handling is skip', () => {
+      const html = '<p>Before<img src="/blob/a/b">After</p>';
+
+      expect(converter.convertHtml(html, { imageHandling: 'skip' })).toBe('BeforeAfter\n');
+    });
+  });
+});
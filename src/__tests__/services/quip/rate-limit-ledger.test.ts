@@ -0,0 +1,178 @@
+import {
+  parseRateLimitHeaders,
+  RateLimitLedger,
+  RATE_LIMIT_PER_HOUR,
+  RATE_LIMIT_PER_MINUTE
+} from '../../../services/quip/rate-limit-ledger';
+import { ConsoleLogger } from '../../../core/logger';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+
+describe('RateLimitLedger', () => {
+  let tempDir: string;
+  let ledgerPath: string;
+
+  const writeLedger = async (requests: number[], blockedUntil?: number): Promise<void> => {
+    await fs.writeFile(ledgerPath, JSON.stringify({ version: 1, requests, blockedUntil }));
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'quip-rate-limit-test-'));
+    ledgerPath = path.join(tempDir, 'config', 'rate-limit.json');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should record requests in a ledger shared by several instances', async () => {
+    const first = new RateLimitLedger(ledgerPath);
+    const second = new RateLimitLedger(ledgerPath);
+
+    await expect(first.reserve()).resolves.toBe(0);
+    await expect(second.reserve()).resolves.toBe(0);
+
+    const status = await new RateLimitLedger(ledgerPath).getStatus();
+    expect(status.remainingPerMinute).toBe(RATE_LIMIT_PER_MINUTE - 2);
+    expect(status.remainingPerHour).toBe(RATE_LIMIT_PER_HOUR - 2);
+    expect(status.minuteResetAt!.getTime()).toBeGreaterThan(Date.now());
+    expect(status.ledgerPath).toBe(ledgerPath);
+
+    const ledger = JSON.parse(await fs.readFile(ledgerPath, 'utf8'));
+    expect(ledger.requests).toHaveLength(2);
+    await expect(fs.access(`${ledgerPath}.lock`)).rejects.toThrow();
+  });
+
+  it('should not lose requests reserved concurrently', async () => {
+    const ledgers = Array.from({ length: 5 }, () => new RateLimitLedger(ledgerPath));
+
+    await Promise.all(ledgers.map(ledger => ledger.reserve()));
+
+    expect((await ledgers[0].getStatus()).remainingPerMinute).toBe(RATE_LIMIT_PER_MINUTE - 5);
+  });
+
+  it('should ask to wait once the minute budget is used up', async () => {
+    const now = Date.now();
+    await fs.mkdir(path.dirname(ledgerPath), { recursive: true });
+    await writeLedger([now - 2 * 60 * 60 * 1000, ...Array.from({ length: RATE_LIMIT_PER_MINUTE }, (_, i) => now - 30000 + i)]);
+    const ledger = new RateLimitLedger(ledgerPath);
+
+    const wait = await ledger.reserve();
+
+    expect(wait).toBeGreaterThan(29000);
+    expect(wait).toBeLessThanOrEqual(30000);
+    const status = await ledger.getStatus();
+    expect(status.remainingPerMinute).toBe(0);
+    expect(status.remainingPerHour).toBe(RATE_LIMIT_PER_HOUR - RATE_LIMIT_PER_MINUTE);
+  });
+
+  it('should ask to wait once the hour budget is used up', async () => {
+    const now = Date.now();
+    await fs.mkdir(path.dirname(ledgerPath), { recursive: true });
+    await writeLedger(Array.from({ length: RATE_LIMIT_PER_HOUR }, (_, i) => now - 59 * 60 * 1000 + i));
+
+    const wait = await new RateLimitLedger(ledgerPath).reserve();
+
+    expect(wait).toBeGreaterThan(59000);
+    expect(wait).toBeLessThanOrEqual(60000);
+  });
+
+  it('should make every instance back off after a 429', async () => {
+    await new RateLimitLedger(ledgerPath).recordRateLimited(5000);
+    const ledger = new RateLimitLedger(ledgerPath);
+
+    const wait = await ledger.reserve();
+
+    expect(wait).toBeGreaterThan(4000);
+    expect(wait).toBeLessThanOrEqual(5000);
+    expect((await ledger.getStatus()).blockedUntil).toBeInstanceOf(Date);
+  });
+
+  it('should pace requests evenly once Quip reports a low budget', async () => {
+    const ledger = new RateLimitLedger(ledgerPath);
+    await ledger.recordQuota({ remaining: 40, limit: 50, resetAt: Date.now() + 60000 });
+
+    await expect(ledger.reserve()).resolves.toBe(0);
+    await expect(ledger.reserve()).resolves.toBe(0);
+    expect(ledger.getRequestsPerMinute()).toBe(RATE_LIMIT_PER_MINUTE);
+
+    await ledger.recordQuota({ remaining: 10, limit: 50, resetAt: Date.now() + 60000 });
+    const wait = await ledger.reserve();
+
+    // 10 requests left for the next minute: one every 6s after the last one
+    expect(wait).toBeGreaterThan(5500);
+    expect(wait).toBeLessThanOrEqual(6000);
+    expect(ledger.getRequestsPerMinute()).toBeCloseTo(10, 0);
+    expect((await ledger.getStatus()).quipRemaining).toBe(10);
+  });
+
+  it('should wait for the reset once Quip reports no budget left', async () => {
+    const ledger = new RateLimitLedger(ledgerPath);
+    await ledger.recordQuota({ remaining: 0, resetAt: Date.now() + 20000 });
+
+    const wait = await ledger.reserve();
+
+    expect(wait).toBeGreaterThan(19000);
+    expect(wait).toBeLessThanOrEqual(20000);
+    expect(ledger.getRequestsPerMinute()).toBe(0);
+  });
+
+  it('should forget the reported budget after its reset', async () => {
+    const ledger = new RateLimitLedger(ledgerPath);
+    await ledger.recordQuota({ remaining: 0, resetAt: Date.now() - 1000 });
+
+    await expect(ledger.reserve()).resolves.toBe(0);
+    expect((await ledger.getStatus()).quipRemaining).toBeUndefined();
+  });
+
+  it('should take over a lock left behind by a crashed process', async () => {
+    await fs.mkdir(path.dirname(ledgerPath), { recursive: true });
+    await fs.writeFile(`${ledgerPath}.lock`, '');
+    const past = new Date(Date.now() - 60000);
+    await fs.utimes(`${ledgerPath}.lock`, past, past);
+
+    await expect(new RateLimitLedger(ledgerPath).reserve()).resolves.toBe(0);
+  });
+
+  it('should start over from a corrupt ledger', async () => {
+    await fs.mkdir(path.dirname(ledgerPath), { recursive: true });
+    await fs.writeFile(ledgerPath, '{"requests": [');
+
+    const ledger = new RateLimitLedger(ledgerPath);
+
+    await expect(ledger.reserve()).resolves.toBe(0);
+    expect((await ledger.getStatus()).remainingPerHour).toBe(RATE_LIMIT_PER_HOUR - 1);
+  });
+
+  it('should track requests in memory when the ledger cannot be written', async () => {
+    const blockingFile = path.join(tempDir, 'not-a-directory');
+    await fs.writeFile(blockingFile, '');
+    const ledger = new RateLimitLedger(path.join(blockingFile, 'rate-limit.json'), new ConsoleLogger('ERROR'));
+
+    await expect(ledger.reserve()).resolves.toBe(0);
+
+    const status = await ledger.getStatus();
+    expect(status.remainingPerMinute).toBe(RATE_LIMIT_PER_MINUTE - 1);
+    expect(status.ledgerPath).toBeUndefined();
+  });
+
+  describe('parseRateLimitHeaders', () => {
+    it('should read the tightest of the user and company budgets', () => {
+      const headers = new Headers({
+        'X-Ratelimit-Limit': '50',
+        'X-Ratelimit-Remaining': '3',
+        'X-Ratelimit-Reset': '1700000060',
+        'X-Company-RateLimit-Remaining': '500',
+        'X-Company-RateLimit-Reset': '1700003600'
+      });
+
+      expect(parseRateLimitHeaders(headers)).toEqual({ remaining: 3, limit: 50, resetAt: 1700000060000 });
+    });
+
+    it('should ignore responses without rate limit headers', () => {
+      expect(parseRateLimitHeaders(new Headers({ 'Content-Type': 'application/json' }))).toBeUndefined();
+      expect(parseRateLimitHeaders(undefined)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  QuipSpreadsheetConverter,
+  parseSpreadsheetHtml,
+  renderCsv,
+  renderJson
+} from '../../../services/quip/format-converters/spreadsheet-converter';
+import { FormatConverterRegistry } from '../../../services/quip/format-converters';
+
+describe('QuipSpreadsheetConverter', () => {
+  // Quip's HTML export labels the columns with letters and the rows with numbers
+  const quipSheet = (title: string, rows: string[][]): string => {
+    const columns = rows[0].map((_cell, index) => `<th>${String.fromCharCode(65 + index)}</th>`).join('');
+    const body = rows
+      .map((row, index) => `<tr><td>${index + 1}</td>${row.map(cell => `<td>${cell}</td>`).join('')}</tr>`)
+      .join('');
+    return `<table title="${title}"><thead><tr><th></th>${columns}</tr></thead><tbody>${body}</tbody></table>`;
+  };
+
+  describe('converter registration', () => {
+    it('should convert spreadsheets to its own format only', () => {
+      const csv = new QuipSpreadsheetConverter('csv');
+
+      expect(csv.canConvert('SPREADSHEET', 'csv')).toBe(true);
+      expect(csv.canConvert('SPREADSHEET', 'json')).toBe(false);
+      expect(csv.canConvert('DOCUMENT', 'csv')).toBe(false);
+      expect(csv.getName()).toBe('quip-spreadsheet-csv');
+    });
+
+    it('should be registered in the default registry for CSV and JSON', async () => {
+      const registry = FormatConverterRegistry.createDefault();
+      const html = quipSheet('Sheet1', [['Name'], ['Ada']]);
+
+      const csv = await registry.convert('SPREADSHEET', 'csv', html);
+      const json = await registry.convert('SPREADSHEET', 'json', html);
+
+      expect(csv.content!.toString('utf-8')).toBe('Name\r\nAda\r\n');
+      expect(JSON.parse(json.content!.toString('utf-8'))).toEqual([{ Name: 'Ada' }]);
+    });
+  });
+
+  describe('parsing', () => {
+    it('should read each table as a sheet without the grid labels', () => {
+      const html = quipSheet('Budget', [['Item', 'Cost'], ['Laptop', '1,200']]) +
+        quipSheet('', [['Notes']]);
+
+      expect(parseSpreadsheetHtml(html)).toEqual([
+        { name: 'Budget', rows: [['Item', 'Cost'], ['Laptop', '1,200']] },
+        { name: 'Sheet 2', rows: [['Notes']] }
+      ]);
+    });
+
+    it('should keep line breaks, expand merged cells and drop trailing empty cells', () => {
+      const html = '<table><tr><td colspan="2">Q1 <b>total</b></td><td>Status</td></tr>' +
+        '<tr><td>Line one<br>Line two</td><td></td><td>Open</td><td></td></tr>' +
+        '<tr><td></td><td></td></tr></table>';
+
+      expect(parseSpreadsheetHtml(html)[0].rows).toEqual([
+        ['Q1 total', '', 'Status'],
+        ['Line one\nLine two', '', 'Open']
+      ]);
+    });
+
+    it('should fail when the HTML has no tables', async () => {
+      const result = await new QuipSpreadsheetConverter('json').convert('<p>Empty</p>');
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('JSON conversion failed: No sheets found in the spreadsheet HTML');
+    });
+  });
+
+  describe('rendering', () => {
+    const sheet = { name: 'Sheet1', rows: [['Name', 'Note', ''], ['Ada', 'Says "hi", twice', 'x']] };
+
+    it('should quote CSV fields and add column letters without a header row', () => {
+      expect(renderCsv(sheet, true)).toBe('Name,Note,\r\nAda,"Says ""hi"", twice",x\r\n');
+      expect(renderCsv(sheet, false)).toBe('A,B,C\r\nName,Note,\r\nAda,"Says ""hi"", twice",x\r\n');
+    });
+
+    it('should key JSON rows by the header row', () => {
+      const duplicate = { name: 'Sheet1', rows: [['Name', 'Name'], ['Ada', 'Lovelace']] };
+
+      expect(JSON.parse(renderJson(sheet, true))).toEqual([{ Name: 'Ada', Note: 'Says "hi", twice', C: 'x' }]);
+      expect(JSON.parse(renderJson(duplicate, true))).toEqual([{ Name: 'Ada', Name_2: 'Lovelace' }]);
+      expect(JSON.parse(renderJson(sheet, false))).toEqual(sheet.rows);
+    });
+  });
+});
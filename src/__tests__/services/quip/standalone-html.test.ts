@@ -0,0 +1,78 @@
+import {
+  StandaloneHtmlRenderer,
+  buildBreadcrumb,
+  renderFolderIndex
+} from '../../../services/quip/standalone-html';
+import { ConsoleLogger } from '../../../core/logger';
+import { QuipDocument } from '../../../types';
+
+describe('StandaloneHtmlRenderer', () => {
+  const document: QuipDocument = {
+    id: 'doc1',
+    title: 'Design <Doc>',
+    type: 'DOCUMENT',
+    created_usec: 1700000000000000,
+    updated_usec: 1700000000000000,
+    author_id: 'user1',
+    owning_company_id: null,
+    link: 'https://acme.quip.com/doc1',
+    secret_path: 'secret1',
+    is_template: false,
+    is_deleted: false
+  };
+
+  let apiClient: any;
+  let renderer: StandaloneHtmlRenderer;
+
+  beforeEach(() => {
+    apiClient = {
+      downloadBlob: jest.fn().mockImplementation(async (_threadId: string, blobId: string) =>
+        blobId === 'missing'
+          ? { success: false, error: 'Not found', statusCode: 404 }
+          : { success: true, data: { data: Buffer.from('png'), contentType: 'image/png; charset=binary' }, statusCode: 200 }
+      )
+    };
+    renderer = new StandaloneHtmlRenderer(apiClient, new ConsoleLogger('ERROR'));
+  });
+
+  it('should wrap the document in a styled page with inlined images', async () => {
+    const html = await renderer.render(
+      document,
+      '<html><head><title>x</title></head><body><h1>Design</h1>' +
+        '<img src="/blob/doc1/img1"><img src="/blob/doc1/missing">' +
+        '<a href="/blob/doc1/file1">spec.pdf</a><a href="https://example.com">Site</a></body></html>',
+      'Engineering/Specs'
+    );
+
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<title>Design &lt;Doc&gt;</title>');
+    expect(html).toContain('<style>');
+    expect(html).toContain(`<img src="data:image/png;base64,${Buffer.from('png').toString('base64')}">`);
+    expect(html).toContain('<img src="/blob/doc1/missing">');
+    expect(html).toContain('<a href="https://acme.quip.com/blob/doc1/file1">spec.pdf</a>');
+    expect(html).toContain('<a href="https://example.com">Site</a>');
+    expect(html).toContain('Exported from <a href="https://acme.quip.com/doc1">Quip</a>');
+    expect(html.match(/<body>/g)).toHaveLength(1);
+    expect(html).toContain(
+      '<nav class="breadcrumb"><span><a href="../../_index.html">All documents</a></span>' +
+        '<span><a href="../_index.html">Engineering</a></span><span><a href="_index.html">Specs</a></span></nav>'
+    );
+  });
+
+  it('should link documents at the root to the root index', () => {
+    expect(buildBreadcrumb()).toEqual([{ name: 'All documents', href: '_index.html' }]);
+  });
+
+  it('should render folder indexes without linking to themselves', () => {
+    const html = renderFolderIndex(
+      'Engineering',
+      [{ name: 'Specs', href: 'Specs/_index.html' }],
+      [{ name: 'Roadmap', href: 'Roadmap.html' }]
+    );
+
+    expect(html).toContain('<h1>Engineering</h1>');
+    expect(html).toContain('<nav class="breadcrumb"><span><a href="../_index.html">All documents</a></span></nav>');
+    expect(html).toContain('<h2>Folders</h2>\n<ul class="folders">\n<li><a href="Specs/_index.html">Specs</a></li>');
+    expect(html).toContain('<li><a href="Roadmap.html">Roadmap</a></li>');
+  });
+});
@@ -0,0 +1,271 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import * as zlib from 'zlib';
+import { ArchiveStorageBackend } from '../../../services/storage/archive-storage-backend';
+import { crc32 } from '../../../services/storage/archive-formats';
+import { DirectoryManager } from '../../../services/local/directory-manager';
+import { FileWriter } from '../../../services/local/file-writer';
+import { LocalDirectoryConfig } from '../../../services/local/types';
+import { ConsoleLogger } from '../../../core/logger';
+
+/**
+ * Read all files of a ZIP archive through its central directory
+ */
+function readZip(archive: Buffer): Map<string, string> {
+  const files = new Map<string, string>();
+  const endOffset = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  expect(endOffset).toBe(archive.length - 22);
+
+  const count = archive.readUInt16LE(endOffset + 10);
+  let offset = archive.readUInt32LE(endOffset + 16);
+
+  for (let i = 0; i < count; i++) {
+    expect(archive.readUInt32LE(offset)).toBe(0x02014b50);
+    const method = archive.readUInt16LE(offset + 10);
+    const checksum = archive.readUInt32LE(offset + 16);
+    const compressedSize = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const localOffset = archive.readUInt32LE(offset + 42);
+    const name = archive.subarray(offset + 46, offset + 46 + nameLength).toString('utf-8');
+
+    expect(archive.readUInt32LE(localOffset)).toBe(0x04034b50);
+    const dataStart = localOffset + 30 + archive.readUInt16LE(localOffset + 26);
+    const data = archive.subarray(dataStart, dataStart + compressedSize);
+    const content = method === 8 ? zlib.inflateRawSync(data) : data;
+
+    expect(crc32(content)).toBe(checksum);
+    files.set(name, content.toString('utf-8'));
+    offset += 46 + nameLength;
+  }
+
+  return files;
+}
+
+/**
+ * Read all files of a tar.gz archive; later entries replace earlier ones like tar extraction does
+ */
+function readTarGz(archive: Buffer): Map<string, string> {
+  const tar = zlib.gunzipSync(archive);
+  const files = new Map<string, string>();
+  let offset = 0;
+  let paxPath: string | undefined;
+
+  while (offset + 512 <= tar.length && tar[offset] !== 0) {
+    const header = tar.subarray(offset, offset + 512);
+    const name = header.subarray(0, 100).toString('utf-8').replace(/\0.*$/s, '');
+    const size = parseInt(header.subarray(124, 136).toString('ascii').replace(/\0.*$/s, ''), 8);
+    const type = String.fromCharCode(header[156]);
+    const data = tar.subarray(offset + 512, offset + 512 + size);
+
+    if (type === 'x') {
+      paxPath = data.toString('utf-8').match(/\d+ path=(.*)\n/)?.[1];
+    } else {
+      files.set(paxPath || name, data.toString('utf-8'));
+      paxPath = undefined;
+    }
+    offset += 512 + Math.ceil(size / 512) * 512;
+  }
+
+  expect(tar.subarray(offset).equals(Buffer.alloc(1024))).toBe(true);
+  return files;
+}
+
+describe('ArchiveStorageBackend', () => {
+  let tempDir: string;
+  let outputPath: string;
+  let logger: ConsoleLogger;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'quip-archive-test-'));
+    outputPath = path.join(tempDir, 'export');
+    logger = new ConsoleLogger('ERROR');
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe.each([
+    ['zip', '.zip', readZip],
+    ['tar.gz', '.tar.gz', readTarGz]
+  ] as const)('%s archives', (format, extension, readArchive) => {
+    it('should write files with their folder layout and read them back', async () => {
+      const backend = new ArchiveStorageBackend(outputPath, { format }, logger);
+      const longName = path.join(outputPath, 'markdown', 'Ünïcode Folder'.repeat(8), 'Notes.md');
+
+      await backend.write(path.join(outputPath, 'html', 'Team Plans', 'Roadmap.html'), Buffer.from('<h1>Roadmap</h1>'.repeat(20)));
+      await backend.write(longName, Buffer.from('# Notes'));
+
+      expect((await backend.read(path.join(outputPath, 'html', 'Team Plans', 'Roadmap.html'))).toString()).toBe('<h1>Roadmap</h1>'.repeat(20));
+      expect(await backend.stat(path.join(outputPath, 'html'))).toEqual({ size: 0, isDirectory: true });
+      expect(await backend.exists(path.join(outputPath, 'docx'))).toBe(false);
+      expect((await backend.list(path.join(outputPath, 'markdown'))).map(file => file.path)).toEqual([longName]);
+      expect(backend.describe(longName)).toContain(`export${extension}:markdown/`);
+
+      await backend.close();
+
+      expect(backend.getVolumePaths()).toEqual([`${outputPath}${extension}`]);
+      const files = readArchive(await fs.readFile(`${outputPath}${extension}`));
+      expect(Array.from(files.keys())).toEqual([
+        'html/Team Plans/Roadmap.html',
+        `markdown/${'Ünïcode Folder'.repeat(8)}/Notes.md`
+      ]);
+      expect(files.get(`markdown/${'Ünïcode Folder'.repeat(8)}/Notes.md`)).toBe('# Notes');
+    });
+
+    it('should stream local files into entries and remove them', async () => {
+      const backend = new ArchiveStorageBackend(outputPath, { format }, logger);
+      const text = Buffer.from('<p>Quarterly numbers</p>'.repeat(5000));
+      const random = crypto.randomBytes(100 * 1024);
+      await fs.writeFile(path.join(tempDir, 'text.tmp'), text);
+      await fs.writeFile(path.join(tempDir, 'random.tmp'), random);
+      const progress: number[] = [];
+
+      await backend.write(path.join(outputPath, 'first.html'), Buffer.from('first'));
+      await backend.moveFile(path.join(tempDir, 'text.tmp'), path.join(outputPath, 'docx', 'Report.docx'), update => progress.push(update.percentage));
+      await backend.moveFile(path.join(tempDir, 'random.tmp'), path.join(outputPath, 'xlsx', 'Data.xlsx'));
+
+      expect(progress).toEqual([100]);
+      expect((await backend.read(path.join(outputPath, 'docx', 'Report.docx'))).equals(text)).toBe(true);
+      expect((await backend.read(path.join(outputPath, 'xlsx', 'Data.xlsx'))).equals(random)).toBe(true);
+      expect(await backend.stat(path.join(outputPath, 'xlsx', 'Data.xlsx'))).toMatchObject({ size: random.length });
+      expect(await fs.readdir(tempDir)).toEqual([`export${extension}`, `export${extension}.journal`]);
+
+      await backend.close();
+      const files = readArchive(await fs.readFile(`${outputPath}${extension}`));
+      expect(Array.from(files.keys())).toEqual(['first.html', 'docx/Report.docx', 'xlsx/Data.xlsx']);
+      expect(files.get('docx/Report.docx')).toBe(text.toString('utf-8'));
+      expect(files.get('xlsx/Data.xlsx')).toBe(random.toString('utf-8'));
+    });
+
+    it('should cut the most recently written file off the archive when it is deleted', async () => {
+      const backend = new ArchiveStorageBackend(outputPath, { format }, logger);
+      await backend.write(path.join(outputPath, 'a.html'), Buffer.from('a'));
+      const size = (await fs.stat(`${outputPath}${extension}`)).size;
+
+      await backend.write(path.join(outputPath, '.write_test'), Buffer.from('test'));
+      await backend.delete(path.join(outputPath, '.write_test'));
+      await backend.delete(path.join(outputPath, 'missing.html'));
+
+      expect((await fs.stat(`${outputPath}${extension}`)).size).toBe(size);
+      await backend.close();
+      expect(Array.from(readArchive(await fs.readFile(`${outputPath}${extension}`)).keys())).toEqual(['a.html']);
+    });
+
+    it('should split the archive into volumes of a maximum size', async () => {
+      const backend = new ArchiveStorageBackend(outputPath, { format, maxVolumeSize: 4096 }, logger);
+
+      for (let i = 1; i <= 5; i++) {
+        // Random content does not compress, so each file takes about 1.5 KB
+        await backend.write(path.join(outputPath, `file-${i}.bin`), crypto.randomBytes(1500));
+      }
+      await backend.close();
+
+      const volumes = backend.getVolumePaths();
+      expect(volumes.map(volume => path.basename(volume))).toEqual([
+        `export-001${extension}`,
+        `export-002${extension}`,
+        `export-003${extension}`
+      ]);
+
+      const names: string[] = [];
+      for (const volume of volumes) {
+        const content = await fs.readFile(volume);
+        expect(content.length).toBeLessThanOrEqual(4096);
+        names.push(...readArchive(content).keys());
+      }
+      expect(names).toEqual(['file-1.bin', 'file-2.bin', 'file-3.bin', 'file-4.bin', 'file-5.bin']);
+    });
+
+    it('should recover a partially written archive on resume', async () => {
+      const archivePath = `${outputPath}${extension}`;
+      const first = new ArchiveStorageBackend(outputPath, { format }, logger);
+      await first.write(path.join(outputPath, 'a.html'), Buffer.from('a'));
+      await first.write(path.join(outputPath, 'b.html'), Buffer.from('b'));
+
+      // Simulate a crash in the middle of writing the next entry and its journal line
+      await fs.appendFile(archivePath, Buffer.from('partial entry'));
+      await fs.appendFile(`${archivePath}.journal`, '{"op":"entry","entr');
+
+      const resumed = new ArchiveStorageBackend(outputPath, { format }, logger, true);
+      expect(await resumed.exists(path.join(outputPath, 'b.html'))).toBe(true);
+      await resumed.write(path.join(outputPath, 'c.html'), Buffer.from('c'));
+      await resumed.close();
+
+      expect(Object.fromEntries(readArchive(await fs.readFile(archivePath)))).toEqual({
+        'a.html': 'a',
+        'b.html': 'b',
+        'c.html': 'c'
+      });
+
+      // A completed archive is reopened when a resumed export adds more files
+      const reopened = new ArchiveStorageBackend(outputPath, { format }, logger, true);
+      await reopened.write(path.join(outputPath, 'd.html'), Buffer.from('d'));
+      await reopened.close();
+
+      expect(Array.from(readArchive(await fs.readFile(archivePath)).keys())).toEqual(['a.html', 'b.html', 'c.html', 'd.html']);
+    });
+
+    it('should replace an earlier archive when a new export starts', async () => {
+      const first = new ArchiveStorageBackend(outputPath, { format }, logger);
+      await first.write(path.join(outputPath, 'old.html'), Buffer.from('old'));
+      await first.close();
+
+      const second = new ArchiveStorageBackend(outputPath, { format }, logger);
+      await second.write(path.join(outputPath, 'new.html'), Buffer.from('new'));
+      await second.close();
+
+      expect(Array.from(readArchive(await fs.readFile(`${outputPath}${extension}`)).keys())).toEqual(['new.html']);
+    });
+  });
+
+  it('should list only the latest version of a rewritten file in the ZIP index', async () => {
+    const backend = new ArchiveStorageBackend(outputPath, { format: 'zip' }, logger);
+    await backend.write(path.join(outputPath, 'a.html'), Buffer.from('<a href="https://quip.com/x">'));
+    await backend.write(path.join(outputPath, 'b.html'), Buffer.from('b'));
+    await backend.write(path.join(outputPath, 'a.html'), Buffer.from('<a href="b.html">'));
+    await backend.close();
+
+    expect(Object.fromEntries(readZip(await fs.readFile(`${outputPath}.zip`)))).toEqual({
+      'b.html': 'b',
+      'a.html': '<a href="b.html">'
+    });
+  });
+
+  it('should resolve file name conflicts against the archive contents', async () => {
+    const storage = new ArchiveStorageBackend(outputPath, { format: 'zip' }, logger);
+    const config: LocalDirectoryConfig = {
+      baseOutputPath: outputPath,
+      preserveFolderStructure: true,
+      sanitizeFileNames: true,
+      conflictResolution: 'number'
+    };
+    const directoryManager = new DirectoryManager(config, logger, storage);
+    const writer = new FileWriter(directoryManager, config, logger, storage);
+
+    expect((await directoryManager.initializeBaseDirectory()).success).toBe(true);
+    const first = await writer.writeDocument(path.join(outputPath, 'Shared'), { fileName: 'Notes.html', content: 'first' });
+    const second = await writer.writeDocument(path.join(outputPath, 'Shared'), { fileName: 'Notes.html', content: 'second' });
+    await storage.close();
+
+    expect(first.success && second.success).toBe(true);
+    expect(second.finalName).toBe('Notes_1.html');
+    expect(Object.fromEntries(readZip(await fs.readFile(`${outputPath}.zip`)))).toEqual({
+      'Shared/Notes.html': 'first',
+      'Shared/Notes_1.html': 'second'
+    });
+  });
+
+  it('should reject paths outside the output directory and unknown formats', async () => {
+    const backend = new ArchiveStorageBackend(outputPath, { format: 'zip' }, logger);
+
+    await expect(backend.write(path.join(tempDir, 'elsewhere.html'), Buffer.from('x'))).rejects.toThrow(
+      'Path is outside the export output directory'
+    );
+    expect(() => new ArchiveStorageBackend(outputPath, { format: 'rar' as any }, logger)).toThrow(
+      'Unsupported archive format: rar'
+    );
+  });
+});
@@ -3,6 +3,15 @@
 // CLI entry point
 import { Command } from 'commander';
 import { AuthManager } from '../auth/auth-manager';
+import type { ExportOrchestrator, ExportResult } from '../core/export-orchestrator';
+import type { ExportReporter } from '../progress/export-reporter';
+import type { ArchiveOptions, StorageConfig } from '../services/storage/types';
+import type { MirrorAction } from '../core/export-mirror';
+import type { ExportStateManager } from '../core/export-state-manager';
+import type { ExportProfile } from '../core/export-profiles';
+import type { QuipService } from '../services/quip/quip-service';
+import type { HttpCassette } from '../services/quip/http-cassette';
+import type { Logger } from '../types';
 
 import * as readline from 'readline';
 import * as fs from 'fs/promises';
@@ -13,7 +22,15 @@ const program = new Command();
 program
   .name('quip-export')
   .description('CLI tool to export documents from Quip to local storage')
-  .version('1.0.0');
+  .version('1.0.0')
+  .option(
+    '--record <dir>',
+    'Save every Quip API request and response to a cassette directory (token redacted)'
+  )
+  .option(
+    '--replay <dir>',
+    'Serve Quip API responses from a recorded cassette without network access'
+  );
 
 // Helper function to create readline interface and prompt user for input
 function promptUser(question: string): Promise<string> {
@@ -115,6 +132,11 @@ function formatDuration(milliseconds: number): string {
   }
 }
 
+// Helper function to collect repeatable command line options
+function collectOption(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
 // Helper function to display documents as table
 function displayDocumentsAsTable(documents: any[], verbose: boolean = false): void {
   if (documents.length === 0) return;
@@ -263,7 +285,7 @@ async function validateFormatOptions(
     }
   } catch (importError) {
     // Fallback to basic validation if FormatValidator import fails
-    const supportedFormats = ['docx', 'html', 'markdown'];
+    const supportedFormats = ['docx', 'html', 'markdown', 'csv', 'json', 'html-standalone'];
     const invalidFormats = formats.filter((format: string) => !supportedFormats.includes(format));
     if (invalidFormats.length > 0) {
       errors.push(
@@ -298,6 +320,30 @@ async function validateFormatOptions(
     ) {
       errors.push(`Markdown frontMatter option must be a boolean value`);
     }
+
+    if (markdownOptions.headingStyle && !['atx', 'setext'].includes(markdownOptions.headingStyle)) {
+      errors.push(
+        `Invalid markdown heading style: ${markdownOptions.headingStyle}. Valid options: atx, setext`
+      );
+    }
+
+    if (markdownOptions.bulletMarker && !['-', '*', '+'].includes(markdownOptions.bulletMarker)) {
+      errors.push(
+        `Invalid markdown bullet marker: ${markdownOptions.bulletMarker}. Valid options: -, *, +`
+      );
+    }
+  }
+
+  // Validate spreadsheet options if CSV or JSON sheets are selected
+  if ((formats.includes('csv') || formats.includes('json')) && formatOptions.spreadsheet) {
+    const spreadsheetOptions = formatOptions.spreadsheet;
+
+    if (
+      spreadsheetOptions.headerRow !== undefined &&
+      typeof spreadsheetOptions.headerRow !== 'boolean'
+    ) {
+      errors.push(`Spreadsheet headerRow option must be a boolean value`);
+    }
   }
 
   // Validate format directory option
@@ -417,6 +463,12 @@ async function loadConfiguration(): Promise<any> {
 async function getAuthManager(): Promise<AuthManager | null> {
   const config = await loadConfiguration();
 
+  if (!config.quip && program.opts().replay) {
+    // A cassette is replayed without a token, e.g. one recorded by someone else
+    const { createQuipConfig } = await import('../auth/config');
+    return new AuthManager(createQuipConfig(''));
+  }
+
   if (!config.quip) {
     console.error('❌ Authentication configuration missing!');
     console.error('');
@@ -815,7 +867,7 @@ program
       }
 
       // Validate authentication
-      const validation = await authManager.validateAuthentication();
+      const validation = await validateAuthentication(authManager);
       if (!validation.valid) {
         console.error('❌ Authentication required!');
         validation.errors.forEach((error) => console.error(`  • ${error}`));
@@ -831,7 +883,14 @@ program
 
       const logger = new ConsoleLogger(options.verbose ? 'DEBUG' : 'INFO');
       const config = await loadConfiguration();
-      const quipService = new QuipService(authManager, logger, config.quip);
+      const quipService = new QuipService(
+        authManager,
+        logger,
+        config.quip,
+        undefined,
+        await openHttpCassette(logger)
+      );
+      await reportThrottling(quipService);
 
       // Test connection first
       const connectionTest = await quipService.testConnection();
@@ -909,6 +968,8 @@ exportCommand
   .description('Interactive export configuration setup')
   .action(async () => {
     try {
+      const { EXPORT_PROFILES } = await import('../core/export-profiles');
+
       console.log('⚙️  Export Configuration Setup');
       console.log('═'.repeat(50));
       console.log('Configure your export preferences for Quip documents.\n');
@@ -948,60 +1009,94 @@ exportCommand
       const outputDirectory =
         (await promptUser(`Output directory (default: ${defaultOutputDir}): `)) || defaultOutputDir;
 
-      console.log('\n📄 Export Format Configuration:');
-      console.log('Available formats:');
-      console.log(
-        '  1. Native - Document-appropriate format (DOCX for documents, XLSX for spreadsheets)'
-      );
-      console.log('  2. HTML - Universal web format (works everywhere)');
-      console.log('  3. Markdown - Plain text markup (version control friendly)');
+      console.log('\n🗂️  Export Profile:');
+      console.log('  1. None - Choose the export format yourself');
+      for (const [index, definition] of Object.values(EXPORT_PROFILES).entries()) {
+        console.log(`  ${index + 2}. ${definition.label} - ${definition.description}`);
+      }
       console.log('');
 
-      // Handle existing configuration migration
-      const existingFormat = config.exportFormat || 'native';
+      const existingProfile = config.profile || 'none';
+      const profileChoice = await promptUser(
+        `Choose profile (1=none, 2=obsidian, 3=notion, default: ${existingProfile}): `
+      );
+      const profile =
+        profileChoice === '2'
+          ? 'obsidian'
+          : profileChoice === '3'
+            ? 'notion'
+            : profileChoice === '1'
+              ? undefined
+              : config.profile;
 
       let exportFormat = 'native';
-
-      const formatChoice =
-        (await promptUser(
-          `Choose format (1=native, 2=html, 3=markdown, default: ${existingFormat}): `
-        )) || '1';
-
-      switch (formatChoice) {
-        case '2':
-          exportFormat = 'html';
-          break;
-        case '3':
-          exportFormat = 'markdown';
-          break;
-        case '1':
-        default:
-          exportFormat = 'native';
-          break;
-      }
-
-      // Format-specific options for markdown
       const formatSpecificOptions: any = {};
-      if (exportFormat === 'markdown') {
-        console.log('\n🔧 Markdown Format Options:');
-        const imageHandling =
-          (await promptUser(
-            'Image handling (1=inline, 2=separate files, 3=skip, default: separate): '
-          )) || '2';
-        const preserveComments = await promptUser(
-          'Preserve Quip comments as markdown comments? (y/n, default: n): '
+      if (profile) {
+        // The profile decides the formats and the Markdown options
+        exportFormat = 'markdown';
+        console.log(
+          `\n📄 ${EXPORT_PROFILES[profile as ExportProfile].label} profile: Markdown for documents, CSV for spreadsheets`
         );
-        const frontMatter = await promptUser(
-          'Include document metadata as front matter? (y/n, default: y): '
+      } else {
+        console.log('\n📄 Export Format Configuration:');
+        console.log('Available formats:');
+        console.log(
+          '  1. Native - Document-appropriate format (DOCX for documents, XLSX for spreadsheets)'
         );
+        console.log('  2. HTML - Universal web format (works everywhere)');
+        console.log('  3. Markdown - Plain text markup (version control friendly)');
+        console.log('');
 
-        formatSpecificOptions.markdown = {
-          imageHandling:
-            imageHandling === '1' ? 'inline' : imageHandling === '3' ? 'skip' : 'separate',
-          preserveComments:
-            preserveComments.toLowerCase() === 'y' || preserveComments.toLowerCase() === 'yes',
-          frontMatter: frontMatter.toLowerCase() !== 'n' && frontMatter.toLowerCase() !== 'no',
-        };
+        // Handle existing configuration migration
+        const existingFormat = config.exportFormat || 'native';
+
+        const formatChoice =
+          (await promptUser(
+            `Choose format (1=native, 2=html, 3=markdown, default: ${existingFormat}): `
+          )) || '1';
+
+        switch (formatChoice) {
+          case '2':
+            exportFormat = 'html';
+            break;
+          case '3':
+            exportFormat = 'markdown';
+            break;
+          case '1':
+          default:
+            exportFormat = 'native';
+            break;
+        }
+
+        // Format-specific options for markdown
+        if (exportFormat === 'markdown') {
+          console.log('\n🔧 Markdown Format Options:');
+          const imageHandling =
+            (await promptUser(
+              'Image handling (1=inline, 2=separate files, 3=skip, default: separate): '
+            )) || '2';
+          const preserveComments = await promptUser(
+            'Preserve Quip comments as markdown comments? (y/n, default: n): '
+          );
+          const frontMatter = await promptUser(
+            'Include document metadata as front matter? (y/n, default: y): '
+          );
+          const headingStyle =
+            (await promptUser('Heading style (1=# atx, 2=underlined setext, default: atx): ')) ||
+            '1';
+          const bulletMarker =
+            (await promptUser('Bullet marker for unordered lists (-, *, +, default: -): ')) || '-';
+
+          formatSpecificOptions.markdown = {
+            imageHandling:
+              imageHandling === '1' ? 'inline' : imageHandling === '3' ? 'skip' : 'separate',
+            preserveComments:
+              preserveComments.toLowerCase() === 'y' || preserveComments.toLowerCase() === 'yes',
+            frontMatter: frontMatter.toLowerCase() !== 'n' && frontMatter.toLowerCase() !== 'no',
+            headingStyle: headingStyle === '2' ? 'setext' : 'atx',
+            bulletMarker: ['*', '+'].includes(bulletMarker) ? bulletMarker : '-',
+          };
+        }
       }
 
       console.log('\n📊 Document Selection Configuration:');
@@ -1013,6 +1108,12 @@ exportCommand
       const preserveFolderStructure =
         preserveFolders.toLowerCase() !== 'n' && preserveFolders.toLowerCase() !== 'no';
 
+      const exportComments = await promptUser(
+        'Export comments and chat messages next to each document? (y/n, default: n): '
+      );
+      const includeComments =
+        exportComments.toLowerCase() === 'y' || exportComments.toLowerCase() === 'yes';
+
       console.log('\n⚡ Performance Configuration:');
       const defaultBatchSize = config.batchSize || 10;
       const batchSizeInput = await promptUser(
@@ -1047,10 +1148,12 @@ exportCommand
 
         // Update export settings
         outputDirectory,
+        ...(profile && { profile }),
         exportFormat,
         formatSpecificOptions, // Format-specific options
         includeSharedDocuments,
         preserveFolderStructure,
+        includeComments,
         batchSize: Math.max(1, Math.min(50, batchSize)),
         rateLimitDelay: Math.max(100, rateLimitDelay),
         retryAttempts: Math.max(1, Math.min(10, retryAttempts)),
@@ -1073,6 +1176,11 @@ exportCommand
 
       console.log('\n⚙️  Export Settings:');
       console.log(`   Output Directory: ${exportConfig.outputDirectory}`);
+      if (exportConfig.profile) {
+        console.log(
+          `   Export Profile: ${EXPORT_PROFILES[exportConfig.profile as ExportProfile].label}`
+        );
+      }
       console.log(`   Export Format: ${exportConfig.exportFormat.toUpperCase()}`);
       if (exportConfig.formatSpecificOptions?.markdown) {
         console.log(`   Markdown Options:`);
@@ -1088,6 +1196,7 @@ exportCommand
       }
       console.log(`   Include Shared: ${exportConfig.includeSharedDocuments ? 'Yes' : 'No'}`);
       console.log(`   Preserve Folders: ${exportConfig.preserveFolderStructure ? 'Yes' : 'No'}`);
+      console.log(`   Export Comments: ${exportConfig.includeComments ? 'Yes' : 'No'}`);
       console.log(`   Batch Size: ${exportConfig.batchSize} documents`);
       console.log(`   Rate Limit: ${exportConfig.rateLimitDelay}ms between requests`);
       console.log(`   Retry Attempts: ${exportConfig.retryAttempts}`);
@@ -1147,7 +1256,7 @@ exportCommand
       }
 
       // Validate authentication
-      const validation = await authManager.validateAuthentication();
+      const validation = await validateAuthentication(authManager);
       if (!validation.valid) {
         console.error('❌ Authentication required!');
         validation.errors.forEach((error) => console.error(`  • ${error}`));
@@ -1177,7 +1286,14 @@ exportCommand
 
       const logger = new ConsoleLogger('INFO');
       const config = await loadConfiguration();
-      const quipService = new QuipService(authManager, logger, config.quip);
+      const quipService = new QuipService(
+        authManager,
+        logger,
+        config.quip,
+        undefined,
+        await openHttpCassette(logger)
+      );
+      await reportThrottling(quipService);
 
       // Get export settings from nested structure
       const exportSettings = exportConfig.export || exportConfig;
@@ -1193,6 +1309,9 @@ exportCommand
         includeTemplates: false,
         includeDeleted: false,
         maxDocuments: exportSettings.maxDocuments, // Pass the limit to optimize discovery
+        includeFolders: exportSettings.includeFolders,
+        excludeFolders: exportSettings.excludeFolders,
+        excludePatterns: exportSettings.excludePatterns,
       });
 
       const documentsToExport = discovery.documents;
@@ -1336,6 +1455,41 @@ exportCommand
   .description('Start the export process with configured settings')
   .option('-c, --config <file>', 'Use specific configuration file')
   .option('--dry-run', 'Preview export without actually downloading files')
+  .option('--full', 'Re-export every document, ignoring the incremental export index')
+  .option('--no-assets', 'Keep links to Quip for embedded images and attachments')
+  .option('--comments', 'Export comments and chat messages next to each document')
+  .option('--chat-transcripts', 'Export chats as day-grouped transcripts with a JSON copy')
+  .option('--chat-since <date>', 'Leave chat messages before this date out of transcripts')
+  .option('--chat-until <date>', 'Leave chat messages after this date out of transcripts')
+  .option(
+    '--metadata',
+    'Add YAML front matter to Markdown files and a .meta.json sidecar next to other formats'
+  )
+  .option('--archive <format>', 'Write the export into a single archive (zip or tar.gz)')
+  .option('--profile <name>', 'Shape the output for Obsidian or Notion (obsidian or notion)')
+  .option(
+    '--mirror [mode]',
+    'Remove files of documents no longer in Quip: move them to .trash (default) or "delete" them'
+  )
+  .option(
+    '--git',
+    'Commit the exported Markdown and HTML files to a git repository in the output directory'
+  )
+  .option(
+    '--folder <id>',
+    'Export only this folder (ID or URL) and its subfolders; repeatable',
+    collectOption
+  )
+  .option(
+    '--exclude-folder <id>',
+    'Skip this folder (ID or URL) and its subfolders; repeatable',
+    collectOption
+  )
+  .option(
+    '--exclude-path <pattern>',
+    'Skip folders whose path matches a glob pattern, e.g. "Archive/**"; repeatable',
+    collectOption
+  )
   .action(async (options) => {
     try {
       const authManager = await getAuthManager();
@@ -1344,7 +1498,7 @@ exportCommand
       }
 
       // Validate authentication
-      const validation = await authManager.validateAuthentication();
+      const validation = await validateAuthentication(authManager);
       if (!validation.valid) {
         console.error('❌ Authentication required!');
         validation.errors.forEach((error) => console.error(`  • ${error}`));
@@ -1370,7 +1524,19 @@ exportCommand
       console.log('═'.repeat(50));
 
       // Get export settings from nested structure
-      const exportSettings = exportConfig.export || exportConfig;
+      const { applyExportProfile, isExportProfile, EXPORT_PROFILES } = await import(
+        '../core/export-profiles'
+      );
+      const profile = options.profile || (exportConfig.export || exportConfig).profile;
+      if (profile && !isExportProfile(profile)) {
+        console.error(`❌ Unsupported export profile: ${profile} (use obsidian or notion)`);
+        process.exit(1);
+      }
+      // A profile decides the formats and layout of the output
+      const exportSettings = applyExportProfile({
+        ...(exportConfig.export || exportConfig),
+        profile,
+      });
 
       // Handle format overrides from command line
       const finalExportFormats = exportSettings.exportFormats || [
@@ -1388,57 +1554,97 @@ exportCommand
         };
       }
 
-      // Import required services
-      const { QuipService } = await import('../services/quip');
-      const { ExportOrchestrator } = await import('../core/export-orchestrator');
-      const { ExportStateManager } = await import('../core/export-state-manager');
-      const { ConsoleLogger } = await import('../core/logger');
-      const { DirectoryManager } = await import('../services/local/directory-manager');
-      const { FileWriter } = await import('../services/local/file-writer');
-      const { FolderStructureMapper } = await import('../services/local/folder-structure-mapper');
+      const archive = options.archive
+        ? { ...exportSettings.archive, format: options.archive }
+        : exportSettings.archive;
+      if (archive && !['zip', 'tar.gz'].includes(archive.format)) {
+        console.error(`❌ Unsupported archive format: ${archive.format} (use zip or tar.gz)`);
+        process.exit(1);
+      }
 
-      const logger = new ConsoleLogger('INFO');
-      const config = await loadConfiguration();
-      const quipService = new QuipService(authManager, logger, config.quip);
+      const mirror = options.mirror === true ? 'trash' : options.mirror || exportSettings.mirror;
+      if (mirror && !['trash', 'delete'].includes(mirror)) {
+        console.error(`❌ Unsupported mirror mode: ${mirror} (use trash or delete)`);
+        process.exit(1);
+      }
+      // Documents past the limit would look removed and have their files removed
+      if (mirror && exportSettings.maxDocuments) {
+        console.error(
+          '❌ Mirror mode cannot be combined with a document limit (maxDocuments in the configuration)'
+        );
+        process.exit(1);
+      }
 
-      // Initialize export services
-      const directoryConfig = {
-        baseOutputPath: exportSettings.outputDirectory || './exported-documents',
-        preserveFolderStructure: exportSettings.preserveFolderStructure ?? true,
-        sanitizeFileNames: true,
-        conflictResolution: 'number' as const,
-      };
-      const directoryManager = new DirectoryManager(directoryConfig, logger);
-      const fileWriter = new FileWriter(directoryManager, directoryConfig, logger);
-      const folderMapper = new FolderStructureMapper(directoryManager, directoryConfig, logger);
-      const stateManager = new ExportStateManager(logger);
+      const git = options.git || exportSettings.git || false;
+      if (git && (archive || exportSettings.storage?.type === 's3')) {
+        console.error('❌ Git output needs a local output directory, not an archive or S3 storage');
+        process.exit(1);
+      }
 
-      const orchestrator = new ExportOrchestrator(
-        logger,
-        stateManager,
-        quipService.getDocumentDiscovery(),
-        quipService.getDocumentExporter(),
-        fileWriter,
-        folderMapper,
-        directoryManager
-      );
+      const chatTranscripts =
+        options.chatTranscripts || options.chatSince || options.chatUntil
+          ? {
+              ...exportSettings.chatTranscripts,
+              ...(options.chatSince && { since: options.chatSince }),
+              ...(options.chatUntil && { until: options.chatUntil }),
+            }
+          : exportSettings.chatTranscripts;
+      if (chatTranscripts) {
+        const { parseTranscriptRange } = await import('../services/quip/chat-exporter');
+        try {
+          parseTranscriptRange(chatTranscripts);
+        } catch (error) {
+          console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+          process.exit(1);
+        }
+      }
+
+      const orchestrator = await createExportOrchestrator(authManager, {
+        ...exportSettings,
+        archive,
+        git,
+      });
 
       // Convert export config to the format expected by orchestrator
       const orchConfig = {
         outputDirectory: exportSettings.outputDirectory || './exported-documents',
+        profile: exportSettings.profile,
         exportFormats: finalExportFormats, // New multi-format support
-        exportFormat: finalExportFormats[0], // Backward compatibility
+        exportFormat: ['docx', 'xlsx'].includes(finalExportFormats[0])
+          ? 'native'
+          : finalExportFormats[0], // Backward compatibility
         formatSpecificOptions: finalFormatOptions, // Format-specific options
-        useFormatDirectories: finalExportFormats.length > 1 || exportSettings.useFormatDirectories,
+        // Profiles keep every format in the Quip folders
+        useFormatDirectories: exportSettings.profile
+          ? false
+          : finalExportFormats.length > 1 || exportSettings.useFormatDirectories,
         includeSharedDocuments: exportSettings.includeSharedDocuments ?? true,
         preserveFolderStructure: exportSettings.preserveFolderStructure ?? true,
         batchSize: exportSettings.batchSize || 10,
         rateLimitDelay: exportSettings.rateLimitDelay || 1000,
         retryAttempts: exportSettings.retryAttempts || 3,
         maxDocuments: exportSettings.maxDocuments,
-        includeFolders: [], // Include all folders by default
+        includeFolders: options.folder || exportSettings.includeFolders || [], // All folders when empty
+        excludeFolders: [
+          ...(exportSettings.excludeFolders || []),
+          ...(options.excludeFolder || []),
+        ],
+        excludePatterns: [
+          ...(exportSettings.excludePatterns || []),
+          ...(options.excludePath || []),
+        ],
         sanitizeFileNames: true,
-        conflictResolution: 'number' as const,
+        conflictResolution: exportSettings.conflictResolution || 'number',
+        storage: exportSettings.storage,
+        archive,
+        incremental: options.full ? false : (exportSettings.incremental ?? true),
+        mirror,
+        git,
+        downloadAssets: options.assets === false ? false : (exportSettings.downloadAssets ?? true),
+        includeComments: options.comments || exportSettings.includeComments || false,
+        chatTranscripts,
+        documentMetadata: options.metadata || exportSettings.documentMetadata || false,
+        rewriteLinks: exportSettings.rewriteLinks ?? true,
       };
 
       if (options.dryRun) {
@@ -1449,6 +1655,19 @@ exportCommand
       // Display configuration summary
       console.log('📋 Export Configuration:');
       console.log(`  Output Directory: ${orchConfig.outputDirectory}`);
+      if (orchConfig.storage?.type === 's3') {
+        console.log(`  Storage: ${describeStorage(orchConfig.storage)}`);
+      }
+      if (orchConfig.archive) {
+        console.log(
+          `  Archive: ${describeArchive(orchConfig.archive, orchConfig.outputDirectory)}`
+        );
+      }
+      if (orchConfig.profile) {
+        console.log(
+          `  Export Profile: ${EXPORT_PROFILES[orchConfig.profile as ExportProfile].description}`
+        );
+      }
       console.log(
         `  Export Formats: ${orchConfig.exportFormats.map((f: string) => f.toUpperCase()).join(', ')}`
       );
@@ -1464,18 +1683,61 @@ exportCommand
           `    Preserve Comments: ${orchConfig.formatSpecificOptions.markdown.preserveComments ? 'Yes' : 'No'}`
         );
         console.log(
-          `    Front Matter: ${orchConfig.formatSpecificOptions.markdown.frontMatter !== false ? 'Yes' : 'No'}`
+          `    Front Matter: ${orchConfig.formatSpecificOptions.markdown.frontMatter || orchConfig.documentMetadata ? 'Yes' : 'No'}`
+        );
+      }
+      if (orchConfig.exportFormats.some((f: string) => f === 'csv' || f === 'json')) {
+        console.log(
+          `  Spreadsheet Header Row: ${orchConfig.formatSpecificOptions?.spreadsheet?.headerRow === false ? 'No' : 'Yes'}`
         );
       }
       console.log(`  Include Shared: ${orchConfig.includeSharedDocuments ? 'Yes' : 'No'}`);
       console.log(`  Preserve Folders: ${orchConfig.preserveFolderStructure ? 'Yes' : 'No'}`);
+      if (orchConfig.includeFolders.length > 0) {
+        console.log(`  Folders: ${orchConfig.includeFolders.join(', ')}`);
+      }
+      if (orchConfig.excludeFolders.length > 0 || orchConfig.excludePatterns.length > 0) {
+        console.log(
+          `  Excluded: ${[...orchConfig.excludeFolders, ...orchConfig.excludePatterns].join(', ')}`
+        );
+      }
+      console.log(`  Export Comments: ${orchConfig.includeComments ? 'Yes' : 'No'}`);
+      console.log(`  Document Metadata: ${orchConfig.documentMetadata ? 'Yes' : 'No'}`);
+      if (orchConfig.chatTranscripts) {
+        const { since, until } = orchConfig.chatTranscripts;
+        console.log(
+          `  Chat Transcripts: ${since || until ? `${since || 'start'} to ${until || 'now'}` : 'All messages'}`
+        );
+      }
       console.log(`  Batch Size: ${orchConfig.batchSize}`);
       console.log(`  Rate Limit: ${orchConfig.rateLimitDelay}ms`);
+      console.log(
+        `  Mode: ${orchConfig.incremental && !orchConfig.archive ? 'Incremental (unchanged documents skipped)' : 'Full'}`
+      );
+      console.log(`  Download Images/Attachments: ${orchConfig.downloadAssets ? 'Yes' : 'No'}`);
       if (orchConfig.maxDocuments) {
         console.log(`  Document Limit: ${orchConfig.maxDocuments}`);
       }
+      if (orchConfig.mirror) {
+        console.log(
+          `  Mirror: ${orchConfig.mirror === 'trash' ? 'Move files of removed documents to .trash' : 'Delete files of removed documents'}`
+        );
+      }
+      if (orchConfig.git) {
+        console.log(`  Git: Commit changed Markdown and HTML files after the export`);
+      }
       console.log('');
 
+      // A dry run of a mirror export previews the removals and stops before changing anything
+      if (options.dryRun && orchConfig.mirror) {
+        const actions = await orchestrator.previewMirror(orchConfig);
+        displayMirrorActions(actions);
+        if (actions.length === 0) {
+          console.log('✅ Mirror: no files would be removed');
+        }
+        return;
+      }
+
       if (!options.dryRun) {
         const confirmExport = await promptUser('Proceed with export? (y/n): ');
         if (confirmExport.toLowerCase() !== 'y' && confirmExport.toLowerCase() !== 'yes') {
@@ -1489,47 +1751,89 @@ exportCommand
       // Note: Progress tracking would be implemented through the orchestrator's internal mechanisms
 
       // Start the export
-      const result = await orchestrator.startExport(orchConfig);
+      const reporter = await attachExportReporter(orchestrator, orchConfig);
+      const result = await runWithInterruptHandler(orchestrator, () =>
+        orchestrator.startExport(orchConfig)
+      );
 
       // Save export data for reporting
       await saveExportData(result, orchConfig);
 
-      // Display results
-      console.log('\n📊 Export Results:');
-      console.log('═'.repeat(50));
-      console.log(`Status: ${result.success ? '✅ Completed' : '❌ Failed'}`);
-      console.log(`Total Documents: ${result.totalDocuments}`);
-      console.log(`Successful Exports: ${result.successfulExports}`);
-      console.log(`Failed Exports: ${result.failedExports}`);
-      console.log(`Skipped Documents: ${result.skippedDocuments}`);
-      console.log(`Duration: ${formatDuration(result.duration)}`);
-      console.log(`Output Directory: ${result.outputDirectory}`);
-
-      if (result.errors.length > 0) {
-        console.log('\n❌ Errors:');
-        result.errors.slice(0, 5).forEach((error) => {
-          console.log(`  • ${error.documentTitle}: ${error.error}`);
-        });
+      displayExportResult(result);
+      await writeExportReport(reporter, result);
+    } catch (error) {
+      console.error('❌ Export failed:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
 
-        if (result.errors.length > 5) {
-          console.log(`  ... and ${result.errors.length - 5} more errors`);
-        }
+exportCommand
+  .command('resume [sessionId]')
+  .description('Resume an interrupted export, retrying only pending and failed documents')
+  .action(async (sessionId?: string) => {
+    try {
+      const authManager = await getAuthManager();
+      if (!authManager) {
+        process.exit(1);
       }
 
-      if (result.success) {
-        console.log('\n🎉 Export completed successfully!');
-        console.log(`📁 Your documents are available in: ${result.outputDirectory}`);
+      const validation = await validateAuthentication(authManager);
+      if (!validation.valid) {
+        console.error('❌ Authentication required!');
+        validation.errors.forEach((error) => console.error(`  • ${error}`));
+        console.log('\n💡 Run "quip-export auth login" to authenticate first.');
+        process.exit(1);
+      }
 
-        console.log('\n💡 Next steps:');
-        console.log('  • Review the exported documents in the output directory');
-        console.log('  • Upload to your preferred cloud service (Google Drive, Dropbox, etc.)');
-        console.log('  • Run "quip-export export report" to generate a detailed report');
-      } else {
-        console.log('\n❌ Export completed with errors.');
-        console.log('💡 Check the error messages above and retry failed documents.');
+      const { ExportSessionStore, getResumableTasks } = await import(
+        '../core/export-session-store'
+      );
+      const sessionStore = new ExportSessionStore();
+
+      const session = sessionId
+        ? await sessionStore.loadSession(sessionId)
+        : await sessionStore.findLatestResumableSession();
+
+      if (!session) {
+        console.error(
+          sessionId
+            ? `❌ Export session not found: ${sessionId}`
+            : '❌ No interrupted export sessions found.'
+        );
+        process.exit(1);
       }
+
+      const remainingTasks = getResumableTasks(session);
+      if (remainingTasks.length === 0) {
+        console.log(`✅ Export session ${session.id} has no pending or failed documents.`);
+        return;
+      }
+
+      console.log('\n🔄 Resuming Quip Document Export');
+      console.log('═'.repeat(50));
+      console.log(`  Session: ${session.id}`);
+      console.log(`  Started: ${session.createdAt.toLocaleString()}`);
+      console.log(`  Output Directory: ${session.config.outputDirectory}`);
+      if (session.config.storage?.type === 's3') {
+        console.log(`  Storage: ${describeStorage(session.config.storage)}`);
+      }
+      console.log(
+        `  Remaining Documents: ${remainingTasks.length} of ${session.tasks?.length || 0}`
+      );
+      console.log('');
+
+      const orchestrator = await createExportOrchestrator(authManager, session.config, true);
+      const reporter = await attachExportReporter(orchestrator, session.config);
+      const result = await runWithInterruptHandler(orchestrator, () =>
+        orchestrator.resumeSession(session.id)
+      );
+
+      await saveExportData(result, session.config);
+
+      displayExportResult(result);
+      await writeExportReport(reporter, result);
     } catch (error) {
-      console.error('❌ Export failed:', error instanceof Error ? error.message : String(error));
+      console.error('❌ Resume failed:', error instanceof Error ? error.message : String(error));
       process.exit(1);
     }
   });
@@ -1606,6 +1910,210 @@ exportCommand
     }
   });
 
+program
+  .command('verify [directory]')
+  .description(
+    'Check an export against its manifest.json; exits with an error on missing, modified or extra files'
+  )
+  .option(
+    '-c, --config <file>',
+    'Verify the output directory and storage of this configuration (default: .export-config.json)'
+  )
+  .action(async (directory: string | undefined, options) => {
+    try {
+      const { ConsoleLogger } = await import('../core/logger');
+      const { verifyExportManifest } = await import('../core/export-manifest');
+      const { createStorageBackend } = await import('../services/storage');
+
+      // An explicit directory is always verified on the local filesystem
+      let exportSettings: { outputDirectory?: string; storage?: StorageConfig } = {};
+      if (!directory) {
+        const configPath = options.config || '.export-config.json';
+        try {
+          const exportConfig = JSON.parse(await fs.readFile(configPath, 'utf8'));
+          exportSettings = exportConfig.export || exportConfig;
+        } catch {
+          if (options.config) {
+            console.error(`❌ Could not read export configuration from ${configPath}`);
+            process.exit(1);
+          }
+        }
+      }
+
+      const outputDirectory = directory || exportSettings.outputDirectory || './exported-documents';
+      const storage = createStorageBackend(
+        exportSettings.storage,
+        outputDirectory,
+        new ConsoleLogger('ERROR')
+      );
+
+      console.log(`🔍 Verifying ${storage.describe(path.resolve(outputDirectory))}`);
+      console.log('═'.repeat(50));
+
+      const result = await verifyExportManifest(outputDirectory, storage);
+      const listFiles = (label: string, files: string[]): void => {
+        if (files.length > 0) {
+          console.log(`\n${label} (${files.length}):`);
+          files.forEach((file) => console.log(`  • ${file}`));
+        }
+      };
+
+      listFiles(
+        '❌ Missing files',
+        result.missing.map((file) => file.path)
+      );
+      listFiles(
+        '⚠️  Modified files',
+        result.modified.map((file) => file.path)
+      );
+      listFiles('➕ Files not in the manifest', result.extra);
+
+      const problems = result.missing.length + result.modified.length + result.extra.length;
+      console.log(
+        `\n📋 Manifest of export ${result.manifest.sessionId} (${result.manifest.generatedAt})`
+      );
+      console.log(`✅ Verified: ${result.verified}/${result.manifest.files.length} files`);
+
+      if (problems > 0) {
+        console.error(
+          `❌ Verification failed: ${problems} problem${problems === 1 ? '' : 's'} found`
+        );
+        process.exit(1);
+      }
+      console.log('🎉 Export matches its manifest');
+    } catch (error) {
+      console.error(
+        '❌ Verification failed:',
+        error instanceof Error ? error.message : String(error)
+      );
+      process.exit(1);
+    }
+  });
+
+program
+  .command('quota')
+  .description('Show the remaining Quip API request budget shared by all exports on this machine')
+  .action(async () => {
+    try {
+      const { RateLimitLedger, RATE_LIMIT_PER_MINUTE, RATE_LIMIT_PER_HOUR } = await import(
+        '../services/quip/rate-limit-ledger'
+      );
+
+      const status = await new RateLimitLedger().getStatus();
+      const formatReset = (resetAt?: Date): string =>
+        resetAt ? `, resets at ${resetAt.toLocaleTimeString()}` : '';
+
+      console.log('📊 Quip API Request Budget');
+      console.log('═'.repeat(50));
+      console.log(
+        `  This minute: ${status.remainingPerMinute}/${RATE_LIMIT_PER_MINUTE} requests left${formatReset(status.minuteResetAt)}`
+      );
+      console.log(
+        `  This hour: ${status.remainingPerHour}/${RATE_LIMIT_PER_HOUR} requests left${formatReset(status.hourResetAt)}`
+      );
+      if (status.quipRemaining !== undefined) {
+        console.log(
+          `  Reported by Quip: ${status.quipRemaining} requests left${formatReset(status.quipResetAt)}`
+        );
+      }
+      if (status.blockedUntil) {
+        console.log(`  ⚠️  Rate limited by Quip until ${status.blockedUntil.toLocaleTimeString()}`);
+      }
+      console.log(`  Ledger: ${status.ledgerPath || 'unavailable, budget tracked per process'}`);
+    } catch (error) {
+      console.error(
+        '❌ Failed to read the request budget:',
+        error instanceof Error ? error.message : String(error)
+      );
+      process.exit(1);
+    }
+  });
+
+const siteCommand = program.command('site').description('Browse an export as a static website');
+
+siteCommand
+  .command('build [directory]')
+  .description(
+    'Build a static website with a folder tree, folder indexes and full-text search from an export'
+  )
+  .option('-o, --output <dir>', 'Directory to write the site to (default: <directory>-site)')
+  .option(
+    '-c, --config <file>',
+    'Build from the output directory and storage of this configuration (default: .export-config.json)'
+  )
+  .action(async (directory: string | undefined, options) => {
+    try {
+      const { ConsoleLogger } = await import('../core/logger');
+      const { buildExportSite, SITE_SEARCH_PAGE_FILE_NAME } = await import('../core/export-site');
+      const { FOLDER_INDEX_FILE_NAME } = await import('../services/quip/standalone-html');
+      const { DirectoryManager } = await import('../services/local/directory-manager');
+      const { createStorageBackend, LocalStorageBackend } = await import('../services/storage');
+
+      // An explicit directory is always read from the local filesystem
+      let exportSettings: { outputDirectory?: string; storage?: StorageConfig } = {};
+      if (!directory) {
+        const configPath = options.config || '.export-config.json';
+        try {
+          const exportConfig = JSON.parse(await fs.readFile(configPath, 'utf8'));
+          exportSettings = exportConfig.export || exportConfig;
+        } catch {
+          if (options.config) {
+            console.error(`❌ Could not read export configuration from ${configPath}`);
+            process.exit(1);
+          }
+        }
+      }
+
+      const exportDirectory = directory || exportSettings.outputDirectory || './exported-documents';
+      const siteDirectory = path.resolve(options.output || `${path.resolve(exportDirectory)}-site`);
+      const logger = new ConsoleLogger('ERROR');
+      const source = createStorageBackend(exportSettings.storage, exportDirectory, logger);
+      const directoryManager = new DirectoryManager(
+        {
+          baseOutputPath: exportDirectory,
+          preserveFolderStructure: true,
+          sanitizeFileNames: true,
+          conflictResolution: 'number',
+        },
+        logger,
+        source
+      );
+
+      console.log(`🌐 Building site from ${source.describe(path.resolve(exportDirectory))}`);
+      console.log('═'.repeat(50));
+
+      const result = await buildExportSite({
+        exportDirectory,
+        siteDirectory,
+        source,
+        target: new LocalStorageBackend(),
+        directoryManager,
+        logger,
+      });
+
+      if (result.missingFiles.length > 0) {
+        console.log(
+          `\n⚠️  Files in the manifest but not in the export (${result.missingFiles.length}):`
+        );
+        result.missingFiles.forEach((file) => console.log(`  • ${file}`));
+      }
+      console.log(`\n📄 Document pages: ${result.pages}`);
+      console.log(`📁 Folder pages: ${result.folders}`);
+      console.log(`📎 Copied files: ${result.copiedFiles}`);
+      console.log(`🎉 Site written to ${siteDirectory}`);
+      console.log(
+        `   Open ${path.join(siteDirectory, FOLDER_INDEX_FILE_NAME)} in a browser to browse it,`
+      );
+      console.log(`   or ${SITE_SEARCH_PAGE_FILE_NAME} there to search the documents`);
+    } catch (error) {
+      console.error(
+        '❌ Site build failed:',
+        error instanceof Error ? error.message : String(error)
+      );
+      process.exit(1);
+    }
+  });
+
 // Helper function to get document icon based on type
 function getDocumentIcon(type: string): string {
   switch (type?.toUpperCase()) {
@@ -1620,6 +2128,346 @@ function getDocumentIcon(type: string): string {
   }
 }
 
+// Helper function to describe where an export is stored
+function describeStorage(storage: StorageConfig): string {
+  if (storage.type === 's3') {
+    const prefix = (storage.prefix || '').replace(/^\/+|\/+$/g, '');
+    const location = `s3://${storage.bucket}${prefix ? `/${prefix}` : ''}`;
+    return storage.endpoint ? `${location} (${storage.endpoint})` : location;
+  }
+  return 'local filesystem';
+}
+
+// Helper function to describe the archive an export is written to
+function describeArchive(archive: ArchiveOptions, outputDirectory: string): string {
+  const archivePath = archive.path || `${outputDirectory}.${archive.format}`;
+  const volumes = archive.maxVolumeSize
+    ? `, volumes of up to ${Math.round(archive.maxVolumeSize / (1024 * 1024))} MB`
+    : '';
+  return `${archive.format.toUpperCase()} → ${archivePath}${volumes}`;
+}
+
+// Helper function to build the export orchestrator and its services
+async function createExportOrchestrator(
+  authManager: AuthManager,
+  exportSettings: {
+    outputDirectory?: string;
+    preserveFolderStructure?: boolean;
+    conflictResolution?: 'number' | 'timestamp' | 'overwrite';
+    storage?: StorageConfig;
+    archive?: ArchiveOptions;
+    git?: boolean;
+  },
+  resume = false
+): Promise<ExportOrchestrator> {
+  const { QuipService } = await import('../services/quip');
+  const { ExportOrchestrator } = await import('../core/export-orchestrator');
+  const { ExportStateManager } = await import('../core/export-state-manager');
+  const { ExportSessionStore } = await import('../core/export-session-store');
+  const { ConsoleLogger } = await import('../core/logger');
+  const { DirectoryManager } = await import('../services/local/directory-manager');
+  const { FileWriter } = await import('../services/local/file-writer');
+  const { FolderStructureMapper } = await import('../services/local/folder-structure-mapper');
+  const { createStorageBackend } = await import('../services/storage');
+
+  const logger = new ConsoleLogger('INFO');
+  const config = await loadConfiguration();
+  const quipService = new QuipService(
+    authManager,
+    logger,
+    config.quip,
+    undefined,
+    await openHttpCassette(logger)
+  );
+  await reportThrottling(quipService);
+
+  // Initialize export services
+  const directoryConfig = {
+    baseOutputPath: exportSettings.outputDirectory || './exported-documents',
+    preserveFolderStructure: exportSettings.preserveFolderStructure ?? true,
+    sanitizeFileNames: true,
+    conflictResolution: exportSettings.conflictResolution || 'number',
+    gitRepository: exportSettings.git,
+  };
+  const storage = createStorageBackend(
+    exportSettings.storage,
+    directoryConfig.baseOutputPath,
+    logger,
+    { archive: exportSettings.archive, resume }
+  );
+  const directoryManager = new DirectoryManager(directoryConfig, logger, storage);
+  const fileWriter = new FileWriter(directoryManager, directoryConfig, logger, storage);
+  const folderMapper = new FolderStructureMapper(directoryManager, directoryConfig, logger);
+  const stateManager = new ExportStateManager(logger, new ExportSessionStore());
+
+  const orchestrator = new ExportOrchestrator(
+    logger,
+    stateManager,
+    quipService.getDocumentDiscovery(),
+    quipService.getDocumentExporter(),
+    fileWriter,
+    folderMapper,
+    directoryManager,
+    storage
+  );
+  await showExportProgress(orchestrator, stateManager, quipService, logger);
+  return orchestrator;
+}
+
+// Helper function to show a progress bar with the documents, downloads and request pace of an export
+async function showExportProgress(
+  orchestrator: ExportOrchestrator,
+  stateManager: ExportStateManager,
+  quipService: QuipService,
+  logger: Logger
+): Promise<void> {
+  // The progress bar redraws its line, which only works on a terminal
+  if (!process.stdout.isTTY) {
+    return;
+  }
+
+  const { trackExportProgress, CLIProgressDisplay } = await import('../progress');
+  let display: InstanceType<typeof CLIProgressDisplay> | undefined;
+
+  trackExportProgress(
+    { stateManager, orchestrator, apiClient: quipService.getApiClient() },
+    {
+      onStart: (tracker) => {
+        display = new CLIProgressDisplay(tracker, logger);
+        display.start();
+      },
+      onFinish: () => display?.stop(),
+    }
+  );
+}
+
+// Helper function to check authentication; replaying a cassette needs none
+async function validateAuthentication(
+  authManager: AuthManager
+): Promise<{ valid: boolean; errors: string[] }> {
+  if (program.opts().replay) {
+    return { valid: true, errors: [] };
+  }
+  return authManager.validateAuthentication();
+}
+
+// Helper function to open the cassette given with the global --record or --replay option
+async function openHttpCassette(logger: Logger): Promise<HttpCassette | undefined> {
+  const { record, replay } = program.opts();
+  if (!record && !replay) {
+    return undefined;
+  }
+  if (record && replay) {
+    console.error('❌ Use either --record or --replay, not both.');
+    process.exit(1);
+  }
+
+  const { HttpCassette } = await import('../services/quip/http-cassette');
+  try {
+    const cassette = await HttpCassette.open(
+      replay ? 'replay' : 'record',
+      replay || record,
+      logger
+    );
+    console.log(
+      replay
+        ? `📼 Replaying Quip API responses from ${cassette.directory}`
+        : `📼 Recording Quip API requests to ${cassette.directory} (token redacted)`
+    );
+    return cassette;
+  } catch (error) {
+    console.error(
+      '❌ Cannot open cassette:',
+      error instanceof Error ? error.message : String(error)
+    );
+    process.exit(1);
+  }
+}
+
+// Helper function to say why a command pauses while Quip requests wait for the rate limit
+async function reportThrottling(quipService: QuipService): Promise<void> {
+  const { formatRequestThrottle } = await import('../progress/progress-tracker');
+
+  quipService.getApiClient().onThrottle((throttle) => {
+    const status = formatRequestThrottle(throttle);
+    // Waits of a second or two are regular pacing and not worth a line
+    if (status && throttle.nextSlotAt && throttle.nextSlotAt.getTime() - Date.now() >= 2000) {
+      console.log(
+        `⏳ Quip rate limit: ${status} (${throttle.requestsPerMinute.toFixed(1)} requests/min)`
+      );
+    }
+  });
+}
+
+// Helper function to stop an export gracefully on Ctrl-C so it can be resumed later
+async function runWithInterruptHandler<T>(
+  orchestrator: ExportOrchestrator,
+  run: () => Promise<T>
+): Promise<T> {
+  let interrupted = false;
+
+  const onInterrupt = (): void => {
+    if (interrupted) {
+      console.log('\n⛔ Export aborted. Progress up to the last completed batch has been saved.');
+      process.exit(130);
+    }
+
+    interrupted = true;
+    console.log(
+      '\n⏸️  Stopping after the current batch and saving progress (press Ctrl-C again to quit now)...'
+    );
+    orchestrator.cancelExport().catch(() => {
+      // Export already finished
+    });
+  };
+
+  process.on('SIGINT', onInterrupt);
+  try {
+    return await run();
+  } finally {
+    process.removeListener('SIGINT', onInterrupt);
+  }
+}
+
+// Helper function to record the documents, assets, unresolved links and mirror removals of an
+// export run for the detailed report. The report is written to the local file system, so it is
+// skipped for S3 and archive output.
+async function attachExportReporter(
+  orchestrator: ExportOrchestrator,
+  config: { outputDirectory: string; storage?: StorageConfig; archive?: ArchiveOptions }
+): Promise<ExportReporter | undefined> {
+  if (config.storage?.type === 's3' || config.archive) {
+    return undefined;
+  }
+
+  const { ExportReporter } = await import('../progress/export-reporter');
+  const { ExportLogger } = await import('../progress/export-logger');
+  const reporter = new ExportReporter(
+    new ExportLogger({
+      sessionId: 'export',
+      logLevel: 'WARN',
+      outputDirectory: config.outputDirectory,
+      enableFileLogging: false,
+      enableConsoleLogging: false,
+      enableAuditTrail: false,
+    }),
+    config.outputDirectory
+  );
+  orchestrator.setReporter(reporter);
+  return reporter;
+}
+
+// Helper function to write the detailed report of an export run next to the exported files
+async function writeExportReport(
+  reporter: ExportReporter | undefined,
+  result: ExportResult
+): Promise<void> {
+  if (!reporter) {
+    return;
+  }
+
+  const { EXPORT_REPORTS_DIRECTORY } = await import('../core/export-manifest');
+  const reportDirectory = path.join(result.outputDirectory, EXPORT_REPORTS_DIRECTORY);
+  await reporter.generateReport(
+    {
+      sessionId: result.sessionId,
+      totalDocuments: result.totalDocuments,
+      processedDocuments: result.successfulExports + result.failedExports,
+      successfulExports: result.successfulExports,
+      failedExports: result.failedExports,
+      startTime: new Date(Date.now() - result.duration),
+      lastUpdateTime: new Date(),
+    },
+    { outputDirectory: reportDirectory }
+  );
+  console.log(`📄 Detailed report: ${reportDirectory}`);
+}
+
+// Helper function to display the results of an export run
+function displayExportResult(result: ExportResult): void {
+  console.log('\n📊 Export Results:');
+  console.log('═'.repeat(50));
+  console.log(`Status: ${result.success ? '✅ Completed' : '❌ Failed'}`);
+  console.log(`Total Documents: ${result.totalDocuments}`);
+  console.log(`Successful Exports: ${result.successfulExports}`);
+  console.log(`Failed Exports: ${result.failedExports}`);
+  console.log(`Skipped Documents: ${result.skippedDocuments}`);
+  console.log(`Duration: ${formatDuration(result.duration)}`);
+  console.log(`Output Directory: ${result.outputDirectory}`);
+
+  if (result.errors.length > 0) {
+    console.log('\n❌ Errors:');
+    result.errors.slice(0, 5).forEach((error) => {
+      console.log(`  • ${error.documentTitle}: ${error.error}`);
+    });
+
+    if (result.errors.length > 5) {
+      console.log(`  ... and ${result.errors.length - 5} more errors`);
+    }
+  }
+
+  const unresolvedLinks = result.unresolvedLinks || [];
+  if (unresolvedLinks.length > 0) {
+    console.log(`\n🔗 Links to Quip documents outside this export: ${unresolvedLinks.length}`);
+    unresolvedLinks.slice(0, 5).forEach((link) => {
+      console.log(`  • ${link.documentTitle}: ${link.url}`);
+    });
+
+    if (unresolvedLinks.length > 5) {
+      console.log(`  ... and ${unresolvedLinks.length - 5} more links`);
+    }
+  }
+
+  displayMirrorActions(result.mirrorActions || []);
+
+  if (result.gitCommit) {
+    const { hash, added, updated, removed, author } = result.gitCommit;
+    console.log(
+      `\n🌱 Git commit ${hash.substring(0, 7)}: ${added.length} added, ${updated.length} updated, ${removed.length} removed`
+    );
+    if (author) {
+      console.log(`  Author: ${author.name}${author.email ? ` <${author.email}>` : ''}`);
+    }
+  }
+
+  if (result.success) {
+    console.log('\n🎉 Export completed successfully!');
+    if (result.archiveFiles && result.archiveFiles.length > 0) {
+      console.log(`📦 Your documents are available in: ${result.archiveFiles.join(', ')}`);
+    } else {
+      console.log(`📁 Your documents are available in: ${result.outputDirectory}`);
+    }
+
+    console.log('\n💡 Next steps:');
+    console.log('  • Review the exported documents in the output directory');
+    console.log('  • Upload to your preferred cloud service (Google Drive, Dropbox, etc.)');
+    console.log('  • Run "quip-export export report" to generate a detailed report');
+  } else {
+    console.log('\n❌ Export completed with errors.');
+    console.log('💡 Check the error messages above and retry failed documents.');
+    console.log(
+      `💡 Run "quip-export export resume ${result.sessionId}" to retry pending and failed documents.`
+    );
+  }
+}
+
+// Helper function to list the files removed (or to be removed) by mirror mode
+function displayMirrorActions(actions: MirrorAction[]): void {
+  if (actions.length === 0) {
+    return;
+  }
+
+  const planned = actions.every((action) => action.status === 'planned');
+  console.log(
+    `\n🪞 Mirror: ${actions.length} file${actions.length === 1 ? '' : 's'} ${planned ? 'would be removed' : 'removed'}`
+  );
+  actions.forEach((action) => {
+    const target = action.action === 'trash' ? `→ ${action.trashPath || '.trash/'}` : '(deleted)';
+    const failure = action.status === 'failed' ? ` ❌ ${action.error}` : '';
+    console.log(`  • ${action.path} ${target}${failure}`);
+  });
+}
+
 // Helper function to save export data for reporting
 async function saveExportData(result: any, config: any): Promise<void> {
   const exportData = {
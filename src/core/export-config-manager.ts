@@ -3,6 +3,14 @@
 import { ExportConfig } from './export-types';
 import { IExportConfigValidator } from './interfaces';
 import { DEFAULT_EXPORT_CONFIG, SUPPORTED_EXPORT_FORMATS } from './constants';
+import { parseFolderReference } from '../services/quip/folder-selection';
+import { parseTranscriptRange } from '../services/quip/chat-exporter';
+import { EXPORT_PROFILES, isExportProfile } from './export-profiles';
+import { MIN_MULTIPART_PART_SIZE } from '../services/storage/s3-storage-backend';
+import type { ArchiveOptions, StorageConfig } from '../services/storage/types';
+
+// Smaller volumes would hold only a handful of documents each
+const MIN_ARCHIVE_VOLUME_SIZE = 1024 * 1024;
 import * as path from 'path';
 import * as fs from 'fs';
 
@@ -94,6 +102,11 @@ export class ExportConfigManager implements IExportConfigValidator {
       errors.push(`Export format must be one of: ${SUPPORTED_EXPORT_FORMATS.join(', ')}`);
     }
 
+    // Validate export profile
+    if (config.profile !== undefined && !isExportProfile(config.profile)) {
+      errors.push(`Export profile must be one of: ${Object.keys(EXPORT_PROFILES).join(', ')}`);
+    }
+
     // Validate rate limit delay
     if (config.rateLimitDelay < 0) {
       errors.push('Rate limit delay must be a non-negative integer (milliseconds)');
@@ -125,6 +138,54 @@ export class ExportConfigManager implements IExportConfigValidator {
     // Validate include folders array
     if (!Array.isArray(config.includeFolders)) {
       errors.push('Included folders must be an array');
+    } else {
+      this.validateFolderReferences(config.includeFolders, 'Included folder', errors);
+    }
+
+    // Validate excluded folders and path patterns
+    if (config.excludeFolders !== undefined) {
+      if (!Array.isArray(config.excludeFolders)) {
+        errors.push('Excluded folders must be an array');
+      } else {
+        this.validateFolderReferences(config.excludeFolders, 'Excluded folder', errors);
+      }
+    }
+    if (config.excludePatterns !== undefined) {
+      if (
+        !Array.isArray(config.excludePatterns) ||
+        config.excludePatterns.some((pattern) => typeof pattern !== 'string' || !pattern.trim())
+      ) {
+        errors.push('Excluded path patterns must be an array of non-empty strings');
+      }
+    }
+
+    // Validate storage backend settings
+    if (config.storage !== undefined) {
+      this.validateStorage(config.storage, errors);
+    }
+
+    // Validate archive output settings
+    if (config.archive !== undefined) {
+      this.validateArchive(config.archive, config.storage, errors);
+    }
+
+    // Validate mirror mode
+    if (config.mirror !== undefined) {
+      this.validateMirror(config, errors);
+    }
+
+    // Validate git repository output
+    if (config.git) {
+      this.validateGit(config, errors);
+    }
+
+    // Validate the chat transcript date range
+    if (config.chatTranscripts) {
+      try {
+        parseTranscriptRange(config.chatTranscripts);
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : String(error));
+      }
     }
 
     // Validate output directory for invalid characters
@@ -139,6 +200,103 @@ export class ExportConfigManager implements IExportConfigValidator {
     };
   }
 
+  /**
+   * Check that each entry is a folder ID or a Quip folder URL
+   */
+  private validateFolderReferences(references: unknown[], label: string, errors: string[]): void {
+    for (const reference of references) {
+      if (typeof reference !== 'string' || !parseFolderReference(reference)) {
+        errors.push(`${label} must be a folder ID or Quip folder URL: ${String(reference)}`);
+      }
+    }
+  }
+
+  /**
+   * Check the storage backend type and the settings it needs
+   */
+  private validateStorage(storage: StorageConfig, errors: string[]): void {
+    if (storage.type === 'local') {
+      return;
+    }
+    if (storage.type !== 's3') {
+      errors.push('Storage type must be "local" or "s3"');
+      return;
+    }
+
+    if (typeof storage.bucket !== 'string' || !storage.bucket.trim()) {
+      errors.push('S3 storage requires a bucket name');
+    }
+    if (storage.prefix !== undefined && typeof storage.prefix !== 'string') {
+      errors.push('S3 key prefix must be a string');
+    }
+    if (storage.endpoint !== undefined && !/^https?:\/\/[^\s]+$/.test(storage.endpoint)) {
+      errors.push('S3 endpoint must be an http:// or https:// URL');
+    }
+    if (
+      storage.partSize !== undefined &&
+      (!Number.isInteger(storage.partSize) || storage.partSize < MIN_MULTIPART_PART_SIZE)
+    ) {
+      errors.push(
+        `S3 part size must be an integer of at least ${MIN_MULTIPART_PART_SIZE} bytes (5 MiB)`
+      );
+    }
+  }
+
+  /**
+   * Check the archive format, volume size and that the archive is written locally
+   */
+  private validateArchive(
+    archive: ArchiveOptions,
+    storage: StorageConfig | undefined,
+    errors: string[]
+  ): void {
+    if (!['zip', 'tar.gz'].includes(archive.format)) {
+      errors.push('Archive format must be "zip" or "tar.gz"');
+    }
+    if (archive.path !== undefined && (typeof archive.path !== 'string' || !archive.path.trim())) {
+      errors.push('Archive path must be a non-empty string');
+    }
+    if (
+      archive.maxVolumeSize !== undefined &&
+      (!Number.isInteger(archive.maxVolumeSize) || archive.maxVolumeSize < MIN_ARCHIVE_VOLUME_SIZE)
+    ) {
+      errors.push(
+        `Archive volume size must be an integer of at least ${MIN_ARCHIVE_VOLUME_SIZE} bytes (1 MiB)`
+      );
+    }
+    if (storage && storage.type !== 'local') {
+      errors.push('Archive output cannot be combined with S3 storage');
+    }
+  }
+
+  /**
+   * Check the mirror mode and that the export covers every document it may prune
+   */
+  private validateMirror(config: ExportConfig, errors: string[]): void {
+    if (!['trash', 'delete'].includes(config.mirror as string)) {
+      errors.push('Mirror mode must be "trash" or "delete"');
+    }
+    if (config.archive) {
+      errors.push('Mirror mode cannot be combined with archive output');
+    }
+    // A limited discovery would make every document beyond the limit look removed
+    if (config.maxDocuments) {
+      errors.push('Mirror mode cannot be combined with a document limit');
+    }
+  }
+
+  /**
+   * Check that the output is a local directory git can work in
+   */
+  private validateGit(config: ExportConfig, errors: string[]): void {
+    if (config.archive) {
+      errors.push('Git output cannot be combined with archive output');
+    }
+    if (config.storage && config.storage.type !== 'local') {
+      errors.push('Git output requires local storage');
+    }
+  }
+
   /**
    * Validate authentication (placeholder - actual implementation would check tokens)
    */
@@ -194,6 +352,10 @@ export class ExportConfigManager implements IExportConfigValidator {
     return {
       'Output Directory': config.outputDirectory,
       'Export Format': config.exportFormat,
+      'Export Profile':
+        config.profile && isExportProfile(config.profile)
+          ? EXPORT_PROFILES[config.profile].label
+          : 'None',
       'Max Documents': config.maxDocuments || 'No limit',
       'Rate Limit Delay (ms)': config.rateLimitDelay,
       'Retry Attempts': config.retryAttempts,
@@ -201,8 +363,37 @@ export class ExportConfigManager implements IExportConfigValidator {
       'Include Shared Documents': config.includeSharedDocuments,
       'Include Folders':
         config.includeFolders.length > 0 ? config.includeFolders.join(', ') : 'All folders',
+      'Exclude Folders':
+        config.excludeFolders && config.excludeFolders.length > 0
+          ? config.excludeFolders.join(', ')
+          : 'None',
+      'Exclude Paths':
+        config.excludePatterns && config.excludePatterns.length > 0
+          ? config.excludePatterns.join(', ')
+          : 'None',
       'Sanitize File Names': config.sanitizeFileNames,
       'Conflict Resolution': config.conflictResolution,
+      Archive: config.archive
+        ? `${config.archive.format}${config.archive.maxVolumeSize ? ` (volumes of ${config.archive.maxVolumeSize} bytes)` : ''}`
+        : 'None',
+      Mirror: config.mirror
+        ? config.mirror === 'trash'
+          ? 'Move removed documents to .trash'
+          : 'Delete removed documents'
+        : 'Off',
+      Git: config.git ? 'Commit each export run' : 'Off',
+      'Chat Transcripts': config.chatTranscripts
+        ? [
+            config.chatTranscripts.since && `since ${config.chatTranscripts.since}`,
+            config.chatTranscripts.until && `until ${config.chatTranscripts.until}`,
+          ]
+            .filter(Boolean)
+            .join(', ') || 'All messages'
+        : 'Off',
+      Storage:
+        config.storage?.type === 's3'
+          ? `s3://${config.storage.bucket}${config.storage.prefix ? `/${config.storage.prefix}` : ''}`
+          : 'Local filesystem',
     };
   }
 
@@ -0,0 +1,77 @@
+// Index pages that link the html-standalone exports of each folder together
+
+import * as path from 'path';
+import { DocumentExportTask } from './export-types';
+import { StorageBackend } from '../services/storage/types';
+import {
+  BreadcrumbLink,
+  FOLDER_INDEX_FILE_NAME,
+  renderFolderIndex,
+} from '../services/quip/standalone-html';
+
+export const STANDALONE_HTML_FORMAT = 'html-standalone';
+
+interface FolderIndexEntry {
+  folders: Set<string>;
+  documents: BreadcrumbLink[];
+}
+
+/**
+ * Write an index page into every folder below `rootDirectory` that holds
+ * html-standalone exports, and into each of its parent folders up to the
+ * root. Returns the number of pages written.
+ */
+export async function writeFolderIndexes(
+  tasks: DocumentExportTask[],
+  rootDirectory: string,
+  storage: StorageBackend
+): Promise<number> {
+  const root = path.resolve(rootDirectory);
+  const entries = new Map<string, FolderIndexEntry>();
+  const getEntry = (folder: string): FolderIndexEntry => {
+    let entry = entries.get(folder);
+    if (!entry) {
+      entry = { folders: new Set(), documents: [] };
+      entries.set(folder, entry);
+    }
+    return entry;
+  };
+
+  for (const task of tasks) {
+    const filePath = task.filePaths?.[STANDALONE_HTML_FORMAT];
+    if (!filePath) {
+      continue;
+    }
+
+    const segments = path.relative(root, path.resolve(filePath)).split(path.sep);
+    if (segments[0] === '..' || path.isAbsolute(segments[0])) {
+      continue;
+    }
+
+    const fileName = segments.pop() as string;
+    getEntry(segments.join('/')).documents.push({
+      name: task.documentTitle,
+      href: encodeURIComponent(fileName),
+    });
+
+    // Parent folders link down to this one, even when they hold no documents themselves
+    for (let depth = segments.length; depth > 0; depth--) {
+      getEntry(segments.slice(0, depth - 1).join('/')).folders.add(segments[depth - 1]);
+    }
+  }
+
+  const byName = (a: BreadcrumbLink, b: BreadcrumbLink): number => a.name.localeCompare(b.name);
+  for (const [folder, entry] of entries) {
+    const folders = [...entry.folders].map((name) => ({
+      name,
+      href: `${encodeURIComponent(name)}/${FOLDER_INDEX_FILE_NAME}`,
+    }));
+    const html = renderFolderIndex(folder, folders.sort(byName), entry.documents.sort(byName));
+    await storage.write(
+      path.join(root, ...folder.split('/').filter(Boolean), FOLDER_INDEX_FILE_NAME),
+      Buffer.from(html, 'utf-8')
+    );
+  }
+
+  return entries.size;
+}
@@ -0,0 +1,162 @@
+// Summary, message and author of the git commit recorded for each export run
+
+import * as path from 'path';
+import { DocumentExportTask } from './export-types';
+import type { MirrorAction } from './export-mirror';
+import type { GitAuthor, GitFileChange } from '../services/local/git-repository';
+import type { QuipUser } from '../services/quip/types';
+import { FOLDER_INDEX_FILE_NAME } from '../services/quip/standalone-html';
+
+// Longer lists are cut off in the commit message
+const MAX_LISTED_DOCUMENTS = 50;
+
+export interface ChangedDocument {
+  documentId?: string; // Unknown for files that do not belong to an exported document
+  title: string;
+  authorId?: string;
+}
+
+export interface DocumentChanges {
+  added: ChangedDocument[];
+  updated: ChangedDocument[];
+  removed: ChangedDocument[];
+}
+
+export interface ExportGitCommit {
+  hash: string;
+  added: string[]; // Document titles
+  updated: string[];
+  removed: string[];
+  author?: GitAuthor; // Quip author the commit is attributed to
+}
+
+/**
+ * Group the staged file changes by document. A document whose files were
+ * all added is new, one whose files were all deleted is removed, and
+ * anything else (including a move to another folder) is an update.
+ */
+export function summarizeDocumentChanges(
+  changes: GitFileChange[],
+  tasks: DocumentExportTask[],
+  mirrorActions: MirrorAction[],
+  outputDirectory: string
+): DocumentChanges {
+  const root = path.resolve(outputDirectory);
+  const toRelative = (filePath: string): string =>
+    path.relative(root, path.resolve(root, filePath)).split(path.sep).join('/');
+
+  const owners = new Map<string, ChangedDocument>();
+  for (const task of tasks) {
+    const document = {
+      documentId: task.documentId,
+      title: task.documentTitle,
+      authorId: task.metadata?.author_id || undefined,
+    };
+    for (const filePath of Object.values(task.filePaths || {})) {
+      owners.set(toRelative(filePath), document);
+    }
+  }
+  for (const action of mirrorActions) {
+    if (!owners.has(action.path)) {
+      owners.set(action.path, { documentId: action.documentId, title: action.documentTitle });
+    }
+  }
+
+  const documents = new Map<string, { document: ChangedDocument; statuses: Set<string> }>();
+  for (const change of changes) {
+    // Folder index pages of standalone HTML exports are not documents
+    if (path.posix.basename(change.path) === FOLDER_INDEX_FILE_NAME) {
+      continue;
+    }
+    const document = owners.get(change.path) || {
+      title: path.basename(change.path, path.extname(change.path)),
+    };
+    const key = document.documentId || `path:${change.path}`;
+    const entry = documents.get(key) || { document, statuses: new Set<string>() };
+    entry.statuses.add(change.status);
+    documents.set(key, entry);
+  }
+
+  const result: DocumentChanges = { added: [], updated: [], removed: [] };
+  for (const { document, statuses } of documents.values()) {
+    if (statuses.size === 1 && statuses.has('added')) {
+      result.added.push(document);
+    } else if (statuses.size === 1 && statuses.has('deleted')) {
+      result.removed.push(document);
+    } else {
+      result.updated.push(document);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Pick the commit author: the Quip author when every added or updated
+ * document has the same one, otherwise none, with the authors listed as
+ * co-authors instead
+ */
+export function resolveGitAuthors(
+  changes: DocumentChanges,
+  users: Map<string, QuipUser>
+): { author?: GitAuthor; coAuthors: GitAuthor[] } {
+  const authorIds = Array.from(
+    new Set(
+      [...changes.added, ...changes.updated]
+        .map((document) => document.authorId)
+        .filter((authorId): authorId is string => !!authorId)
+    )
+  );
+  const authors = authorIds
+    .map((authorId) => users.get(authorId))
+    .filter((user): user is QuipUser => !!user)
+    .map((user) => ({ name: user.name, email: user.emails?.[0] || '' }));
+
+  if (authorIds.length === 1 && authors.length === 1) {
+    return { author: authors[0], coAuthors: [] };
+  }
+  // Co-author trailers are matched by email
+  return { coAuthors: authors.filter((author) => author.email) };
+}
+
+/**
+ * Format the commit message: a subject with the counts, the titles of the
+ * changed documents and the export session
+ */
+export function formatGitCommitMessage(
+  changes: DocumentChanges,
+  sessionId: string,
+  date: Date,
+  coAuthors: GitAuthor[] = []
+): string {
+  const lines = [
+    `Quip export ${date.toISOString().substring(0, 10)}: ${changes.added.length} added, ${changes.updated.length} updated, ${changes.removed.length} removed`,
+  ];
+
+  const sections: [string, ChangedDocument[]][] = [
+    ['Added', changes.added],
+    ['Updated', changes.updated],
+    ['Removed', changes.removed],
+  ];
+  for (const [heading, documents] of sections) {
+    if (documents.length === 0) {
+      continue;
+    }
+    const titles = documents.map((document) => document.title).sort();
+    lines.push('', `${heading}:`);
+    lines.push(...titles.slice(0, MAX_LISTED_DOCUMENTS).map((title) => `- ${title}`));
+    if (titles.length > MAX_LISTED_DOCUMENTS) {
+      lines.push(`- ... and ${titles.length - MAX_LISTED_DOCUMENTS} more`);
+    }
+  }
+
+  lines.push('', `Export session: ${sessionId}`);
+  if (coAuthors.length > 0) {
+    lines.push(
+      '',
+      ...coAuthors.map((author) => `Co-authored-by: ${author.name} <${author.email}>`)
+    );
+  }
+
+  return `${lines.join('\n')}\n`;
+}
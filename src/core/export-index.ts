@@ -0,0 +1,277 @@
+// Persistent per-output-directory index used for incremental exports
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Logger } from '../types';
+import { DocumentExportTask } from './export-types';
+import { StorageBackend } from '../services/storage/types';
+import { LocalStorageBackend } from '../services/storage/local-storage-backend';
+
+export const EXPORT_INDEX_FILE_NAME = '.quip-export-index.json';
+const EXPORT_INDEX_VERSION = 1;
+
+export interface ExportIndexEntry {
+  documentId: string;
+  title: string;
+  folderPath: string;
+  updatedUsec: number;
+  files: { [format: string]: string }; // Paths relative to the output directory
+  output?: ExportIndexOutput; // Missing in entries written before it was recorded
+  exportedAt: string;
+}
+
+/**
+ * Formats and options that shaped a document's exported files; a run that
+ * asks for different output re-exports the document
+ */
+export interface ExportIndexOutput {
+  formats: string[];
+  options: { [name: string]: unknown };
+}
+
+export interface ExportIndexData {
+  version: number;
+  updatedAt: string;
+  documents: { [documentId: string]: ExportIndexEntry };
+}
+
+/**
+ * Tracks which documents were exported into an output directory and at which
+ * Quip revision, so later runs can skip documents that have not changed.
+ * The index itself always lives on local disk; the exported files it lists
+ * are checked and removed through the storage backend they were written to.
+ */
+export class ExportIndex {
+  private readonly logger: Logger;
+  private readonly outputDirectory: string;
+  private readonly indexPath: string;
+  private readonly storage: StorageBackend;
+  private entries = new Map<string, ExportIndexEntry>();
+  private dirty = false;
+
+  constructor(
+    outputDirectory: string,
+    logger: Logger,
+    storage: StorageBackend = new LocalStorageBackend()
+  ) {
+    this.outputDirectory = path.resolve(outputDirectory);
+    this.indexPath = path.join(this.outputDirectory, EXPORT_INDEX_FILE_NAME);
+    this.logger = logger;
+    this.storage = storage;
+  }
+
+  /**
+   * Load the index from disk; a missing or unreadable index starts empty
+   */
+  async load(): Promise<void> {
+    this.entries.clear();
+    this.dirty = false;
+
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.indexPath, 'utf-8');
+    } catch (error) {
+      const fsError = error as NodeJS.ErrnoException;
+      if (fsError.code !== 'ENOENT') {
+        this.logger.warn(`Failed to read export index ${this.indexPath}: ${fsError.message}`);
+      }
+      return;
+    }
+
+    try {
+      const data = JSON.parse(raw) as ExportIndexData;
+      if (data.version !== EXPORT_INDEX_VERSION || !data.documents) {
+        this.logger.warn(`Ignoring export index with unsupported version: ${data.version}`);
+        return;
+      }
+
+      for (const [documentId, entry] of Object.entries(data.documents)) {
+        this.entries.set(documentId, entry);
+      }
+
+      this.logger.debug(`Loaded export index with ${this.entries.size} documents`);
+    } catch (error) {
+      this.logger.warn(
+        `Export index ${this.indexPath} is corrupted and will be rebuilt: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    }
+  }
+
+  /**
+   * Write the index to disk if it changed since the last save
+   */
+  async save(): Promise<void> {
+    if (!this.dirty) {
+      return;
+    }
+
+    const data: ExportIndexData = {
+      version: EXPORT_INDEX_VERSION,
+      updatedAt: new Date().toISOString(),
+      documents: Object.fromEntries(this.entries),
+    };
+
+    // Write to a temp file first so an interrupted run never leaves a truncated index
+    const tempPath = `${this.indexPath}.tmp`;
+    await fs.mkdir(this.outputDirectory, { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf-8');
+    await fs.rename(tempPath, this.indexPath);
+
+    this.dirty = false;
+    this.logger.debug(`Saved export index with ${this.entries.size} documents`);
+  }
+
+  /**
+   * Get the index entry for a document
+   */
+  getEntry(documentId: string): ExportIndexEntry | undefined {
+    return this.entries.get(documentId);
+  }
+
+  /**
+   * Get all index entries
+   */
+  getEntries(): ExportIndexEntry[] {
+    return Array.from(this.entries.values());
+  }
+
+  /**
+   * Check whether a task's document is unchanged since it was last exported,
+   * was exported as the requested output and all of its previously written
+   * files are still present
+   */
+  async isUnchanged(task: DocumentExportTask, output?: ExportIndexOutput): Promise<boolean> {
+    const entry = this.entries.get(task.documentId);
+    if (!entry || task.updatedUsec === undefined) {
+      return false;
+    }
+
+    if (entry.updatedUsec !== task.updatedUsec || entry.folderPath !== task.folderPath) {
+      return false;
+    }
+
+    if (output && !isSameOutput(entry.output, output)) {
+      this.logger.debug(`Export formats or options changed, re-exporting: ${task.documentTitle}`);
+      return false;
+    }
+
+    const files = Object.values(entry.files);
+    if (files.length === 0) {
+      return false;
+    }
+
+    for (const file of files) {
+      if (!(await this.fileExists(this.resolvePath(file)))) {
+        this.logger.debug(`Previously exported file is missing, re-exporting: ${file}`);
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Record a successfully exported task
+   */
+  recordExport(task: DocumentExportTask, output?: ExportIndexOutput): void {
+    if (task.updatedUsec === undefined) {
+      return;
+    }
+
+    const filePaths: { [format: string]: string } = task.filePaths
+      ? { ...task.filePaths }
+      : task.filePath
+        ? { [task.exportFormat]: task.filePath }
+        : {};
+
+    const files: { [format: string]: string } = {};
+    for (const [format, filePath] of Object.entries(filePaths)) {
+      files[format] = this.toRelativePath(filePath);
+    }
+
+    this.entries.set(task.documentId, {
+      documentId: task.documentId,
+      title: task.documentTitle,
+      folderPath: task.folderPath,
+      updatedUsec: task.updatedUsec,
+      files,
+      output,
+      exportedAt: (task.exportedAt || new Date()).toISOString(),
+    });
+    this.dirty = true;
+  }
+
+  /**
+   * Delete the files previously exported for a document so a changed document
+   * replaces its old output instead of being written next to it
+   */
+  async removeExportedFiles(documentId: string): Promise<void> {
+    const entry = this.entries.get(documentId);
+    if (!entry) {
+      return;
+    }
+
+    for (const file of Object.values(entry.files)) {
+      try {
+        await this.storage.delete(this.resolvePath(file));
+      } catch (error) {
+        this.logger.warn(
+          `Failed to remove previous export ${file}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+  }
+
+  /**
+   * Remove a document from the index
+   */
+  removeEntry(documentId: string): void {
+    if (this.entries.delete(documentId)) {
+      this.dirty = true;
+    }
+  }
+
+  /**
+   * Resolve an index path to an absolute path in the output directory
+   */
+  resolvePath(relativePath: string): string {
+    return path.resolve(this.outputDirectory, relativePath);
+  }
+
+  private async fileExists(filePath: string): Promise<boolean> {
+    try {
+      return await this.storage.exists(filePath);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to check previous export ${filePath}: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return false;
+    }
+  }
+
+  private toRelativePath(filePath: string): string {
+    return path.relative(this.outputDirectory, path.resolve(filePath)).split(path.sep).join('/');
+  }
+}
+
+function isSameOutput(
+  recorded: ExportIndexOutput | undefined,
+  requested: ExportIndexOutput
+): boolean {
+  if (!recorded) {
+    return false;
+  }
+
+  const normalize = (output: ExportIndexOutput): string =>
+    JSON.stringify({
+      formats: [...output.formats].sort(),
+      options: Object.fromEntries(
+        Object.entries(output.options)
+          .filter(([, value]) => value !== undefined)
+          .sort(([a], [b]) => a.localeCompare(b))
+      ),
+    });
+  return normalize(recorded) === normalize(requested);
+}
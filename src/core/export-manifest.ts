@@ -0,0 +1,243 @@
+// Manifest of the files produced by an export, with checksums for verifying the output later
+
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { DocumentExportTask } from './export-types';
+import { EXPORT_INDEX_FILE_NAME } from './export-index';
+import { EXPORT_TRASH_DIRECTORY } from './export-mirror';
+import { FOLDER_INDEX_FILE_NAME } from '../services/quip/standalone-html';
+import { StorageBackend } from '../services/storage/types';
+
+export const EXPORT_MANIFEST_FILE_NAME = 'manifest.json';
+export const EXPORT_REPORT_FILE_NAME = 'export-report.json';
+export const EXPORT_REPORTS_DIRECTORY = '_reports'; // Detailed reports written by the CLI
+const EXPORT_MANIFEST_VERSION = 1;
+
+// Bookkeeping files in the output directory that are not listed in the manifest
+const UNLISTED_FILE_NAMES = [
+  EXPORT_MANIFEST_FILE_NAME,
+  EXPORT_REPORT_FILE_NAME,
+  EXPORT_INDEX_FILE_NAME,
+];
+const UNLISTED_DIRECTORIES = [EXPORT_TRASH_DIRECTORY, EXPORT_REPORTS_DIRECTORY, '.git'];
+
+export interface ExportManifestFile {
+  documentId: string;
+  title: string;
+  sourceUrl?: string; // Link to the document in Quip
+  path: string; // Relative to the output directory, with forward slashes
+  format: string; // Export format, comment file key, or "asset"
+  size: number;
+  sha256: string;
+  updatedUsec?: number; // Quip revision the file was exported from
+}
+
+export interface ExportManifest {
+  version: number;
+  sessionId: string;
+  generatedAt: string;
+  files: ExportManifestFile[];
+}
+
+export interface ManifestVerificationResult {
+  manifest: ExportManifest;
+  verified: number; // Files whose size and checksum match
+  missing: ExportManifestFile[];
+  modified: ExportManifestFile[];
+  extra: string[]; // Paths relative to the output directory
+}
+
+/**
+ * List every file written for the tasks of an export. Documents skipped by an
+ * incremental export keep their entries from the previous manifest, so that
+ * files such as assets that are only known from the earlier run stay listed.
+ */
+export async function buildExportManifest(
+  sessionId: string,
+  tasks: DocumentExportTask[],
+  outputDirectory: string,
+  storage: StorageBackend,
+  previous?: ExportManifest | null
+): Promise<ExportManifest> {
+  const root = path.resolve(outputDirectory);
+  const files: ExportManifestFile[] = [];
+  const seen = new Set<string>();
+
+  const addFile = async (
+    task: DocumentExportTask,
+    format: string,
+    filePath: string
+  ): Promise<void> => {
+    const relativePath = toManifestPath(root, filePath);
+    if (seen.has(`${task.documentId}|${relativePath}`)) {
+      return;
+    }
+    seen.add(`${task.documentId}|${relativePath}`);
+
+    const checksum = await getFileChecksum(
+      storage,
+      path.resolve(root, relativePath),
+      task.fileHashes?.[format],
+      task.fileSizes?.[format]
+    );
+    if (!checksum) {
+      // Files that are gone by the end of the export were not part of its output
+      return;
+    }
+
+    files.push({
+      documentId: task.documentId,
+      title: task.documentTitle,
+      sourceUrl: task.metadata?.link,
+      path: relativePath,
+      format,
+      size: checksum.size,
+      sha256: checksum.sha256,
+      updatedUsec: task.updatedUsec,
+    });
+  };
+
+  const previousFiles = new Map<string, ExportManifestFile[]>();
+  for (const file of previous?.files || []) {
+    previousFiles.set(file.documentId, [...(previousFiles.get(file.documentId) || []), file]);
+  }
+
+  for (const task of tasks) {
+    if (task.status === 'skipped' && previousFiles.has(task.documentId)) {
+      for (const file of previousFiles.get(task.documentId) || []) {
+        await addFile(task, file.format, path.resolve(root, file.path));
+      }
+      continue;
+    }
+
+    if (task.status !== 'completed' && task.status !== 'skipped') {
+      continue;
+    }
+
+    for (const [format, filePath] of Object.entries(task.filePaths || {})) {
+      await addFile(task, format, filePath);
+    }
+    for (const asset of task.assets || []) {
+      if (asset.filePath) {
+        await addFile(task, 'asset', asset.filePath);
+      }
+    }
+  }
+
+  return {
+    version: EXPORT_MANIFEST_VERSION,
+    sessionId,
+    generatedAt: new Date().toISOString(),
+    files,
+  };
+}
+
+/**
+ * Read the manifest of an output directory, or null when there is none
+ */
+export async function readExportManifest(
+  outputDirectory: string,
+  storage: StorageBackend
+): Promise<ExportManifest | null> {
+  const manifestPath = path.join(path.resolve(outputDirectory), EXPORT_MANIFEST_FILE_NAME);
+  if (!(await storage.exists(manifestPath))) {
+    return null;
+  }
+
+  const manifest = JSON.parse((await storage.read(manifestPath)).toString('utf-8'));
+  if (!manifest || manifest.version !== EXPORT_MANIFEST_VERSION || !Array.isArray(manifest.files)) {
+    throw new Error(`Unsupported export manifest: ${storage.describe(manifestPath)}`);
+  }
+  return manifest as ExportManifest;
+}
+
+/**
+ * Re-hash the output directory and compare it with its manifest
+ */
+export async function verifyExportManifest(
+  outputDirectory: string,
+  storage: StorageBackend
+): Promise<ManifestVerificationResult> {
+  const root = path.resolve(outputDirectory);
+  const manifest = await readExportManifest(root, storage);
+  if (!manifest) {
+    throw new Error(`No ${EXPORT_MANIFEST_FILE_NAME} found in ${storage.describe(root)}`);
+  }
+
+  const present = new Map<string, number>();
+  for (const file of await storage.list(root)) {
+    present.set(toManifestPath(root, file.path), file.size);
+  }
+
+  const result: ManifestVerificationResult = {
+    manifest,
+    verified: 0,
+    missing: [],
+    modified: [],
+    extra: [],
+  };
+  const listed = new Set<string>();
+
+  for (const file of manifest.files) {
+    listed.add(file.path);
+
+    const size = present.get(file.path);
+    if (size === undefined) {
+      result.missing.push(file);
+    } else if (
+      size !== file.size ||
+      hashContent(await storage.read(path.resolve(root, file.path))) !== file.sha256
+    ) {
+      result.modified.push(file);
+    } else {
+      result.verified++;
+    }
+  }
+
+  for (const relativePath of present.keys()) {
+    if (
+      !listed.has(relativePath) &&
+      !UNLISTED_FILE_NAMES.includes(relativePath) &&
+      path.posix.basename(relativePath) !== FOLDER_INDEX_FILE_NAME &&
+      !UNLISTED_DIRECTORIES.some((directory) => relativePath.startsWith(`${directory}/`))
+    ) {
+      result.extra.push(relativePath);
+    }
+  }
+  result.extra.sort();
+
+  return result;
+}
+
+/**
+ * Size and checksum of a written file. A file hashed while it was downloaded
+ * is not read again, unless its size changed since.
+ */
+async function getFileChecksum(
+  storage: StorageBackend,
+  filePath: string,
+  recordedHash?: string,
+  recordedSize?: number
+): Promise<{ size: number; sha256: string } | null> {
+  if (recordedHash) {
+    const stats = await storage.stat(filePath);
+    if (stats && stats.size === recordedSize) {
+      return { size: stats.size, sha256: recordedHash };
+    }
+  }
+
+  try {
+    const content = await storage.read(filePath);
+    return { size: content.length, sha256: hashContent(content) };
+  } catch {
+    return null;
+  }
+}
+
+function hashContent(content: Buffer): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+function toManifestPath(root: string, filePath: string): string {
+  return path.relative(root, path.resolve(filePath)).split(path.sep).join('/');
+}
@@ -0,0 +1,126 @@
+// Mirror mode: prune exported files of documents that are no longer part of the export
+
+import * as path from 'path';
+import { Logger } from '../types';
+import { DocumentExportTask } from './export-types';
+import type { ExportManifest } from './export-manifest';
+import { StorageBackend } from '../services/storage/types';
+
+export const EXPORT_TRASH_DIRECTORY = '.trash';
+
+export type MirrorMode = 'trash' | 'delete';
+
+export interface MirrorAction {
+  documentId: string;
+  documentTitle: string;
+  path: string; // Relative to the output directory, with forward slashes
+  action: MirrorMode;
+  reason: 'removed' | 'replaced'; // Document no longer discovered, or re-exported to another file
+  trashPath?: string; // Where a trashed file was moved, relative to the output directory
+  status: 'planned' | 'done' | 'failed';
+  error?: string;
+}
+
+/**
+ * Compare the previous manifest with the current tasks and list the files that
+ * no longer belong to the export. Files of documents that were not exported
+ * successfully in this run are kept, as are files another document still uses.
+ */
+export async function planMirrorActions(
+  previous: ExportManifest,
+  tasks: DocumentExportTask[],
+  outputDirectory: string,
+  storage: StorageBackend,
+  mode: MirrorMode
+): Promise<MirrorAction[]> {
+  const root = path.resolve(outputDirectory);
+  const toRelative = (filePath: string): string =>
+    path.relative(root, path.resolve(root, filePath)).split(path.sep).join('/');
+
+  const tasksById = new Map(tasks.map((task) => [task.documentId, task]));
+  const keep = new Set<string>();
+
+  for (const task of tasks) {
+    for (const filePath of Object.values(task.filePaths || {})) {
+      keep.add(toRelative(filePath));
+    }
+    for (const asset of task.assets || []) {
+      if (asset.filePath) {
+        keep.add(toRelative(asset.filePath));
+      }
+    }
+  }
+  for (const file of previous.files) {
+    const task = tasksById.get(file.documentId);
+    if (task && task.status !== 'completed') {
+      keep.add(toRelative(file.path));
+    }
+  }
+
+  const actions: MirrorAction[] = [];
+  for (const file of previous.files) {
+    const relativePath = toRelative(file.path);
+
+    // Never touch anything outside the output directory, whatever the manifest says
+    if (keep.has(relativePath) || relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      continue;
+    }
+    keep.add(relativePath);
+
+    if (!(await storage.exists(path.join(root, relativePath)))) {
+      continue;
+    }
+
+    actions.push({
+      documentId: file.documentId,
+      documentTitle: file.title,
+      path: relativePath,
+      action: mode,
+      reason: tasksById.has(file.documentId) ? 'replaced' : 'removed',
+      status: 'planned',
+    });
+  }
+
+  return actions;
+}
+
+/**
+ * Move planned files into a timestamped trash folder or delete them. A
+ * failure is recorded on the action and does not stop the others.
+ */
+export async function applyMirrorActions(
+  actions: MirrorAction[],
+  outputDirectory: string,
+  storage: StorageBackend,
+  logger: Logger
+): Promise<MirrorAction[]> {
+  const root = path.resolve(outputDirectory);
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-').substring(0, 19);
+
+  for (const action of actions) {
+    const filePath = path.join(root, action.path);
+
+    try {
+      if (action.action === 'trash') {
+        const trashPath = `${EXPORT_TRASH_DIRECTORY}/${timestamp}/${action.path}`;
+        const trashFile = path.join(root, trashPath);
+
+        await storage.ensureDirectory(path.dirname(trashFile));
+        await storage.write(trashFile, await storage.read(filePath));
+        action.trashPath = trashPath;
+      }
+
+      await storage.delete(filePath);
+      action.status = 'done';
+      logger.debug(
+        `Mirror: ${action.action === 'trash' ? 'moved to trash' : 'deleted'} ${action.path}`
+      );
+    } catch (error) {
+      action.status = 'failed';
+      action.error = error instanceof Error ? error.message : String(error);
+      logger.warn(`Mirror: failed to remove ${action.path}: ${action.error}`);
+    }
+  }
+
+  return actions;
+}
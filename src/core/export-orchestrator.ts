@@ -1,16 +1,47 @@
 // Export orchestrator for managing batch processing and export operations
 
-import { Logger } from '../types';
+import * as path from 'path';
+import { Logger, QuipDocument } from '../types';
 import { ExportStateManager } from './export-state-manager';
-import { ExportConfig, ExportSession, DocumentExportTask } from './export-types';
+import { ExportConfig, ExportFormat, ExportSession, DocumentExportTask } from './export-types';
 import { DocumentDiscovery } from '../services/quip/document-discovery';
-import { DocumentExporter } from '../services/quip/document-exporter';
-import { FileWriter } from '../services/local/file-writer';
+import {
+  DocumentExporter,
+  ExportOptions,
+  MarkdownOptions,
+} from '../services/quip/document-exporter';
+import { renderMetadataSidecar } from '../services/quip/document-metadata';
+import { ExportedAsset } from '../services/quip/blob-assets';
+import { DownloadProgress } from '../services/quip/types';
+import { FileWriter, FileWriteSource } from '../services/local/file-writer';
 import { FolderStructureMapper } from '../services/local/folder-structure-mapper';
+import { DocumentLinkRewriter, UnresolvedLink } from '../services/local/document-link-rewriter';
 import { DirectoryManager } from '../services/local/directory-manager';
 import { ErrorHandler } from './error-handler';
 import { CircuitBreakerManager } from './circuit-breaker';
 import { FileWriteResult } from '../services/local/types';
+import { ExportIndex, ExportIndexOutput } from './export-index';
+import { getResumableTasks } from './export-session-store';
+import { StorageBackend } from '../services/storage/types';
+import { LocalStorageBackend } from '../services/storage/local-storage-backend';
+import { ArchiveStorageBackend } from '../services/storage/archive-storage-backend';
+import {
+  EXPORT_MANIFEST_FILE_NAME,
+  EXPORT_REPORT_FILE_NAME,
+  buildExportManifest,
+  readExportManifest,
+} from './export-manifest';
+import { MirrorAction, MirrorMode, applyMirrorActions, planMirrorActions } from './export-mirror';
+import { STANDALONE_HTML_FORMAT, writeFolderIndexes } from './export-folder-index';
+import { getExportProfile } from './export-profiles';
+import { GitRepository } from '../services/local/git-repository';
+import { ExportReporter, FormatExportResult } from '../progress/export-reporter';
+import {
+  ExportGitCommit,
+  formatGitCommitMessage,
+  resolveGitAuthors,
+  summarizeDocumentChanges,
+} from './export-git-commit';
 
 export interface BatchProcessingOptions {
   batchSize: number;
@@ -21,7 +52,26 @@ export interface BatchProcessingOptions {
   memoryThreshold: number; // MB
 }
 
+// Keys under which the comment files are tracked in a task's filePaths
+const COMMENTS_JSON_KEY = 'comments';
+const COMMENTS_MARKDOWN_KEY = 'comments-markdown';
+
+// Key under which the JSON transcript of a chat is tracked
+const TRANSCRIPT_KEY = 'transcript';
+
+// Metadata sidecars are tracked per format, e.g. "metadata-native"
+const METADATA_KEY = 'metadata';
+
+// Sheets after the first of a CSV or JSON spreadsheet export are tracked per format, e.g. "csv-sheet-2"
+const SHEET_KEY = 'sheet';
+
+export interface DocumentDownloadProgress extends DownloadProgress {
+  documentId: string;
+  documentTitle: string;
+}
+
 export interface ExportResult {
+  sessionId: string;
   success: boolean;
   totalDocuments: number;
   successfulExports: number;
@@ -34,6 +84,10 @@ export interface ExportResult {
   }>;
   outputDirectory: string;
   duration: number;
+  unresolvedLinks?: UnresolvedLink[]; // Links to Quip documents that were not exported
+  archiveFiles?: string[]; // Archive volumes written in archive output mode
+  mirrorActions?: MirrorAction[]; // Files removed because their documents left the export
+  gitCommit?: ExportGitCommit; // Commit recording this run in git output mode
 }
 
 /**
@@ -47,12 +101,21 @@ export class ExportOrchestrator {
   private readonly fileWriter: FileWriter;
   private readonly folderMapper: FolderStructureMapper;
   private readonly directoryManager: DirectoryManager;
+  private readonly storage: StorageBackend;
   private readonly errorHandler: ErrorHandler;
   private readonly circuitBreakerManager: CircuitBreakerManager;
+  private readonly linkRewriter: DocumentLinkRewriter;
 
   private isExporting = false;
   private shouldCancel = false;
   private currentBatch: DocumentExportTask[] = [];
+  private exportIndex: ExportIndex | null = null;
+  private unresolvedLinks: UnresolvedLink[] = [];
+  private mirrorActions: MirrorAction[] = [];
+  private incompleteDiscovery?: string; // Set when the last discovery may have missed documents
+  private gitCommit: ExportGitCommit | undefined;
+  private reporter?: ExportReporter;
+  private readonly downloadListeners: Array<(progress: DocumentDownloadProgress) => void> = [];
 
   constructor(
     logger: Logger,
@@ -61,7 +124,8 @@ export class ExportOrchestrator {
     documentExporter: DocumentExporter,
     fileWriter: FileWriter,
     folderMapper: FolderStructureMapper,
-    directoryManager: DirectoryManager
+    directoryManager: DirectoryManager,
+    storage: StorageBackend = new LocalStorageBackend()
   ) {
     this.logger = logger;
     this.stateManager = stateManager;
@@ -70,7 +134,9 @@ export class ExportOrchestrator {
     this.fileWriter = fileWriter;
     this.folderMapper = folderMapper;
     this.directoryManager = directoryManager;
+    this.storage = storage;
     this.errorHandler = new ErrorHandler(logger);
+    this.linkRewriter = new DocumentLinkRewriter(folderMapper, logger, storage);
     this.circuitBreakerManager = new CircuitBreakerManager(logger, {
       failureThreshold: 5,
       recoveryTimeout: 60000, // 1 minute
@@ -108,38 +174,75 @@ export class ExportOrchestrator {
       // Discover documents
       const documents = await this.discoverDocuments(config);
       this.stateManager.initializeExport(documents.length);
+      this.stateManager.setTasks(documents, this.incompleteDiscovery);
+      await this.stateManager.persistSession();
 
       if (documents.length === 0) {
         this.logger.warn('No documents found to export');
         this.stateManager.completeExport();
+        await this.stateManager.persistSession();
         return this.generateResult(session);
       }
 
-      // Create output directory structure
-      await this.setupOutputDirectory(config.outputDirectory);
-
-      // Process documents in batches
-      await this.processBatches(documents, config);
-
-      // Complete export
-      this.stateManager.completeExport();
-      this.logger.info('Export completed successfully');
+      await this.executeTasks(documents, config, true);
 
       return this.generateResult(session);
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      this.logger.error(`Export failed: ${errorMessage}`);
-      this.stateManager.failExport(errorMessage);
+      return this.handleExportFailure(error);
+    } finally {
+      this.isExporting = false;
+      this.shouldCancel = false;
+      this.exportIndex = null;
+    }
+  }
 
-      const session = this.stateManager.getCurrentSession();
-      if (session) {
-        return this.generateResult(session);
+  /**
+   * Resume a persisted export session, exporting only its pending and failed tasks
+   */
+  async resumeSession(sessionId: string): Promise<ExportResult> {
+    if (this.isExporting) {
+      throw new Error('Export is already in progress');
+    }
+
+    const session = await this.stateManager.loadSession(sessionId);
+    if (!session) {
+      throw new Error(`Export session not found: ${sessionId}`);
+    }
+    if (!session.tasks) {
+      throw new Error(`Export session ${sessionId} has no saved tasks to resume`);
+    }
+
+    this.isExporting = true;
+    this.shouldCancel = false;
+
+    try {
+      const remainingTasks = getResumableTasks(session);
+      for (const task of remainingTasks) {
+        task.status = 'pending';
+        task.error = undefined;
+        task.retryCount = 0;
       }
 
-      throw error;
+      this.stateManager.restoreSession(session);
+      this.logger.info(
+        `Resuming export session ${session.id}: ${remainingTasks.length} of ${session.tasks.length} documents remaining`
+      );
+
+      const validation = this.stateManager.validateConfig(session.config);
+      if (!validation.valid) {
+        throw new Error(`Invalid configuration: ${validation.errors.join(', ')}`);
+      }
+
+      // Remaining tasks already passed the incremental check when the session started
+      await this.executeTasks(remainingTasks, session.config, false);
+
+      return this.generateResult(session);
+    } catch (error) {
+      return this.handleExportFailure(error);
     } finally {
       this.isExporting = false;
       this.shouldCancel = false;
+      this.exportIndex = null;
     }
   }
 
@@ -186,6 +289,21 @@ export class ExportOrchestrator {
     this.logger.info('Export resumed');
   }
 
+  /**
+   * Record the exported documents with their assets and unresolved links, and
+   * the files removed by mirror mode, in a reporter for the export report
+   */
+  setReporter(reporter: ExportReporter): void {
+    this.reporter = reporter;
+  }
+
+  /**
+   * Get notified of the bytes received while DOCX and XLSX exports are streamed to disk
+   */
+  onDownloadProgress(listener: (progress: DocumentDownloadProgress) => void): void {
+    this.downloadListeners.push(listener);
+  }
+
   /**
    * Get current export status
    */
@@ -244,6 +362,36 @@ export class ExportOrchestrator {
     this.logger.info('Reset error handling and circuit breakers');
   }
 
+  /**
+   * List the files a mirror export would remove, without exporting or changing
+   * anything. Before the export runs, only documents that are no longer
+   * discovered are known; files replaced by re-exported documents are not listed.
+   */
+  async previewMirror(config: ExportConfig): Promise<MirrorAction[]> {
+    const previous = await readExportManifest(config.outputDirectory, this.storage);
+    if (!previous) {
+      return [];
+    }
+
+    // An export that discovers nothing stops before mirroring
+    const tasks = await this.discoverDocuments(config);
+    if (tasks.length === 0) {
+      return [];
+    }
+    if (this.incompleteDiscovery) {
+      this.logger.warn(`Mirror: nothing will be removed, as ${this.incompleteDiscovery}`);
+      return [];
+    }
+
+    return planMirrorActions(
+      previous,
+      tasks,
+      config.outputDirectory,
+      this.storage,
+      config.mirror || 'trash'
+    );
+  }
+
   /**
    * Discover documents to export
    */
@@ -253,8 +401,11 @@ export class ExportOrchestrator {
     try {
       const discoveryResult = await this.documentDiscovery.discoverDocuments({
         includeShared: config.includeSharedDocuments,
-        types: ['DOCUMENT', 'SPREADSHEET'],
+        types: this.getDiscoveryTypes(config),
         maxDocuments: config.maxDocuments, // Pass the limit to optimize discovery
+        includeFolders: config.includeFolders,
+        excludeFolders: config.excludeFolders,
+        excludePatterns: config.excludePatterns,
       });
 
       const tasks: DocumentExportTask[] = discoveryResult.documents.map((docWithPath, index) => ({
@@ -262,12 +413,24 @@ export class ExportOrchestrator {
         documentTitle: docWithPath.document.title,
         documentType: docWithPath.document.type,
         folderPath: docWithPath.folderPath || 'Private',
+        updatedUsec: docWithPath.document.updated_usec,
+        metadata: docWithPath.document,
         exportFormat: this.determineExportFormat(docWithPath.document.type, config.exportFormat),
         priority: index,
         retryCount: 0,
         status: 'pending',
       }));
 
+      // Documents that discovery missed would look removed to mirror mode
+      const failedFolders = discoveryResult.failedFolderIds?.length || 0;
+      if (discoveryResult.limitReached) {
+        this.incompleteDiscovery = `discovery stopped at the limit of ${config.maxDocuments} documents`;
+      } else if (failedFolders > 0) {
+        this.incompleteDiscovery = `${failedFolders} folder${failedFolders === 1 ? '' : 's'} failed to load during discovery`;
+      } else {
+        this.incompleteDiscovery = undefined;
+      }
+
       this.logger.info(`Discovered ${tasks.length} documents for export`);
       return tasks;
     } catch (error) {
@@ -276,6 +439,419 @@ export class ExportOrchestrator {
     }
   }
 
+  /**
+   * Thread types to discover; chats are only exported for their transcripts or messages
+   */
+  private getDiscoveryTypes(config: ExportConfig): Array<'DOCUMENT' | 'SPREADSHEET' | 'CHAT'> {
+    return config.chatTranscripts || config.includeComments
+      ? ['DOCUMENT', 'SPREADSHEET', 'CHAT']
+      : ['DOCUMENT', 'SPREADSHEET'];
+  }
+
+  /**
+   * Export the given tasks and finish the session
+   */
+  private async executeTasks(
+    tasks: DocumentExportTask[],
+    config: ExportConfig,
+    skipUnchanged: boolean
+  ): Promise<void> {
+    // Create output directory structure
+    await this.setupOutputDirectory(config.outputDirectory);
+
+    // Every archive is a complete export, so there is no earlier output to compare against
+    let pendingTasks = tasks;
+    if (config.incremental !== false && !config.archive) {
+      this.exportIndex = new ExportIndex(config.outputDirectory, this.logger, this.storage);
+      await this.exportIndex.load();
+
+      // Skip documents that are unchanged since the last export into this directory
+      if (skipUnchanged) {
+        pendingTasks = await this.skipUnchangedDocuments(tasks, this.exportIndex, config);
+        await this.stateManager.persistSession();
+      }
+    }
+
+    // Process documents in batches
+    await this.processBatches(pendingTasks, config);
+
+    // A cancelled export is rewritten when it is resumed, once the remaining documents exist
+    this.unresolvedLinks = [];
+    if (!this.shouldCancel && config.rewriteLinks !== false) {
+      await this.rewriteDocumentLinks(config);
+      for (const link of this.unresolvedLinks) {
+        this.reporter?.recordUnresolvedLinks(link.documentId, [link.url]);
+      }
+    }
+
+    // Only a complete run shows which documents are gone
+    this.mirrorActions = [];
+    this.gitCommit = undefined;
+    if (!this.shouldCancel && config.mirror) {
+      await this.mirrorOutput(config, config.mirror);
+      this.reporter?.recordMirrorActions(this.mirrorActions);
+    }
+
+    if (!this.shouldCancel && config.exportFormats?.includes(STANDALONE_HTML_FORMAT)) {
+      await this.writeStandaloneFolderIndexes(config);
+    }
+
+    if (this.shouldCancel) {
+      this.stateManager.cancelExport();
+    } else {
+      this.stateManager.completeExport();
+      await this.finishOutput(config);
+      if (config.git) {
+        await this.commitOutput(config);
+      }
+      this.logger.info('Export completed successfully');
+    }
+
+    await this.stateManager.persistSession();
+  }
+
+  /**
+   * Write the index pages that the breadcrumbs of html-standalone exports link to
+   */
+  private async writeStandaloneFolderIndexes(config: ExportConfig): Promise<void> {
+    const root = config.useFormatDirectories
+      ? path.join(config.outputDirectory, STANDALONE_HTML_FORMAT)
+      : config.outputDirectory;
+
+    try {
+      const written = await writeFolderIndexes(
+        this.stateManager.getCurrentSession()?.tasks || [],
+        root,
+        this.storage
+      );
+      this.logger.info(`Wrote ${written} folder index pages for standalone HTML`);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to write folder index pages: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Write the manifest of the exported files, add the report to an archive
+   * and complete the output. A cancelled export is left open so that resuming
+   * it continues the output.
+   */
+  private async finishOutput(config: ExportConfig): Promise<void> {
+    const session = this.stateManager.getCurrentSession();
+
+    if (session) {
+      try {
+        // Archives always hold a complete export, so there is no earlier manifest to carry over
+        const previous = config.archive
+          ? null
+          : await readExportManifest(config.outputDirectory, this.storage);
+        const manifest = await buildExportManifest(
+          session.id,
+          session.tasks || [],
+          config.outputDirectory,
+          this.storage,
+          previous
+        );
+        await this.storage.write(
+          path.join(config.outputDirectory, EXPORT_MANIFEST_FILE_NAME),
+          Buffer.from(JSON.stringify(manifest, null, 2), 'utf-8')
+        );
+      } catch (error) {
+        this.logger.warn(
+          `Failed to write export manifest: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    if (config.archive && session) {
+      const report = { generatedAt: new Date().toISOString(), ...this.generateResult(session) };
+      await this.storage.write(
+        path.join(config.outputDirectory, EXPORT_REPORT_FILE_NAME),
+        Buffer.from(JSON.stringify(report, null, 2), 'utf-8')
+      );
+    }
+
+    if (this.storage.close) {
+      await this.storage.close();
+    }
+  }
+
+  /**
+   * Commit the changed Markdown and HTML files to the git repository in the
+   * output directory. A failure is logged and does not fail the export.
+   */
+  private async commitOutput(config: ExportConfig): Promise<void> {
+    const session = this.stateManager.getCurrentSession();
+    if (!session) {
+      return;
+    }
+
+    try {
+      // Make sure the output directory is its own repository, never an enclosing one
+      const repository = new GitRepository(config.outputDirectory, this.logger);
+      await repository.initialize();
+
+      const staged = await repository.stageExportedFiles();
+      if (staged.length === 0) {
+        this.logger.info('Git: no changed files to commit');
+        return;
+      }
+
+      const changes = summarizeDocumentChanges(
+        staged,
+        session.tasks || [],
+        this.mirrorActions,
+        config.outputDirectory
+      );
+      const authorIds = [...changes.added, ...changes.updated]
+        .map((document) => document.authorId)
+        .filter((authorId): authorId is string => !!authorId);
+      const { author, coAuthors } = resolveGitAuthors(
+        changes,
+        await this.documentDiscovery.getUsers(authorIds)
+      );
+
+      const hash = await repository.commit(
+        formatGitCommitMessage(changes, session.id, new Date(), coAuthors),
+        author
+      );
+      if (hash) {
+        this.gitCommit = {
+          hash,
+          added: changes.added.map((document) => document.title),
+          updated: changes.updated.map((document) => document.title),
+          removed: changes.removed.map((document) => document.title),
+          author,
+        };
+        this.logger.info(
+          `Git: committed ${staged.length} changed files as ${hash.substring(0, 7)}`
+        );
+      }
+    } catch (error) {
+      this.logger.warn(
+        `Git: failed to commit the export: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Remove the files of documents that left the export since the previous run,
+   * as recorded in its manifest
+   */
+  private async mirrorOutput(config: ExportConfig, mode: MirrorMode): Promise<void> {
+    const session = this.stateManager.getCurrentSession();
+    const tasks = session?.tasks || [];
+
+    if (session?.incompleteDiscovery) {
+      this.logger.warn(`Mirror: skipped, as ${session.incompleteDiscovery}`);
+      return;
+    }
+
+    try {
+      const previous = await readExportManifest(config.outputDirectory, this.storage);
+      if (!previous) {
+        this.logger.info('Mirror: no manifest from an earlier export, nothing to remove');
+        return;
+      }
+
+      const actions = await planMirrorActions(
+        previous,
+        tasks,
+        config.outputDirectory,
+        this.storage,
+        mode
+      );
+      this.mirrorActions = await applyMirrorActions(
+        actions,
+        config.outputDirectory,
+        this.storage,
+        this.logger
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Mirror: failed to compare with the previous export: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return;
+    }
+
+    if (this.exportIndex) {
+      const documentIds = new Set(tasks.map((task) => task.documentId));
+      for (const entry of this.exportIndex.getEntries()) {
+        if (!documentIds.has(entry.documentId)) {
+          this.exportIndex.removeEntry(entry.documentId);
+        }
+      }
+      await this.updateExportIndex([], config);
+    }
+
+    if (this.mirrorActions.length > 0) {
+      const removed = this.mirrorActions.filter((action) => action.status === 'done').length;
+      this.logger.info(
+        `Mirror: ${mode === 'trash' ? 'moved' : 'deleted'} ${removed} files of documents no longer in the export`
+      );
+      await this.directoryManager.cleanupEmptyDirectories();
+    }
+  }
+
+  /**
+   * Point links between exported documents at the local files instead of Quip
+   */
+  private async rewriteDocumentLinks(config: ExportConfig): Promise<void> {
+    const tasks = this.stateManager.getCurrentSession()?.tasks || [];
+
+    // Rewriting is idempotent, so resumed sessions also revisit documents from earlier runs
+    const files = tasks
+      .filter((task) => task.status === 'completed')
+      .flatMap((task) =>
+        Object.values(task.filePaths || {}).map((filePath) => ({
+          documentId: task.documentId,
+          documentTitle: task.documentTitle,
+          filePath,
+        }))
+      );
+
+    try {
+      for (const task of tasks) {
+        const documentFiles = Object.fromEntries(
+          Object.entries(task.filePaths || {}).filter(
+            ([key]) =>
+              key !== COMMENTS_JSON_KEY &&
+              key !== COMMENTS_MARKDOWN_KEY &&
+              key !== TRANSCRIPT_KEY &&
+              !key.startsWith(`${METADATA_KEY}-`) &&
+              !key.includes(`-${SHEET_KEY}-`)
+          )
+        );
+        if (Object.keys(documentFiles).length > 0) {
+          this.folderMapper.registerDocumentFiles(this.getTaskDocument(task), documentFiles);
+        }
+      }
+
+      // Obsidian resolves [[wiki-links]] from the root of the vault, which is the output directory
+      const result = await this.linkRewriter.rewriteFiles(
+        files,
+        getExportProfile(config.profile)?.wikiLinks ? { wikiLinkRoot: config.outputDirectory } : {}
+      );
+      this.unresolvedLinks = result.unresolvedLinks;
+
+      if (result.linksRewritten > 0) {
+        this.logger.info(
+          `Rewrote ${result.linksRewritten} links between documents in ${result.filesUpdated} files`
+        );
+      }
+      if (result.unresolvedLinks.length > 0) {
+        this.logger.warn(
+          `${result.unresolvedLinks.length} links point to Quip documents outside this export`
+        );
+      }
+    } catch (error) {
+      // The exported files are still usable with links pointing at Quip
+      this.logger.warn(
+        `Failed to rewrite document links: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Record a failed export run and build its result
+   */
+  private async handleExportFailure(error: unknown): Promise<ExportResult> {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    this.logger.error(`Export failed: ${errorMessage}`);
+
+    const session = this.stateManager.getCurrentSession();
+    if (!session) {
+      throw error;
+    }
+
+    this.stateManager.failExport(errorMessage);
+    await this.stateManager.persistSession();
+    return this.generateResult(session);
+  }
+
+  /**
+   * Mark documents unchanged since the previous export as skipped and return the rest
+   */
+  private async skipUnchangedDocuments(
+    tasks: DocumentExportTask[],
+    exportIndex: ExportIndex,
+    config: ExportConfig
+  ): Promise<DocumentExportTask[]> {
+    const pendingTasks: DocumentExportTask[] = [];
+
+    for (const task of tasks) {
+      if (await exportIndex.isUnchanged(task, this.getIndexOutput(task, config))) {
+        const entry = exportIndex.getEntry(task.documentId)!;
+        task.status = 'skipped';
+        task.filePaths = Object.fromEntries(
+          Object.entries(entry.files).map(([format, file]) => [
+            format,
+            exportIndex.resolvePath(file),
+          ])
+        );
+        this.stateManager.skipDocumentExport();
+      } else {
+        pendingTasks.push(task);
+      }
+    }
+
+    const skippedCount = tasks.length - pendingTasks.length;
+    if (skippedCount > 0) {
+      this.logger.info(
+        `Incremental export: skipping ${skippedCount} unchanged documents, ${pendingTasks.length} new or changed`
+      );
+    }
+
+    return pendingTasks;
+  }
+
+  /**
+   * Record completed tasks in the export index and persist it
+   */
+  private async updateExportIndex(
+    tasks: DocumentExportTask[],
+    config: ExportConfig
+  ): Promise<void> {
+    if (!this.exportIndex) {
+      return;
+    }
+
+    for (const task of tasks) {
+      if (task.status === 'completed') {
+        this.exportIndex.recordExport(task, this.getIndexOutput(task, config));
+      }
+    }
+
+    try {
+      await this.exportIndex.save();
+    } catch (error) {
+      // A stale index only costs re-exporting documents on the next run
+      this.logger.warn(
+        `Failed to save export index: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Formats and options that shape a document's exported files, so documents
+   * exported with other settings are not skipped as unchanged
+   */
+  private getIndexOutput(task: DocumentExportTask, config: ExportConfig): ExportIndexOutput {
+    return {
+      formats: this.getFormatsForDocument(task.documentType, config),
+      options: {
+        profile: config.profile,
+        useFormatDirectories: config.useFormatDirectories,
+        downloadAssets: config.downloadAssets !== false,
+        includeComments: !!config.includeComments,
+        documentMetadata: !!config.documentMetadata,
+        chatTranscripts: task.documentType === 'CHAT' ? config.chatTranscripts : undefined,
+        formatSpecificOptions: config.formatSpecificOptions,
+      },
+    };
+  }
+
   /**
    * Set up output directory structure
    */
@@ -283,7 +859,10 @@ export class ExportOrchestrator {
     this.logger.info(`Setting up output directory: ${outputDirectory}`);
 
     try {
-      await this.directoryManager.initializeBaseDirectory();
+      const result = await this.directoryManager.initializeBaseDirectory();
+      if (!result.success) {
+        throw new Error(result.error || 'Unknown error');
+      }
       this.logger.debug('Output directory created successfully');
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -323,6 +902,8 @@ export class ExportOrchestrator {
       this.logger.debug(`Processing batch ${i + 1}/${batches.length} (${batch.length} documents)`);
 
       await this.processBatch(batch, config, batchOptions);
+      await this.updateExportIndex(batch, config);
+      await this.stateManager.persistSession();
 
       // Rate limiting between batches
       if (i < batches.length - 1 && batchOptions.rateLimitDelay > 0) {
@@ -342,7 +923,9 @@ export class ExportOrchestrator {
     config: ExportConfig,
     options: BatchProcessingOptions
   ): Promise<void> {
-    const promises = batch.map((task) => this.processDocument(task, config, options));
+    const promises = batch.map((task) =>
+      this.processDocument(task, config, options).then(() => this.reportDocument(task, config))
+    );
 
     // Process documents in the batch concurrently but with limited concurrency
     await this.processConcurrently(promises, options.concurrentBatches);
@@ -356,14 +939,13 @@ export class ExportOrchestrator {
     config: ExportConfig,
     options: BatchProcessingOptions
   ): Promise<void> {
+    // Tasks left pending here are picked up again when the session is resumed
     if (this.shouldCancel) {
-      task.status = 'skipped';
       return;
     }
 
     // Check if we should abort due to error patterns
     if (this.errorHandler.shouldAbortOperation()) {
-      task.status = 'skipped';
       this.logger.warn(`Skipping document ${task.documentTitle} due to high error rate`);
       return;
     }
@@ -379,64 +961,120 @@ export class ExportOrchestrator {
       task.folderPath,
       formats
     );
+    this.reporter?.recordDocumentStart(
+      task.documentId,
+      task.documentTitle,
+      task.metadata?.link || '',
+      task.folderPath
+    );
+
+    // Replace the output of a previous run instead of writing numbered copies
+    if (this.exportIndex && Object.keys(task.filePaths || {}).length === 0) {
+      await this.exportIndex.removeExportedFiles(task.documentId);
+    }
+
+    task.filePaths = task.filePaths || {};
+    task.fileSizes = task.fileSizes || {};
+    task.formatErrors = {};
 
     for (let attempt = 0; attempt <= options.maxRetries; attempt++) {
       try {
-        // Use circuit breaker for document export with multi-format support
-        const exportResult = await this.circuitBreakerManager.execute('document-export', () =>
-          this.documentExporter.exportDocument(
-            { id: task.documentId, title: task.documentTitle, type: task.documentType } as any,
-            {
-              preferredFormat: formats[0] as 'native' | 'html' | 'markdown',
-              fallbackToHtml: true,
-              includeMetadata: true,
+        // Formats written by an earlier attempt (or an earlier run of a resumed session) are kept
+        const remainingFormats = formats.filter((format) => !task.filePaths![format]);
+
+        for (const format of remainingFormats) {
+          this.stateManager.startFormatExport(task.documentId, format);
+
+          try {
+            const writeResult = await this.exportFormat(task, format, formats, config);
+
+            task.filePaths[format] = writeResult.filePath!;
+            task.fileSizes[format] = writeResult.size || 0;
+            if (writeResult.sha256) {
+              // Lets the manifest skip re-reading large downloads
+              task.fileHashes = { ...task.fileHashes, [format]: writeResult.sha256 };
             }
-          )
-        );
+            delete task.formatErrors[format];
 
-        if (!exportResult.success) {
-          throw new Error(exportResult.error || 'Export failed');
-        }
+            this.stateManager.completeFormatExport(task.documentId, format, true);
+          } catch (error) {
+            const formatError = error instanceof Error ? error : new Error(String(error));
+            task.formatErrors[format] = formatError.message;
 
-        // Determine local file path
-        const folderMappingResult = await this.folderMapper.mapQuipFolder({
-          id: 'folder-' + task.folderPath,
-          name: task.folderPath,
-          type: 'private',
-          fullPath: task.folderPath,
-        });
+            this.stateManager.completeFormatExport(task.documentId, format, false, formatError);
+            this.logger.warn(
+              `${format.toUpperCase()} export failed for ${task.documentTitle}: ${formatError.message}`
+            );
+          }
+        }
 
-        const localPath = folderMappingResult.localPath || config.outputDirectory;
+        if (config.documentMetadata) {
+          try {
+            await this.writeMetadataSidecars(task, formats);
+            delete task.formatErrors[METADATA_KEY];
+          } catch (error) {
+            const metadataError = error instanceof Error ? error : new Error(String(error));
+            task.formatErrors[METADATA_KEY] = metadataError.message;
+            this.logger.warn(
+              `Metadata export failed for ${task.documentTitle}: ${metadataError.message}`
+            );
+          }
+        }
 
-        // Find the first successful format result to get the content
-        const successfulFormat = exportResult.success ? exportResult : null;
-        if (!successfulFormat || !successfulFormat.content) {
-          throw new Error('No successful format with content found');
+        // Comments are written next to the document, so they need at least one written format
+        const hasDocumentFile = formats.some((format) => task.filePaths![format]);
+        const isChatTranscript = !!config.chatTranscripts && task.documentType === 'CHAT';
+
+        if (isChatTranscript && hasDocumentFile && !task.filePaths[TRANSCRIPT_KEY]) {
+          try {
+            await this.exportChatTranscript(task, formats, config);
+            delete task.formatErrors[TRANSCRIPT_KEY];
+          } catch (error) {
+            const transcriptError = error instanceof Error ? error : new Error(String(error));
+            task.formatErrors[TRANSCRIPT_KEY] = transcriptError.message;
+            this.logger.warn(
+              `Chat transcript export failed for ${task.documentTitle}: ${transcriptError.message}`
+            );
+          }
         }
 
-        // Use circuit breaker for file writing
-        const writeResult = (await this.circuitBreakerManager.execute('file-write', () =>
-          this.fileWriter.writeDocument(localPath, {
-            fileName: task.documentTitle,
-            content: successfulFormat.content!,
-            documentType: task.documentType,
-            exportFormat: successfulFormat.format as 'docx' | 'html' | 'xlsx' | 'markdown',
-          })
-        )) as FileWriteResult;
+        // The transcript of a chat already holds all of its messages
+        if (
+          config.includeComments &&
+          !isChatTranscript &&
+          hasDocumentFile &&
+          !task.filePaths[COMMENTS_JSON_KEY]
+        ) {
+          try {
+            await this.exportComments(task, formats);
+            delete task.formatErrors[COMMENTS_JSON_KEY];
+          } catch (error) {
+            const commentError = error instanceof Error ? error : new Error(String(error));
+            task.formatErrors[COMMENTS_JSON_KEY] = commentError.message;
+            this.logger.warn(
+              `Comment export failed for ${task.documentTitle}: ${commentError.message}`
+            );
+          }
+        }
 
-        if (!writeResult.success) {
-          throw new Error(writeResult.error || 'File write failed');
+        const failedFormats = Object.keys(task.formatErrors);
+        if (failedFormats.length > 0) {
+          throw new Error(
+            failedFormats
+              .map((format) => `${format.toUpperCase()}: ${task.formatErrors![format]}`)
+              .join('; ')
+          );
         }
 
         // Mark as completed
         task.status = 'completed';
-        task.filePath = writeResult.filePath;
-        task.fileSize = writeResult.size;
+        task.filePath = task.filePaths[formats[0]];
+        task.fileSize = Object.values(task.fileSizes).reduce((sum, size) => sum + size, 0);
         task.exportedAt = new Date();
 
         this.stateManager.completeDocumentExport();
 
-        this.logger.debug(`Successfully exported: ${task.documentTitle}`);
+        this.logger.debug(`Successfully exported: ${task.documentTitle} (${formats.join(', ')})`);
         return;
       } catch (error) {
         const errorContext = {
@@ -534,6 +1172,355 @@ export class ExportOrchestrator {
     }
   }
 
+  /**
+   * Export a document in a single format and write it to disk
+   */
+  private async exportFormat(
+    task: DocumentExportTask,
+    format: string,
+    formats: string[],
+    config: ExportConfig
+  ): Promise<FileWriteResult> {
+    let targetDirectory: string;
+    if (config.useFormatDirectories) {
+      // Format directories are siblings, so asset links stay valid if the export falls back to HTML
+      targetDirectory = this.directoryManager.getFormatDirectoryPath(format, task.folderPath);
+    } else {
+      // Determine local file path
+      const folderMappingResult = await this.folderMapper.mapQuipFolder({
+        id: 'folder-' + task.folderPath,
+        name: task.folderPath,
+        type: 'private',
+        fullPath: task.folderPath,
+      });
+
+      targetDirectory = folderMappingResult.localPath || config.outputDirectory;
+    }
+
+    // Use circuit breaker for document export
+    const exportResult = await this.circuitBreakerManager.execute('document-export', () =>
+      this.documentExporter.exportDocument(this.getTaskDocument(task), {
+        preferredFormat: format as ExportOptions['preferredFormat'],
+        // Falling back to HTML would only duplicate the HTML export when it is also requested
+        fallbackToHtml: !formats.includes('html'),
+        includeMetadata: true,
+        folderPath: task.folderPath,
+        navigationPath: config.preserveFolderStructure ? task.folderPath : '',
+        formatSpecificOptions: this.getFormatSpecificOptions(config),
+        assets:
+          config.downloadAssets !== false
+            ? {
+                outputDirectory: config.outputDirectory,
+                directoryName: getExportProfile(config.profile)?.assetsDirectoryName,
+                documentDirectory: targetDirectory,
+                storage: this.storage,
+              }
+            : undefined,
+        chat: config.chatTranscripts,
+        // Large DOCX and XLSX exports go to a temp file rather than memory
+        download: {
+          onProgress: (progress) =>
+            this.downloadListeners.forEach((listener) =>
+              listener({
+                documentId: task.documentId,
+                documentTitle: task.documentTitle,
+                ...progress,
+              })
+            ),
+        },
+      })
+    );
+
+    const exportedContent = exportResult.file || exportResult.content;
+    if (!exportResult.success || !exportedContent) {
+      throw new Error(exportResult.error || 'Export failed');
+    }
+
+    this.recordAssets(task, exportResult.assets);
+
+    const exportFormat = exportResult.format as ExportFormat;
+
+    // Spreadsheets with several sheets are written as one file per sheet, named after the sheet
+    const sheets = exportResult.sheets || [];
+    const files =
+      sheets.length > 1
+        ? sheets.map((sheet) => ({
+            fileName: `${task.documentTitle} - ${sheet.name}`,
+            content: sheet.content,
+          }))
+        : [{ fileName: task.documentTitle, content: exportedContent }];
+
+    let writeResult: FileWriteResult | undefined;
+    for (const [index, file] of files.entries()) {
+      const fileResult = await this.writeExportedFile(
+        targetDirectory,
+        file.fileName,
+        file.content,
+        task,
+        exportFormat,
+        config
+      );
+
+      if (index === 0) {
+        writeResult = fileResult;
+      } else {
+        task.filePaths![`${format}-${SHEET_KEY}-${index + 1}`] = fileResult.filePath!;
+      }
+    }
+
+    return writeResult!;
+  }
+
+  /**
+   * Write one exported file to the document's folder or its format directory;
+   * a streamed download is moved into place instead
+   */
+  private async writeExportedFile(
+    targetDirectory: string,
+    fileName: string,
+    content: Buffer | FileWriteSource,
+    task: DocumentExportTask,
+    exportFormat: ExportFormat,
+    config: ExportConfig
+  ): Promise<FileWriteResult> {
+    let writeResult: FileWriteResult;
+
+    if (config.useFormatDirectories) {
+      // Use circuit breaker for file writing
+      writeResult = (await this.circuitBreakerManager.execute('file-write', () =>
+        this.fileWriter.writeFormatDocument({
+          format: exportFormat,
+          quipFolderPath: task.folderPath,
+          fileName,
+          ...(Buffer.isBuffer(content) ? { content } : { sourceFile: content }),
+          documentType: task.documentType,
+          exportFormat,
+        })
+      )) as FileWriteResult;
+    } else {
+      // Use circuit breaker for file writing
+      writeResult = (await this.circuitBreakerManager.execute('file-write', () =>
+        this.fileWriter.writeDocument(targetDirectory, {
+          fileName,
+          ...(Buffer.isBuffer(content) ? { content } : { sourceFile: content }),
+          documentType: task.documentType,
+          exportFormat,
+        })
+      )) as FileWriteResult;
+    }
+
+    if (!writeResult.success || !writeResult.filePath) {
+      throw new Error(writeResult.error || 'File write failed');
+    }
+
+    return writeResult;
+  }
+
+  /**
+   * Get the format options for the exporter, turning on Markdown front matter
+   * when document metadata is requested
+   */
+  private getFormatSpecificOptions(config: ExportConfig): ExportConfig['formatSpecificOptions'] {
+    if (!config.documentMetadata) {
+      return config.formatSpecificOptions;
+    }
+
+    const markdown: MarkdownOptions = {
+      imageHandling: 'separate',
+      preserveComments: false,
+      ...config.formatSpecificOptions?.markdown,
+      frontMatter: true,
+    };
+    return { ...config.formatSpecificOptions, markdown };
+  }
+
+  /**
+   * Write a `<name>.meta.json` sidecar next to each written file that has no
+   * front matter. Formats written to the same directory share one sidecar.
+   */
+  private async writeMetadataSidecars(task: DocumentExportTask, formats: string[]): Promise<void> {
+    const sidecars = new Map<string, string>();
+
+    for (const format of formats) {
+      const documentPath = task.filePaths![format];
+      const key = `${METADATA_KEY}-${format}`;
+      if (!documentPath || path.extname(documentPath) === '.md' || task.filePaths![key]) {
+        continue;
+      }
+
+      const directory = path.dirname(documentPath);
+      const fileName = `${path.basename(documentPath, path.extname(documentPath))}.meta.json`;
+      let sidecarPath = sidecars.get(path.join(directory, fileName));
+
+      if (!sidecarPath) {
+        const writeResult = (await this.circuitBreakerManager.execute('file-write', () =>
+          this.fileWriter.writeDocument(directory, {
+            fileName,
+            content: renderMetadataSidecar(this.getTaskDocument(task), task.folderPath),
+          })
+        )) as FileWriteResult;
+
+        if (!writeResult.success || !writeResult.filePath) {
+          throw new Error(writeResult.error || 'File write failed');
+        }
+
+        sidecarPath = writeResult.filePath;
+        sidecars.set(path.join(directory, fileName), sidecarPath);
+        task.fileSizes![key] = writeResult.size || 0;
+      }
+
+      task.filePaths![key] = sidecarPath;
+    }
+  }
+
+  /**
+   * Get the Quip document of a task, falling back to the task fields for tasks without metadata
+   */
+  private getTaskDocument(task: DocumentExportTask): QuipDocument {
+    return (
+      task.metadata ||
+      ({
+        id: task.documentId,
+        title: task.documentTitle,
+        type: task.documentType,
+      } as QuipDocument)
+    );
+  }
+
+  /**
+   * Export a document's comments and messages next to its first written format
+   */
+  private async exportComments(task: DocumentExportTask, formats: string[]): Promise<void> {
+    const documentPath = formats.map((format) => task.filePaths![format]).find(Boolean)!;
+    const commentResult = await this.circuitBreakerManager.execute('document-export', () =>
+      this.documentExporter.exportComments(this.getTaskDocument(task))
+    );
+
+    if (!commentResult.success || !commentResult.json || !commentResult.markdown) {
+      throw new Error(commentResult.error || 'Comment export failed');
+    }
+
+    const directory = path.dirname(documentPath);
+    const baseName = path.basename(documentPath, path.extname(documentPath));
+    const suffix = task.documentType === 'CHAT' ? 'messages' : 'comments';
+
+    // The JSON file is written last because its key marks the comments as exported
+    const files: Array<[string, string, Buffer]> = [
+      [COMMENTS_MARKDOWN_KEY, `${baseName}.${suffix}.md`, commentResult.markdown],
+      [COMMENTS_JSON_KEY, `${baseName}.${suffix}.json`, commentResult.json],
+    ];
+
+    for (const [key, fileName, content] of files) {
+      const writeResult = (await this.circuitBreakerManager.execute('file-write', () =>
+        this.fileWriter.writeDocument(directory, { fileName, content })
+      )) as FileWriteResult;
+
+      if (!writeResult.success || !writeResult.filePath) {
+        throw new Error(writeResult.error || 'File write failed');
+      }
+
+      task.filePaths![key] = writeResult.filePath;
+      task.fileSizes![key] = writeResult.size || 0;
+    }
+
+    this.logger.debug(
+      `Exported ${commentResult.comments.length} comments for ${task.documentTitle}`
+    );
+  }
+
+  /**
+   * Write the JSON transcript of a chat next to its first written format
+   */
+  private async exportChatTranscript(
+    task: DocumentExportTask,
+    formats: string[],
+    config: ExportConfig
+  ): Promise<void> {
+    const documentPath = formats.map((format) => task.filePaths![format]).find(Boolean)!;
+    const transcriptResult = await this.circuitBreakerManager.execute('document-export', () =>
+      this.documentExporter.exportChatTranscript(this.getTaskDocument(task), config.chatTranscripts)
+    );
+
+    if (!transcriptResult.success || !transcriptResult.json) {
+      throw new Error(transcriptResult.error || 'Chat transcript export failed');
+    }
+
+    const content = transcriptResult.json;
+    const directory = path.dirname(documentPath);
+    const fileName = `${path.basename(documentPath, path.extname(documentPath))}.transcript.json`;
+    const writeResult = (await this.circuitBreakerManager.execute('file-write', () =>
+      this.fileWriter.writeDocument(directory, { fileName, content })
+    )) as FileWriteResult;
+
+    if (!writeResult.success || !writeResult.filePath) {
+      throw new Error(writeResult.error || 'File write failed');
+    }
+
+    task.filePaths![TRANSCRIPT_KEY] = writeResult.filePath;
+    task.fileSizes![TRANSCRIPT_KEY] = writeResult.size || 0;
+
+    this.logger.debug(
+      `Exported ${transcriptResult.transcript?.messageCount ?? 0} chat messages for ${task.documentTitle}`
+    );
+  }
+
+  /**
+   * Record the outcome of a finished document, with its formats and assets, in the reporter
+   */
+  private reportDocument(task: DocumentExportTask, config: ExportConfig): void {
+    if (!this.reporter || (task.status !== 'completed' && task.status !== 'failed')) {
+      return;
+    }
+
+    const formatResults: { [format: string]: FormatExportResult } = {};
+    for (const format of this.getFormatsForDocument(task.documentType, config)) {
+      formatResults[format] = {
+        format,
+        success: !!task.filePaths?.[format],
+        filePath: task.filePaths?.[format],
+        fileSize: task.fileSizes?.[format],
+        error: task.formatErrors?.[format],
+      };
+    }
+    this.reporter.recordMultiFormatResults(task.documentId, formatResults);
+
+    if (task.status === 'failed') {
+      this.reporter.recordDocumentFailure(
+        task.documentId,
+        new Error(task.error || 'Export failed')
+      );
+    }
+    if (task.assets && task.assets.length > 0) {
+      this.reporter.recordDocumentAssets(task.documentId, task.assets);
+    }
+  }
+
+  /**
+   * Remember the blobs downloaded for a document, once per blob across formats
+   */
+  private recordAssets(task: DocumentExportTask, assets?: ExportedAsset[]): void {
+    if (!assets || assets.length === 0) {
+      return;
+    }
+
+    task.assets = task.assets || [];
+    for (const asset of assets) {
+      const existing = task.assets.findIndex((recorded) => recorded.blobId === asset.blobId);
+      if (existing === -1) {
+        task.assets.push(asset);
+      } else if (task.assets[existing].error && !asset.error) {
+        task.assets[existing] = asset;
+      }
+    }
+
+    const failed = assets.filter((asset) => asset.error).length;
+    if (failed > 0) {
+      this.logger.warn(
+        `${failed} of ${assets.length} images/attachments could not be downloaded for ${task.documentTitle}`
+      );
+    }
+  }
+
   /**
    * Process promises with limited concurrency
    */
@@ -657,6 +1644,7 @@ export class ExportOrchestrator {
     const summary = this.stateManager.generateSummary();
 
     return {
+      sessionId: session.id,
       success: session.state.status === 'completed',
       totalDocuments: summary.totalDocuments,
       successfulExports: summary.successfulExports,
@@ -669,16 +1657,45 @@ export class ExportOrchestrator {
       })),
       outputDirectory: summary.outputDirectory,
       duration: summary.duration,
+      unresolvedLinks: this.unresolvedLinks,
+      mirrorActions: this.mirrorActions,
+      gitCommit: this.gitCommit,
+      archiveFiles:
+        this.storage instanceof ArchiveStorageBackend ? this.storage.getVolumePaths() : undefined,
     };
   }
 
   /**
    * Get formats for a document based on type and configuration
    */
-  private getFormatsForDocument(_documentType: string, config: ExportConfig): string[] {
-    // Return the original format from config, not the resolved format
-    // The DocumentExporter will handle the resolution internally
-    return [config.exportFormat];
+  private getFormatsForDocument(documentType: string, config: ExportConfig): string[] {
+    const requested =
+      config.exportFormats && config.exportFormats.length > 0
+        ? config.exportFormats
+        : [config.exportFormat];
+
+    // Return the original format names, not the resolved ones; the DocumentExporter
+    // resolves native formats (DOCX/XLSX) per document type internally
+    const formats: string[] = [];
+    for (const format of requested) {
+      const normalized = format === 'docx' || format === 'xlsx' ? 'native' : format;
+      if (!formats.includes(normalized)) {
+        formats.push(normalized);
+      }
+    }
+
+    // Spreadsheets have no Markdown representation; keep it only if nothing else was requested
+    if (documentType.toUpperCase() === 'SPREADSHEET' && formats.length > 1) {
+      return formats.filter((format) => format !== 'markdown');
+    }
+
+    // Only spreadsheets have sheets to write as CSV or JSON
+    const withoutSheets = formats.filter((format) => format !== 'csv' && format !== 'json');
+    if (documentType.toUpperCase() !== 'SPREADSHEET' && withoutSheets.length > 0) {
+      return withoutSheets;
+    }
+
+    return formats;
   }
 
   /**
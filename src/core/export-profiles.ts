@@ -0,0 +1,73 @@
+// Export profiles that shape the Markdown output and layout for a note-taking app to import
+
+import type { ExportConfig } from './export-types';
+import type { MarkdownOptions } from '../services/quip/document-exporter';
+
+export type ExportProfile = 'obsidian' | 'notion';
+
+export interface ExportProfileDefinition {
+  label: string;
+  description: string;
+  assetsDirectoryName?: string; // Folder for images and attachments (default: _assets)
+  wikiLinks: boolean; // Link exported documents with [[wiki-links]] instead of relative paths
+}
+
+export const EXPORT_PROFILES: { [profile in ExportProfile]: ExportProfileDefinition } = {
+  obsidian: {
+    label: 'Obsidian',
+    description: 'Markdown vault with front matter, [[wiki-links]] and an attachments folder',
+    assetsDirectoryName: 'attachments',
+    wikiLinks: true,
+  },
+  notion: {
+    label: 'Notion',
+    description: 'Zip of Markdown pages and CSV spreadsheets for the Notion importer',
+    wikiLinks: false,
+  },
+};
+
+export function isExportProfile(value: unknown): value is ExportProfile {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(EXPORT_PROFILES, value);
+}
+
+/**
+ * Get the definition of a profile, if one is selected
+ */
+export function getExportProfile(profile?: ExportProfile): ExportProfileDefinition | undefined {
+  return profile ? EXPORT_PROFILES[profile] : undefined;
+}
+
+/**
+ * Apply the output settings of the configured profile: documents are written
+ * as Markdown and spreadsheets as CSV into the Quip folder structure, with
+ * front matter for Obsidian and as a zip archive for Notion. Settings a
+ * profile does not decide are kept.
+ */
+export function applyExportProfile<T extends Partial<ExportConfig>>(config: T): T {
+  if (!config.profile) {
+    return config;
+  }
+
+  const markdown: MarkdownOptions = {
+    preserveComments: false,
+    ...config.formatSpecificOptions?.markdown,
+    imageHandling: 'separate',
+    // Notion shows front matter as text at the top of the page
+    frontMatter: config.profile === 'obsidian',
+  };
+  const profiled: T = {
+    ...config,
+    exportFormat: 'markdown',
+    exportFormats: ['markdown', 'csv'],
+    useFormatDirectories: false,
+    documentMetadata: config.profile === 'obsidian',
+    formatSpecificOptions: { ...config.formatSpecificOptions, markdown },
+  };
+
+  if (config.profile === 'notion') {
+    // The Notion importer takes a single zip of the pages and their files
+    profiled.archive = { ...config.archive, format: 'zip' };
+  }
+
+  return profiled;
+}
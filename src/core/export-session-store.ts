@@ -0,0 +1,123 @@
+// Export session persistence for resuming interrupted exports
+
+import * as os from 'os';
+import * as path from 'path';
+import { DocumentExportTask, ExportSession } from './export-types';
+import { StateFileStore } from './state-manager';
+
+/**
+ * Get the tasks of a session that still need to be exported
+ */
+export function getResumableTasks(session: ExportSession): DocumentExportTask[] {
+  return (session.tasks || []).filter(
+    (task) => task.status === 'pending' || task.status === 'in_progress' || task.status === 'failed'
+  );
+}
+
+/**
+ * Default session directory under the tool's config directory, so an export can be
+ * resumed from any working directory
+ */
+export function getDefaultExportSessionDir(): string {
+  return path.join(os.homedir(), '.quip-migration', 'export-sessions');
+}
+
+/**
+ * Persists export sessions and their document tasks to disk
+ */
+export class ExportSessionStore extends StateFileStore {
+  constructor(stateDir: string = getDefaultExportSessionDir()) {
+    super(stateDir);
+  }
+
+  /**
+   * Save an export session to disk
+   */
+  async saveSession(session: ExportSession): Promise<void> {
+    try {
+      await this.writeStateFile(session.id, session);
+    } catch (error) {
+      throw new Error(
+        `Failed to save export session: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Load an export session from disk
+   */
+  async loadSession(sessionId: string): Promise<ExportSession | null> {
+    try {
+      const session = await this.readStateFile<ExportSession>(sessionId);
+      if (!session) {
+        return null;
+      }
+
+      // Convert date strings back to Date objects
+      session.createdAt = new Date(session.createdAt);
+      session.updatedAt = new Date(session.updatedAt);
+      session.state.startTime = new Date(session.state.startTime);
+      session.state.lastUpdateTime = new Date(session.state.lastUpdateTime);
+      session.state.errors = session.state.errors.map((error) => ({
+        ...error,
+        timestamp: new Date(error.timestamp),
+      }));
+      session.tasks = session.tasks?.map((task) => ({
+        ...task,
+        exportedAt: task.exportedAt ? new Date(task.exportedAt) : undefined,
+      }));
+
+      return session;
+    } catch (error) {
+      throw new Error(
+        `Failed to load export session: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Delete an export session from disk
+   */
+  async deleteSession(sessionId: string): Promise<void> {
+    try {
+      await this.deleteStateFile(sessionId);
+    } catch (error) {
+      throw new Error(
+        `Failed to delete export session: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * List the IDs of all stored export sessions
+   */
+  async listSessions(): Promise<string[]> {
+    try {
+      return await this.listStateFiles();
+    } catch (error) {
+      throw new Error(
+        `Failed to list export sessions: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Find the most recently updated session that still has tasks to export
+   */
+  async findLatestResumableSession(): Promise<ExportSession | null> {
+    let latest: ExportSession | null = null;
+
+    for (const sessionId of await this.listSessions()) {
+      const session = await this.loadSession(sessionId);
+      if (!session || getResumableTasks(session).length === 0) {
+        continue;
+      }
+
+      if (!latest || session.updatedAt > latest.updatedAt) {
+        latest = session;
+      }
+    }
+
+    return latest;
+  }
+}
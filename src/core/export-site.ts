@@ -0,0 +1,509 @@
+// Static website generated from the output of an export, for browsing it offline
+
+import * as path from 'path';
+import * as cheerio from 'cheerio';
+import * as mammoth from 'mammoth';
+import { Logger } from '../types';
+import { ExportManifestFile, readExportManifest } from './export-manifest';
+import { DirectoryManager } from '../services/local/directory-manager';
+import { DirectoryStructure } from '../services/local/types';
+import { StorageBackend } from '../services/storage/types';
+import {
+  BreadcrumbLink,
+  FOLDER_INDEX_FILE_NAME,
+  STANDALONE_HTML_CSS,
+  buildBreadcrumb,
+} from '../services/quip/standalone-html';
+import { escapeHtml } from '../services/quip/format-utils';
+
+export const SITE_SEARCH_PAGE_FILE_NAME = 'search.html';
+export const SITE_SEARCH_INDEX_FILE_NAME = 'search-index.js';
+const SITE_SEARCH_SCRIPT_FILE_NAME = 'search.js';
+
+// Exported files a document page can be built from, in order of preference
+const PAGE_SOURCE_FORMATS = ['html-standalone', 'html', 'markdown', 'native', 'csv', 'json'];
+
+// Longer documents are only searchable by their beginning
+const MAX_SEARCH_TEXT_LENGTH = 20000;
+
+export interface SiteBuildOptions {
+  exportDirectory: string;
+  siteDirectory: string;
+  source: StorageBackend; // Storage the export was written to
+  target: StorageBackend; // Storage the site is written to
+  directoryManager: DirectoryManager; // Manager of the export directory
+  logger: Logger;
+}
+
+export interface SiteBuildResult {
+  pages: number; // Document pages
+  folders: number; // Folder index pages
+  copiedFiles: number; // Exported files and assets copied next to the pages
+  missingFiles: string[]; // Listed in the manifest but not found in the export
+}
+
+export interface SiteSearchEntry {
+  title: string;
+  path: string; // Page path relative to the site root, with forward slashes
+  folder: string;
+  text: string;
+}
+
+interface SitePage {
+  documentId: string;
+  title: string;
+  sourceUrl?: string;
+  updatedUsec?: number;
+  source: ExportManifestFile;
+  files: ExportManifestFile[]; // Every other file exported for the document
+  path: string; // Relative to the site root
+}
+
+interface SiteFolder {
+  path: string; // Relative to the site root, '' for the root
+  name: string;
+  folders: SiteFolder[];
+  pages: SitePage[];
+}
+
+/**
+ * Build a static website from an export: a page per document with a folder
+ * tree sidebar, an index page per folder and a search page backed by a
+ * client-side full-text index. Exported files keep their relative paths in
+ * the site, so links between documents and to downloaded assets still work.
+ */
+export async function buildExportSite(options: SiteBuildOptions): Promise<SiteBuildResult> {
+  const { exportDirectory, siteDirectory, source, target, logger } = options;
+
+  const manifest = await readExportManifest(exportDirectory, source);
+  if (!manifest) {
+    throw new Error(
+      `No export manifest found in ${source.describe(path.resolve(exportDirectory))}; run an export first`
+    );
+  }
+
+  // Only files that are still in the export directory make it into the site
+  const present = new Set<string>();
+  collectFiles(
+    await options.directoryManager.analyzeDirectoryStructure(),
+    path.resolve(exportDirectory),
+    present
+  );
+  const missingFiles = manifest.files
+    .filter((file) => !present.has(file.path))
+    .map((file) => file.path);
+  const files = manifest.files.filter((file) => present.has(file.path));
+
+  const pages = planPages(files);
+  const root = buildFolderTree(pages);
+  const pagePaths = new Set(pages.map((page) => page.path));
+
+  // Copy the exported files first; a page built from an HTML export replaces its copy
+  let copiedFiles = 0;
+  for (const file of files) {
+    if (!pagePaths.has(file.path)) {
+      await writeSiteFile(
+        target,
+        path.join(siteDirectory, file.path),
+        await source.read(path.join(exportDirectory, file.path))
+      );
+      copiedFiles++;
+    }
+  }
+
+  const searchIndex: SiteSearchEntry[] = [];
+  for (const page of pages) {
+    const content = await source.read(path.join(exportDirectory, page.source.path));
+    const { html, text } = await renderPageContent(page, content, logger);
+    await writeSiteFile(
+      target,
+      path.join(siteDirectory, page.path),
+      Buffer.from(renderDocumentPage(page, html, root), 'utf-8')
+    );
+    searchIndex.push({
+      title: page.title,
+      path: page.path,
+      folder: path.posix.dirname(page.path).replace(/^\.$/, ''),
+      text: text.replace(/\s+/g, ' ').trim().substring(0, MAX_SEARCH_TEXT_LENGTH),
+    });
+  }
+
+  const folders = listFolders(root);
+  for (const folder of folders) {
+    await writeSiteFile(
+      target,
+      path.join(siteDirectory, folder.path, FOLDER_INDEX_FILE_NAME),
+      Buffer.from(renderFolderPage(folder, root), 'utf-8')
+    );
+  }
+
+  await writeSiteFile(
+    target,
+    path.join(siteDirectory, SITE_SEARCH_INDEX_FILE_NAME),
+    Buffer.from(`window.QUIP_SEARCH_INDEX = ${JSON.stringify(searchIndex)};\n`, 'utf-8')
+  );
+  await writeSiteFile(
+    target,
+    path.join(siteDirectory, SITE_SEARCH_SCRIPT_FILE_NAME),
+    Buffer.from(SITE_SEARCH_SCRIPT, 'utf-8')
+  );
+  await writeSiteFile(
+    target,
+    path.join(siteDirectory, SITE_SEARCH_PAGE_FILE_NAME),
+    Buffer.from(renderSearchPage(root), 'utf-8')
+  );
+
+  return { pages: pages.length, folders: folders.length, copiedFiles, missingFiles };
+}
+
+async function writeSiteFile(
+  target: StorageBackend,
+  filePath: string,
+  content: Buffer
+): Promise<void> {
+  await target.ensureDirectory(path.dirname(filePath));
+  await target.write(filePath, content);
+}
+
+/**
+ * Collect the paths of all files below the export root, relative to it
+ */
+function collectFiles(structure: DirectoryStructure, root: string, files: Set<string>): void {
+  if (structure.type === 'file') {
+    files.add(path.relative(root, path.resolve(structure.path)).split(path.sep).join('/'));
+    return;
+  }
+  for (const child of structure.children || []) {
+    collectFiles(child, root, files);
+  }
+}
+
+/**
+ * Choose the file each document page is built from. The page takes the place
+ * of that file with an .html extension.
+ */
+function planPages(files: ExportManifestFile[]): SitePage[] {
+  const documents = new Map<string, ExportManifestFile[]>();
+  for (const file of files) {
+    if (file.format !== 'asset') {
+      documents.set(file.documentId, [...(documents.get(file.documentId) || []), file]);
+    }
+  }
+
+  const pages: SitePage[] = [];
+  const taken = new Set<string>();
+  for (const [documentId, documentFiles] of documents) {
+    const source = PAGE_SOURCE_FORMATS.map((format) =>
+      documentFiles.find((file) => file.format === format)
+    ).find((file): file is ExportManifestFile => !!file);
+    if (!source) {
+      continue;
+    }
+
+    const parsed = path.posix.parse(source.path);
+    let pagePath = path.posix.join(parsed.dir, `${parsed.name}.html`);
+    // Another document's page may already use the name, e.g. for "Notes.md" and "Notes.docx"
+    for (let counter = 2; taken.has(pagePath); counter++) {
+      pagePath = path.posix.join(parsed.dir, `${parsed.name} (${counter}).html`);
+    }
+    taken.add(pagePath);
+
+    pages.push({
+      documentId,
+      title: source.title,
+      sourceUrl: source.sourceUrl,
+      updatedUsec: source.updatedUsec,
+      source,
+      files: documentFiles.filter((file) => file !== source || file.path !== pagePath),
+      path: pagePath,
+    });
+  }
+
+  return pages.sort((a, b) => a.title.localeCompare(b.title));
+}
+
+function buildFolderTree(pages: SitePage[]): SiteFolder {
+  const root: SiteFolder = { path: '', name: 'All documents', folders: [], pages: [] };
+  const folders = new Map<string, SiteFolder>([['', root]]);
+  const getFolder = (folderPath: string): SiteFolder => {
+    let folder = folders.get(folderPath);
+    if (!folder) {
+      const parent = getFolder(path.posix.dirname(folderPath).replace(/^\.$/, ''));
+      folder = { path: folderPath, name: path.posix.basename(folderPath), folders: [], pages: [] };
+      parent.folders.push(folder);
+      folders.set(folderPath, folder);
+    }
+    return folder;
+  };
+
+  for (const page of pages) {
+    getFolder(path.posix.dirname(page.path).replace(/^\.$/, '')).pages.push(page);
+  }
+  for (const folder of folders.values()) {
+    folder.folders.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  return root;
+}
+
+function listFolders(folder: SiteFolder): SiteFolder[] {
+  return [folder, ...folder.folders.flatMap(listFolders)];
+}
+
+/**
+ * Turn the exported file of a page into HTML for the page and plain text for
+ * the search index
+ */
+async function renderPageContent(
+  page: SitePage,
+  content: Buffer,
+  logger: Logger
+): Promise<{ html: string; text: string }> {
+  const extension = path.posix.extname(page.source.path).toLowerCase();
+
+  if (extension === '.html') {
+    const $ = cheerio.load(content.toString('utf-8'));
+    // Standalone HTML exports bring their own page around the document
+    const body = $('main').length > 0 ? $('main').first() : $('body');
+    const html = body.html() || '';
+    return { html, text: extractText(html) };
+  }
+
+  if (extension === '.docx') {
+    try {
+      const result = await mammoth.convertToHtml({ buffer: content });
+      return { html: result.value, text: extractText(result.value) };
+    } catch (error) {
+      logger.warn(
+        `Failed to convert ${page.source.path} for the site: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return {
+        html: '<p class="no-preview">No preview is available for this document.</p>',
+        text: '',
+      };
+    }
+  }
+
+  if (extension === '.md' || extension === '.csv' || extension === '.json') {
+    const text = content.toString('utf-8');
+    return { html: `<pre class="source">${escapeHtml(text)}</pre>`, text };
+  }
+
+  return { html: '<p class="no-preview">No preview is available for this document.</p>', text: '' };
+}
+
+/**
+ * Plain text of an HTML fragment, with blocks kept apart by whitespace
+ */
+function extractText(html: string): string {
+  const $ = cheerio.load(html);
+  $('script, style').remove();
+  $('br, p, div, li, tr, td, th, h1, h2, h3, h4, h5, h6, pre, blockquote').after(' ');
+  return $.root().text();
+}
+
+function renderDocumentPage(page: SitePage, content: string, root: SiteFolder): string {
+  const folderPath = path.posix.dirname(page.path).replace(/^\.$/, '');
+  const pageDirectory = folderPath || '.';
+  const details = [
+    page.updatedUsec
+      ? `Updated ${new Date(page.updatedUsec / 1000).toISOString().split('T')[0]}`
+      : '',
+    page.sourceUrl ? `<a href="${escapeHtml(page.sourceUrl)}">Open in Quip</a>` : '',
+  ].filter(Boolean);
+  const downloads = page.files.map(
+    (file) =>
+      `<li><a href="${toHref(path.posix.relative(pageDirectory, file.path))}">${escapeHtml(
+        path.posix.basename(file.path)
+      )}</a> <span class="format">${escapeHtml(file.format)}</span></li>`
+  );
+
+  const body = [
+    `<h1>${escapeHtml(page.title)}</h1>`,
+    details.length > 0 ? `<p class="details">${details.join(' · ')}</p>` : '',
+    downloads.length > 0
+      ? `<details class="downloads"><summary>Exported files</summary>\n<ul>\n${downloads.join('\n')}\n</ul></details>`
+      : '',
+    `<article>\n${content}\n</article>`,
+  ].filter(Boolean);
+
+  return renderSitePage(page.title, folderPath, buildBreadcrumb(folderPath), body.join('\n'), root);
+}
+
+function renderFolderPage(folder: SiteFolder, root: SiteFolder): string {
+  const folders = folder.folders.map(
+    (child) =>
+      `<li><a href="${toHref(child.name)}/${FOLDER_INDEX_FILE_NAME}">${escapeHtml(child.name)}</a></li>`
+  );
+  const pages = folder.pages.map(
+    (page) =>
+      `<li><a href="${toHref(path.posix.basename(page.path))}">${escapeHtml(page.title)}</a>${
+        page.updatedUsec
+          ? ` <span class="updated">${new Date(page.updatedUsec / 1000).toISOString().split('T')[0]}</span>`
+          : ''
+      }</li>`
+  );
+
+  const body = [
+    `<h1>${escapeHtml(folder.name)}</h1>`,
+    folders.length > 0
+      ? `<h2>Folders</h2>\n<ul class="folders">\n${folders.join('\n')}\n</ul>`
+      : '',
+    pages.length > 0
+      ? `<h2>Documents</h2>\n<ul class="documents">\n${pages.join('\n')}\n</ul>`
+      : '',
+  ].filter(Boolean);
+
+  // The page itself is the last breadcrumb entry
+  return renderSitePage(
+    folder.name,
+    folder.path,
+    buildBreadcrumb(folder.path).slice(0, -1),
+    body.join('\n'),
+    root
+  );
+}
+
+function renderSearchPage(root: SiteFolder): string {
+  const body = [
+    '<h1>Search</h1>',
+    '<p id="search-summary"></p>',
+    '<ol id="search-results"></ol>',
+    `<script src="${SITE_SEARCH_INDEX_FILE_NAME}"></script>`,
+    `<script src="${SITE_SEARCH_SCRIPT_FILE_NAME}"></script>`,
+  ];
+  return renderSitePage('Search', '', [], body.join('\n'), root);
+}
+
+/**
+ * Lay out a page of the site. `folderPath` is the folder the page is in,
+ * which the links to the rest of the site are relative to.
+ */
+function renderSitePage(
+  title: string,
+  folderPath: string,
+  breadcrumb: BreadcrumbLink[],
+  body: string,
+  root: SiteFolder
+): string {
+  const rootHref = '../'.repeat(folderPath.split('/').filter(Boolean).length);
+  const navigation = breadcrumb
+    .map((link) => `<span><a href="${escapeHtml(link.href)}">${escapeHtml(link.name)}</a></span>`)
+    .join('');
+
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${STANDALONE_HTML_CSS}${SITE_CSS}</style>`,
+    '</head>',
+    '<body>',
+    '<aside class="sidebar">',
+    `<form class="search" action="${rootHref}${SITE_SEARCH_PAGE_FILE_NAME}">`,
+    '<input type="search" name="q" id="search-query" placeholder="Search documents">',
+    '</form>',
+    `<ul class="tree">\n${renderTree(root, rootHref, folderPath)}\n</ul>`,
+    '</aside>',
+    '<div class="content">',
+    navigation ? `<nav class="breadcrumb">${navigation}</nav>` : '',
+    '<main>',
+    body,
+    '</main>',
+    '</div>',
+    '</body>',
+    '</html>',
+  ]
+    .filter((line) => line !== '')
+    .join('\n')
+    .concat('\n');
+}
+
+function renderTree(folder: SiteFolder, rootHref: string, currentPath: string): string {
+  const href = `${rootHref}${folder.path ? `${toHref(folder.path)}/` : ''}${FOLDER_INDEX_FILE_NAME}`;
+  const current = folder.path === currentPath ? ' class="current"' : '';
+  const children =
+    folder.folders.length > 0
+      ? `\n<ul>\n${folder.folders.map((child) => renderTree(child, rootHref, currentPath)).join('\n')}\n</ul>`
+      : '';
+  return `<li><a href="${href}"${current}>${escapeHtml(folder.name)}</a>${children}</li>`;
+}
+
+function toHref(relativePath: string): string {
+  return relativePath.split('/').map(encodeURIComponent).join('/');
+}
+
+// Layout of the site around the document styling of standalone HTML pages
+const SITE_CSS = `
+body { display: flex; align-items: flex-start; }
+aside.sidebar { position: sticky; top: 0; flex: 0 0 260px; height: 100vh; overflow-y: auto; padding: 16px; box-sizing: border-box; background: #fff; border-right: 1px solid #e5e7eb; font-size: 13px; }
+aside.sidebar input { width: 100%; box-sizing: border-box; padding: 6px 8px; border: 1px solid #d1d5db; border-radius: 4px; }
+ul.tree, ul.tree ul { list-style: none; margin: 8px 0 0; padding-left: 12px; }
+ul.tree { padding-left: 0; }
+ul.tree a { color: #1f2329; text-decoration: none; }
+ul.tree a.current { font-weight: 600; color: #2a6ae9; }
+div.content { flex: 1; min-width: 0; padding: 0 24px; }
+p.details, span.updated, span.format { color: #6b7280; font-size: 13px; }
+details.downloads { margin-bottom: 1em; font-size: 13px; }
+pre.source { white-space: pre-wrap; }
+ol#search-results li { margin-bottom: 12px; }
+ol#search-results p { margin: 2px 0 0; color: #4b5563; font-size: 13px; }
+`;
+
+// Searches the index in the browser; every term has to occur in the title or text
+const SITE_SEARCH_SCRIPT = `(function () {
+  var query = (new URLSearchParams(window.location.search).get('q') || '').trim();
+  var input = document.getElementById('search-query');
+  var summary = document.getElementById('search-summary');
+  var results = document.getElementById('search-results');
+  input.value = query;
+
+  var terms = query.toLowerCase().split(/\\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    summary.textContent = 'Enter words to search for in the exported documents.';
+    return;
+  }
+
+  var matches = [];
+  window.QUIP_SEARCH_INDEX.forEach(function (entry) {
+    var title = entry.title.toLowerCase();
+    var text = entry.text.toLowerCase();
+    var score = 0;
+    for (var i = 0; i < terms.length; i++) {
+      var inTitle = title.indexOf(terms[i]) !== -1;
+      var inText = text.indexOf(terms[i]) !== -1;
+      if (!inTitle && !inText) {
+        return;
+      }
+      score += (inTitle ? 10 : 0) + (inText ? 1 : 0);
+    }
+    matches.push({ entry: entry, score: score });
+  });
+  matches.sort(function (a, b) {
+    return b.score - a.score || a.entry.title.localeCompare(b.entry.title);
+  });
+
+  summary.textContent = matches.length + (matches.length === 1 ? ' document' : ' documents') + ' found';
+  matches.forEach(function (match) {
+    var entry = match.entry;
+    var position = entry.text.toLowerCase().indexOf(terms[0]);
+    var start = Math.max(0, position - 80);
+    var snippet = position === -1 ? entry.text.substring(0, 160) : entry.text.substring(start, position + 160);
+
+    var item = document.createElement('li');
+    var link = document.createElement('a');
+    link.href = entry.path.split('/').map(encodeURIComponent).join('/');
+    link.textContent = entry.title;
+    item.appendChild(link);
+    if (entry.folder) {
+      item.appendChild(document.createTextNode(' — ' + entry.folder));
+    }
+    var text = document.createElement('p');
+    text.textContent = (start > 0 ? '…' : '') + snippet + (snippet.length < entry.text.length - start ? '…' : '');
+    item.appendChild(text);
+    results.appendChild(item);
+  });
+})();
+`;
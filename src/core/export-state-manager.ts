@@ -1,7 +1,9 @@
 // Export state management for tracking export sessions and progress
 
 import { Logger } from '../types';
+import { ExportSessionStore } from './export-session-store';
 import {
+  DocumentExportTask,
   ExportState,
   ExportConfig,
   ExportSession,
@@ -17,12 +19,14 @@ import {
  */
 export class ExportStateManager {
   private readonly logger: Logger;
+  private readonly sessionStore?: ExportSessionStore;
   private currentSession: ExportSession | null = null;
   private readonly progressCallbacks: Array<(progress: ExportProgress) => void> = [];
   private readonly stateChangeCallbacks: Array<(state: ExportState) => void> = [];
 
-  constructor(logger: Logger) {
+  constructor(logger: Logger, sessionStore?: ExportSessionStore) {
     this.logger = logger;
+    this.sessionStore = sessionStore;
   }
 
   /**
@@ -37,6 +41,7 @@ export class ExportStateManager {
       processedDocuments: 0,
       successfulExports: 0,
       failedExports: 0,
+      skippedDocuments: 0,
       errors: [],
       startTime: new Date(),
       lastUpdateTime: new Date(),
@@ -65,6 +70,78 @@ export class ExportStateManager {
     return this.currentSession;
   }
 
+  /**
+   * Attach the discovered document tasks to the current session, with the
+   * reason discovery may have missed documents when it did not finish
+   */
+  setTasks(tasks: DocumentExportTask[], incompleteDiscovery?: string): void {
+    if (!this.currentSession) {
+      throw new Error('No active export session');
+    }
+
+    this.currentSession.tasks = tasks;
+    this.currentSession.incompleteDiscovery = incompleteDiscovery;
+    this.currentSession.updatedAt = new Date();
+  }
+
+  /**
+   * Save the current session to the session store, if one is configured
+   */
+  async persistSession(): Promise<void> {
+    if (!this.sessionStore || !this.currentSession) {
+      return;
+    }
+
+    try {
+      await this.sessionStore.saveSession(this.currentSession);
+    } catch (error) {
+      // Losing a snapshot only means more work on resume, so keep exporting
+      this.logger.warn(
+        `Failed to persist export session: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Load a persisted session from the session store
+   */
+  async loadSession(sessionId: string): Promise<ExportSession | null> {
+    if (!this.sessionStore) {
+      throw new Error('No export session store configured');
+    }
+
+    return this.sessionStore.loadSession(sessionId);
+  }
+
+  /**
+   * Make a persisted session current, recalculating its counters from the task list
+   */
+  restoreSession(session: ExportSession): void {
+    const tasks = session.tasks || [];
+    const count = (status: DocumentExportTask['status']): number =>
+      tasks.filter((task) => task.status === status).length;
+    const failedIds = new Set(
+      tasks.filter((task) => task.status === 'failed').map((task) => task.documentId)
+    );
+
+    session.state = {
+      ...session.state,
+      totalDocuments: tasks.length,
+      processedDocuments: count('completed') + count('failed') + count('skipped'),
+      successfulExports: count('completed'),
+      failedExports: count('failed'),
+      skippedDocuments: count('skipped'),
+      errors: session.state.errors.filter((error) => failedIds.has(error.documentId)),
+      currentDocument: undefined,
+      currentFolder: undefined,
+      lastUpdateTime: new Date(),
+    };
+    session.updatedAt = new Date();
+
+    this.currentSession = session;
+    this.logger.info(`Restored export session: ${session.id}`);
+  }
+
   /**
    * Update export configuration
    */
@@ -205,6 +282,18 @@ export class ExportStateManager {
     });
   }
 
+  /**
+   * Mark a document as skipped because it is unchanged since the last export
+   */
+  skipDocumentExport(): void {
+    const state = this.currentSession!.state;
+
+    this.updateState({
+      processedDocuments: state.processedDocuments + 1,
+      skippedDocuments: (state.skippedDocuments || 0) + 1,
+    });
+  }
+
   /**
    * Mark a document export as failed
    */
@@ -317,7 +406,8 @@ export class ExportStateManager {
 
     const duration = Date.now() - state.startTime.getTime();
     const totalSize = folderSummaries.reduce((sum, folder) => sum + folder.totalSize, 0);
-    const skippedDocuments = Math.max(0, state.totalDocuments - state.processedDocuments);
+    const skippedDocuments =
+      (state.skippedDocuments || 0) + Math.max(0, state.totalDocuments - state.processedDocuments);
 
     return {
       sessionId: state.sessionId,
@@ -1,11 +1,20 @@
 // Export-specific types and interfaces
 
+import { QuipDocument } from '../types';
+import type { MarkdownOptions, SpreadsheetOptions } from '../services/quip/document-exporter';
+import type { ExportedAsset } from '../services/quip/blob-assets';
+import type { ChatTranscriptOptions } from '../services/quip/chat-exporter';
+import type { ArchiveOptions, StorageConfig } from '../services/storage/types';
+import type { MirrorMode } from './export-mirror';
+import type { ExportProfile } from './export-profiles';
+
 export interface ExportState {
   sessionId: string;
   totalDocuments: number;
   processedDocuments: number;
   successfulExports: number;
   failedExports: number;
+  skippedDocuments?: number; // Documents skipped as unchanged by incremental export
   currentDocument?: string;
   currentFolder?: string;
   currentOperation?: string;
@@ -18,19 +27,46 @@ export interface ExportState {
   status: ExportStatus;
 }
 
+// Formats a document is written in; 'native' in the export config stands for DOCX or XLSX
+export type ExportFormat =
+  | 'docx'
+  | 'html'
+  | 'xlsx'
+  | 'markdown'
+  | 'csv'
+  | 'json'
+  | 'html-standalone';
+
 export interface ExportConfig {
   outputDirectory: string;
+  storage?: StorageConfig; // Where exported files are written (default: local filesystem)
+  archive?: ArchiveOptions; // Write the export into a .zip or .tar.gz instead of a directory tree
+  profile?: ExportProfile; // Shape the output for Obsidian or Notion to import
   exportFormat: 'native' | 'html' | 'markdown';
-  exportFormats?: ('docx' | 'html' | 'xlsx' | 'markdown')[]; // New multi-format support
+  exportFormats?: ('native' | ExportFormat)[]; // New multi-format support
   maxDocuments?: number;
   includeSharedDocuments: boolean;
-  includeFolders: string[]; // folder IDs to include
+  includeFolders: string[]; // folder IDs or URLs to export (all folders when empty)
+  excludeFolders?: string[]; // folder IDs or URLs whose subtrees are skipped
+  excludePatterns?: string[]; // glob patterns of folder paths to skip, e.g. "Archive/**"
   rateLimitDelay: number;
   retryAttempts: number;
   preserveFolderStructure: boolean;
   sanitizeFileNames: boolean;
   conflictResolution: 'number' | 'timestamp' | 'overwrite';
   useFormatDirectories?: boolean; // New option for format-based organization
+  incremental?: boolean; // Skip documents unchanged since the last run (default: true)
+  mirror?: MirrorMode; // Move files of documents no longer in the export to .trash, or delete them
+  git?: boolean; // Commit the Markdown and HTML files to a git repository after each run
+  downloadAssets?: boolean; // Download embedded images and attachments (default: true)
+  includeComments?: boolean; // Write comments and chat messages next to each document
+  chatTranscripts?: ChatTranscriptOptions; // Export chats as transcripts of their messages, within an optional date range
+  documentMetadata?: boolean; // YAML front matter in Markdown, a .meta.json sidecar for other formats
+  rewriteLinks?: boolean; // Point links between exported documents at local files (default: true)
+  formatSpecificOptions?: {
+    markdown?: MarkdownOptions;
+    spreadsheet?: SpreadsheetOptions;
+  };
 }
 
 export interface ExportError {
@@ -102,6 +138,8 @@ export interface ExportSession {
   id: string;
   config: ExportConfig;
   state: ExportState;
+  tasks?: DocumentExportTask[]; // Persisted so interrupted sessions can be resumed
+  incompleteDiscovery?: string; // Why discovery may have missed documents; mirror mode then removes nothing
   createdAt: Date;
   updatedAt: Date;
 }
@@ -111,6 +149,8 @@ export interface DocumentExportTask {
   documentTitle: string;
   documentType: string;
   folderPath: string;
+  updatedUsec?: number; // Quip revision timestamp used for incremental export
+  metadata?: QuipDocument; // Full document metadata from discovery
   exportFormat: 'docx' | 'html' | 'xlsx' | 'markdown';
   exportFormats?: ('docx' | 'html' | 'xlsx' | 'markdown')[]; // Multi-format support
   priority: number;
@@ -121,5 +161,8 @@ export interface DocumentExportTask {
   filePaths?: { [format: string]: string }; // Format-specific file paths
   fileSize?: number;
   fileSizes?: { [format: string]: number }; // Format-specific file sizes
+  fileHashes?: { [format: string]: string }; // SHA-256 of files hashed while they were downloaded
+  formatErrors?: { [format: string]: string }; // Format-specific export errors
+  assets?: ExportedAsset[]; // Images and attachments downloaded for the document
   exportedAt?: Date;
 }
@@ -37,30 +37,39 @@ export interface DocumentTypeCompatibility {
  * Format capability detector and validator
  */
 export class FormatValidator {
-  private static readonly SUPPORTED_FORMATS = ['native', 'html', 'markdown'];
+  private static readonly SUPPORTED_FORMATS = [
+    'native',
+    'html',
+    'markdown',
+    'csv',
+    'json',
+    'html-standalone',
+  ];
 
   private static readonly DOCUMENT_TYPE_COMPATIBILITY: DocumentTypeCompatibility[] = [
     {
       documentType: 'DOCUMENT',
-      supportedFormats: ['native', 'html', 'markdown'],
+      supportedFormats: ['native', 'html', 'markdown', 'html-standalone'],
       recommendedFormats: ['native'],
       warnings: {
         html: 'HTML export may not preserve all formatting for documents',
-        markdown: 'Markdown export requires additional dependencies and may lose some formatting',
+        markdown: 'Markdown export may lose some formatting',
       },
     },
     {
       documentType: 'SPREADSHEET',
-      supportedFormats: ['native', 'html'],
+      supportedFormats: ['native', 'html', 'csv', 'json', 'html-standalone'],
       recommendedFormats: ['native'],
       warnings: {
         html: 'HTML export may not preserve spreadsheet functionality',
+        csv: 'CSV export keeps cell values only, without formulas or formatting',
+        json: 'JSON export keeps cell values only, without formulas or formatting',
       },
     },
 
     {
       documentType: 'CHAT',
-      supportedFormats: ['native', 'html', 'markdown'],
+      supportedFormats: ['native', 'html', 'markdown', 'html-standalone'],
       recommendedFormats: ['native', 'html'],
       warnings: {
         markdown: 'Markdown export may not preserve chat threading and timestamps',
@@ -71,16 +80,34 @@ export class FormatValidator {
   private static readonly FORMAT_DEPENDENCIES: { [format: string]: DependencyInfo[] } = {
     markdown: [
       {
-        name: 'turndown',
+        name: 'cheerio',
         required: true,
         available: false,
-        installCommand: 'npm install turndown @types/turndown',
+        installCommand: 'npm install cheerio',
       },
+    ],
+    csv: [
       {
         name: 'cheerio',
         required: true,
         available: false,
-        installCommand: 'npm install cheerio @types/cheerio',
+        installCommand: 'npm install cheerio',
+      },
+    ],
+    json: [
+      {
+        name: 'cheerio',
+        required: true,
+        available: false,
+        installCommand: 'npm install cheerio',
+      },
+    ],
+    'html-standalone': [
+      {
+        name: 'cheerio',
+        required: true,
+        available: false,
+        installCommand: 'npm install cheerio',
       },
     ],
     native: [], // Native format has no dependencies
@@ -264,6 +291,17 @@ export class FormatValidator {
           // Native format can fall back to HTML
           fallbacks.push('html');
           break;
+
+        case 'csv':
+        case 'json':
+          // Spreadsheet sheets can fall back to HTML tables
+          fallbacks.push('html');
+          break;
+
+        case 'html-standalone':
+          // Standalone pages can fall back to the plain HTML export
+          fallbacks.push('html');
+          break;
       }
 
       if (fallbacks.length > 0) {
@@ -6,17 +6,21 @@ import { MigrationState, MigrationConfig, QuipDocument } from '../types';
 import { IStateManager } from './interfaces';
 import { MigrationSession } from './types';
 
-export class StateManager implements IStateManager {
-  private readonly stateDir: string;
+/**
+ * JSON files in a state directory, one per session, shared by the migration
+ * and export state stores
+ */
+export abstract class StateFileStore {
+  protected readonly stateDir: string;
 
-  constructor(stateDir: string = '.migration-state') {
+  constructor(stateDir: string) {
     this.stateDir = stateDir;
   }
 
   /**
    * Initialize state directory if it doesn't exist
    */
-  private async ensureStateDir(): Promise<void> {
+  protected async ensureStateDir(): Promise<void> {
     try {
       await fs.access(this.stateDir);
     } catch {
@@ -27,20 +31,72 @@ export class StateManager implements IStateManager {
   /**
    * Get the file path for a session state
    */
-  private getSessionPath(sessionId: string): string {
+  protected getSessionPath(sessionId: string): string {
     return path.join(this.stateDir, `${sessionId}.json`);
   }
 
   /**
-   * Save migration state to disk
+   * Write a state file through a temp file, so a crash mid-write keeps the previous one
    */
-  async saveState(sessionId: string, state: MigrationState): Promise<void> {
+  protected async writeStateFile(name: string, data: unknown): Promise<void> {
+    await this.ensureStateDir();
+    const filePath = this.getSessionPath(name);
+    const tempPath = `${filePath}.tmp`;
+
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  /**
+   * Read a state file, or null if it doesn't exist
+   */
+  protected async readStateFile<T>(name: string): Promise<T | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.getSessionPath(name), 'utf8')) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a state file; a missing file counts as already deleted
+   */
+  protected async deleteStateFile(name: string): Promise<void> {
+    try {
+      await fs.unlink(this.getSessionPath(name));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * List the names of all state files
+   */
+  protected async listStateFiles(): Promise<string[]> {
     await this.ensureStateDir();
-    const sessionPath = this.getSessionPath(sessionId);
+    const files = await fs.readdir(this.stateDir);
+    return files
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => path.basename(file, '.json'));
+  }
+}
 
+export class StateManager extends StateFileStore implements IStateManager {
+  constructor(stateDir: string = '.migration-state') {
+    super(stateDir);
+  }
+
+  /**
+   * Save migration state to disk
+   */
+  async saveState(sessionId: string, state: MigrationState): Promise<void> {
     try {
-      const stateData = JSON.stringify(state, null, 2);
-      await fs.writeFile(sessionPath, stateData, 'utf8');
+      await this.writeStateFile(sessionId, state);
     } catch (error) {
       throw new Error(
         `Failed to save migration state: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -52,11 +108,11 @@ export class StateManager implements IStateManager {
    * Load migration state from disk
    */
   async loadState(sessionId: string): Promise<MigrationState | null> {
-    const sessionPath = this.getSessionPath(sessionId);
-
     try {
-      const stateData = await fs.readFile(sessionPath, 'utf8');
-      const state = JSON.parse(stateData) as MigrationState;
+      const state = await this.readStateFile<MigrationState>(sessionId);
+      if (!state) {
+        return null; // Session doesn't exist
+      }
 
       // Convert date strings back to Date objects
       state.startTime = new Date(state.startTime);
@@ -68,9 +124,6 @@ export class StateManager implements IStateManager {
 
       return state;
     } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        return null; // Session doesn't exist
-      }
       throw new Error(
         `Failed to load migration state: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
@@ -81,17 +134,12 @@ export class StateManager implements IStateManager {
    * Delete migration state from disk
    */
   async deleteState(sessionId: string): Promise<void> {
-    const sessionPath = this.getSessionPath(sessionId);
-
     try {
-      await fs.unlink(sessionPath);
+      await this.deleteStateFile(sessionId);
     } catch (error) {
-      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
-        throw new Error(
-          `Failed to delete migration state: ${error instanceof Error ? error.message : 'Unknown error'}`
-        );
-      }
-      // If file doesn't exist, consider it already deleted
+      throw new Error(
+        `Failed to delete migration state: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
     }
   }
 
@@ -100,11 +148,7 @@ export class StateManager implements IStateManager {
    */
   async listSessions(): Promise<string[]> {
     try {
-      await this.ensureStateDir();
-      const files = await fs.readdir(this.stateDir);
-      return files
-        .filter((file) => file.endsWith('.json'))
-        .map((file) => path.basename(file, '.json'));
+      return await this.listStateFiles();
     } catch (error) {
       throw new Error(
         `Failed to list migration sessions: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -116,12 +160,8 @@ export class StateManager implements IStateManager {
    * Save complete migration session (state + config + documents)
    */
   async saveSession(session: MigrationSession): Promise<void> {
-    await this.ensureStateDir();
-    const sessionPath = this.getSessionPath(`session-${session.id}`);
-
     try {
-      const sessionData = JSON.stringify(session, null, 2);
-      await fs.writeFile(sessionPath, sessionData, 'utf8');
+      await this.writeStateFile(`session-${session.id}`, session);
     } catch (error) {
       throw new Error(
         `Failed to save migration session: ${error instanceof Error ? error.message : 'Unknown error'}`
@@ -133,11 +173,11 @@ export class StateManager implements IStateManager {
    * Load complete migration session
    */
   async loadSession(sessionId: string): Promise<MigrationSession | null> {
-    const sessionPath = this.getSessionPath(`session-${sessionId}`);
-
     try {
-      const sessionData = await fs.readFile(sessionPath, 'utf8');
-      const session = JSON.parse(sessionData) as MigrationSession;
+      const session = await this.readStateFile<MigrationSession>(`session-${sessionId}`);
+      if (!session) {
+        return null;
+      }
 
       // Convert date strings back to Date objects
       session.createdAt = new Date(session.createdAt);
@@ -151,9 +191,6 @@ export class StateManager implements IStateManager {
 
       return session;
     } catch (error) {
-      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-        return null;
-      }
       throw new Error(
         `Failed to load migration session: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
@@ -112,6 +112,18 @@ export class CLIProgressDisplay {
           this.logger.error(`Export failed: ${update.error.message}`);
         }
         break;
+
+      case 'throttle':
+        if (this.options.showDetails && update.throttle) {
+          this.logger.debug(
+            `Quip requests paced to ${update.throttle.requestsPerMinute.toFixed(1)}/min`
+          );
+        }
+        break;
+
+      case 'download':
+        // Shown in the status line; the byte counts change too often to log
+        break;
     }
 
     // Force display update on significant events
@@ -121,7 +133,9 @@ export class CLIProgressDisplay {
       update.type === 'folder_change' ||
       update.type === 'format_start' ||
       update.type === 'format_complete' ||
-      update.type === 'format_error'
+      update.type === 'format_error' ||
+      update.type === 'throttle' ||
+      update.type === 'download'
     ) {
       this.displayProgress();
     }
@@ -189,6 +203,17 @@ export class CLIProgressDisplay {
       }
     }
 
+    // Explain pauses while requests wait for the Quip rate limit
+    const throttle = this.tracker.getThrottleStatus();
+    if (throttle) {
+      status += ` | ⏳ ${throttle}`;
+    }
+
+    const download = this.tracker.getDownloadStatus();
+    if (download) {
+      status += ` | ⬇ ${download}`;
+    }
+
     // Add format progress information
     if (state.formatProgress && this.options.showDetails) {
       const fp = state.formatProgress;
@@ -0,0 +1,82 @@
+import { ExportState } from '../core/export-types';
+import { DocumentDownload, ProgressTracker, RequestThrottle } from './progress-tracker';
+
+export interface ExportProgressSources {
+  stateManager: { onStateChange(callback: (state: ExportState) => void): void };
+  orchestrator?: { onDownloadProgress(listener: (download: DocumentDownload) => void): void };
+  apiClient?: { onThrottle(listener: (throttle: RequestThrottle) => void): void };
+}
+
+export interface ExportProgressHandlers {
+  onStart?: (tracker: ProgressTracker) => void;
+  onFinish?: (tracker: ProgressTracker) => void;
+}
+
+const FINISHED_STATUSES: ExportState['status'][] = ['completed', 'failed', 'cancelled'];
+
+/**
+ * Feed an export run into a ProgressTracker: documents from the export state,
+ * bytes of streamed downloads and the pace of the Quip API client. The tracker
+ * is created once discovery is done and the number of documents is known.
+ */
+export function trackExportProgress(
+  sources: ExportProgressSources,
+  handlers: ExportProgressHandlers = {}
+): void {
+  let tracker: ProgressTracker | undefined;
+  let previous: ExportState | undefined;
+  let latestThrottle: RequestThrottle | undefined;
+
+  sources.stateManager.onStateChange((state) => {
+    if (!tracker) {
+      if (state.status !== 'exporting') {
+        return;
+      }
+
+      // A resumed session only has its remaining documents left to export
+      tracker = new ProgressTracker(
+        state.sessionId,
+        state.totalDocuments - state.processedDocuments
+      );
+      if (latestThrottle) {
+        tracker.updateThrottle(latestThrottle);
+      }
+      previous = { ...state };
+      handlers.onStart?.(tracker);
+    }
+
+    const last = previous || state;
+    if (state.currentDocument && state.currentDocument !== last.currentDocument) {
+      tracker.startDocument(
+        state.currentDocument,
+        state.currentDocument,
+        state.currentFolder,
+        state.currentFormats
+      );
+    }
+
+    const failed = state.failedExports - last.failedExports;
+    const succeeded = state.processedDocuments - last.processedDocuments - failed;
+    for (let i = 0; i < succeeded; i++) {
+      tracker.completeDocument(true);
+    }
+    for (let i = 0; i < failed; i++) {
+      tracker.completeDocument(false);
+    }
+
+    previous = { ...state };
+
+    if (FINISHED_STATUSES.includes(state.status)) {
+      handlers.onFinish?.(tracker);
+      tracker = undefined;
+      previous = undefined;
+    }
+  });
+
+  sources.orchestrator?.onDownloadProgress((download) => tracker?.updateDownload(download));
+
+  sources.apiClient?.onThrottle((throttle) => {
+    latestThrottle = throttle;
+    tracker?.updateThrottle(throttle);
+  });
+}
@@ -17,6 +17,7 @@ export interface ExportReport {
   statistics: ExportStatistics;
   auditTrail?: AuditEvent[];
   logAnalysis?: LogAnalysisResult;
+  mirrorActions?: ExportMirrorAction[]; // Files removed by mirror mode
 }
 
 export interface ExportSummary {
@@ -56,6 +57,29 @@ export interface ExportDocumentMapping {
   exportFormat?: string;
   createdAt: Date;
   formatResults?: { [format: string]: FormatExportResult }; // New multi-format results
+  assets?: ExportAssetMapping[]; // Embedded images and attachments downloaded with the document
+  unresolvedLinks?: string[]; // Links to Quip documents that are not part of the export
+}
+
+export interface ExportAssetMapping {
+  blobId: string;
+  sourceUrl: string;
+  localPath?: string;
+  relativePath?: string;
+  fileSize?: number;
+  status: 'downloaded' | 'reused' | 'failed';
+  error?: string;
+}
+
+export interface ExportMirrorAction {
+  documentId: string;
+  documentTitle: string;
+  relativePath: string;
+  action: 'trash' | 'delete';
+  reason: 'removed' | 'replaced'; // Document no longer in the export, or re-exported to another file
+  trashPath?: string;
+  status: 'planned' | 'done' | 'failed';
+  error?: string;
 }
 
 export interface FormatExportResult {
@@ -136,6 +160,7 @@ export class ExportReporter {
   private auditLogger?: AuditLogger;
   private documentMappings: Map<string, ExportDocumentMapping> = new Map();
   private errors: ExportErrorReport[] = [];
+  private mirrorActions: ExportMirrorAction[] = [];
   private startTime: Date;
   private endTime?: Date;
   private outputDirectory: string;
@@ -241,6 +266,75 @@ export class ExportReporter {
     }
   }
 
+  /**
+   * Record the images and attachments downloaded for a document
+   */
+  public recordDocumentAssets(
+    quipDocumentId: string,
+    assets: {
+      blobId: string;
+      sourceUrl: string;
+      filePath?: string;
+      fileSize?: number;
+      reused?: boolean;
+      error?: string;
+    }[]
+  ): void {
+    const mapping = this.documentMappings.get(quipDocumentId);
+    if (mapping) {
+      mapping.assets = assets.map((asset) => ({
+        blobId: asset.blobId,
+        sourceUrl: asset.sourceUrl,
+        localPath: asset.filePath,
+        relativePath: asset.filePath
+          ? path.relative(this.outputDirectory, asset.filePath)
+          : undefined,
+        fileSize: asset.fileSize,
+        status: asset.error ? 'failed' : asset.reused ? 'reused' : 'downloaded',
+        error: asset.error,
+      }));
+    }
+  }
+
+  /**
+   * Record links to Quip documents that could not be pointed at a local export
+   */
+  public recordUnresolvedLinks(quipDocumentId: string, urls: string[]): void {
+    const mapping = this.documentMappings.get(quipDocumentId);
+    if (mapping) {
+      mapping.unresolvedLinks = Array.from(new Set([...(mapping.unresolvedLinks || []), ...urls]));
+    }
+  }
+
+  /**
+   * Record the files that mirror mode moved to the trash or deleted
+   */
+  public recordMirrorActions(
+    actions: {
+      documentId: string;
+      documentTitle: string;
+      path: string;
+      action: 'trash' | 'delete';
+      reason: 'removed' | 'replaced';
+      trashPath?: string;
+      status: 'planned' | 'done' | 'failed';
+      error?: string;
+    }[]
+  ): void {
+    this.mirrorActions.push(
+      ...actions.map((action) => ({
+        documentId: action.documentId,
+        documentTitle: action.documentTitle,
+        relativePath: action.path,
+        action: action.action,
+        reason: action.reason,
+        trashPath: action.trashPath,
+        status: action.status,
+        error: action.error,
+      }))
+    );
+  }
+
   /**
    * Record failed document export
    */
@@ -342,6 +436,7 @@ export class ExportReporter {
         : ({} as ExportStatistics),
       auditTrail: auditEvents,
       logAnalysis,
+      mirrorActions: this.mirrorActions.length > 0 ? this.mirrorActions : undefined,
     };
 
     await this.saveReport(report, reportOptions);
@@ -394,6 +489,13 @@ export class ExportReporter {
       }
     }
 
+    if (this.mirrorActions.length > 0) {
+      report += `\n## Mirror (${this.mirrorActions.length} files)\n`;
+      this.mirrorActions.forEach((action) => {
+        report += `- ${this.describeMirrorAction(action)}\n`;
+      });
+    }
+
     if (this.errors.length > 0) {
       report += '\n## Errors\n';
       const criticalErrors = this.errors.filter((e) => e.severity === 'critical').length;
@@ -993,6 +1095,40 @@ export class ExportReporter {
         </tbody>
     </table>
 
+    ${
+      report.mirrorActions && report.mirrorActions.length > 0
+        ? `
+    <h2>Mirror (${report.mirrorActions.length} files)</h2>
+    <table>
+        <thead>
+            <tr>
+                <th>File</th>
+                <th>Document</th>
+                <th>Reason</th>
+                <th>Action</th>
+                <th>Status</th>
+            </tr>
+        </thead>
+        <tbody>
+            ${report.mirrorActions
+              .map(
+                (action) => `
+                <tr>
+                    <td>${action.relativePath}</td>
+                    <td>${action.documentTitle}</td>
+                    <td>${action.reason === 'removed' ? 'No longer in Quip export' : 'Replaced by a newer export'}</td>
+                    <td>${action.action === 'trash' ? `Moved to ${action.trashPath || '.trash'}` : 'Deleted'}</td>
+                    <td class="${action.status === 'failed' ? 'failed' : 'success'}">${action.error || action.status}</td>
+                </tr>
+            `
+              )
+              .join('')}
+        </tbody>
+    </table>
+    `
+        : ''
+    }
+
     ${
       report.errors.length > 0
         ? `
@@ -1108,6 +1244,14 @@ export class ExportReporter {
       markdown += '\n';
     }
 
+    if (report.mirrorActions && report.mirrorActions.length > 0) {
+      markdown += `## Mirror (${report.mirrorActions.length} files)\n\n`;
+      report.mirrorActions.forEach((action) => {
+        markdown += `- ${this.describeMirrorAction(action)}\n`;
+      });
+      markdown += '\n';
+    }
+
     if (report.errors.length > 0) {
       markdown += `## Errors (${report.errors.length})\n\n`;
       const criticalErrors = report.errors.filter((e) => e.severity === 'critical');
@@ -1133,6 +1277,20 @@ export class ExportReporter {
     return markdown;
   }
 
+  private describeMirrorAction(action: ExportMirrorAction): string {
+    const verb =
+      action.status === 'planned'
+        ? action.action === 'trash'
+          ? 'Would move to trash'
+          : 'Would delete'
+        : action.action === 'trash'
+          ? 'Moved to trash'
+          : 'Deleted';
+    const reason = action.reason === 'removed' ? 'no longer in the export' : 'replaced';
+    const failure = action.status === 'failed' ? ` — failed: ${action.error}` : '';
+    return `${verb}: ${action.relativePath} (${action.documentTitle}, ${reason})${failure}`;
+  }
+
   private determineErrorSeverity(
     error: Error,
     context?: any
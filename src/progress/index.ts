@@ -1,5 +1,17 @@
-export { ProgressTracker, ProgressState, ProgressUpdate } from './progress-tracker';
+export {
+  ProgressTracker,
+  ProgressState,
+  ProgressUpdate,
+  RequestThrottle,
+  DocumentDownload,
+  formatRequestThrottle,
+} from './progress-tracker';
 export { CLIProgressDisplay, ProgressDisplayOptions } from './cli-progress-display';
+export {
+  trackExportProgress,
+  ExportProgressSources,
+  ExportProgressHandlers,
+} from './export-progress';
 export {
   MigrationReporter,
   ReportOptions,
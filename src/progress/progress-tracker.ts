@@ -18,6 +18,20 @@ export interface ProgressState {
   processingRate?: number; // documents per minute
   exportSpeed?: number; // bytes per second
   totalBytesProcessed?: number;
+  requestRate?: number; // Quip API requests per minute the client is paced to
+  throttledUntil?: Date; // Next free request slot while requests wait for the rate limit
+  currentDownload?: DocumentDownload; // Export file being streamed to disk
+}
+
+export interface RequestThrottle {
+  requestsPerMinute: number;
+  nextSlotAt?: Date; // Set while a request waits for a free slot
+}
+
+export interface DocumentDownload {
+  documentTitle?: string;
+  bytesDownloaded: number;
+  totalBytes?: number; // Unknown when Quip sends no Content-Length
 }
 
 export interface FormatProgress {
@@ -36,7 +50,9 @@ export interface ProgressUpdate {
     | 'folder_change'
     | 'format_start'
     | 'format_complete'
-    | 'format_error';
+    | 'format_error'
+    | 'throttle'
+    | 'download';
   documentId?: string;
   documentTitle?: string;
   folderName?: string;
@@ -47,6 +63,23 @@ export interface ProgressUpdate {
   error?: Error;
   timestamp: Date;
   fileSize?: number;
+  throttle?: RequestThrottle;
+  download?: DocumentDownload;
+}
+
+/**
+ * Describe a wait for the rate limit, e.g. "throttled, next slot in 12s"
+ */
+export function formatRequestThrottle(
+  throttle: RequestThrottle,
+  now: number = Date.now()
+): string | undefined {
+  if (!throttle.nextSlotAt || throttle.nextSlotAt.getTime() <= now) {
+    return undefined;
+  }
+
+  const seconds = Math.ceil((throttle.nextSlotAt.getTime() - now) / 1000);
+  return `throttled, next slot in ${seconds}s`;
 }
 
 export class ProgressTracker extends EventEmitter {
@@ -141,6 +174,34 @@ export class ProgressTracker extends EventEmitter {
     this.emit('progress', update);
   }
 
+  public updateThrottle(throttle: RequestThrottle): void {
+    this.state.requestRate = throttle.requestsPerMinute;
+    this.state.throttledUntil = throttle.nextSlotAt;
+    this.state.lastUpdateTime = new Date();
+
+    const update: ProgressUpdate = {
+      type: 'throttle',
+      throttle,
+      timestamp: new Date(),
+    };
+
+    this.emit('progress', update);
+  }
+
+  public updateDownload(download: DocumentDownload): void {
+    this.state.currentDownload = download;
+    this.state.lastUpdateTime = new Date();
+
+    const update: ProgressUpdate = {
+      type: 'download',
+      documentTitle: download.documentTitle,
+      download,
+      timestamp: new Date(),
+    };
+
+    this.emit('progress', update);
+  }
+
   public startFormat(format: string): void {
     this.state.currentFormat = format;
     this.state.currentOperation = `Exporting as ${format.toUpperCase()}`;
@@ -218,6 +279,7 @@ export class ProgressTracker extends EventEmitter {
     this.state.currentFormat = undefined;
     this.state.currentFormats = undefined;
     this.state.formatProgress = undefined;
+    this.state.currentDownload = undefined;
     this.state.lastUpdateTime = new Date();
 
     const update: ProgressUpdate = {
@@ -262,6 +324,28 @@ export class ProgressTracker extends EventEmitter {
     return this.formatBytes(this.state.exportSpeed) + '/s';
   }
 
+  public getThrottleStatus(): string | undefined {
+    if (this.state.requestRate === undefined) return undefined;
+    return formatRequestThrottle({
+      requestsPerMinute: this.state.requestRate,
+      nextSlotAt: this.state.throttledUntil,
+    });
+  }
+
+  /**
+   * Describe the current download, e.g. "12.0 MB of 40.0 MB (30%)"
+   */
+  public getDownloadStatus(): string | undefined {
+    const download = this.state.currentDownload;
+    if (!download) return undefined;
+
+    const downloaded = this.formatBytes(download.bytesDownloaded);
+    if (!download.totalBytes) return downloaded;
+
+    const percentage = Math.round((download.bytesDownloaded / download.totalBytes) * 100);
+    return `${downloaded} of ${this.formatBytes(download.totalBytes)} (${percentage}%)`;
+  }
+
   public getTotalBytesProcessed(): number {
     return this.state.totalBytesProcessed || 0;
   }
@@ -356,6 +440,11 @@ export class ProgressTracker extends EventEmitter {
       summary += `\nData: ${totalBytes}`;
     }
 
+    if (this.state.requestRate !== undefined) {
+      const throttle = this.getThrottleStatus();
+      summary += `\nRequests: ${this.state.requestRate.toFixed(1)}/min${throttle ? ` (${throttle})` : ''}`;
+    }
+
     if (this.state.currentFolder) {
       summary += `\nFolder: ${this.state.currentFolder}`;
     }
@@ -367,6 +456,11 @@ export class ProgressTracker extends EventEmitter {
       }
     }
 
+    const download = this.getDownloadStatus();
+    if (download) {
+      summary += `\nDownloading: ${download}`;
+    }
+
     // Add format-specific progress information
     if (this.state.formatProgress) {
       const formatProgress = this.state.formatProgress;
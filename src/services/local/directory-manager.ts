@@ -10,6 +10,9 @@ import {
   ConflictResolutionResult 
 } from './types';
 import { PathUtils } from './path-utils';
+import { StorageBackend } from '../storage/types';
+import { LocalStorageBackend } from '../storage/local-storage-backend';
+import { GitRepository } from './git-repository';
 
 /**
  * Manages local directory creation and folder structure mirroring Quip organization
@@ -17,10 +20,19 @@ import { PathUtils } from './path-utils';
 export class DirectoryManager {
   private readonly config: LocalDirectoryConfig;
   private readonly logger: Logger;
+  private readonly storage: StorageBackend;
 
-  constructor(config: LocalDirectoryConfig, logger: Logger) {
+  constructor(config: LocalDirectoryConfig, logger: Logger, storage: StorageBackend = new LocalStorageBackend()) {
     this.config = config;
     this.logger = logger;
+    this.storage = storage;
+  }
+
+  /**
+   * Get the storage backend exported files are written to
+   */
+  getStorageBackend(): StorageBackend {
+    return this.storage;
   }
 
   /**
@@ -39,11 +51,11 @@ export class DirectoryManager {
       }
 
       // Create the directory
-      await fs.mkdir(this.config.baseOutputPath, { recursive: true });
+      await this.storage.ensureDirectory(this.config.baseOutputPath);
       
       // Verify it was created and is writable
-      const stats = await fs.stat(this.config.baseOutputPath);
-      if (!stats.isDirectory()) {
+      const stats = await this.storage.stat(this.config.baseOutputPath);
+      if (stats && stats.isDirectory === false) {
         return {
           success: false,
           error: `Base path exists but is not a directory: ${this.config.baseOutputPath}`
@@ -53,16 +65,27 @@ export class DirectoryManager {
       // Test write permissions
       const testFile = path.join(this.config.baseOutputPath, '.write_test');
       try {
-        await fs.writeFile(testFile, 'test');
-        await fs.unlink(testFile);
+        await this.storage.write(testFile, Buffer.from('test'));
+        await this.storage.delete(testFile);
       } catch (error) {
         return {
           success: false,
-          error: `No write permission in base directory: ${this.config.baseOutputPath}`
+          error: `No write permission in base directory: ${this.storage.describe(this.config.baseOutputPath)}`
         };
       }
 
-      this.logger.info(`Base directory initialized: ${this.config.baseOutputPath}`);
+      if (this.config.gitRepository) {
+        const repository = new GitRepository(this.config.baseOutputPath, this.logger);
+        if (!(await repository.isAvailable())) {
+          return {
+            success: false,
+            error: 'Git output requires a git binary on PATH'
+          };
+        }
+        await repository.initialize();
+      }
+
+      this.logger.info(`Base directory initialized: ${this.storage.describe(this.config.baseOutputPath)}`);
       
       return {
         success: true,
@@ -102,16 +125,7 @@ export class DirectoryManager {
       this.logger.debug(`Creating folder structure: ${quipFolderPath} -> ${targetPath}`);
 
       // Create the directory
-      await fs.mkdir(targetPath, { recursive: true });
-
-      // Verify creation
-      const stats = await fs.stat(targetPath);
-      if (!stats.isDirectory()) {
-        return {
-          success: false,
-          error: `Failed to create directory: ${targetPath}`
-        };
-      }
+      await this.storage.ensureDirectory(targetPath);
 
       return {
         success: true,
@@ -139,7 +153,7 @@ export class DirectoryManager {
 
       this.logger.debug(`Creating folder type directory: ${folderType} -> ${targetPath}`);
 
-      await fs.mkdir(targetPath, { recursive: true });
+      await this.storage.ensureDirectory(targetPath);
 
       return {
         success: true,
@@ -166,44 +180,7 @@ export class DirectoryManager {
   ): Promise<ConflictResolutionResult> {
     const fullPath = path.join(directoryPath, fileName);
 
-    try {
-      // Check if file exists
-      await fs.access(fullPath);
-      
-      // File exists, need to resolve conflict
-      this.logger.debug(`File conflict detected: ${fullPath}`);
-
-      switch (this.config.conflictResolution) {
-        case 'overwrite':
-          return {
-            resolvedPath: fullPath,
-            strategy: 'overwritten',
-            finalName: fileName
-          };
-
-        case 'number':
-        case 'timestamp':
-          const uniqueFileName = PathUtils.createUniqueFileName(
-            directoryPath, 
-            fileName, 
-            this.config.conflictResolution
-          );
-          const uniquePath = path.join(directoryPath, uniqueFileName);
-          
-          return {
-            resolvedPath: uniquePath,
-            strategy: this.config.conflictResolution === 'number' ? 'numbered' : 'timestamped',
-            finalName: uniqueFileName
-          };
-
-        default:
-          return {
-            resolvedPath: fullPath,
-            strategy: 'original',
-            finalName: fileName
-          };
-      }
-    } catch {
+    if (!(await this.fileExists(fullPath))) {
       // File doesn't exist, no conflict
       return {
         resolvedPath: fullPath,
@@ -211,6 +188,41 @@ export class DirectoryManager {
         finalName: fileName
       };
     }
+
+    // File exists, need to resolve conflict
+    this.logger.debug(`File conflict detected: ${this.storage.describe(fullPath)}`);
+
+    switch (this.config.conflictResolution) {
+      case 'overwrite':
+        return {
+          resolvedPath: fullPath,
+          strategy: 'overwritten',
+          finalName: fileName
+        };
+
+      case 'number':
+      case 'timestamp': {
+        const uniqueFileName = await this.createUniqueFileName(
+          directoryPath, 
+          fileName, 
+          this.config.conflictResolution
+        );
+        const uniquePath = path.join(directoryPath, uniqueFileName);
+        
+        return {
+          resolvedPath: uniquePath,
+          strategy: this.config.conflictResolution === 'number' ? 'numbered' : 'timestamped',
+          finalName: uniqueFileName
+        };
+      }
+
+      default:
+        return {
+          resolvedPath: fullPath,
+          strategy: 'original',
+          finalName: fileName
+        };
+    }
   }
 
   /**
@@ -223,45 +235,7 @@ export class DirectoryManager {
   ): Promise<ConflictResolutionResult> {
     const fullPath = path.join(directoryPath, fileName);
 
-    try {
-      // Check if file exists
-      await fs.access(fullPath);
-      
-      // File exists, need to resolve conflict
-      this.logger.debug(`Format file conflict detected: ${fullPath} (${format})`);
-
-      switch (this.config.conflictResolution) {
-        case 'overwrite':
-          return {
-            resolvedPath: fullPath,
-            strategy: 'overwritten',
-            finalName: fileName
-          };
-
-        case 'number':
-        case 'timestamp':
-          const uniqueFileName = PathUtils.generateUniqueFileName(
-            directoryPath, 
-            fileName, 
-            format,
-            this.config.conflictResolution
-          );
-          const uniquePath = path.join(directoryPath, uniqueFileName);
-          
-          return {
-            resolvedPath: uniquePath,
-            strategy: this.config.conflictResolution === 'number' ? 'numbered' : 'timestamped',
-            finalName: uniqueFileName
-          };
-
-        default:
-          return {
-            resolvedPath: fullPath,
-            strategy: 'original',
-            finalName: fileName
-          };
-      }
-    } catch {
+    if (!(await this.fileExists(fullPath))) {
       // File doesn't exist, no conflict
       return {
         resolvedPath: fullPath,
@@ -269,6 +243,83 @@ export class DirectoryManager {
         finalName: fileName
       };
     }
+
+    // File exists, need to resolve conflict
+    this.logger.debug(`Format file conflict detected: ${this.storage.describe(fullPath)} (${format})`);
+
+    switch (this.config.conflictResolution) {
+      case 'overwrite':
+        return {
+          resolvedPath: fullPath,
+          strategy: 'overwritten',
+          finalName: fileName
+        };
+
+      case 'number':
+      case 'timestamp': {
+        // Sanitize with format context first, like PathUtils.generateUniqueFileName
+        const sanitizedName = PathUtils.sanitizeFileNameEnhanced(fileName, format).sanitized;
+        const uniqueFileName = await this.createUniqueFileName(
+          directoryPath,
+          sanitizedName,
+          this.config.conflictResolution,
+          true
+        );
+        const uniquePath = path.join(directoryPath, uniqueFileName);
+        
+        return {
+          resolvedPath: uniquePath,
+          strategy: this.config.conflictResolution === 'number' ? 'numbered' : 'timestamped',
+          finalName: uniqueFileName
+        };
+      }
+
+      default:
+        return {
+          resolvedPath: fullPath,
+          strategy: 'original',
+          finalName: fileName
+        };
+    }
+  }
+
+  /**
+   * Create a unique filename by adding numbers or timestamps, checking the
+   * storage backend instead of the local filesystem for existing files.
+   * Format files keep the original name when it is free and use short timestamps.
+   */
+  private async createUniqueFileName(
+    directoryPath: string,
+    fileName: string,
+    strategy: 'number' | 'timestamp',
+    formatFile = false
+  ): Promise<string> {
+    const ext = path.extname(fileName);
+    const nameWithoutExt = path.parse(fileName).name;
+
+    if (strategy === 'timestamp') {
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      return `${nameWithoutExt}_${formatFile ? timestamp.substring(0, 19) : timestamp}${ext}`;
+    }
+
+    let counter = 1;
+    let testName = formatFile ? fileName : `${nameWithoutExt}_${counter++}${ext}`;
+
+    while (await this.fileExists(path.join(directoryPath, testName)) && counter < 1000) {
+      testName = `${nameWithoutExt}_${counter}${ext}`;
+      counter++;
+    }
+
+    return testName;
+  }
+
+  private async fileExists(filePath: string): Promise<boolean> {
+    try {
+      return await this.storage.exists(filePath);
+    } catch (error) {
+      this.logger.warn(`Failed to check for existing file ${this.storage.describe(filePath)}: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    }
   }
 
   /**
@@ -306,16 +357,7 @@ export class DirectoryManager {
       
       this.logger.debug(`Creating format directory: ${format} -> ${formatPath}`);
 
-      await fs.mkdir(formatPath, { recursive: true });
-
-      // Verify creation
-      const stats = await fs.stat(formatPath);
-      if (!stats.isDirectory()) {
-        return {
-          success: false,
-          error: `Failed to create format directory: ${formatPath}`
-        };
-      }
+      await this.storage.ensureDirectory(formatPath);
 
       return {
         success: true,
@@ -346,16 +388,7 @@ export class DirectoryManager {
       this.logger.debug(`Creating format folder structure: ${format}/${quipFolderPath} -> ${safePath}`);
 
       // Create the directory
-      await fs.mkdir(safePath, { recursive: true });
-
-      // Verify creation
-      const stats = await fs.stat(safePath);
-      if (!stats.isDirectory()) {
-        return {
-          success: false,
-          error: `Failed to create format folder structure: ${safePath}`
-        };
-      }
+      await this.storage.ensureDirectory(safePath);
 
       return {
         success: true,
@@ -378,6 +411,9 @@ export class DirectoryManager {
    */
   async analyzeDirectoryStructure(): Promise<DirectoryStructure> {
     try {
+      if (this.storage.type !== 'local') {
+        return await this.buildStructureFromListing(this.config.baseOutputPath);
+      }
       return await this.scanDirectory(this.config.baseOutputPath);
     } catch (error) {
       this.logger.error(`Failed to analyze directory structure: ${error instanceof Error ? error.message : String(error)}`);
@@ -430,10 +466,52 @@ export class DirectoryManager {
     };
   }
 
+  /**
+   * Build structure information from a storage listing, for backends without real directories
+   */
+  private async buildStructureFromListing(basePath: string): Promise<DirectoryStructure> {
+    const rootPath = path.resolve(basePath);
+    const rootChildren: DirectoryStructure[] = [];
+    const folderChildren = new Map<string, DirectoryStructure[]>([[rootPath, rootChildren]]);
+
+    const getChildren = (folderPath: string): DirectoryStructure[] => {
+      let children = folderChildren.get(folderPath);
+      if (!children) {
+        const parentPath = path.dirname(folderPath);
+        if (parentPath === folderPath) {
+          return rootChildren;
+        }
+
+        children = [];
+        folderChildren.set(folderPath, children);
+        getChildren(parentPath).push({ path: folderPath, name: path.basename(folderPath), type: 'folder', children });
+      }
+      return children;
+    };
+
+    for (const file of await this.storage.list(basePath)) {
+      const filePath = path.resolve(file.path);
+      getChildren(path.dirname(filePath)).push({
+        path: filePath,
+        name: path.basename(filePath),
+        type: 'file',
+        size: file.size,
+        created: file.modified
+      });
+    }
+
+    return { path: basePath, name: path.basename(rootPath), type: 'folder', children: rootChildren };
+  }
+
   /**
    * Clean up empty directories
    */
   async cleanupEmptyDirectories(): Promise<void> {
+    if (this.storage.type !== 'local') {
+      // Object storage has no directories that could be left empty
+      return;
+    }
+
     try {
       await this.removeEmptyDirectories(this.config.baseOutputPath);
     } catch (error) {
@@ -0,0 +1,213 @@
+// Rewrites links between exported documents from Quip URLs to local relative paths
+
+import * as path from 'path';
+import { Logger } from '../../types';
+import { StorageBackend } from '../storage/types';
+import { LocalStorageBackend } from '../storage/local-storage-backend';
+import type { DocumentLinkTarget, FolderStructureMapper } from './folder-structure-mapper';
+
+// https://quip.com/<secret path>[/<title slug>][?query][#section], also on company domains
+const QUIP_DOCUMENT_URL_PATTERN =
+  /^https?:\/\/(?:[a-z0-9-]+\.)*quip(?:-[a-z0-9-]+)?\.com\/([A-Za-z0-9]{11,12})(?:\/[^?#]*)?(?:\?[^#]*)?(#.*)?$/i;
+const HTML_LINK_PATTERN = /\bhref=(["'])([^"']*)\1/gi;
+const MARKDOWN_LINK_PATTERN = /\]\(([^)\s]+)\)|<(https?:\/\/[^>\s]+)>/g;
+// Like MARKDOWN_LINK_PATTERN, but with the link text, which becomes the alias of a wiki-link
+const MARKDOWN_LABELLED_LINK_PATTERN = /(!?)\[([^\]]*)\]\(([^)\s]+)\)|<(https?:\/\/[^>\s]+)>/g;
+
+export interface LinkRewriteFile {
+  documentId: string;
+  documentTitle: string;
+  filePath: string;
+}
+
+export interface UnresolvedLink {
+  documentId: string;
+  documentTitle: string;
+  filePath: string;
+  url: string;
+}
+
+export interface LinkRewriteOptions {
+  wikiLinkRoot?: string; // Write Markdown links as [[wiki-links]] relative to this vault directory
+}
+
+export interface LinkRewriteResult {
+  filesUpdated: number;
+  linksRewritten: number;
+  unresolvedLinks: UnresolvedLink[];
+}
+
+/**
+ * Extract the secret path (or thread ID) and section fragment from a Quip document URL
+ */
+export function parseQuipDocumentLink(url: string): { key: string; fragment?: string } | undefined {
+  const match = url.match(QUIP_DOCUMENT_URL_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+
+  return { key: match[1], fragment: match[2] };
+}
+
+/**
+ * Rewrites Quip document links in exported HTML and Markdown files to point
+ * at the local export of the linked document
+ */
+export class DocumentLinkRewriter {
+  private readonly folderMapper: FolderStructureMapper;
+  private readonly logger: Logger;
+  private readonly storage: StorageBackend;
+
+  constructor(folderMapper: FolderStructureMapper, logger: Logger, storage: StorageBackend = new LocalStorageBackend()) {
+    this.folderMapper = folderMapper;
+    this.logger = logger;
+    this.storage = storage;
+  }
+
+  /**
+   * Rewrite the links in exported files; files that are not HTML or Markdown are ignored
+   */
+  async rewriteFiles(files: LinkRewriteFile[], options: LinkRewriteOptions = {}): Promise<LinkRewriteResult> {
+    const result: LinkRewriteResult = { filesUpdated: 0, linksRewritten: 0, unresolvedLinks: [] };
+
+    for (const file of files) {
+      const kind = this.getFileKind(file.filePath);
+      if (!kind) {
+        continue;
+      }
+
+      let content: string;
+      try {
+        content = (await this.storage.read(file.filePath)).toString('utf-8');
+      } catch (error) {
+        this.logger.warn(`Cannot rewrite links in ${file.filePath}: ${error instanceof Error ? error.message : String(error)}`);
+        continue;
+      }
+
+      const rewrite = this.rewriteContent(content, file.filePath, kind, options);
+
+      for (const url of rewrite.unresolved) {
+        result.unresolvedLinks.push({
+          documentId: file.documentId,
+          documentTitle: file.documentTitle,
+          filePath: file.filePath,
+          url
+        });
+      }
+
+      if (rewrite.rewritten > 0) {
+        await this.storage.write(file.filePath, Buffer.from(rewrite.content, 'utf-8'));
+        result.filesUpdated++;
+        result.linksRewritten += rewrite.rewritten;
+      }
+    }
+
+    this.logger.debug(`Rewrote ${result.linksRewritten} document links in ${result.filesUpdated} files`);
+    return result;
+  }
+
+  /**
+   * Rewrite the Quip document links in HTML or Markdown content exported to sourcePath
+   */
+  rewriteContent(
+    content: string,
+    sourcePath: string,
+    kind: 'html' | 'markdown',
+    options: LinkRewriteOptions = {}
+  ): { content: string; rewritten: number; unresolved: string[] } {
+    let rewritten = 0;
+    const unresolved = new Set<string>();
+
+    const resolveTarget = (url: string): { targetPath: string; fragment?: string } | undefined => {
+      const link = parseQuipDocumentLink(url);
+      if (!link) {
+        return undefined;
+      }
+
+      const target = this.folderMapper.resolveDocumentLink(link.key);
+      if (!target) {
+        unresolved.add(url);
+        return undefined;
+      }
+
+      rewritten++;
+      return { targetPath: this.selectTargetFile(target, sourcePath), fragment: link.fragment };
+    };
+
+    const resolve = (url: string): string | undefined => {
+      const resolved = resolveTarget(url);
+      if (!resolved) {
+        return undefined;
+      }
+
+      const { targetPath, fragment } = resolved;
+      const relativePath = path
+        .relative(path.dirname(sourcePath), targetPath)
+        .split(path.sep)
+        .map(segment => encodeURIComponent(segment))
+        .join('/');
+
+      // Section anchors only exist in HTML exports
+      return fragment && /\.html?$/i.test(targetPath) ? `${relativePath}${fragment}` : relativePath;
+    };
+
+    const wikiLinkRoot = options.wikiLinkRoot;
+    if (kind === 'markdown' && wikiLinkRoot) {
+      const updated = content.replace(MARKDOWN_LABELLED_LINK_PATTERN, (link, image, label, destination, autolink) => {
+        const resolved = image ? undefined : resolveTarget(destination || autolink);
+        if (!resolved) {
+          return link;
+        }
+
+        // Vault paths of Markdown notes go without their extension
+        const target = path
+          .relative(wikiLinkRoot, resolved.targetPath)
+          .split(path.sep)
+          .join('/')
+          .replace(/\.md$/i, '');
+        const alias = destination ? label.replace(/[[\]|]/g, '').trim() : '';
+        return alias && alias !== path.posix.basename(target) ? `[[${target}|${alias}]]` : `[[${target}]]`;
+      });
+      return { content: updated, rewritten, unresolved: Array.from(unresolved) };
+    }
+
+    const updated = kind === 'html'
+      ? content.replace(HTML_LINK_PATTERN, (attribute, quote, url) => {
+        const local = resolve(url);
+        return local ? `href=${quote}${local}${quote}` : attribute;
+      })
+      : content.replace(MARKDOWN_LINK_PATTERN, (link, destination, autolink) => {
+        if (destination) {
+          const local = resolve(destination);
+          return local ? `](${local})` : link;
+        }
+        const local = resolve(autolink);
+        return local ? `[${autolink}](${local})` : link;
+      });
+
+    return { content: updated, rewritten, unresolved: Array.from(unresolved) };
+  }
+
+  /**
+   * Pick the linked document's file, preferring the same format as the linking file
+   */
+  private selectTargetFile(target: DocumentLinkTarget, sourcePath: string): string {
+    const extension = path.extname(sourcePath).toLowerCase();
+    const files = Object.values(target.files);
+
+    return files.find(file => path.extname(file).toLowerCase() === extension)
+      || target.files.native
+      || files[0];
+  }
+
+  private getFileKind(filePath: string): 'html' | 'markdown' | undefined {
+    const extension = path.extname(filePath).toLowerCase();
+    if (extension === '.html' || extension === '.htm') {
+      return 'html';
+    }
+    if (extension === '.md') {
+      return 'markdown';
+    }
+    return undefined;
+  }
+}
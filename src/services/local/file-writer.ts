@@ -8,15 +8,26 @@ import {
 } from './types';
 import { DirectoryManager } from './directory-manager';
 import { PathUtils } from './path-utils';
+import { StorageBackend } from '../storage/types';
+import { LocalStorageBackend } from '../storage/local-storage-backend';
+import type { ExportFormat } from '../../core/export-types';
 
 export interface FileWriteOptions {
   fileName: string;
-  content: Buffer | string;
+  content?: Buffer | string; // Required unless a source file is given
+  sourceFile?: FileWriteSource;
   documentType?: string;
-  exportFormat?: 'docx' | 'html' | 'xlsx' | 'markdown';
+  exportFormat?: ExportFormat;
   overwrite?: boolean;
 }
 
+// A finished file on the local disk, e.g. a streamed download, that is moved into place instead of written
+export interface FileWriteSource {
+  path: string;
+  size: number;
+  sha256?: string;
+}
+
 export interface FormatFileWriteOptions extends FileWriteOptions {
   format: string;
   quipFolderPath?: string;
@@ -36,11 +47,18 @@ export class FileWriter {
   private readonly directoryManager: DirectoryManager;
   private readonly config: LocalDirectoryConfig;
   private readonly logger: Logger;
-
-  constructor(directoryManager: DirectoryManager, config: LocalDirectoryConfig, logger: Logger) {
+  private readonly storage: StorageBackend;
+
+  constructor(
+    directoryManager: DirectoryManager,
+    config: LocalDirectoryConfig,
+    logger: Logger,
+    storage: StorageBackend = new LocalStorageBackend()
+  ) {
     this.directoryManager = directoryManager;
     this.config = config;
     this.logger = logger;
+    this.storage = storage;
   }
 
   /**
@@ -53,7 +71,7 @@ export class FileWriter {
   ): Promise<FileWriteResult> {
     try {
       // Validate content is provided
-      if (options.content === undefined || options.content === null) {
+      if (!options.sourceFile && (options.content === undefined || options.content === null)) {
         return {
           success: false,
           error: `Content is required but was ${options.content}`,
@@ -92,7 +110,7 @@ export class FileWriter {
 
       // Ensure directory exists with better error handling
       try {
-        await fs.mkdir(targetDirectory, { recursive: true });
+        await this.storage.ensureDirectory(targetDirectory);
       } catch (error: any) {
         if (error.code === 'EACCES') {
           throw new Error(`Permission denied: Cannot create directory ${targetDirectory}. Check folder permissions.`);
@@ -119,15 +137,14 @@ export class FileWriter {
         this.logger.info(`File conflict resolved using ${conflictResolution.strategy} strategy: "${fileName}" -> "${finalName}"`);
       }
 
-      // Write the file
-      const writeResult = await this.writeFileWithProgress(
-        finalPath,
-        options.content,
-        onProgress ? (progress) => onProgress({
-          fileName: finalName,
-          ...progress
-        }) : undefined
-      );
+      // Write the file, or move a finished source file into place
+      const progressCallback = onProgress ? (progress: { bytesWritten: number; totalBytes: number; percentage: number }) => onProgress({
+        fileName: finalName,
+        ...progress
+      }) : undefined;
+      const writeResult = options.sourceFile
+        ? await this.moveFileWithProgress(finalPath, options.sourceFile, progressCallback)
+        : await this.writeFileWithProgress(finalPath, options.content as Buffer | string, progressCallback);
 
       if (!writeResult.success) {
         return {
@@ -139,11 +156,13 @@ export class FileWriter {
       }
 
       // Verify file integrity
-      const verificationResult = await this.verifyFileIntegrity(finalPath, options.content);
+      const verificationResult = options.sourceFile
+        ? await this.verifyFileSize(finalPath, options.sourceFile.size)
+        : await this.verifyFileIntegrity(finalPath, options.content as Buffer | string);
       if (!verificationResult.success) {
         // Clean up the corrupted file
         try {
-          await fs.unlink(finalPath);
+          await this.storage.delete(finalPath);
         } catch (cleanupError) {
           this.logger.warn(`Failed to clean up corrupted file: ${finalPath}`);
         }
@@ -163,7 +182,8 @@ export class FileWriter {
         filePath: finalPath,
         originalName: options.fileName,
         finalName,
-        size: writeResult.size
+        size: writeResult.size,
+        sha256: options.sourceFile?.sha256
       };
 
     } catch (error) {
@@ -175,6 +195,11 @@ export class FileWriter {
         error: errorMessage,
         originalName: options.fileName
       };
+    } finally {
+      // A source file that was not moved into place is not needed anymore
+      if (options.sourceFile) {
+        await fs.rm(options.sourceFile.path, { force: true }).catch(() => undefined);
+      }
     }
   }
 
@@ -222,41 +247,9 @@ export class FileWriter {
       const buffer = Buffer.isBuffer(content) ? content : Buffer.from(content, 'utf8');
       const totalBytes = buffer.length;
 
-      // For small files, write directly
-      if (totalBytes < 1024 * 1024) { // Less than 1MB
-        await fs.writeFile(filePath, buffer);
-        
-        if (onProgress) {
-          onProgress({ bytesWritten: totalBytes, totalBytes, percentage: 100 });
-        }
-        
-        return { success: true, size: totalBytes };
-      }
-
-      // For larger files, write in chunks with progress
-      const fileHandle = await fs.open(filePath, 'w');
-      let bytesWritten = 0;
-      const chunkSize = 64 * 1024; // 64KB chunks
-
-      try {
-        for (let offset = 0; offset < totalBytes; offset += chunkSize) {
-          const end = Math.min(offset + chunkSize, totalBytes);
-          const chunk = buffer.subarray(offset, end);
-          
-          await fileHandle.write(chunk, 0, chunk.length, offset);
-          bytesWritten += chunk.length;
-
-          if (onProgress) {
-            const percentage = Math.round((bytesWritten / totalBytes) * 100);
-            onProgress({ bytesWritten, totalBytes, percentage });
-          }
-        }
-
-        return { success: true, size: bytesWritten };
-      } finally {
-        await fileHandle.close();
-      }
+      await this.storage.write(filePath, buffer, onProgress);
 
+      return { success: true, size: totalBytes };
     } catch (error: any) {
       let errorMessage = 'File write error: ';
       
@@ -279,6 +272,44 @@ export class FileWriter {
     }
   }
 
+  /**
+   * Move a finished local file into place without reading it into memory
+   */
+  private async moveFileWithProgress(
+    filePath: string,
+    source: FileWriteSource,
+    onProgress?: (progress: { bytesWritten: number; totalBytes: number; percentage: number }) => void
+  ): Promise<{ success: boolean; size?: number; error?: string }> {
+    try {
+      await this.storage.moveFile(source.path, filePath, onProgress);
+      return { success: true, size: source.size };
+    } catch (error) {
+      return { success: false, error: `File write error: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  }
+
+  /**
+   * Verify the size of a file that was moved into place
+   */
+  private async verifyFileSize(filePath: string, expectedSize: number): Promise<{ success: boolean; error?: string }> {
+    const stats = await this.storage.stat(filePath);
+    if (!stats) {
+      return {
+        success: false,
+        error: `File not found after writing: ${this.storage.describe(filePath)}`
+      };
+    }
+
+    if (stats.size !== expectedSize) {
+      return {
+        success: false,
+        error: `File size mismatch: expected ${expectedSize} bytes, got ${stats.size} bytes`
+      };
+    }
+
+    return { success: true };
+  }
+
   /**
    * Verify file integrity after writing
    */
@@ -287,7 +318,14 @@ export class FileWriter {
     originalContent: Buffer | string
   ): Promise<{ success: boolean; error?: string }> {
     try {
-      const stats = await fs.stat(filePath);
+      const stats = await this.storage.stat(filePath);
+      if (!stats) {
+        return {
+          success: false,
+          error: `File not found after writing: ${this.storage.describe(filePath)}`
+        };
+      }
+
       const expectedSize = Buffer.isBuffer(originalContent) 
         ? originalContent.length 
         : Buffer.from(originalContent, 'utf8').length;
@@ -301,7 +339,7 @@ export class FileWriter {
 
       // For small files, verify content
       if (stats.size < 1024 * 1024) { // Less than 1MB
-        const writtenContent = await fs.readFile(filePath);
+        const writtenContent = await this.storage.read(filePath);
         const expectedBuffer = Buffer.isBuffer(originalContent) 
           ? originalContent 
           : Buffer.from(originalContent, 'utf8');
@@ -474,19 +512,18 @@ export class FileWriter {
     error?: string;
   }> {
     try {
-      const stats = await fs.stat(filePath);
+      const stats = await this.storage.stat(filePath);
+      if (!stats) {
+        return { exists: false };
+      }
       
       return {
         exists: true,
         size: stats.size,
-        created: stats.birthtime,
-        modified: stats.mtime
+        created: stats.created,
+        modified: stats.modified
       };
     } catch (error) {
-      if ((error as any).code === 'ENOENT') {
-        return { exists: false };
-      }
-      
       return {
         exists: false,
         error: error instanceof Error ? error.message : String(error)
@@ -499,8 +536,8 @@ export class FileWriter {
    */
   async cleanupFile(filePath: string): Promise<boolean> {
     try {
-      await fs.unlink(filePath);
-      this.logger.debug(`Cleaned up file: ${filePath}`);
+      await this.storage.delete(filePath);
+      this.logger.debug(`Cleaned up file: ${this.storage.describe(filePath)}`);
       return true;
     } catch (error) {
       this.logger.warn(`Failed to cleanup file ${filePath}: ${error instanceof Error ? error.message : String(error)}`);
@@ -516,6 +553,11 @@ export class FileWriter {
     total: number;
     used: number;
   } | null> {
+    if (this.storage.type !== 'local') {
+      // Object storage has no meaningful free-space figure
+      return null;
+    }
+
     try {
       // This is a simplified implementation - in a real scenario you might use a library like 'statvfs'
       await fs.stat(directoryPath);
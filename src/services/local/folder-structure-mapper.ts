@@ -5,6 +5,7 @@ import { Logger } from '../../types';
 import { DirectoryManager } from './directory-manager';
 import { LocalDirectoryConfig, DirectoryStructure } from './types';
 import { PathUtils } from './path-utils';
+import { parseQuipDocumentLink } from './document-link-rewriter';
 
 export interface QuipFolderInfo {
   id: string;
@@ -31,6 +32,12 @@ export interface DocumentPathMapping {
   fileName: string;
 }
 
+export interface DocumentLinkTarget {
+  documentId: string;
+  documentTitle: string;
+  files: { [format: string]: string }; // Exported file path per format
+}
+
 /**
  * Maps Quip folder structures to local directory organization
  */
@@ -39,6 +46,7 @@ export class FolderStructureMapper {
   private readonly config: LocalDirectoryConfig;
   private readonly logger: Logger;
   private readonly folderMappings = new Map<string, string>(); // Quip path -> Local path
+  private readonly documentLinks = new Map<string, DocumentLinkTarget>(); // Secret path or ID -> Exported files
 
   constructor(directoryManager: DirectoryManager, config: LocalDirectoryConfig, logger: Logger) {
     this.directoryManager = directoryManager;
@@ -54,6 +62,7 @@ export class FolderStructureMapper {
     
     // Clear any existing mappings
     this.folderMappings.clear();
+    this.documentLinks.clear();
     
     // Initialize base directory
     const baseResult = await this.directoryManager.initializeBaseDirectory();
@@ -203,6 +212,34 @@ export class FolderStructureMapper {
     return fileName;
   }
 
+  /**
+   * Register the exported files of a document so links to it can be resolved
+   */
+  registerDocumentFiles(
+    document: { id: string; title: string; link?: string; secret_path?: string },
+    files: { [format: string]: string }
+  ): void {
+    const target: DocumentLinkTarget = {
+      documentId: document.id,
+      documentTitle: document.title,
+      files
+    };
+
+    const linkKey = document.link ? parseQuipDocumentLink(document.link)?.key : undefined;
+    for (const key of [document.id, document.secret_path, linkKey]) {
+      if (key) {
+        this.documentLinks.set(key, target);
+      }
+    }
+  }
+
+  /**
+   * Find the exported files of a document by its secret path or thread ID
+   */
+  resolveDocumentLink(key: string): DocumentLinkTarget | undefined {
+    return this.documentLinks.get(key);
+  }
+
   /**
    * Get all folder mappings
    */
@@ -215,6 +252,7 @@ export class FolderStructureMapper {
    */
   clearMappings(): void {
     this.folderMappings.clear();
+    this.documentLinks.clear();
     this.logger.debug('Cleared all folder mappings');
   }
 
@@ -0,0 +1,158 @@
+// Git repository in the export output directory, driven through the local git binary
+
+import { execFile } from 'child_process';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Logger } from '../../types';
+
+export interface GitAuthor {
+  name: string;
+  email: string;
+}
+
+export interface GitFileChange {
+  path: string; // Relative to the repository root, with forward slashes
+  status: 'added' | 'modified' | 'deleted';
+}
+
+// Identity used when git has no user configured, e.g. on CI machines
+const FALLBACK_IDENTITY: GitAuthor = { name: 'Quip Export', email: 'quip-export@localhost' };
+
+// Paths are passed on the command line, so large changes are staged in chunks
+const STAGE_CHUNK_SIZE = 200;
+// The mirror mode trash and the export reports are not part of the exported content
+const UNTRACKED_DIRECTORIES = ['.trash/', '_reports/'];
+
+/**
+ * Commits exported Markdown and HTML files to a git repository in the output
+ * directory. Other exported files (DOCX, XLSX, assets) are left untracked.
+ */
+export class GitRepository {
+  private readonly repositoryPath: string;
+  private readonly logger: Logger;
+  private readonly trackedExtensions: string[];
+
+  constructor(repositoryPath: string, logger: Logger, trackedExtensions: string[] = ['.md', '.html']) {
+    this.repositoryPath = path.resolve(repositoryPath);
+    this.logger = logger;
+    this.trackedExtensions = trackedExtensions;
+  }
+
+  /**
+   * Check whether a git binary can be run
+   */
+  async isAvailable(): Promise<boolean> {
+    try {
+      await this.run(['--version']);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Create the repository unless the directory already is one; returns whether it was created
+   */
+  async initialize(): Promise<boolean> {
+    try {
+      await fs.stat(path.join(this.repositoryPath, '.git'));
+      return false;
+    } catch {
+      // Not a repository yet
+    }
+
+    await this.run(['init', '--quiet']);
+    this.logger.info(`Initialized git repository: ${this.repositoryPath}`);
+    return true;
+  }
+
+  /**
+   * Stage every added, modified or deleted file with a tracked extension and
+   * return the staged changes
+   */
+  async stageExportedFiles(): Promise<GitFileChange[]> {
+    const status = await this.run(['status', '--porcelain', '-z', '--untracked-files=all', '--no-renames']);
+    const paths = status
+      .split('\0')
+      .filter(entry => entry.length > 3)
+      .map(entry => entry.substring(3))
+      .filter(filePath => this.isTracked(filePath));
+
+    for (let i = 0; i < paths.length; i += STAGE_CHUNK_SIZE) {
+      await this.run(['add', '--all', '--', ...paths.slice(i, i + STAGE_CHUNK_SIZE)]);
+    }
+
+    return this.getStagedChanges();
+  }
+
+  /**
+   * List the changes staged for the next commit
+   */
+  async getStagedChanges(): Promise<GitFileChange[]> {
+    const output = await this.run(['diff', '--cached', '--name-status', '--no-renames', '-z']);
+    const fields = output.split('\0').filter(field => field.length > 0);
+    const changes: GitFileChange[] = [];
+
+    for (let i = 0; i + 1 < fields.length; i += 2) {
+      const status = fields[i] === 'A' ? 'added' : fields[i] === 'D' ? 'deleted' : 'modified';
+      changes.push({ path: fields[i + 1], status });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Commit the staged changes; returns the commit hash, or null when nothing was staged
+   */
+  async commit(message: string, author?: GitAuthor): Promise<string | null> {
+    if ((await this.getStagedChanges()).length === 0) {
+      return null;
+    }
+
+    const identity = (await this.hasConfiguredIdentity())
+      ? []
+      : ['-c', `user.name=${FALLBACK_IDENTITY.name}`, '-c', `user.email=${FALLBACK_IDENTITY.email}`];
+    const authorArgs = author ? [`--author=${author.name} <${author.email}>`] : [];
+
+    await this.run([...identity, 'commit', '--quiet', '--file=-', ...authorArgs], message);
+    return (await this.run(['rev-parse', 'HEAD'])).trim();
+  }
+
+  private isTracked(filePath: string): boolean {
+    const extension = path.extname(filePath).toLowerCase();
+    return (
+      this.trackedExtensions.includes(extension) &&
+      !UNTRACKED_DIRECTORIES.some(directory => filePath.startsWith(directory))
+    );
+  }
+
+  private async hasConfiguredIdentity(): Promise<boolean> {
+    try {
+      return (await this.run(['config', 'user.email'])).trim().length > 0;
+    } catch {
+      // git config exits with status 1 when the key is not set
+      return false;
+    }
+  }
+
+  private run(args: string[], input?: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const child = execFile(
+        'git',
+        args,
+        { cwd: this.repositoryPath, maxBuffer: 64 * 1024 * 1024 },
+        (error, stdout, stderr) => {
+          if (error) {
+            const detail = String(stderr).trim() || error.message;
+            reject(new Error(`git ${args.join(' ')} failed: ${detail}`));
+            return;
+          }
+          resolve(String(stdout));
+        }
+      );
+
+      // Close stdin so that no command waits for input
+      child.stdin?.end(input);
+    });
+  }
+}
@@ -4,4 +4,6 @@ export * from './types';
 export * from './path-utils';
 export * from './directory-manager';
 export * from './file-writer';
-export * from './folder-structure-mapper';
\ No newline at end of file
+export * from './folder-structure-mapper';
+export * from './document-link-rewriter';
+export * from './git-repository';
\ No newline at end of file
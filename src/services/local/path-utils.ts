@@ -291,12 +291,17 @@ export class PathUtils {
       case 'xlsx':
         return '.xlsx';
       case 'html':
+      case 'html-standalone':
         return '.html';
       case 'pdf':
         return '.pdf';
       case 'markdown':
       case 'md':
         return '.md';
+      case 'csv':
+        return '.csv';
+      case 'json':
+        return '.json';
       default:
         return '.txt';
     }
@@ -378,7 +383,7 @@ export class PathUtils {
       // Check if current extension matches the expected format extension
       if (currentExt.toLowerCase() !== expectedExt.toLowerCase()) {
         // Check if the current extension is a known format extension
-        const knownExtensions = ['.docx', '.xlsx', '.html', '.pdf', '.md'];
+        const knownExtensions = ['.docx', '.xlsx', '.html', '.pdf', '.md', '.csv', '.json'];
         const isKnownExtension = knownExtensions.includes(currentExt.toLowerCase());
         
         if (isKnownExtension) {
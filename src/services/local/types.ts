@@ -6,6 +6,7 @@ export interface LocalDirectoryConfig {
   sanitizeFileNames: boolean;
   conflictResolution: 'number' | 'timestamp' | 'overwrite';
   useFormatDirectories?: boolean; // New option for format-based organization
+  gitRepository?: boolean; // Initialize a git repository in the base directory
 }
 
 export interface DirectoryStructure {
@@ -23,6 +24,7 @@ export interface FileWriteResult {
   originalName?: string;
   finalName?: string;
   size?: number;
+  sha256?: string; // Set when the content was hashed while it was downloaded
   error?: string;
 }
 
@@ -1,43 +1,85 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { createWriteStream } from 'fs';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
 import { AuthManager } from '../../auth/auth-manager';
 import { QuipDocument, ApiResponse, Logger } from '../../types';
-import { QuipListResponse } from './types';
+import {
+  DownloadedFile,
+  QuipBlob,
+  QuipListResponse,
+  QuipMessage,
+  QuipThreadResponse,
+  QuipUser,
+  StreamDownloadOptions,
+  StreamedDownload
+} from './types';
 import { QuipAuthConfig } from '../../auth/types';
+import { parseRateLimitHeaders, RateLimitLedger, ThrottleStatus } from './rate-limit-ledger';
+import { CASSETTE_REDACTED_TOKEN, HttpCassette } from './http-cassette';
 
 /**
  * Rate limiter for Quip API calls
- * Quip limits: 50 requests per minute per user, 750 requests per hour per user
+ * Draws from the request budget in the shared rate limit ledger, so the
+ * 50/minute and 750/hour limits hold across clients, processes and runs,
+ * and paces requests by the budget Quip reports in its response headers.
+ * Disabled while replaying a cassette, as no requests reach Quip then.
  */
 class RateLimiter {
-  private requests: number[] = [];
-  private readonly maxRequestsPerMinute = 50;
-  private readonly maxRequestsPerHour = 750;
+  private readonly ledger: RateLimitLedger;
+  private readonly enabled: boolean;
+  private readonly throttleListeners: Array<(status: ThrottleStatus) => void> = [];
+  private throttled = false;
+
+  constructor(ledger: RateLimitLedger, enabled = true) {
+    this.ledger = ledger;
+    this.enabled = enabled;
+  }
+
+  onThrottle(listener: (status: ThrottleStatus) => void): void {
+    this.throttleListeners.push(listener);
+  }
 
   async waitIfNeeded(): Promise<void> {
-    const now = Date.now();
-    
-    // Clean old requests (older than 1 hour)
-    this.requests = this.requests.filter(time => now - time < 60 * 60 * 1000);
-    
-    // Check hourly limit
-    if (this.requests.length >= this.maxRequestsPerHour) {
-      const oldestRequest = Math.min(...this.requests);
-      const waitTime = (oldestRequest + 60 * 60 * 1000) - now;
-      if (waitTime > 0) {
-        await this.sleep(waitTime);
-      }
+    if (!this.enabled) {
+      return;
     }
-    
-    // Check per-minute limit
-    const recentRequests = this.requests.filter(time => now - time < 60 * 1000);
-    if (recentRequests.length >= this.maxRequestsPerMinute) {
-      const oldestRecentRequest = Math.min(...recentRequests);
-      const waitTime = (oldestRecentRequest + 60 * 1000) - now;
-      if (waitTime > 0) {
-        await this.sleep(waitTime);
-      }
+
+    let waitTime = await this.ledger.reserve();
+    while (waitTime > 0) {
+      this.throttled = true;
+      this.notify({
+        requestsPerMinute: this.ledger.getRequestsPerMinute(),
+        nextSlotAt: new Date(Date.now() + waitTime)
+      });
+      await this.sleep(waitTime);
+      waitTime = await this.ledger.reserve();
+    }
+
+    if (this.throttled) {
+      this.throttled = false;
+      this.notify({ requestsPerMinute: this.ledger.getRequestsPerMinute() });
     }
-    
-    this.requests.push(now);
+  }
+
+  async recordResponse(headers?: Headers): Promise<void> {
+    const quota = parseRateLimitHeaders(headers);
+    if (quota && this.enabled) {
+      await this.ledger.recordQuota(quota);
+    }
+  }
+
+  async recordRateLimited(retryAfterMs: number): Promise<void> {
+    if (this.enabled) {
+      await this.ledger.recordRateLimited(retryAfterMs);
+    }
+  }
+
+  private notify(status: ThrottleStatus): void {
+    this.throttleListeners.forEach(listener => listener(status));
   }
 
   private sleep(ms: number): Promise<void> {
@@ -45,6 +87,104 @@ class RateLimiter {
   }
 }
 
+/**
+ * Tell a single folder response from a response keyed by folder ID
+ */
+function isSingleFolder(data: Record<string, QuipListResponse> | QuipListResponse): data is QuipListResponse {
+  const folder = data.folder as { id?: unknown } | undefined;
+  return typeof folder?.id === 'string';
+}
+
+/**
+ * Tell a single thread response from a response keyed by thread ID
+ */
+function isSingleThread(data: Record<string, QuipThreadResponse> | QuipThreadResponse): data is QuipThreadResponse {
+  const thread = data.thread as { id?: unknown } | undefined;
+  return typeof thread?.id === 'string';
+}
+
+/**
+ * Tell a single user response from a response keyed by user ID
+ */
+function isSingleUser(data: Record<string, QuipUser> | QuipUser): data is QuipUser {
+  return typeof data.id === 'string';
+}
+
+// Downloads up to this size are read into memory, larger ones are streamed to a temp file
+const STREAM_THRESHOLD_BYTES = 1024 * 1024; // 1MB
+
+/**
+ * Read a whole response body into memory
+ */
+async function readResponseBuffer(response: Response): Promise<Buffer> {
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Read a small response into memory, or stream a large one (or one of unknown
+ * size) to a temp file, hashing and counting the bytes as they arrive
+ */
+async function readResponseStreamed(response: Response, options: StreamDownloadOptions): Promise<StreamedDownload> {
+  const totalBytes = Number(response.headers.get('Content-Length')) || undefined;
+  const threshold = options.streamThreshold ?? STREAM_THRESHOLD_BYTES;
+
+  if (!response.body || (totalBytes !== undefined && totalBytes <= threshold)) {
+    const data = await readResponseBuffer(response);
+    options.onProgress?.({ bytesDownloaded: data.length, totalBytes: data.length });
+    return { data };
+  }
+
+  const directory = options.tempDirectory || os.tmpdir();
+  await fs.mkdir(directory, { recursive: true });
+  const tempPath = path.join(directory, `quip-download-${process.pid}-${crypto.randomBytes(6).toString('hex')}.tmp`);
+
+  const hash = crypto.createHash('sha256');
+  let size = 0;
+  const meter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      size += chunk.length;
+      options.onProgress?.({ bytesDownloaded: size, totalBytes });
+      callback(null, chunk);
+    }
+  });
+
+  try {
+    await pipeline(
+      Readable.fromWeb(response.body as Parameters<typeof Readable.fromWeb>[0]),
+      meter,
+      createWriteStream(tempPath, { flags: 'wx' })
+    );
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+
+  const file: DownloadedFile = { path: tempPath, size, sha256: hash.digest('hex') };
+  return { file };
+}
+
+/**
+ * Extract the file name from a Content-Disposition header
+ */
+function parseContentDispositionFileName(header: string | null): string | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const encoded = header.match(/filename\*=(?:UTF-8'')?([^;]+)/i);
+  if (encoded) {
+    try {
+      return decodeURIComponent(encoded[1].trim().replace(/^"|"$/g, ''));
+    } catch {
+      // Fall through to the plain filename parameter
+    }
+  }
+
+  const plain = header.match(/filename="?([^";]+)"?/i);
+  return plain ? plain[1].trim() : undefined;
+}
+
 /**
  * HTTP client for Quip API with authentication, rate limiting, and retry logic
  * Supports personal access token authentication with configurable domains
@@ -53,15 +193,25 @@ export class QuipApiClient {
   private readonly baseUrl: string;
   private readonly authManager: AuthManager;
   private readonly authConfig?: QuipAuthConfig;
-  private readonly rateLimiter = new RateLimiter();
+  private readonly rateLimiter: RateLimiter;
   private readonly logger: Logger;
+  private readonly cassette?: HttpCassette;
   private readonly maxRetries = 3;
   private readonly retryDelay = 1000; // Base delay in ms
 
-  constructor(authManager: AuthManager, logger: Logger, authConfig?: QuipAuthConfig, baseUrl?: string) {
+  constructor(
+    authManager: AuthManager,
+    logger: Logger,
+    authConfig?: QuipAuthConfig,
+    baseUrl?: string,
+    rateLimitLedger: RateLimitLedger = new RateLimitLedger(undefined, logger),
+    cassette?: HttpCassette
+  ) {
     this.authManager = authManager;
     this.logger = logger;
     this.authConfig = authConfig;
+    this.cassette = cassette;
+    this.rateLimiter = new RateLimiter(rateLimitLedger, cassette?.mode !== 'replay');
     
     // Determine base URL from auth config or fallback to parameter or default
     if (authConfig?.baseUrl) {
@@ -75,6 +225,13 @@ export class QuipApiClient {
     this.logger.debug(`QuipApiClient initialized with base URL: ${this.baseUrl}`);
   }
 
+  /**
+   * Get notified when requests wait for the rate limit, and when they stop waiting
+   */
+  onThrottle(listener: (status: ThrottleStatus) => void): void {
+    this.rateLimiter.onThrottle(listener);
+  }
+
   /**
    * Make authenticated HTTP request to Quip API with retry logic
    * Supports personal access token authentication
@@ -108,10 +265,11 @@ export class QuipApiClient {
       try {
         this.logger.debug(`Making request to ${url} (attempt ${attempt + 1})`);
 
-        const response = await fetch(url, {
+        const response = await this.send(url, {
           ...options,
           headers
         });
+        await this.rateLimiter.recordResponse(response.headers);
 
         // Handle rate limiting
         if (response.status === 429) {
@@ -119,6 +277,7 @@ export class QuipApiClient {
           const delay = retryAfter ? parseInt(retryAfter) * 1000 : this.getRetryDelay(attempt);
           
           this.logger.warn(`Rate limited, waiting ${delay}ms before retry`);
+          await this.rateLimiter.recordRateLimited(delay);
           await this.sleep(delay);
           continue;
         }
@@ -193,10 +352,22 @@ export class QuipApiClient {
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
+  /**
+   * Send a request to Quip, or through the cassette when recording or replaying one
+   */
+  private send(url: string, init: RequestInit): Promise<Response> {
+    return this.cassette ? this.cassette.fetch(url, init) : fetch(url, init);
+  }
+
   /**
    * Get authentication token for personal access token authentication
    */
   private async getAuthToken(): Promise<string | null> {
+    // Replayed responses need no token, so a cassette can be replayed without one
+    if (this.cassette?.mode === 'replay') {
+      return CASSETTE_REDACTED_TOKEN;
+    }
+
     // If we have auth config with personal access token, use it directly
     if (this.authConfig?.personalAccessToken) {
       return this.authConfig.personalAccessToken;
@@ -222,7 +393,7 @@ export class QuipApiClient {
 
       // Make direct request to avoid infinite recursion with makeRequest
       const url = `${this.baseUrl}/1/users/current`;
-      const response = await fetch(url, {
+      const response = await this.send(url, {
         headers: {
           'Authorization': `Bearer ${token}`,
           'Content-Type': 'application/json',
@@ -263,6 +434,29 @@ export class QuipApiClient {
     return this.makeRequest('/1/users/current');
   }
 
+  /**
+   * Get users by ID, keyed by user ID. Quip returns a bare user object when a
+   * single ID is requested and an object keyed by ID otherwise.
+   */
+  async getUsers(userIds: string[]): Promise<ApiResponse<Record<string, QuipUser>>> {
+    const params = new URLSearchParams({ ids: userIds.join(',') });
+    const response = await this.makeRequest<Record<string, QuipUser> | QuipUser>(`/1/users/?${params}`);
+    if (!response.success || !response.data) {
+      return {
+        success: false,
+        error: response.error || 'Failed to get users',
+        statusCode: response.statusCode
+      };
+    }
+
+    const data = response.data;
+    return {
+      success: true,
+      data: isSingleUser(data) ? { [data.id]: data } : data,
+      statusCode: response.statusCode
+    };
+  }
+
   /**
    * Get folder contents and metadata
    */
@@ -271,105 +465,91 @@ export class QuipApiClient {
   }
 
   /**
-   * Get document metadata using V2 API
+   * Get the contents and metadata of several folders in one request, keyed by
+   * folder ID. Each entry has the same shape as a getFolderContents response.
    */
-  async getDocumentMetadata(threadIdOrSecretPath: string): Promise<ApiResponse<QuipDocument>> {
-    return this.makeRequest(`/2/threads/${threadIdOrSecretPath}`);
+  async getFolders(folderIds: string[]): Promise<ApiResponse<Record<string, QuipListResponse>>> {
+    const params = new URLSearchParams({ ids: folderIds.join(',') });
+    const response = await this.makeRequest<Record<string, QuipListResponse> | QuipListResponse>(`/1/folders/?${params}`);
+    if (!response.success || !response.data) {
+      return {
+        success: false,
+        error: response.error || 'Failed to get folders',
+        statusCode: response.statusCode
+      };
+    }
+
+    // A single folder may come back without the ID key
+    const data = response.data;
+    return {
+      success: true,
+      data: isSingleFolder(data) ? { [data.folder.id]: data } : data,
+      statusCode: response.statusCode
+    };
   }
 
   /**
-   * Export document as DOCX (primary format)
+   * Get several threads in one request, keyed by thread ID. Each entry holds the
+   * thread metadata under 'thread', like a getDocumentMetadata response.
    */
-  async exportDocumentDocx(threadId: string): Promise<ApiResponse<Buffer>> {
-    await this.rateLimiter.waitIfNeeded();
-
-    const token = await this.getAuthToken();
-    if (!token) {
+  async getThreads(threadIds: string[]): Promise<ApiResponse<Record<string, QuipThreadResponse>>> {
+    const params = new URLSearchParams({ ids: threadIds.join(',') });
+    const response = await this.makeRequest<Record<string, QuipThreadResponse> | QuipThreadResponse>(`/1/threads/?${params}`);
+    if (!response.success || !response.data) {
       return {
         success: false,
-        error: 'No valid authentication token available',
-        statusCode: 401
+        error: response.error || 'Failed to get threads',
+        statusCode: response.statusCode
       };
     }
 
-    const url = `${this.baseUrl}/1/threads/${threadId}/export/docx`;
-    const headers = {
-      'Authorization': `Bearer ${token}`,
-      'Accept': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      'User-Agent': 'QuipToOneDriveMigrationTool/1.0'
+    // A single thread may come back without the ID key
+    const data = response.data;
+    return {
+      success: true,
+      data: isSingleThread(data) ? { [data.thread.id]: data } : data,
+      statusCode: response.statusCode
     };
+  }
 
-    let lastError: Error | null = null;
-
-    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
-      try {
-        this.logger.debug(`Exporting DOCX from ${url} (attempt ${attempt + 1})`);
-
-        const response = await fetch(url, { headers });
-
-        // Handle rate limiting
-        if (response.status === 429) {
-          const retryAfter = response.headers.get('Retry-After');
-          const delay = retryAfter ? parseInt(retryAfter) * 1000 : this.getRetryDelay(attempt);
-          
-          this.logger.warn(`Rate limited, waiting ${delay}ms before retry`);
-          await this.sleep(delay);
-          continue;
-        }
-
-        // Handle authentication errors
-        if (response.status === 401) {
-          this.logger.warn('Authentication failed during DOCX export');
-          
-          return {
-            success: false,
-            error: 'Personal access token is invalid or expired. Please generate a new token.',
-            statusCode: 401
-          };
-        }
+  /**
+   * Get document metadata using V2 API
+   */
+  async getDocumentMetadata(threadIdOrSecretPath: string): Promise<ApiResponse<QuipDocument>> {
+    return this.makeRequest(`/2/threads/${threadIdOrSecretPath}`);
+  }
 
-        // Handle other HTTP errors
-        if (!response.ok) {
-          const errorText = await response.text();
-          const error = `HTTP ${response.status}: ${errorText}`;
-          
-          if (response.status >= 400 && response.status < 500) {
-            return {
-              success: false,
-              error,
-              statusCode: response.status
-            };
-          }
-          
-          lastError = new Error(error);
-          await this.sleep(this.getRetryDelay(attempt));
-          continue;
-        }
+  /**
+   * Export document as DOCX (primary format)
+   */
+  async exportDocumentDocx(threadId: string): Promise<ApiResponse<Buffer>> {
+    const response = await this.fetchBinary(
+      `/1/threads/${threadId}/export/docx`,
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'DOCX export',
+      readResponseBuffer
+    );
 
-        // Success - get binary data
-        const buffer = Buffer.from(await response.arrayBuffer());
-        this.logger.debug(`DOCX export successful: ${url}, size: ${buffer.length} bytes`);
-        
-        return {
-          success: true,
-          data: buffer,
-          statusCode: response.status
-        };
+    return {
+      ...response,
+      data: response.data?.data
+    };
+  }
 
-      } catch (error) {
-        lastError = error instanceof Error ? error : new Error(String(error));
-        this.logger.warn(`DOCX export failed (attempt ${attempt + 1}): ${lastError.message}`);
-        
-        if (attempt < this.maxRetries) {
-          await this.sleep(this.getRetryDelay(attempt));
-        }
-      }
-    }
+  /**
+   * Export document as DOCX, streaming large exports to a temp file instead of memory
+   */
+  async streamDocumentDocx(threadId: string, options: StreamDownloadOptions = {}): Promise<ApiResponse<StreamedDownload>> {
+    const response = await this.fetchBinary(
+      `/1/threads/${threadId}/export/docx`,
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      'DOCX export',
+      body => readResponseStreamed(body, options)
+    );
 
     return {
-      success: false,
-      error: `DOCX export failed after ${this.maxRetries + 1} attempts: ${lastError?.message}`,
-      statusCode: 500
+      ...response,
+      data: response.data?.data
     };
   }
 
@@ -398,21 +578,152 @@ export class QuipApiClient {
    * Export spreadsheet as XLSX
    */
   async exportSpreadsheetXlsx(threadId: string): Promise<ApiResponse<Buffer>> {
+    const response = await this.fetchBinary(
+      `/1/threads/${threadId}/export/xlsx`,
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'XLSX export',
+      readResponseBuffer
+    );
+
+    return {
+      ...response,
+      data: response.data?.data
+    };
+  }
+
+  /**
+   * Export spreadsheet as XLSX, streaming large exports to a temp file instead of memory
+   */
+  async streamSpreadsheetXlsx(threadId: string, options: StreamDownloadOptions = {}): Promise<ApiResponse<StreamedDownload>> {
+    const response = await this.fetchBinary(
+      `/1/threads/${threadId}/export/xlsx`,
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'XLSX export',
+      body => readResponseStreamed(body, options)
+    );
+
+    return {
+      ...response,
+      data: response.data?.data
+    };
+  }
+
+  /**
+   * Get all messages (comments and chat) of a thread, oldest first.
+   * Quip returns messages newest first in pages, so this walks back using max_created_usec.
+   * A time range (in microseconds, inclusive) limits the pages fetched.
+   */
+  async getThreadMessages(
+    threadId: string,
+    pageSize: number = 100,
+    range: { sinceUsec?: number; untilUsec?: number } = {}
+  ): Promise<ApiResponse<QuipMessage[]>> {
+    const messages = new Map<string, QuipMessage>();
+    let maxCreatedUsec: number | undefined = range.untilUsec;
+    let hasMore = true;
+
+    while (hasMore) {
+      const params = new URLSearchParams({ count: pageSize.toString() });
+      if (maxCreatedUsec !== undefined) {
+        params.set('max_created_usec', maxCreatedUsec.toString());
+      }
+
+      const response = await this.makeRequest<QuipMessage[]>(`/1/messages/${threadId}?${params}`);
+      if (!response.success || !response.data) {
+        return {
+          success: false,
+          error: response.error || 'Failed to get thread messages',
+          statusCode: response.statusCode
+        };
+      }
+
+      const page = response.data;
+      let added = 0;
+      for (const message of page) {
+        if (!messages.has(message.id)) {
+          messages.set(message.id, message);
+          added++;
+        }
+      }
+
+      // max_created_usec is inclusive, so a page with nothing new means we are done
+      hasMore = page.length === pageSize && added > 0;
+      maxCreatedUsec = Math.min(...page.map(message => message.created_usec));
+      if (range.sinceUsec !== undefined && maxCreatedUsec < range.sinceUsec) {
+        hasMore = false;
+      }
+    }
+
+    this.logger.debug(`Retrieved ${messages.size} messages for thread ${threadId}`);
+
+    return {
+      success: true,
+      data: Array.from(messages.values())
+        .filter(message =>
+          (range.sinceUsec === undefined || message.created_usec >= range.sinceUsec) &&
+          (range.untilUsec === undefined || message.created_usec <= range.untilUsec)
+        )
+        .sort((a, b) => a.created_usec - b.created_usec),
+      statusCode: 200
+    };
+  }
+
+  /**
+   * Download an image or attachment (blob) embedded in a document
+   */
+  async downloadBlob(threadId: string, blobId: string): Promise<ApiResponse<QuipBlob>> {
+    const response = await this.fetchBinary(
+      `/1/blob/${encodeURIComponent(threadId)}/${encodeURIComponent(blobId)}`,
+      '*/*',
+      'Blob download',
+      readResponseBuffer
+    );
+
+    if (!response.success || !response.data) {
+      return {
+        success: false,
+        error: response.error,
+        statusCode: response.statusCode
+      };
+    }
+
+    const { data, headers } = response.data;
+    return {
+      success: true,
+      data: {
+        data,
+        contentType: headers.get('Content-Type') || undefined,
+        fileName: parseContentDispositionFileName(headers.get('Content-Disposition'))
+      },
+      statusCode: response.statusCode
+    };
+  }
+
+  /**
+   * Download binary content with rate limiting and retry logic; the body is
+   * read inside the retry loop, so a download that breaks off is retried
+   */
+  private async fetchBinary<T>(
+    endpoint: string,
+    accept: string,
+    description: string,
+    readBody: (response: Response) => Promise<T>
+  ): Promise<ApiResponse<{ data: T; headers: Headers }>> {
     await this.rateLimiter.waitIfNeeded();
 
     const token = await this.getAuthToken();
     if (!token) {
       return {
         success: false,
-        error: 'No valid authentication token',
+        error: 'No valid authentication token available',
         statusCode: 401
       };
     }
 
-    const url = `${this.baseUrl}/1/threads/${threadId}/export/xlsx`;
+    const url = `${this.baseUrl}${endpoint}`;
     const headers = {
       'Authorization': `Bearer ${token}`,
-      'Accept': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'Accept': accept,
       'User-Agent': 'QuipToOneDriveMigrationTool/1.0'
     };
 
@@ -420,9 +731,10 @@ export class QuipApiClient {
 
     for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
       try {
-        this.logger.debug(`Exporting XLSX from ${url} (attempt ${attempt + 1})`);
+        this.logger.debug(`${description} from ${url} (attempt ${attempt + 1})`);
 
-        const response = await fetch(url, { headers });
+        const response = await this.send(url, { headers });
+        await this.rateLimiter.recordResponse(response.headers);
 
         // Handle rate limiting
         if (response.status === 429) {
@@ -430,13 +742,14 @@ export class QuipApiClient {
           const delay = retryAfter ? parseInt(retryAfter) * 1000 : this.getRetryDelay(attempt);
           
           this.logger.warn(`Rate limited, waiting ${delay}ms before retry`);
+          await this.rateLimiter.recordRateLimited(delay);
           await this.sleep(delay);
           continue;
         }
 
         // Handle authentication errors
         if (response.status === 401) {
-          this.logger.warn('Authentication failed during XLSX export');
+          this.logger.warn(`Authentication failed during ${description}`);
           
           return {
             success: false,
@@ -464,18 +777,18 @@ export class QuipApiClient {
         }
 
         // Success - get binary data
-        const buffer = Buffer.from(await response.arrayBuffer());
-        this.logger.debug(`XLSX export successful: ${url}, size: ${buffer.length} bytes`);
+        const data = await readBody(response);
+        this.logger.debug(`${description} successful: ${url}`);
         
         return {
           success: true,
-          data: buffer,
+          data: { data, headers: response.headers },
           statusCode: response.status
         };
 
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
-        this.logger.warn(`XLSX export failed (attempt ${attempt + 1}): ${lastError.message}`);
+        this.logger.warn(`${description} failed (attempt ${attempt + 1}): ${lastError.message}`);
         
         if (attempt < this.maxRetries) {
           await this.sleep(this.getRetryDelay(attempt));
@@ -485,7 +798,7 @@ export class QuipApiClient {
 
     return {
       success: false,
-      error: `XLSX export failed after ${this.maxRetries + 1} attempts: ${lastError?.message}`,
+      error: `${description} failed after ${this.maxRetries + 1} attempts: ${lastError?.message}`,
       statusCode: 500
     };
   }
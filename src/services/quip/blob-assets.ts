@@ -0,0 +1,212 @@
+import * as path from 'path';
+import { Logger } from '../../types';
+import { QuipApiClient } from './api-client';
+import { StorageBackend } from '../storage/types';
+import { LocalStorageBackend } from '../storage/local-storage-backend';
+
+export const ASSETS_DIRECTORY_NAME = '_assets';
+
+// Matches /blob/{threadId}/{blobId} links, either relative or on a Quip host
+const BLOB_URL_PATTERN = /^(?:https?:\/\/[a-z0-9.-]*quip[a-z0-9.-]*(?::\d+)?)?\/(?:-\/)?(?:1\/)?blob\/([A-Za-z0-9_-]+)\/([A-Za-z0-9_-]+)(?:[?#][^"'\s]*)?$/i;
+const URL_ATTRIBUTE_PATTERN = /\b(src|href)=(["'])([^"']*)\2/gi;
+
+const CONTENT_TYPE_EXTENSIONS: { [contentType: string]: string } = {
+  'image/png': '.png',
+  'image/jpeg': '.jpg',
+  'image/gif': '.gif',
+  'image/webp': '.webp',
+  'image/svg+xml': '.svg',
+  'image/bmp': '.bmp',
+  'application/pdf': '.pdf',
+  'application/zip': '.zip',
+  'text/plain': '.txt',
+  'text/csv': '.csv'
+};
+
+export interface BlobReference {
+  url: string;
+  threadId: string;
+  blobId: string;
+}
+
+export interface AssetExportOptions {
+  outputDirectory: string; // Assets are stored under <outputDirectory>/_assets/<documentId>/
+  directoryName?: string; // Folder below the output directory to use instead of _assets
+  documentDirectory: string; // Directory the exported document is written to
+  storage?: StorageBackend; // Where assets are written (default: local filesystem)
+}
+
+export interface ExportedAsset {
+  threadId: string;
+  blobId: string;
+  sourceUrl: string;
+  filePath?: string;
+  fileSize?: number;
+  contentType?: string;
+  reused: boolean; // Already downloaded for another document or format in this run
+  error?: string;
+}
+
+interface StoredBlob {
+  filePath?: string;
+  fileSize?: number;
+  contentType?: string;
+  error?: string;
+  transient?: boolean; // Failed for a reason that may pass, such as a rate limit or a write error
+}
+
+/**
+ * Find the blob (image and attachment) references in Quip HTML
+ */
+export function findBlobReferences(html: string): BlobReference[] {
+  const references = new Map<string, BlobReference>();
+
+  for (const match of html.matchAll(URL_ATTRIBUTE_PATTERN)) {
+    const url = match[3];
+    const reference = parseBlobUrl(url);
+    if (reference && !references.has(url)) {
+      references.set(url, reference);
+    }
+  }
+
+  return Array.from(references.values());
+}
+
+/**
+ * Read the thread and blob IDs of a Quip blob link
+ */
+export function parseBlobUrl(url: string): BlobReference | undefined {
+  const blobMatch = url.match(BLOB_URL_PATTERN);
+  return blobMatch ? { url, threadId: blobMatch[1], blobId: blobMatch[2] } : undefined;
+}
+
+/**
+ * Downloads the blobs referenced by exported documents into a local assets
+ * folder and rewrites the references to relative paths. Each blob is only
+ * downloaded once per output directory, even when several documents embed it;
+ * a download that failed is tried again unless the blob no longer exists.
+ */
+export class BlobAssetManager {
+  private readonly apiClient: QuipApiClient;
+  private readonly logger: Logger;
+  private readonly downloads = new Map<string, Promise<StoredBlob>>();
+
+  constructor(apiClient: QuipApiClient, logger: Logger) {
+    this.apiClient = apiClient;
+    this.logger = logger;
+  }
+
+  /**
+   * Download the blobs referenced in a document's HTML and point the
+   * references at the local copies
+   */
+  async localizeHtml(
+    html: string,
+    documentId: string,
+    options: AssetExportOptions
+  ): Promise<{ html: string; assets: ExportedAsset[] }> {
+    const references = findBlobReferences(html);
+    if (references.length === 0) {
+      return { html, assets: [] };
+    }
+
+    this.logger.debug(`Found ${references.length} blob references in document ${documentId}`);
+
+    const assets: ExportedAsset[] = [];
+    const localPaths = new Map<string, string>();
+    const storage = options.storage || new LocalStorageBackend();
+
+    for (const reference of references) {
+      const directory = path.join(options.outputDirectory, options.directoryName || ASSETS_DIRECTORY_NAME);
+      const key = `${storage.describe(path.resolve(directory))}|${reference.threadId}/${reference.blobId}`;
+      let download = this.downloads.get(key);
+      const reused = download !== undefined;
+
+      if (!download) {
+        download = this.download(reference, documentId, directory, storage);
+        this.downloads.set(key, download);
+      }
+
+      const stored = await download;
+      if (stored.transient && this.downloads.get(key) === download) {
+        this.downloads.delete(key);
+      }
+
+      assets.push({
+        threadId: reference.threadId,
+        blobId: reference.blobId,
+        sourceUrl: reference.url,
+        filePath: stored.filePath,
+        fileSize: stored.fileSize,
+        contentType: stored.contentType,
+        reused,
+        error: stored.error
+      });
+
+      if (stored.filePath) {
+        localPaths.set(
+          reference.url,
+          path.relative(options.documentDirectory, stored.filePath).split(path.sep).join('/')
+        );
+      }
+    }
+
+    const localizedHtml = html.replace(URL_ATTRIBUTE_PATTERN, (attribute, name, quote, url) => {
+      const localPath = localPaths.get(url);
+      return localPath ? `${name}=${quote}${localPath}${quote}` : attribute;
+    });
+
+    return { html: localizedHtml, assets };
+  }
+
+  /**
+   * Download a blob and store it in the document's assets folder
+   */
+  private async download(
+    reference: BlobReference,
+    documentId: string,
+    assetsDirectory: string,
+    storage: StorageBackend
+  ): Promise<StoredBlob> {
+    const response = await this.apiClient.downloadBlob(reference.threadId, reference.blobId);
+
+    if (!response.success || !response.data) {
+      const error = response.error || 'Blob download failed';
+      this.logger.warn(`Failed to download blob ${reference.blobId} for document ${documentId}: ${error}`);
+      return { error, transient: response.statusCode !== 404 };
+    }
+
+    const { data, contentType, fileName } = response.data;
+    const directory = path.join(assetsDirectory, sanitizeAssetName(documentId));
+    const filePath = path.join(directory, createAssetFileName(reference.blobId, fileName, contentType));
+
+    try {
+      await storage.ensureDirectory(directory);
+      await storage.write(filePath, data);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn(`Failed to save blob ${reference.blobId} to ${filePath}: ${message}`);
+      return { error: message, transient: true };
+    }
+
+    this.logger.debug(`Downloaded blob ${reference.blobId} to ${filePath} (${data.length} bytes)`);
+    return { filePath, fileSize: data.length, contentType };
+  }
+}
+
+/**
+ * Build a stable, filesystem-safe file name for a blob
+ */
+function createAssetFileName(blobId: string, fileName?: string, contentType?: string): string {
+  if (fileName) {
+    return `${blobId}_${sanitizeAssetName(fileName)}`;
+  }
+
+  const mimeType = contentType?.split(';')[0].trim().toLowerCase();
+  const extension = (mimeType && CONTENT_TYPE_EXTENSIONS[mimeType]) || '.bin';
+  return `${blobId}${extension}`;
+}
+
+function sanitizeAssetName(name: string): string {
+  return name.replace(/[^A-Za-z0-9._-]+/g, '_').replace(/^\.+/, '_').substring(0, 150);
+}
@@ -0,0 +1,272 @@
+import { QuipDocument, Logger } from '../../types';
+import { QuipApiClient } from './api-client';
+import { QuipMessage } from './types';
+import { escapeHtml, usecToIso } from './format-utils';
+
+// Most user IDs the users endpoint accepts per request
+const USER_LOOKUP_BATCH_SIZE = 100;
+
+export interface ChatTranscriptOptions {
+  since?: string; // ISO 8601 date or time; earlier messages are left out
+  until?: string; // Later messages are left out; a date includes that whole day
+}
+
+export interface ChatReaction {
+  emoji: string;
+  users: string[]; // Names of the people who reacted
+}
+
+export interface ChatTranscriptMessage {
+  id: string;
+  senderId: string;
+  senderName: string;
+  sentAt: string; // ISO 8601
+  editedAt?: string;
+  text: string;
+  attachments: { hash: string; name: string; url: string }[];
+  reactions: ChatReaction[];
+}
+
+export interface ChatTranscript {
+  documentId: string;
+  title: string;
+  link?: string;
+  exportedAt: string;
+  since?: string;
+  until?: string;
+  messageCount: number;
+  messages: ChatTranscriptMessage[];
+}
+
+export interface ChatTranscriptResult {
+  success: boolean;
+  documentId: string;
+  transcript?: ChatTranscript;
+  json?: Buffer;
+  error?: string;
+}
+
+/**
+ * Exports the messages of a Quip chat room as a structured transcript, with
+ * sender names, attachments and reactions
+ */
+export class ChatExporter {
+  private readonly apiClient: QuipApiClient;
+  private readonly logger: Logger;
+
+  constructor(apiClient: QuipApiClient, logger: Logger) {
+    this.apiClient = apiClient;
+    this.logger = logger;
+  }
+
+  /**
+   * Fetch the messages of a chat within the optional date range
+   */
+  async exportTranscript(document: QuipDocument, options: ChatTranscriptOptions = {}): Promise<ChatTranscriptResult> {
+    let range: { sinceUsec?: number; untilUsec?: number };
+    try {
+      range = parseTranscriptRange(options);
+    } catch (error) {
+      return {
+        success: false,
+        documentId: document.id,
+        error: error instanceof Error ? error.message : String(error)
+      };
+    }
+
+    const response = await this.apiClient.getThreadMessages(document.id, 100, range);
+    if (!response.success || !response.data) {
+      return {
+        success: false,
+        documentId: document.id,
+        error: response.error || 'Failed to get chat messages'
+      };
+    }
+
+    const messages = response.data.filter(message => message.visible !== false);
+    const names = await this.resolveNames(document, messages);
+
+    this.logger.debug(`Exporting ${messages.length} chat messages for ${document.title}`);
+
+    const transcript: ChatTranscript = {
+      documentId: document.id,
+      title: document.title,
+      link: document.link,
+      exportedAt: new Date().toISOString(),
+      since: range.sinceUsec !== undefined ? usecToIso(range.sinceUsec) : undefined,
+      until: range.untilUsec !== undefined ? usecToIso(range.untilUsec) : undefined,
+      messageCount: messages.length,
+      messages: messages.map(message => toTranscriptMessage(document.id, message, names))
+    };
+
+    return {
+      success: true,
+      documentId: document.id,
+      transcript,
+      json: Buffer.from(JSON.stringify(transcript, null, 2), 'utf-8')
+    };
+  }
+
+  /**
+   * Look up the names of senders and reacting users that the messages do not
+   * name. Failing to do so only leaves their user IDs in the transcript.
+   */
+  private async resolveNames(document: QuipDocument, messages: QuipMessage[]): Promise<Map<string, string>> {
+    const names = new Map<string, string>();
+    for (const message of messages) {
+      if (message.author_name) {
+        names.set(message.author_id, message.author_name);
+      }
+    }
+
+    const unknownIds = Array.from(
+      new Set(
+        messages.flatMap(message => [
+          message.author_id,
+          ...(message.reactions || []).flatMap(reaction => reaction.user_ids)
+        ])
+      )
+    ).filter(userId => !names.has(userId));
+
+    for (let i = 0; i < unknownIds.length; i += USER_LOOKUP_BATCH_SIZE) {
+      const response = await this.apiClient.getUsers(unknownIds.slice(i, i + USER_LOOKUP_BATCH_SIZE));
+      if (!response.success || !response.data) {
+        this.logger.warn(`Could not look up chat participants for ${document.title}: ${response.error}`);
+        break;
+      }
+      for (const user of Object.values(response.data)) {
+        names.set(user.id, user.name);
+      }
+    }
+
+    return names;
+  }
+}
+
+/**
+ * Convert the date range options to inclusive microsecond bounds. A date
+ * without a time ends the range at the end of that day (UTC).
+ */
+export function parseTranscriptRange(options: ChatTranscriptOptions): { sinceUsec?: number; untilUsec?: number } {
+  const parse = (value: string, name: string, endOfDay: boolean): number => {
+    const time = Date.parse(value);
+    if (isNaN(time)) {
+      throw new Error(`Invalid chat ${name} date: ${value}`);
+    }
+    const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value.trim());
+    return (endOfDay && isDateOnly ? time + 24 * 60 * 60 * 1000 - 1 : time) * 1000;
+  };
+
+  const range = {
+    sinceUsec: options.since ? parse(options.since, 'since', false) : undefined,
+    untilUsec: options.until ? parse(options.until, 'until', true) : undefined
+  };
+
+  if (range.sinceUsec !== undefined && range.untilUsec !== undefined && range.sinceUsec > range.untilUsec) {
+    throw new Error(`Chat since date ${options.since} is after until date ${options.until}`);
+  }
+
+  return range;
+}
+
+/**
+ * Render a transcript as an HTML page with the messages grouped by day (UTC).
+ * Attachments link to their Quip blobs, so they can be downloaded like the
+ * images of any other HTML export.
+ */
+export function renderChatTranscriptHtml(transcript: ChatTranscript): string {
+  const lines: string[] = [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(transcript.title)}</title>`,
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(transcript.title)}</h1>`,
+    `<p>${transcript.messageCount} message${transcript.messageCount === 1 ? '' : 's'}${describeRange(transcript)}</p>`
+  ];
+
+  for (const [day, messages] of groupByDay(transcript.messages)) {
+    lines.push(`<h2>${day}</h2>`);
+
+    for (const message of messages) {
+      const edited = message.editedAt ? ' (edited)' : '';
+      lines.push(
+        `<div class="message" id="message-${escapeHtml(message.id)}">`,
+        `<h3>${escapeHtml(message.senderName)} — ${message.sentAt.substring(11, 16)} UTC${edited}</h3>`
+      );
+
+      if (message.text) {
+        lines.push(`<p>${escapeHtml(message.text).replace(/\n/g, '<br>')}</p>`);
+      }
+
+      if (message.attachments.length > 0) {
+        lines.push('<ul class="attachments">');
+        for (const attachment of message.attachments) {
+          lines.push(`<li><a href="${escapeHtml(attachment.url)}">${escapeHtml(attachment.name)}</a></li>`);
+        }
+        lines.push('</ul>');
+      }
+
+      if (message.reactions.length > 0) {
+        const reactions = message.reactions.map(reaction => `${reaction.emoji} ${reaction.users.join(', ')}`);
+        lines.push(`<p class="reactions">Reactions: ${escapeHtml(reactions.join(' · '))}</p>`);
+      }
+
+      lines.push('</div>');
+    }
+  }
+
+  lines.push('</body>', '</html>', '');
+  return lines.join('\n');
+}
+
+function toTranscriptMessage(
+  threadId: string,
+  message: QuipMessage,
+  names: Map<string, string>
+): ChatTranscriptMessage {
+  return {
+    id: message.id,
+    senderId: message.author_id,
+    senderName: names.get(message.author_id) || message.author_id,
+    sentAt: usecToIso(message.created_usec),
+    editedAt:
+      message.updated_usec && message.updated_usec !== message.created_usec
+        ? usecToIso(message.updated_usec)
+        : undefined,
+    text: message.text || '',
+    attachments: (message.files || []).map(file => ({
+      hash: file.hash,
+      name: file.name,
+      url: `/blob/${threadId}/${file.hash}`
+    })),
+    reactions: (message.reactions || []).map(reaction => ({
+      emoji: reaction.emoji,
+      users: reaction.user_ids.map(userId => names.get(userId) || userId)
+    }))
+  };
+}
+
+function groupByDay(messages: ChatTranscriptMessage[]): Map<string, ChatTranscriptMessage[]> {
+  const days = new Map<string, ChatTranscriptMessage[]>();
+  for (const message of messages) {
+    const day = message.sentAt.substring(0, 10);
+    days.set(day, [...(days.get(day) || []), message]);
+  }
+  return days;
+}
+
+function describeRange(transcript: ChatTranscript): string {
+  if (transcript.since && transcript.until) {
+    return ` from ${transcript.since.substring(0, 10)} to ${transcript.until.substring(0, 10)}`;
+  }
+  if (transcript.since) {
+    return ` since ${transcript.since.substring(0, 10)}`;
+  }
+  if (transcript.until) {
+    return ` until ${transcript.until.substring(0, 10)}`;
+  }
+  return '';
+}
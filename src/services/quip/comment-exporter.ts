@@ -0,0 +1,170 @@
+import * as cheerio from 'cheerio';
+import { QuipDocument, Logger } from '../../types';
+import { QuipApiClient } from './api-client';
+import { QuipMessage } from './types';
+import { usecToIso } from './format-utils';
+
+// Longest section excerpt shown next to an anchored comment
+const SECTION_EXCERPT_LENGTH = 200;
+
+export interface ExportedComment {
+  id: string;
+  authorId: string;
+  authorName: string;
+  createdAt: string; // ISO 8601
+  updatedAt?: string;
+  text: string;
+  section?: {
+    id: string;
+    text?: string;
+  };
+  files: { hash: string; name: string }[];
+}
+
+export interface CommentExportResult {
+  success: boolean;
+  documentId: string;
+  comments: ExportedComment[];
+  json?: Buffer;
+  markdown?: Buffer;
+  error?: string;
+}
+
+/**
+ * Exports the comments and conversation messages of a Quip thread as JSON
+ * and as a readable Markdown transcript
+ */
+export class CommentExporter {
+  private readonly apiClient: QuipApiClient;
+  private readonly logger: Logger;
+
+  constructor(apiClient: QuipApiClient, logger: Logger) {
+    this.apiClient = apiClient;
+    this.logger = logger;
+  }
+
+  /**
+   * Fetch and render all messages of a document
+   */
+  async exportComments(document: QuipDocument): Promise<CommentExportResult> {
+    const response = await this.apiClient.getThreadMessages(document.id);
+
+    if (!response.success || !response.data) {
+      return {
+        success: false,
+        documentId: document.id,
+        comments: [],
+        error: response.error || 'Failed to get thread messages'
+      };
+    }
+
+    const messages = response.data.filter(message => message.visible !== false);
+    const sections = await this.resolveSections(document, messages);
+    const comments = messages.map(message => toExportedComment(message, sections));
+
+    this.logger.debug(`Exporting ${comments.length} messages for ${document.title}`);
+
+    const json = {
+      documentId: document.id,
+      title: document.title,
+      type: document.type,
+      link: document.link,
+      exportedAt: new Date().toISOString(),
+      messageCount: comments.length,
+      messages: comments
+    };
+
+    return {
+      success: true,
+      documentId: document.id,
+      comments,
+      json: Buffer.from(JSON.stringify(json, null, 2), 'utf-8'),
+      markdown: Buffer.from(renderCommentsMarkdown(document, comments), 'utf-8')
+    };
+  }
+
+  /**
+   * Look up the text of the sections comments are anchored to. Failing to
+   * fetch the document only loses the excerpts, not the comments.
+   */
+  private async resolveSections(document: QuipDocument, messages: QuipMessage[]): Promise<Map<string, string>> {
+    const sectionTexts = new Map<string, string>();
+    const sectionIds = new Set(messages.flatMap(message => message.annotation?.highlight_section_ids || []));
+
+    if (sectionIds.size === 0) {
+      return sectionTexts;
+    }
+
+    const response = await this.apiClient.exportDocumentHtml(document.secret_path || document.id);
+    if (!response.success || !response.data) {
+      this.logger.warn(`Could not resolve comment sections for ${document.title}: ${response.error}`);
+      return sectionTexts;
+    }
+
+    const $ = cheerio.load(response.data);
+    for (const sectionId of sectionIds) {
+      const text = $(`[id="${sectionId.replace(/["\\]/g, '')}"]`).first().text().replace(/\s+/g, ' ').trim();
+      if (text) {
+        sectionTexts.set(
+          sectionId,
+          text.length > SECTION_EXCERPT_LENGTH ? `${text.substring(0, SECTION_EXCERPT_LENGTH)}…` : text
+        );
+      }
+    }
+
+    return sectionTexts;
+  }
+}
+
+/**
+ * Render messages as a Markdown transcript
+ */
+export function renderCommentsMarkdown(document: QuipDocument, comments: ExportedComment[]): string {
+  const heading = document.type === 'CHAT' ? `Conversation: ${document.title}` : `Comments on ${document.title}`;
+  const lines: string[] = [`# ${heading}`, ''];
+
+  if (comments.length === 0) {
+    lines.push('_No messages._', '');
+    return lines.join('\n');
+  }
+
+  lines.push(`_${comments.length} message${comments.length === 1 ? '' : 's'}_`, '');
+
+  for (const comment of comments) {
+    lines.push(`### ${comment.authorName} — ${formatTimestamp(comment.createdAt)}`, '');
+
+    if (comment.section) {
+      const anchor = comment.section.text ? `"${comment.section.text}"` : `section ${comment.section.id}`;
+      lines.push(`> On ${anchor}`, '');
+    }
+
+    if (comment.text) {
+      lines.push(comment.text, '');
+    }
+
+    if (comment.files.length > 0) {
+      lines.push(`Attachments: ${comment.files.map(file => file.name).join(', ')}`, '');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function toExportedComment(message: QuipMessage, sections: Map<string, string>): ExportedComment {
+  const sectionId = message.annotation?.highlight_section_ids?.[0];
+
+  return {
+    id: message.id,
+    authorId: message.author_id,
+    authorName: message.author_name || message.author_id,
+    createdAt: usecToIso(message.created_usec),
+    updatedAt: message.updated_usec ? usecToIso(message.updated_usec) : undefined,
+    text: message.text || '',
+    section: sectionId ? { id: sectionId, text: sections.get(sectionId) } : undefined,
+    files: message.files || []
+  };
+}
+
+function formatTimestamp(iso: string): string {
+  return iso.replace('T', ' ').replace(/\.\d{3}Z$/, ' UTC');
+}
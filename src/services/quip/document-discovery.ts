@@ -1,6 +1,7 @@
 import { QuipApiClient } from './api-client';
-import { QuipDocument, QuipFolder, Logger } from '../../types';
-import { QuipListResponse } from './types';
+import { ApiResponse, QuipDocument, QuipFolder, Logger } from '../../types';
+import { QuipListResponse, QuipThreadResponse, QuipUser } from './types';
+import { FolderSelection } from './folder-selection';
 
 export interface DocumentFilter {
   types?: Array<'DOCUMENT' | 'SPREADSHEET' | 'CHAT'>;
@@ -11,11 +12,22 @@ export interface DocumentFilter {
   createdBefore?: Date;
   titleContains?: string;
   maxDocuments?: number;
+  includeFolders?: string[]; // Folder IDs or URLs to discover from instead of the user's folders
+  excludeFolders?: string[]; // Folder IDs or URLs whose subtrees are skipped
+  excludePatterns?: string[]; // Glob patterns of folder paths to skip, e.g. "Archive/**"
 }
 
+// Users looked up per request
+const USER_LOOKUP_BATCH_SIZE = 100;
+// Threads looked up per request; the responses include each thread's HTML
+const THREAD_LOOKUP_BATCH_SIZE = 25;
+// Folders looked up per request
+const FOLDER_LOOKUP_BATCH_SIZE = 100;
+
 export interface DocumentWithPath {
   document: QuipDocument;
-  folderPath: string;
+  folderPath: string; // Full folder path, e.g. "Engineering/Platform/RFCs"
+  folderPaths?: string[]; // Every folder the document appears in, folderPath first
   isShared: boolean;
 }
 
@@ -31,6 +43,8 @@ export interface DiscoveryResult {
   folders: FolderStructure[];
   totalCount: number;
   filteredCount: number;
+  limitReached?: boolean; // Stopped at maxDocuments, so more documents may exist
+  failedFolderIds?: string[]; // Folders whose contents could not be loaded, so their documents are missing
 }
 
 /**
@@ -41,6 +55,12 @@ export class DocumentDiscovery {
   private readonly logger: Logger;
   private readonly documentCache = new Map<string, QuipDocument>();
   private readonly folderCache = new Map<string, QuipFolder>();
+  private readonly folderContentsCache = new Map<string, QuipListResponse>();
+  private readonly folderPathCache = new Map<string, string>();
+  private readonly documentFolderPaths = new Map<string, string[]>();
+  private readonly documentFolderIds = new Map<string, string[]>();
+  private readonly userCache = new Map<string, QuipUser | null>();
+  private readonly failedFolderIds = new Set<string>();
 
   constructor(apiClient: QuipApiClient, logger: Logger) {
     this.apiClient = apiClient;
@@ -52,6 +72,7 @@ export class DocumentDiscovery {
    */
   async discoverDocuments(filter: DocumentFilter = {}): Promise<DiscoveryResult> {
     this.logger.info('Starting document discovery...');
+    this.failedFolderIds.clear();
     
     try {
       // Get current user information first to identify user-owned documents
@@ -74,82 +95,66 @@ export class DocumentDiscovery {
 
       // Get user's documents through folder structure instead of recent documents
       // This focuses on documents the user owns rather than just recently accessed
-      let allDocuments: QuipDocument[] = [];
-      let allFolders: QuipFolder[] = [];
+      const selection = new FolderSelection(filter);
+      const folderStructures: FolderStructure[] = [];
+      const processedFolders = new Set<string>();
 
-      // Try to get user's private folder first
-      if (currentUser.private_folder_id) {
+      // Selected folders replace the user's root folders
+      for (const folderId of selection.includeFolderIds) {
+        try {
+          this.logger.debug(`Getting documents from selected folder: ${folderId}`);
+          const structures = await this.discoverRootFolder(folderId, folderId, true, processedFolders, selection);
+          folderStructures.push(...structures);
+        } catch (error) {
+          this.recordFailedFolder(folderId, `Failed to get selected folder ${folderId}:`, error);
+        }
+      }
+
+      // Try to get user's private folder first. Folders reached again later
+      // (the private folder usually also sits on the desktop) are skipped.
+      if (currentUser.private_folder_id && !selection.hasIncludedFolders()) {
         try {
           this.logger.debug(`Getting documents from user's private folder: ${currentUser.private_folder_id}`);
-          const privateFolderResponse = await this.apiClient.getFolderContents(currentUser.private_folder_id);
-          if (privateFolderResponse.success) {
-            const { documents: privateDocs, folders: privateFolders } = await this.parseListResponse(privateFolderResponse.data!);
-            allDocuments.push(...privateDocs);
-            allFolders.push(...privateFolders);
-          }
+          const structures = await this.discoverRootFolder(currentUser.private_folder_id, 'Private', true, processedFolders, selection);
+          folderStructures.push(...structures);
         } catch (error) {
-          this.logger.warn(`Failed to get private folder ${currentUser.private_folder_id}:`, error);
+          this.recordFailedFolder(currentUser.private_folder_id, `Failed to get private folder ${currentUser.private_folder_id}:`, error);
         }
       }
 
-      // Also try desktop folder if available
-      if (currentUser.desktop_folder_id) {
+      // Also try desktop folder if available. The desktop is the top level of
+      // the user's workspace, so its subfolders are not nested under it.
+      if (currentUser.desktop_folder_id && !selection.hasIncludedFolders()) {
         try {
           this.logger.debug(`Getting documents from user's desktop folder: ${currentUser.desktop_folder_id}`);
-          const desktopFolderResponse = await this.apiClient.getFolderContents(currentUser.desktop_folder_id);
-          if (desktopFolderResponse.success) {
-            const { documents: desktopDocs, folders: desktopFolders } = await this.parseListResponse(desktopFolderResponse.data!);
-            allDocuments.push(...desktopDocs);
-            allFolders.push(...desktopFolders);
-          }
+          const structures = await this.discoverRootFolder(currentUser.desktop_folder_id, 'Desktop', false, processedFolders, selection);
+          folderStructures.push(...structures);
         } catch (error) {
-          this.logger.warn(`Failed to get desktop folder ${currentUser.desktop_folder_id}:`, error);
+          this.recordFailedFolder(currentUser.desktop_folder_id, `Failed to get desktop folder ${currentUser.desktop_folder_id}:`, error);
         }
       }
 
       // Try to get user's explicit folder structure if available
-      if (currentUser.folders && Array.isArray(currentUser.folders) && currentUser.folders.length > 0) {
+      if (currentUser.folders && Array.isArray(currentUser.folders) && currentUser.folders.length > 0 && !selection.hasIncludedFolders()) {
         // User has explicit folder structure
         for (const folder of currentUser.folders) {
+          if (processedFolders.has(folder.id)) continue;
+
           try {
-            const folderResponse = await this.apiClient.getFolderContents(folder.id);
-            if (folderResponse.success) {
-              const { documents: folderDocs, folders: subFolders } = await this.parseListResponse(folderResponse.data!);
-              
-              // Filter to only include documents owned by current user
-              const ownedDocs = folderDocs.filter(doc => 
-                doc.author_id === currentUserId || 
-                (!doc.author_id && !this.isDocumentShared(doc))
-              );
-              
-              allDocuments.push(...ownedDocs);
-              allFolders.push(...subFolders);
-            }
+            // Filter to only include documents owned by current user
+            const structures = await this.discoverRootFolder(folder.id, folder.title || 'Documents', true, processedFolders, selection, doc =>
+              doc.author_id === currentUserId ||
+              (!doc.author_id && !this.isDocumentShared(doc))
+            );
+            folderStructures.push(...structures);
           } catch (error) {
-            this.logger.warn(`Failed to get folder ${folder.id}:`, error);
+            this.recordFailedFolder(folder.id, `Failed to get folder ${folder.id}:`, error);
           }
         }
       }
-      
-      // Cache documents and folders
-      allDocuments.forEach(doc => this.documentCache.set(doc.id, doc));
-      allFolders.forEach(folder => this.folderCache.set(folder.id, folder));
-
-      // Build folder structures from discovered folders
-      let folderStructures: FolderStructure[] = [];
-      if (allFolders.length > 0) {
-        folderStructures = await this.buildFolderStructures(allFolders);
-      }
 
-      // Collect all documents
-      let documentsWithPaths = await this.collectAllDocuments(folderStructures, allDocuments);
-
-      // If we have no folder structure but have documents, create a virtual structure
-      if (folderStructures.length === 0 && allDocuments.length > 0) {
-        this.logger.debug('Creating virtual folder structure from user-owned documents');
-        folderStructures = this.createVirtualFolderStructure(allDocuments);
-        documentsWithPaths = await this.collectAllDocuments(folderStructures, []);
-      }
+      // Collect all documents, once each, with every folder they appear in
+      const documentsWithPaths = this.collectAllDocuments(folderStructures);
 
       // Apply filters
       const filteredDocuments = this.applyFilters(documentsWithPaths, filter);
@@ -160,7 +165,8 @@ export class DocumentDiscovery {
         documents: filteredDocuments,
         folders: folderStructures,
         totalCount: documentsWithPaths.length,
-        filteredCount: filteredDocuments.length
+        filteredCount: filteredDocuments.length,
+        failedFolderIds: Array.from(this.failedFolderIds)
       };
 
     } catch (error) {
@@ -180,13 +186,25 @@ export class DocumentDiscovery {
   ): Promise<DiscoveryResult> {
     this.logger.debug(`Starting optimized discovery with limit: ${maxDocuments}`);
     
+    const selection = new FolderSelection(filter);
     const foundDocuments: DocumentWithPath[] = [];
     const processedFolders = new Set<string>();
     let totalScanned = 0;
 
+    const foundById = new Map<string, DocumentWithPath>();
+
     // Helper function to process documents from a folder response
     const processDocuments = async (documents: QuipDocument[], folderPath: string): Promise<boolean> => {
       for (const doc of documents) {
+        // A document filed in several folders is only exported once
+        const existing = foundById.get(doc.id);
+        if (existing) {
+          if (!existing.folderPaths!.includes(folderPath)) {
+            existing.folderPaths!.push(folderPath);
+          }
+          continue;
+        }
+
         // Apply basic filters first
         if (filter.types && !filter.types.includes(doc.type)) continue;
         if (filter.includeTemplates === false && doc.is_template) continue;
@@ -204,11 +222,15 @@ export class DocumentDiscovery {
         }
 
         // Add to results
-        foundDocuments.push({
+        const entry: DocumentWithPath = {
           document: doc,
           folderPath,
+          folderPaths: [folderPath],
           isShared
-        });
+        };
+        foundDocuments.push(entry);
+        foundById.set(doc.id, entry);
+        this.documentFolderPaths.set(doc.id, entry.folderPaths!);
 
         totalScanned++;
         
@@ -221,67 +243,121 @@ export class DocumentDiscovery {
       return false; // Continue processing
     };
 
+    // Helper function to walk subfolders depth-first until the limit is reached
+    const processSubfolders = async (folders: QuipFolder[], parentPath: string): Promise<boolean> => {
+      for (const folder of folders) {
+        if (processedFolders.has(folder.id)) continue;
+
+        const folderPath = parentPath ? `${parentPath}/${folder.title}` : folder.title;
+        if (selection.isExcluded(folder.id, folderPath)) {
+          this.logger.debug(`Skipping excluded folder: ${folderPath}`);
+          continue;
+        }
+
+        processedFolders.add(folder.id);
+        this.folderPathCache.set(folder.id, folderPath);
+
+        try {
+          this.logger.debug(`Processing subfolder: ${folderPath}`);
+          const response = await this.getFolderContents(folder.id);
+          if (!response.success) {
+            this.recordFailedFolder(folder.id, `Failed to get contents for folder ${folder.id}: ${response.error}`);
+            continue;
+          }
+
+          const { documents, folders: subFolders } = await this.parseListResponse(response.data!);
+          if (await processDocuments(documents, folderPath) || await processSubfolders(subFolders, folderPath)) {
+            return true;
+          }
+        } catch (error) {
+          this.recordFailedFolder(folder.id, `Failed to process folder ${folder.id}:`, error);
+        }
+      }
+      return false;
+    };
+
+    // Helper function to process one of the user's root folders; see discoverRootFolder
+    const processRootFolder = async (
+      folderId: string,
+      fallbackTitle: string,
+      nested: boolean,
+      includeDocument: (document: QuipDocument) => boolean = () => true
+    ): Promise<boolean> => {
+      if (processedFolders.has(folderId) || selection.isExcluded(folderId, '')) return false;
+      processedFolders.add(folderId);
+
+      const response = await this.getFolderContents(folderId);
+      if (!response.success) {
+        this.recordFailedFolder(folderId, `Failed to get contents for folder ${folderId}: ${response.error}`);
+        return false;
+      }
+
+      const rootPath = await this.resolveRootFolderPath(folderId, response.data!, fallbackTitle, nested);
+      if (selection.isExcluded(folderId, rootPath)) {
+        this.logger.debug(`Skipping excluded folder: ${rootPath}`);
+        return false;
+      }
+
+      const childPath = nested ? rootPath : '';
+      this.folderPathCache.set(folderId, childPath);
+
+      const { documents, folders } = await this.parseListResponse(response.data!);
+      return await processDocuments(documents.filter(includeDocument), rootPath)
+        || await processSubfolders(folders, childPath);
+    };
+
+    // Selected folders replace the user's root folders
+    for (const folderId of selection.includeFolderIds) {
+      try {
+        this.logger.debug(`Processing selected folder: ${folderId}`);
+        if (await processRootFolder(folderId, folderId, true)) {
+          return this.createLimitedResult(foundDocuments, totalScanned, true);
+        }
+      } catch (error) {
+        this.recordFailedFolder(folderId, `Failed to process selected folder ${folderId}:`, error);
+      }
+    }
+
     // Process user's private folder first (most likely to contain user's documents)
-    if (currentUser.private_folder_id && !processedFolders.has(currentUser.private_folder_id)) {
+    if (currentUser.private_folder_id && !selection.hasIncludedFolders()) {
       try {
         this.logger.debug(`Processing private folder: ${currentUser.private_folder_id}`);
-        const response = await this.apiClient.getFolderContents(currentUser.private_folder_id);
-        if (response.success) {
-          const { documents } = await this.parseListResponse(response.data!);
-          const shouldStop = await processDocuments(documents, 'Private');
-          if (shouldStop) {
-            return this.createLimitedResult(foundDocuments, totalScanned, true);
-          }
+        if (await processRootFolder(currentUser.private_folder_id, 'Private', true)) {
+          return this.createLimitedResult(foundDocuments, totalScanned, true);
         }
-        processedFolders.add(currentUser.private_folder_id);
       } catch (error) {
-        this.logger.warn(`Failed to process private folder:`, error);
+        this.recordFailedFolder(currentUser.private_folder_id, `Failed to process private folder:`, error);
       }
     }
 
     // Process desktop folder if we haven't reached the limit
-    if (currentUser.desktop_folder_id && !processedFolders.has(currentUser.desktop_folder_id) && foundDocuments.length < maxDocuments) {
+    if (currentUser.desktop_folder_id && !selection.hasIncludedFolders()) {
       try {
         this.logger.debug(`Processing desktop folder: ${currentUser.desktop_folder_id}`);
-        const response = await this.apiClient.getFolderContents(currentUser.desktop_folder_id);
-        if (response.success) {
-          const { documents } = await this.parseListResponse(response.data!);
-          const shouldStop = await processDocuments(documents, 'Desktop');
-          if (shouldStop) {
-            return this.createLimitedResult(foundDocuments, totalScanned, true);
-          }
+        if (await processRootFolder(currentUser.desktop_folder_id, 'Desktop', false)) {
+          return this.createLimitedResult(foundDocuments, totalScanned, true);
         }
-        processedFolders.add(currentUser.desktop_folder_id);
       } catch (error) {
-        this.logger.warn(`Failed to process desktop folder:`, error);
+        this.recordFailedFolder(currentUser.desktop_folder_id, `Failed to process desktop folder:`, error);
       }
     }
 
     // Process other user folders if we haven't reached the limit
-    if (currentUser.folders && Array.isArray(currentUser.folders) && foundDocuments.length < maxDocuments) {
+    if (currentUser.folders && Array.isArray(currentUser.folders) && !selection.hasIncludedFolders()) {
       for (const folder of currentUser.folders) {
-        if (processedFolders.has(folder.id) || foundDocuments.length >= maxDocuments) break;
-        
         try {
           this.logger.debug(`Processing user folder: ${folder.id}`);
-          const response = await this.apiClient.getFolderContents(folder.id);
-          if (response.success) {
-            const { documents } = await this.parseListResponse(response.data!);
-            
-            // Filter to user-owned documents
-            const ownedDocs = documents.filter(doc => 
-              doc.author_id === currentUserId || 
-              (!doc.author_id && !this.isDocumentShared(doc))
-            );
-            
-            const shouldStop = await processDocuments(ownedDocs, folder.title || 'Documents');
-            if (shouldStop) {
-              return this.createLimitedResult(foundDocuments, totalScanned, true);
-            }
+
+          // Filter to user-owned documents
+          const shouldStop = await processRootFolder(folder.id, folder.title || 'Documents', true, doc =>
+            doc.author_id === currentUserId || 
+            (!doc.author_id && !this.isDocumentShared(doc))
+          );
+          if (shouldStop) {
+            return this.createLimitedResult(foundDocuments, totalScanned, true);
           }
-          processedFolders.add(folder.id);
         } catch (error) {
-          this.logger.warn(`Failed to process folder ${folder.id}:`, error);
+          this.recordFailedFolder(folder.id, `Failed to process folder ${folder.id}:`, error);
         }
       }
     }
@@ -323,7 +399,9 @@ export class DocumentDiscovery {
       documents,
       folders: folderStructures,
       totalCount: limitReached ? totalScanned + 1 : totalScanned, // +1 to indicate more exist
-      filteredCount: documents.length
+      filteredCount: documents.length,
+      limitReached,
+      failedFolderIds: Array.from(this.failedFolderIds)
     };
   }
 
@@ -334,11 +412,15 @@ export class DocumentDiscovery {
     this.logger.debug(`Getting documents from folder: ${folderId}`);
 
     try {
-      const folderResponse = await this.apiClient.getFolderContents(folderId);
+      const folderResponse = await this.getFolderContents(folderId);
       if (!folderResponse.success) {
         throw new Error(`Failed to get folder contents: ${folderResponse.error}`);
       }
 
+      if (!this.folderCache.has(folderId)) {
+        this.rememberFolder(folderId, folderResponse.data!);
+      }
+
       const { documents, folders } = await this.parseListResponse(folderResponse.data!);
       const folderPath = await this.getFolderPath(folderId);
       
@@ -351,6 +433,10 @@ export class DocumentDiscovery {
       // Recursively get documents from subfolders if requested
       if (recursive) {
         for (const folder of folders) {
+          // Subfolder paths extend this folder's path without another parent lookup
+          if (!this.folderPathCache.has(folder.id)) {
+            this.folderPathCache.set(folder.id, `${folderPath}/${folder.title}`);
+          }
           const subDocuments = await this.getDocumentsFromFolder(folder.id, true);
           allDocuments = allDocuments.concat(subDocuments);
         }
@@ -420,31 +506,12 @@ export class DocumentDiscovery {
 
     try {
       const response = await this.apiClient.getDocumentMetadata(documentId);
-      if (!response.success) {
+      if (!response.success || !response.data) {
         this.logger.warn(`Failed to get metadata for document ${documentId}: ${response.error}`);
         return null;
       }
 
-      // The V2 API returns document data nested under 'thread'
-      const rawData = response.data as any;
-      const threadData = rawData.thread || rawData;
-      
-      const document: QuipDocument = {
-        id: threadData.id || documentId,
-        title: threadData.title || 'Untitled',
-        type: (threadData.type || 'DOCUMENT').toUpperCase() as 'DOCUMENT' | 'SPREADSHEET' | 'CHAT',
-        created_usec: threadData.created_usec || Date.now() * 1000,
-        updated_usec: threadData.updated_usec || Date.now() * 1000,
-        author_id: threadData.author_id || '',
-        owning_company_id: threadData.owning_company_id || null,
-        link: threadData.link || '',
-        secret_path: threadData.secret_path || '',
-        is_template: threadData.is_template || false,
-        is_deleted: threadData.is_deleted || false
-      };
-      
-      this.documentCache.set(documentId, document);
-      return document;
+      return this.cacheDocument(documentId, response.data);
 
     } catch (error) {
       this.logger.error(`Error getting document metadata for ${documentId}`, { error: error instanceof Error ? error.message : String(error) });
@@ -452,6 +519,79 @@ export class DocumentDiscovery {
     }
   }
 
+  /**
+   * Get metadata for several documents, looking up the ones not cached yet in
+   * batches. Documents that cannot be found are left out of the result.
+   */
+  async getDocumentsMetadata(documentIds: string[]): Promise<Map<string, QuipDocument>> {
+    const missing = Array.from(new Set(documentIds)).filter(id => id && !this.documentCache.has(id));
+
+    for (let i = 0; i < missing.length; i += THREAD_LOOKUP_BATCH_SIZE) {
+      const batch = missing.slice(i, i + THREAD_LOOKUP_BATCH_SIZE);
+      try {
+        const response = await this.apiClient.getThreads(batch);
+        if (!response.success) {
+          this.logger.warn(`Failed to look up ${batch.length} documents: ${response.error}`);
+        } else {
+          for (const [threadId, data] of Object.entries(response.data || {})) {
+            this.cacheDocument(threadId, data);
+          }
+        }
+      } catch (error) {
+        this.logger.warn('Error looking up documents', { error: error instanceof Error ? error.message : String(error) });
+      }
+
+      // Threads the batch did not return are looked up one by one
+      for (const documentId of batch) {
+        if (!this.documentCache.has(documentId)) {
+          await this.getDocumentMetadata(documentId);
+        }
+      }
+    }
+
+    const documents = new Map<string, QuipDocument>();
+    for (const documentId of documentIds) {
+      const document = this.documentCache.get(documentId);
+      if (document) {
+        documents.set(documentId, document);
+      }
+    }
+    return documents;
+  }
+
+  /**
+   * Look up users by ID, such as document authors. Users that cannot be found
+   * are left out of the result.
+   */
+  async getUsers(userIds: string[]): Promise<Map<string, QuipUser>> {
+    const missing = Array.from(new Set(userIds)).filter(id => id && !this.userCache.has(id));
+
+    for (let i = 0; i < missing.length; i += USER_LOOKUP_BATCH_SIZE) {
+      const batch = missing.slice(i, i + USER_LOOKUP_BATCH_SIZE);
+      try {
+        const response = await this.apiClient.getUsers(batch);
+        if (!response.success) {
+          this.logger.warn(`Failed to look up ${batch.length} users: ${response.error}`);
+          continue;
+        }
+        for (const userId of batch) {
+          this.userCache.set(userId, response.data?.[userId] || null);
+        }
+      } catch (error) {
+        this.logger.warn('Error looking up users', { error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    const users = new Map<string, QuipUser>();
+    for (const userId of userIds) {
+      const user = this.userCache.get(userId);
+      if (user) {
+        users.set(userId, user);
+      }
+    }
+    return users;
+  }
+
   /**
    * Parse Quip API list response into documents and folders
    */
@@ -470,6 +610,12 @@ export class DocumentDiscovery {
         // Transform the item to QuipDocument format
         const document: QuipDocument = this.transformToQuipDocument(docId, item);
         documents.push(document);
+
+        // Search and recent results list the folders each thread is filed in
+        const folderIds = (item as { shared_folder_ids?: string[] }).shared_folder_ids;
+        if (Array.isArray(folderIds) && folderIds.length > 0) {
+          this.documentFolderIds.set(document.id, folderIds);
+        }
       } else if (this.isFolder(item)) {
         folders.push(item);
       }
@@ -478,6 +624,78 @@ export class DocumentDiscovery {
     return { documents, folders };
   }
 
+  /**
+   * Convert a thread response to a document and cache it under the ID it was
+   * requested by, its thread ID and its secret path, so it is fetched only once
+   */
+  private cacheDocument(requestedId: string, data: QuipDocument | QuipThreadResponse): QuipDocument {
+    // The API returns document data nested under 'thread'
+    const threadData: Partial<QuipDocument> = 'thread' in data ? data.thread : data;
+
+    const document: QuipDocument = {
+      id: threadData.id || requestedId,
+      title: threadData.title || 'Untitled',
+      type: (threadData.type || 'DOCUMENT').toUpperCase() as 'DOCUMENT' | 'SPREADSHEET' | 'CHAT',
+      created_usec: threadData.created_usec || Date.now() * 1000,
+      updated_usec: threadData.updated_usec || Date.now() * 1000,
+      author_id: threadData.author_id || '',
+      owning_company_id: threadData.owning_company_id || null,
+      link: threadData.link || '',
+      secret_path: threadData.secret_path || '',
+      is_template: threadData.is_template || false,
+      is_deleted: threadData.is_deleted || false
+    };
+
+    for (const key of [requestedId, document.id, document.secret_path]) {
+      if (key) {
+        this.documentCache.set(key, document);
+      }
+    }
+    return document;
+  }
+
+  /**
+   * Get folder contents, from a batched folder lookup when one already returned them
+   * @private
+   */
+  private async getFolderContents(folderId: string): Promise<ApiResponse<QuipListResponse>> {
+    const cached = this.folderContentsCache.get(folderId);
+    if (cached) {
+      return { success: true, data: cached, statusCode: 200 };
+    }
+
+    const response = await this.apiClient.getFolderContents(folderId);
+    if (response.success && response.data) {
+      this.folderContentsCache.set(folderId, response.data);
+    }
+    return response;
+  }
+
+  /**
+   * Look up the folders not cached yet in batches, caching their metadata and contents
+   * @private
+   */
+  private async loadFolders(folderIds: string[]): Promise<void> {
+    const missing = Array.from(new Set(folderIds)).filter(id => id && !this.folderCache.has(id));
+
+    for (let i = 0; i < missing.length; i += FOLDER_LOOKUP_BATCH_SIZE) {
+      const batch = missing.slice(i, i + FOLDER_LOOKUP_BATCH_SIZE);
+      try {
+        const response = await this.apiClient.getFolders(batch);
+        if (!response.success) {
+          this.logger.warn(`Failed to look up ${batch.length} folders: ${response.error}`);
+          continue;
+        }
+        for (const [folderId, contents] of Object.entries(response.data || {})) {
+          this.folderContentsCache.set(folderId, contents);
+          this.rememberFolder(folderId, contents);
+        }
+      } catch (error) {
+        this.logger.warn('Error looking up folders', { error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+  }
+
   /**
    * Get folder metadata from Quip API
    * @private
@@ -489,21 +707,30 @@ export class DocumentDiscovery {
     }
 
     // Call Quip API to fetch folder metadata
-    const folderResponse = await this.apiClient.getFolderContents(folderId);
+    const folderResponse = await this.getFolderContents(folderId);
     if (!folderResponse.success) {
       throw new Error(`Failed to get folder metadata: ${folderResponse.error}`);
     }
 
-    const folderData = folderResponse.data as any;
+    return this.rememberFolder(folderId, folderResponse.data!);
+  }
+
+  /**
+   * Extract and cache folder metadata from a folder contents response
+   * @private
+   */
+  private rememberFolder(folderId: string, response: QuipListResponse, fallbackTitle: string = folderId): QuipFolder {
+    const folderData = response as any;
     
     // Extract folder title and metadata
     const folder: QuipFolder = {
       id: folderData.folder?.id || folderId,
-      title: folderData.folder?.title || folderData.title || folderId,
+      title: folderData.folder?.title || folderData.title || fallbackTitle,
       created_usec: folderData.folder?.created_usec || Date.now() * 1000,
       updated_usec: folderData.folder?.updated_usec || Date.now() * 1000,
       children: folderData.children || [],
-      member_ids: folderData.folder?.member_ids || []
+      member_ids: folderData.folder?.member_ids || [],
+      parent_id: folderData.folder?.parent_id
     };
 
     // Cache the result
@@ -520,48 +747,31 @@ export class DocumentDiscovery {
     const folders: QuipFolder[] = [];
 
     if (response.children && Array.isArray(response.children)) {
-      for (const child of response.children) {
+      // Fetch the metadata of the folder's documents and subfolders in batches
+      const children: Array<{ thread_id?: string; folder_id?: string }> = response.children;
+      const documentsById = await this.getDocumentsMetadata(
+        children.flatMap(child => child.thread_id ? [child.thread_id] : [])
+      );
+      await this.loadFolders(children.flatMap(child => child.folder_id ? [child.folder_id] : []));
+
+      for (const child of children) {
         if (child.thread_id) {
-          // This is a document - fetch its actual metadata
-          try {
-            const docMetadata = await this.getDocumentMetadata(child.thread_id);
-            if (docMetadata) {
-              documents.push(docMetadata);
-            } else {
-              // Fallback to minimal object if metadata fetch fails
-              documents.push({
-                id: child.thread_id,
-                title: `Document ${child.thread_id}`,
-                type: 'DOCUMENT',
-                created_usec: Date.now() * 1000,
-                updated_usec: Date.now() * 1000,
-                author_id: '',
-                owning_company_id: null,
-                link: '',
-                secret_path: '',
-                is_template: false,
-                is_deleted: false
-              });
-            }
-          } catch (error) {
-            this.logger.warn(`Failed to get metadata for document ${child.thread_id}:`, error);
-            // Add minimal document object as fallback
-            documents.push({
-              id: child.thread_id,
-              title: `Document ${child.thread_id}`,
-              type: 'DOCUMENT',
-              created_usec: Date.now() * 1000,
-              updated_usec: Date.now() * 1000,
-              author_id: '',
-              owning_company_id: null,
-              link: '',
-              secret_path: '',
-              is_template: false,
-              is_deleted: false
-            });
-          }
+          // This is a document - use its actual metadata, or a minimal object if it could not be fetched
+          documents.push(documentsById.get(child.thread_id) || {
+            id: child.thread_id,
+            title: `Document ${child.thread_id}`,
+            type: 'DOCUMENT',
+            created_usec: Date.now() * 1000,
+            updated_usec: Date.now() * 1000,
+            author_id: '',
+            owning_company_id: null,
+            link: '',
+            secret_path: '',
+            is_template: false,
+            is_deleted: false
+          });
         } else if (child.folder_id) {
-          // This is a subfolder - fetch actual folder metadata
+          // This is a subfolder - use its metadata from the batch, or fetch it
           try {
             const folderMetadata = await this.getFolderMetadata(child.folder_id);
             folders.push(folderMetadata);
@@ -648,22 +858,86 @@ export class DocumentDiscovery {
   }
 
   /**
-   * Build folder structure hierarchy
+   * Log a folder whose contents could not be loaded and list it in the discovery result
    */
-  private async buildFolderStructures(folders: QuipFolder[]): Promise<FolderStructure[]> {
-    const structures: FolderStructure[] = [];
-    const processedFolders = new Set<string>();
+  private recordFailedFolder(folderId: string, message: string, error?: unknown): void {
+    this.failedFolderIds.add(folderId);
+    this.logger.warn(message, error);
+  }
 
-    for (const folder of folders) {
-      if (!processedFolders.has(folder.id)) {
-        const structure = await this.buildFolderStructure(folder, '', processedFolders);
-        if (structure) {
-          structures.push(structure);
-        }
+  /**
+   * Build the folder structures below one of the user's root folders. Nested
+   * roots (the private folder, shared folders) are the first segment of their
+   * documents' paths; the desktop is not, so only its own documents are placed
+   * under the fallback title and its subfolders become top-level structures.
+   */
+  private async discoverRootFolder(
+    folderId: string,
+    fallbackTitle: string,
+    nested: boolean,
+    processedFolders: Set<string>,
+    selection: FolderSelection,
+    includeDocument: (document: QuipDocument) => boolean = () => true
+  ): Promise<FolderStructure[]> {
+    if (processedFolders.has(folderId) || selection.isExcluded(folderId, '')) {
+      return [];
+    }
+    processedFolders.add(folderId);
+
+    const response = await this.getFolderContents(folderId);
+    if (!response.success) {
+      throw new Error(`Failed to get folder contents: ${response.error}`);
+    }
+
+    const rootPath = await this.resolveRootFolderPath(folderId, response.data!, fallbackTitle, nested);
+    if (selection.isExcluded(folderId, rootPath)) {
+      this.logger.debug(`Skipping excluded folder: ${rootPath}`);
+      return [];
+    }
+
+    const folder = this.folderCache.get(folderId)!;
+    const childPath = nested ? rootPath : '';
+    this.folderPathCache.set(folderId, childPath);
+
+    const { documents, folders: subFolders } = await this.parseListResponse(response.data!);
+
+    const children: FolderStructure[] = [];
+    for (const subFolder of subFolders) {
+      const childStructure = await this.buildFolderStructure(subFolder, childPath, processedFolders, selection);
+      if (childStructure) {
+        children.push(childStructure);
       }
     }
 
-    return structures;
+    const root: FolderStructure = {
+      folder,
+      path: rootPath,
+      children: nested ? children : [],
+      documents: documents.filter(includeDocument).map(doc => ({
+        document: doc,
+        folderPath: rootPath,
+        isShared: this.isDocumentShared(doc)
+      }))
+    };
+
+    if (nested) {
+      return [root];
+    }
+    return root.documents.length > 0 ? [root, ...children] : children;
+  }
+
+  /**
+   * Get the path of a root folder from its contents response. A selected folder
+   * nested inside another keeps its full path.
+   */
+  private async resolveRootFolderPath(
+    folderId: string,
+    response: QuipListResponse,
+    fallbackTitle: string,
+    nested: boolean
+  ): Promise<string> {
+    const folder = this.rememberFolder(folderId, response, fallbackTitle);
+    return nested && folder.parent_id ? this.getFolderPath(folderId) : folder.title;
   }
 
   /**
@@ -672,20 +946,28 @@ export class DocumentDiscovery {
   private async buildFolderStructure(
     folder: QuipFolder, 
     parentPath: string, 
-    processedFolders: Set<string>
+    processedFolders: Set<string>,
+    selection: FolderSelection
   ): Promise<FolderStructure | null> {
     if (processedFolders.has(folder.id)) {
       return null;
     }
 
-    processedFolders.add(folder.id);
+    // Excluded subtrees are skipped before any of their threads are fetched
     const currentPath = parentPath ? `${parentPath}/${folder.title}` : folder.title;
+    if (selection.isExcluded(folder.id, currentPath)) {
+      this.logger.debug(`Skipping excluded folder: ${currentPath}`);
+      return null;
+    }
+
+    processedFolders.add(folder.id);
+    this.folderPathCache.set(folder.id, currentPath);
 
     try {
       // Get folder contents
-      const contentsResponse = await this.apiClient.getFolderContents(folder.id);
+      const contentsResponse = await this.getFolderContents(folder.id);
       if (!contentsResponse.success) {
-        this.logger.warn(`Failed to get contents for folder ${folder.id}: ${contentsResponse.error}`);
+        this.recordFailedFolder(folder.id, `Failed to get contents for folder ${folder.id}: ${contentsResponse.error}`);
         return {
           folder,
           path: currentPath,
@@ -699,7 +981,7 @@ export class DocumentDiscovery {
       // Build child folder structures
       const children: FolderStructure[] = [];
       for (const subFolder of subFolders) {
-        const childStructure = await this.buildFolderStructure(subFolder, currentPath, processedFolders);
+        const childStructure = await this.buildFolderStructure(subFolder, currentPath, processedFolders, selection);
         if (childStructure) {
           children.push(childStructure);
         }
@@ -720,6 +1002,7 @@ export class DocumentDiscovery {
       };
 
     } catch (error) {
+      this.failedFolderIds.add(folder.id);
       this.logger.error(`Error building folder structure for ${folder.id}`, { error: error instanceof Error ? error.message : String(error) });
       return {
         folder,
@@ -731,33 +1014,32 @@ export class DocumentDiscovery {
   }
 
   /**
-   * Collect all documents from folder structures
+   * Collect all documents from folder structures. A document filed in several
+   * folders is listed once, under the first folder it was found in, with all of
+   * its folders in folderPaths.
    */
-  private async collectAllDocuments(
-    folderStructures: FolderStructure[], 
-    rootDocuments: QuipDocument[]
-  ): Promise<DocumentWithPath[]> {
-    const allDocuments: DocumentWithPath[] = [];
-
-    // Add root-level documents
-    for (const doc of rootDocuments) {
-      const folderPath = await this.getDocumentFolderPath(doc);
-      allDocuments.push({
-        document: doc,
-        folderPath,
-        isShared: this.isDocumentShared(doc)
-      });
-    }
+  private collectAllDocuments(folderStructures: FolderStructure[]): DocumentWithPath[] {
+    const documentsById = new Map<string, DocumentWithPath>();
 
-    // Recursively collect documents from folder structures
     const collectFromStructure = (structure: FolderStructure) => {
-      allDocuments.push(...structure.documents);
+      for (const entry of structure.documents) {
+        const existing = documentsById.get(entry.document.id);
+        if (!existing) {
+          documentsById.set(entry.document.id, { ...entry, folderPaths: [entry.folderPath] });
+        } else if (!existing.folderPaths!.includes(entry.folderPath)) {
+          existing.folderPaths!.push(entry.folderPath);
+        }
+      }
       structure.children.forEach(collectFromStructure);
     };
 
     folderStructures.forEach(collectFromStructure);
 
-    return allDocuments;
+    for (const [documentId, entry] of documentsById) {
+      this.documentFolderPaths.set(documentId, entry.folderPaths!);
+    }
+
+    return Array.from(documentsById.values());
   }
 
   /**
@@ -835,81 +1117,63 @@ export class DocumentDiscovery {
   }
 
   /**
-   * Get folder path for a document
+   * Get folder path for a document, from discovery or from the folders the
+   * API reported it in
    */
-  private async getDocumentFolderPath(_document: QuipDocument): Promise<string> {
-    // This is a simplified implementation
-    // In practice, you might need to traverse the folder hierarchy to build the full path
+  private async getDocumentFolderPath(document: QuipDocument): Promise<string> {
+    const discoveredPaths = this.documentFolderPaths.get(document.id);
+    if (discoveredPaths && discoveredPaths.length > 0) {
+      return discoveredPaths[0];
+    }
+
+    const folderIds = this.documentFolderIds.get(document.id) || [];
+    for (const folderId of folderIds) {
+      const folderPath = await this.getFolderPath(folderId);
+      if (folderPath) {
+        return folderPath;
+      }
+    }
+
     return 'Documents'; // Default folder path
   }
 
   /**
-   * Get folder path by folder ID
+   * Get the full folder path by folder ID, following parent folders up to the root
    */
   private async getFolderPath(folderId: string): Promise<string> {
-    const folder = this.folderCache.get(folderId);
-    return folder ? folder.title : 'Unknown Folder';
-  }
-
-  /**
-   * Create virtual folder structure when no real folders are available
-   */
-  private createVirtualFolderStructure(documents: QuipDocument[]): FolderStructure[] {
-    const structures: FolderStructure[] = [];
-    
-    // Group documents by type
-    const documentsByType: { [key: string]: QuipDocument[] } = {};
-    documents.forEach(doc => {
-      const type = doc.type || 'DOCUMENT';
-      if (!documentsByType[type]) {
-        documentsByType[type] = [];
+    const titles: string[] = [];
+    const visited = new Set<string>();
+    let currentId: string | undefined = folderId;
+    let prefix = '';
+
+    while (currentId && !visited.has(currentId)) {
+      visited.add(currentId);
+
+      const cachedPath = this.folderPathCache.get(currentId);
+      if (cachedPath !== undefined) {
+        prefix = cachedPath;
+        break;
       }
-      documentsByType[type].push(doc);
-    });
-
-    // Create virtual folders for each document type
-    Object.entries(documentsByType).forEach(([type, docs]) => {
-      const folderName = this.getTypeDisplayName(type);
-      const virtualFolder: QuipFolder = {
-        id: `virtual-${type.toLowerCase()}`,
-        title: folderName,
-        created_usec: Date.now() * 1000,
-        updated_usec: Date.now() * 1000,
-        children: [],
-        member_ids: []
-      };
-
-      const documentsWithPath: DocumentWithPath[] = docs.map(doc => ({
-        document: doc,
-        folderPath: folderName,
-        isShared: this.isDocumentShared(doc)
-      }));
-
-      const structure: FolderStructure = {
-        folder: virtualFolder,
-        path: folderName,
-        children: [],
-        documents: documentsWithPath
-      };
 
-      structures.push(structure);
-    });
-
-    // Note: Removed "Recent Documents" folder as requested - focus only on user's own documents
+      let folder: QuipFolder;
+      try {
+        folder = await this.getFolderMetadata(currentId);
+      } catch (error) {
+        this.logger.warn(`Failed to resolve parent folder ${currentId}:`, error);
+        break;
+      }
 
-    return structures;
-  }
+      titles.unshift(folder.title);
+      currentId = folder.parent_id;
+    }
 
-  /**
-   * Get display name for document type
-   */
-  private getTypeDisplayName(type: string): string {
-    switch (type.toUpperCase()) {
-      case 'DOCUMENT': return 'Documents';
-      case 'SPREADSHEET': return 'Spreadsheets';
-      case 'CHAT': return 'Chat Rooms';
-      default: return 'Other';
+    const folderPath = [prefix, ...titles].filter(Boolean).join('/');
+    if (!folderPath) {
+      return 'Unknown Folder';
     }
+
+    this.folderPathCache.set(folderId, folderPath);
+    return folderPath;
   }
 
   /**
@@ -918,6 +1182,11 @@ export class DocumentDiscovery {
   clearCache(): void {
     this.documentCache.clear();
     this.folderCache.clear();
+    this.folderContentsCache.clear();
+    this.folderPathCache.clear();
+    this.documentFolderPaths.clear();
+    this.documentFolderIds.clear();
+    this.userCache.clear();
     this.logger.debug('Document discovery cache cleared');
   }
 }
\ No newline at end of file
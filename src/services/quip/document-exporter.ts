@@ -3,21 +3,41 @@ import { QuipDocument, DocumentExport, Logger } from '../../types';
 import { DocumentWithPath } from './document-discovery';
 import { FormatConverterRegistry } from './format-converters';
 import { FormatValidator, FormatValidationResult } from '../../core/format-validator';
+import { AssetExportOptions, BlobAssetManager, ExportedAsset } from './blob-assets';
+import { CommentExporter, CommentExportResult } from './comment-exporter';
+import { ChatExporter, ChatTranscriptOptions, ChatTranscriptResult, renderChatTranscriptHtml } from './chat-exporter';
+import { renderFrontMatter } from './document-metadata';
+import { StandaloneHtmlRenderer } from './standalone-html';
+import type { ExportedSheet } from './format-converters';
+import type { DownloadedFile, StreamDownloadOptions, StreamedDownload } from './types';
+import type { ExportFormat } from '../../core/export-types';
 
 export interface ExportOptions {
-  preferredFormat?: 'native' | 'html' | 'markdown';
+  preferredFormat?: 'native' | 'html' | 'markdown' | 'csv' | 'json' | 'html-standalone';
   fallbackToHtml: boolean;
   includeMetadata: boolean;
   outputDirectory?: string;
+  folderPath?: string; // Quip folder of the document, recorded in Markdown front matter
+  navigationPath?: string; // Folder of the document below the export root, for html-standalone breadcrumbs
   formatSpecificOptions?: {
     markdown?: MarkdownOptions;
+    spreadsheet?: SpreadsheetOptions;
   };
+  assets?: AssetExportOptions; // Download embedded images and attachments for HTML-based formats
+  chat?: ChatTranscriptOptions; // Export chats as day-grouped transcripts of their messages
+  download?: StreamDownloadOptions; // Stream large DOCX and XLSX exports to a temp file instead of memory
 }
 
 export interface MarkdownOptions {
   imageHandling: 'inline' | 'separate' | 'skip';
   preserveComments: boolean;
-  frontMatter: boolean;
+  frontMatter: boolean; // Start the file with YAML front matter holding the Quip metadata
+  headingStyle?: 'atx' | 'setext'; // '# Heading' (default) or underlined headings
+  bulletMarker?: '-' | '*' | '+'; // Marker for unordered list items (default: '-')
+}
+
+export interface SpreadsheetOptions {
+  headerRow?: boolean; // Treat the first row of each sheet as column names (default: true)
 }
 
 export interface ExportResult {
@@ -27,8 +47,21 @@ export interface ExportResult {
   format: string;
   filePath?: string;
   content?: Buffer;
+  file?: DownloadedFile; // Streamed DOCX or XLSX export, set instead of content
   error?: string;
   metadata?: QuipDocument;
+  assets?: ExportedAsset[];
+  sheets?: ExportedSheet[]; // One file per sheet for CSV and JSON exports; content holds the first
+}
+
+interface FormatExportOutcome {
+  success: boolean;
+  format: string;
+  content?: Buffer;
+  file?: DownloadedFile;
+  error?: string;
+  assets?: ExportedAsset[];
+  sheets?: ExportedSheet[];
 }
 
 export interface BatchExportResult {
@@ -49,14 +82,22 @@ export class DocumentExporter {
   private readonly apiClient: QuipApiClient;
   private readonly logger: Logger;
   private readonly formatConverters: FormatConverterRegistry;
+  private readonly blobAssets: BlobAssetManager;
+  private readonly commentExporter: CommentExporter;
+  private readonly chatExporter: ChatExporter;
+  private readonly standaloneHtml: StandaloneHtmlRenderer;
 
   private readonly formatValidator: FormatValidator;
 
   constructor(apiClient: QuipApiClient, logger: Logger, formatConverters?: FormatConverterRegistry) {
     this.apiClient = apiClient;
     this.logger = logger;
-    this.formatConverters = formatConverters || new FormatConverterRegistry();
+    this.formatConverters = formatConverters || FormatConverterRegistry.createDefault();
     this.formatValidator = new FormatValidator();
+    this.blobAssets = new BlobAssetManager(apiClient, logger);
+    this.commentExporter = new CommentExporter(apiClient, logger);
+    this.chatExporter = new ChatExporter(apiClient, logger);
+    this.standaloneHtml = new StandaloneHtmlRenderer(apiClient, logger);
   }
 
   /**
@@ -111,6 +152,7 @@ export class DocumentExporter {
 
     try {
       // Validate format compatibility first
+      let degradeToHtml = false;
       const validation = await this.validateExportOptions(options, [document.type]);
       if (!validation.valid) {
         // Check if graceful degradation is possible
@@ -123,7 +165,7 @@ export class DocumentExporter {
         // If fallback is enabled and degradation options exist, try fallback
         if (options.fallbackToHtml && degradationOptions[preferredFormat]?.includes('html')) {
           this.logger.warn(`Format ${preferredFormat} not available for ${document.title}, attempting graceful degradation to HTML`);
-          // Continue with HTML export
+          degradeToHtml = true;
         } else {
           return {
             success: false,
@@ -136,17 +178,21 @@ export class DocumentExporter {
       }
 
       // Determine the best export format based on document type and preferences
-      const exportFormat = this.determineExportFormat(document, preferredFormat);
+      const exportFormat = degradeToHtml ? 'html' : this.determineExportFormat(document, preferredFormat);
       
       // Attempt to export in the determined format
-      let exportResult = await this.exportInFormat(document, exportFormat, options.formatSpecificOptions);
+      let exportResult = await this.exportInFormat(document, exportFormat, options);
 
       // If export failed and fallback is enabled, try fallback format
       if (!exportResult.success && options.fallbackToHtml && exportFormat !== 'html') {
         // Use HTML as fallback
-        const fallbackFormat: 'docx' | 'html' | 'xlsx' | 'markdown' = 'html';
+        const fallbackFormat: ExportFormat = 'html';
         this.logger.warn(`${exportFormat.toUpperCase()} export failed for ${document.title}, falling back to ${fallbackFormat.toUpperCase()}`);
-        exportResult = await this.exportInFormat(document, fallbackFormat);
+        // Options of the requested format do not apply to HTML, the folder context does
+        exportResult = await this.exportInFormat(document, fallbackFormat, {
+          ...options,
+          formatSpecificOptions: undefined
+        });
       }
 
       if (exportResult.success) {
@@ -158,7 +204,10 @@ export class DocumentExporter {
           title: document.title,
           format: exportResult.format, // Return actual format used
           content: exportResult.content,
-          metadata: options.includeMetadata ? document : undefined
+          file: exportResult.file,
+          metadata: options.includeMetadata ? document : undefined,
+          assets: exportResult.assets,
+          sheets: exportResult.sheets
         };
       } else {
         this.logger.error(`Failed to export ${document.title}: ${exportResult.error}`);
@@ -186,6 +235,43 @@ export class DocumentExporter {
     }
   }
 
+  /**
+   * Export the comments and conversation messages of a document
+   */
+  async exportComments(document: QuipDocument): Promise<CommentExportResult> {
+    try {
+      return await this.commentExporter.exportComments(document);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Comment export error for ${document.title}`, { error: errorMessage });
+
+      return {
+        success: false,
+        documentId: document.id,
+        comments: [],
+        error: errorMessage
+      };
+    }
+  }
+
+  /**
+   * Export the messages of a chat as a JSON transcript
+   */
+  async exportChatTranscript(document: QuipDocument, options?: ChatTranscriptOptions): Promise<ChatTranscriptResult> {
+    try {
+      return await this.chatExporter.exportTranscript(document, options);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.logger.error(`Chat transcript export error for ${document.title}`, { error: errorMessage });
+
+      return {
+        success: false,
+        documentId: document.id,
+        error: errorMessage
+      };
+    }
+  }
+
   /**
    * Export multiple documents in batch
    */
@@ -277,7 +363,15 @@ export class DocumentExporter {
   /**
    * Determine the best export format for a document
    */
-  private determineExportFormat(document: QuipDocument, preferredFormat: string): 'docx' | 'html' | 'xlsx' | 'markdown' {
+  private determineExportFormat(
+    document: QuipDocument,
+    preferredFormat: string
+  ): ExportFormat {
+    // Every document type can be wrapped in a standalone page
+    if (preferredFormat === 'html-standalone') {
+      return 'html-standalone';
+    }
+
     switch (document.type) {
       case 'DOCUMENT':
         // Documents support DOCX, HTML, and Markdown
@@ -287,9 +381,9 @@ export class DocumentExporter {
         return 'docx'; // Default for documents
       
       case 'SPREADSHEET':
-        // Spreadsheets support XLSX and HTML
-        if (preferredFormat === 'xlsx' || preferredFormat === 'html') {
-          return preferredFormat as 'xlsx' | 'html';
+        // Spreadsheets support XLSX, HTML, and per-sheet CSV and JSON
+        if (['xlsx', 'html', 'csv', 'json'].includes(preferredFormat)) {
+          return preferredFormat as 'xlsx' | 'html' | 'csv' | 'json';
         }
         return 'xlsx'; // Default for spreadsheets
       
@@ -321,28 +415,42 @@ export class DocumentExporter {
   }
 
   /**
-   * Export document in specific format
+   * Export document in specific format, with the format-specific, asset,
+   * folder, chat and download settings of the export options
    */
   private async exportInFormat(
     document: QuipDocument, 
-    format: 'docx' | 'html' | 'xlsx' | 'markdown',
-    formatOptions?: { markdown?: MarkdownOptions }
-  ): Promise<{ success: boolean; format: string; content?: Buffer; error?: string }> {
+    format: ExportFormat,
+    options: ExportOptions
+  ): Promise<FormatExportOutcome> {
     try {
       switch (format) {
         case 'docx':
-          return await this.exportAsDocx(document);
+          return await this.exportAsDocx(document, options.download);
         
         case 'xlsx':
-          return await this.exportAsXlsx(document);
+          return await this.exportAsXlsx(document, options.download);
         
         case 'html':
-          return await this.exportAsHtml(document);
+          return await this.exportAsHtml(document, options.assets, options.chat);
         
 
         
         case 'markdown':
-          return await this.exportAsMarkdown(document, formatOptions?.markdown);
+          return await this.exportAsMarkdown(
+            document,
+            options.formatSpecificOptions?.markdown,
+            options.assets,
+            options.folderPath,
+            options.chat
+          );
+
+        case 'csv':
+        case 'json':
+          return await this.exportAsSheets(document, format, options.formatSpecificOptions?.spreadsheet);
+
+        case 'html-standalone':
+          return await this.exportAsStandaloneHtml(document, options.navigationPath, options.chat);
         
         default:
           return {
@@ -361,9 +469,9 @@ export class DocumentExporter {
   }
 
   /**
-   * Export document as DOCX
+   * Export document as DOCX, streamed to a temp file when download options are given
    */
-  private async exportAsDocx(document: QuipDocument): Promise<{ success: boolean; format: string; content?: Buffer; error?: string }> {
+  private async exportAsDocx(document: QuipDocument, download?: StreamDownloadOptions): Promise<FormatExportOutcome> {
     if (document.type !== 'DOCUMENT') {
       return {
         success: false,
@@ -372,6 +480,11 @@ export class DocumentExporter {
       };
     }
 
+    if (download) {
+      const streamed = await this.apiClient.streamDocumentDocx(document.id, download);
+      return this.toStreamedOutcome('docx', streamed.data, streamed.error);
+    }
+
     const response = await this.apiClient.exportDocumentDocx(document.id);
     
     if (response.success && response.data) {
@@ -390,9 +503,9 @@ export class DocumentExporter {
   }
 
   /**
-   * Export document as XLSX
+   * Export document as XLSX, streamed to a temp file when download options are given
    */
-  private async exportAsXlsx(document: QuipDocument): Promise<{ success: boolean; format: string; content?: Buffer; error?: string }> {
+  private async exportAsXlsx(document: QuipDocument, download?: StreamDownloadOptions): Promise<FormatExportOutcome> {
     if (document.type !== 'SPREADSHEET') {
       return {
         success: false,
@@ -401,6 +514,11 @@ export class DocumentExporter {
       };
     }
 
+    if (download) {
+      const streamed = await this.apiClient.streamSpreadsheetXlsx(document.id, download);
+      return this.toStreamedOutcome('xlsx', streamed.data, streamed.error);
+    }
+
     const response = await this.apiClient.exportSpreadsheetXlsx(document.id);
     
     if (response.success && response.data) {
@@ -419,18 +537,55 @@ export class DocumentExporter {
   }
 
   /**
-   * Export document as HTML
+   * Turn a download that was read into memory or streamed to a temp file into an export outcome
+   */
+  private toStreamedOutcome(format: 'docx' | 'xlsx', download?: StreamedDownload, error?: string): FormatExportOutcome {
+    if (download?.data || download?.file) {
+      return {
+        success: true,
+        format,
+        content: download.data,
+        file: download.file
+      };
+    }
+
+    return {
+      success: false,
+      format,
+      error: error || `${format.toUpperCase()} export failed`
+    };
+  }
+
+  /**
+   * Export document as HTML, downloading embedded blobs when asset options are given.
+   * Chats are rendered from their messages when transcript options are given.
    */
-  private async exportAsHtml(document: QuipDocument): Promise<{ success: boolean; format: string; content?: Buffer; error?: string }> {
+  private async exportAsHtml(
+    document: QuipDocument,
+    assetOptions?: AssetExportOptions,
+    chatOptions?: ChatTranscriptOptions
+  ): Promise<FormatExportOutcome> {
     // Use secret_path for HTML export as it works with V2 API
     const identifier = document.secret_path || document.id;
-    const response = await this.apiClient.exportDocumentHtml(identifier);
+    const response = document.type === 'CHAT' && chatOptions
+      ? await this.getChatTranscriptHtml(document, chatOptions)
+      : await this.apiClient.exportDocumentHtml(identifier);
     
     if (response.success && response.data) {
+      if (!assetOptions) {
+        return {
+          success: true,
+          format: 'html',
+          content: Buffer.from(response.data, 'utf-8')
+        };
+      }
+
+      const localized = await this.blobAssets.localizeHtml(response.data, document.id, assetOptions);
       return {
         success: true,
         format: 'html',
-        content: Buffer.from(response.data, 'utf-8')
+        content: Buffer.from(localized.html, 'utf-8'),
+        assets: localized.assets
       };
     }
 
@@ -443,12 +598,32 @@ export class DocumentExporter {
 
 
 
+  /**
+   * Render a chat transcript in place of the HTML export of a chat
+   */
+  private async getChatTranscriptHtml(
+    document: QuipDocument,
+    chatOptions: ChatTranscriptOptions
+  ): Promise<{ success: boolean; data?: string; error?: string }> {
+    const result = await this.chatExporter.exportTranscript(document, chatOptions);
+    if (!result.success || !result.transcript) {
+      return { success: false, error: result.error || 'Chat transcript export failed' };
+    }
+    return { success: true, data: renderChatTranscriptHtml(result.transcript) };
+  }
+
   /**
    * Export document as Markdown (converted from HTML)
    */
-  private async exportAsMarkdown(document: QuipDocument, options?: MarkdownOptions): Promise<{ success: boolean; format: string; content?: Buffer; error?: string }> {
-    // First get HTML content
-    const htmlResult = await this.exportAsHtml(document);
+  private async exportAsMarkdown(
+    document: QuipDocument,
+    options?: MarkdownOptions,
+    assetOptions?: AssetExportOptions,
+    folderPath?: string,
+    chatOptions?: ChatTranscriptOptions
+  ): Promise<FormatExportOutcome> {
+    // First get HTML content, with blob references already pointing at local files
+    const htmlResult = await this.exportAsHtml(document, assetOptions, chatOptions);
     
     if (!htmlResult.success || !htmlResult.content) {
       return {
@@ -468,10 +643,15 @@ export class DocumentExporter {
       );
 
       if (conversionResult.success && conversionResult.content) {
+        const content = options?.frontMatter
+          ? Buffer.concat([Buffer.from(renderFrontMatter(document, folderPath), 'utf-8'), conversionResult.content])
+          : conversionResult.content;
+
         return {
           success: true,
           format: 'markdown',
-          content: conversionResult.content
+          content,
+          assets: htmlResult.assets
         };
       } else {
         return {
@@ -489,6 +669,83 @@ export class DocumentExporter {
     }
   }
 
+  /**
+   * Export document as a self-contained HTML page with embedded styling and images
+   */
+  private async exportAsStandaloneHtml(
+    document: QuipDocument,
+    navigationPath?: string,
+    chatOptions?: ChatTranscriptOptions
+  ): Promise<FormatExportOutcome> {
+    // Images are inlined instead of downloaded, so no asset options are passed
+    const htmlResult = await this.exportAsHtml(document, undefined, chatOptions);
+
+    if (!htmlResult.success || !htmlResult.content) {
+      return {
+        success: false,
+        format: 'html-standalone',
+        error: `Failed to get HTML for standalone page: ${htmlResult.error}`
+      };
+    }
+
+    const page = await this.standaloneHtml.render(document, htmlResult.content.toString('utf-8'), navigationPath);
+    return {
+      success: true,
+      format: 'html-standalone',
+      content: Buffer.from(page, 'utf-8')
+    };
+  }
+
+  /**
+   * Export each sheet of a spreadsheet as CSV or JSON (converted from HTML)
+   */
+  private async exportAsSheets(
+    document: QuipDocument,
+    format: 'csv' | 'json',
+    options?: SpreadsheetOptions
+  ): Promise<FormatExportOutcome> {
+    if (document.type !== 'SPREADSHEET') {
+      return {
+        success: false,
+        format,
+        error: `${format.toUpperCase()} export not supported for document type: ${document.type}`
+      };
+    }
+
+    // Cell values are all that is kept, so embedded assets are not downloaded
+    const htmlResult = await this.exportAsHtml(document);
+
+    if (!htmlResult.success || !htmlResult.content) {
+      return {
+        success: false,
+        format,
+        error: `Failed to get HTML for ${format.toUpperCase()} conversion: ${htmlResult.error}`
+      };
+    }
+
+    const conversionResult = await this.formatConverters.convert(
+      document.type,
+      format,
+      htmlResult.content.toString('utf-8'),
+      options
+    );
+
+    if (!conversionResult.success || !conversionResult.content) {
+      return {
+        success: false,
+        format,
+        error: conversionResult.error || `${format.toUpperCase()} conversion failed`
+      };
+    }
+
+    return {
+      success: true,
+      format,
+      content: conversionResult.content,
+      sheets: conversionResult.metadata?.sheets as ExportedSheet[] | undefined
+    };
+  }
+
   /**
    * Get file extension for export format
    */
@@ -506,10 +763,15 @@ export class DocumentExporter {
       case 'xlsx':
         return '.xlsx';
       case 'html':
+      case 'html-standalone':
         return '.html';
 
       case 'markdown':
         return '.md';
+      case 'csv':
+        return '.csv';
+      case 'json':
+        return '.json';
       default:
         return '.txt';
     }
@@ -532,10 +794,15 @@ export class DocumentExporter {
       case 'xlsx':
         return 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
       case 'html':
+      case 'html-standalone':
         return 'text/html';
 
       case 'markdown':
         return 'text/markdown';
+      case 'csv':
+        return 'text/csv';
+      case 'json':
+        return 'application/json';
       default:
         return 'text/plain';
     }
@@ -568,13 +835,13 @@ export class DocumentExporter {
   isValidExportFormat(documentType: string, format: string): boolean {
     switch (documentType.toUpperCase()) {
       case 'DOCUMENT':
-        return ['native', 'html', 'markdown'].includes(format.toLowerCase());
+        return ['native', 'html', 'markdown', 'html-standalone'].includes(format.toLowerCase());
       case 'SPREADSHEET':
-        return ['native', 'html'].includes(format.toLowerCase());
+        return ['native', 'html', 'csv', 'json', 'html-standalone'].includes(format.toLowerCase());
       case 'CHAT':
-        return ['native', 'html', 'markdown'].includes(format.toLowerCase());
+        return ['native', 'html', 'markdown', 'html-standalone'].includes(format.toLowerCase());
       default:
-        return ['html'].includes(format.toLowerCase());
+        return ['html', 'html-standalone'].includes(format.toLowerCase());
     }
   }
 
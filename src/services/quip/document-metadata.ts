@@ -0,0 +1,55 @@
+import { QuipDocument } from '../../types';
+import { usecToIso } from './format-utils';
+
+export interface DocumentMetadata extends QuipDocument {
+  created?: string; // ISO 8601
+  updated?: string;
+  folder_path?: string; // Quip folder the document was exported from
+}
+
+/**
+ * Collect the Quip fields recorded with an exported document
+ */
+export function buildDocumentMetadata(document: QuipDocument, folderPath?: string): DocumentMetadata {
+  return {
+    ...document,
+    created: document.created_usec ? usecToIso(document.created_usec) : undefined,
+    updated: document.updated_usec ? usecToIso(document.updated_usec) : undefined,
+    folder_path: folderPath
+  };
+}
+
+/**
+ * Render YAML front matter for the start of a Markdown file. Strings are
+ * written as double-quoted scalars, which JSON string syntax is valid for.
+ */
+export function renderFrontMatter(document: QuipDocument, folderPath?: string): string {
+  const metadata = buildDocumentMetadata(document, folderPath);
+  const fields: [string, string | undefined][] = [
+    ['id', metadata.id],
+    ['title', metadata.title],
+    ['link', metadata.link],
+    ['author_id', metadata.author_id],
+    ['created', metadata.created],
+    ['updated', metadata.updated],
+    ['type', metadata.type],
+    ['folder_path', metadata.folder_path]
+  ];
+
+  const lines = ['---'];
+  for (const [key, value] of fields) {
+    if (value) {
+      lines.push(`${key}: ${JSON.stringify(value)}`);
+    }
+  }
+  lines.push('---', '');
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Render the `<name>.meta.json` sidecar written next to non-Markdown exports
+ */
+export function renderMetadataSidecar(document: QuipDocument, folderPath?: string): Buffer {
+  return Buffer.from(JSON.stringify(buildDocumentMetadata(document, folderPath), null, 2), 'utf-8');
+}
@@ -0,0 +1,112 @@
+// https://quip.com/<folder id>[/<title slug>], also on company domains
+const QUIP_FOLDER_URL_PATTERN = /^https?:\/\/(?:[a-z0-9-]+\.)*quip(?:-[a-z0-9-]+)?\.com\/([A-Za-z0-9]+)(?:[/?#].*)?$/i;
+const FOLDER_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export interface FolderSelectionOptions {
+  includeFolders?: string[]; // Folder IDs or URLs to start discovery from
+  excludeFolders?: string[]; // Folder IDs or URLs whose subtrees are skipped
+  excludePatterns?: string[]; // Glob patterns of folder paths to skip, e.g. "Archive/**"
+}
+
+/**
+ * Extract the folder ID from a folder ID or a Quip folder URL
+ */
+export function parseFolderReference(reference: string): string | undefined {
+  const value = reference.trim();
+
+  const match = value.match(QUIP_FOLDER_URL_PATTERN);
+  if (match) {
+    return match[1];
+  }
+
+  return FOLDER_ID_PATTERN.test(value) ? value : undefined;
+}
+
+/**
+ * Convert a glob pattern over folder paths to a regular expression. `*` and
+ * `?` stay within one folder name, `**` spans any number of folders, and a
+ * trailing `/**` also matches the folder itself so its whole subtree is pruned.
+ */
+export function folderPatternToRegExp(pattern: string): RegExp {
+  const normalized = pattern.trim().replace(/\\/g, '/').replace(/^\/+|\/+$/g, '');
+  let source = '';
+
+  for (let i = 0; i < normalized.length; i++) {
+    const char = normalized[i];
+
+    if (char === '*' && normalized[i + 1] === '*') {
+      const atStart = i === 0 || normalized[i - 1] === '/';
+      const atEnd = i + 2 === normalized.length;
+
+      if (atStart && normalized[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else if (atEnd && i > 0 && normalized[i - 1] === '/') {
+        source = source.slice(0, -1) + '(?:/.*)?';
+        i += 1;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Decides which folders document discovery starts from and which subtrees it skips
+ */
+export class FolderSelection {
+  readonly includeFolderIds: string[];
+  private readonly excludeFolderIds: Set<string>;
+  private readonly excludePatterns: RegExp[];
+
+  constructor(options: FolderSelectionOptions = {}) {
+    this.includeFolderIds = this.parseReferences(options.includeFolders);
+    this.excludeFolderIds = new Set(this.parseReferences(options.excludeFolders));
+    this.excludePatterns = (options.excludePatterns || [])
+      .filter(pattern => pattern.trim())
+      .map(pattern => folderPatternToRegExp(pattern));
+  }
+
+  /**
+   * Whether discovery is limited to the included folders
+   */
+  hasIncludedFolders(): boolean {
+    return this.includeFolderIds.length > 0;
+  }
+
+  /**
+   * Whether a folder and everything below it should be skipped
+   */
+  isExcluded(folderId: string, folderPath: string): boolean {
+    if (this.excludeFolderIds.has(folderId)) {
+      return true;
+    }
+
+    return folderPath !== '' && this.excludePatterns.some(pattern => pattern.test(folderPath));
+  }
+
+  private parseReferences(references: string[] = []): string[] {
+    const folderIds: string[] = [];
+
+    for (const reference of references) {
+      const folderId = parseFolderReference(reference);
+      if (!folderId) {
+        throw new Error(`Invalid folder ID or URL: ${reference}`);
+      }
+      if (!folderIds.includes(folderId)) {
+        folderIds.push(folderId);
+      }
+    }
+
+    return folderIds;
+  }
+}
@@ -3,4 +3,6 @@
  */
 
 export { IFormatConverter, ConversionResult, FormatConverterOptions } from './interfaces';
-export { FormatConverterRegistry } from './registry';
\ No newline at end of file
+export { FormatConverterRegistry } from './registry';
+export { QuipMarkdownConverter } from './markdown-converter';
+export { QuipSpreadsheetConverter, ExportedSheet } from './spreadsheet-converter';
\ No newline at end of file
@@ -0,0 +1,529 @@
+import * as cheerio from 'cheerio';
+import type { AnyNode, Element, Text } from 'domhandler';
+import { IFormatConverter, ConversionResult } from './interfaces';
+import type { MarkdownOptions } from '../document-exporter';
+
+/**
+ * Quip section style used on the wrapper of checklist lists
+ */
+const QUIP_CHECKLIST_SECTION_STYLE = '7';
+
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'title', 'meta', 'link', 'template']);
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'dd', 'div', 'dl', 'dt', 'figcaption',
+  'figure', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'html', 'li', 'main',
+  'nav', 'ol', 'p', 'pre', 'section', 'table', 'ul'
+]);
+
+// Placeholder for <br> while whitespace is being collapsed; replaced once the text is final
+const LINE_BREAK = '\u0000';
+
+/**
+ * Converts the HTML returned by Quip's export endpoint into GitHub-flavored Markdown
+ */
+export class QuipMarkdownConverter implements IFormatConverter {
+  canConvert(documentType: string, targetFormat: string): boolean {
+    return targetFormat === 'markdown' && ['DOCUMENT', 'CHAT'].includes(documentType.toUpperCase());
+  }
+
+  async convert(content: string | Buffer, options?: Partial<MarkdownOptions>): Promise<ConversionResult> {
+    try {
+      const html = Buffer.isBuffer(content) ? content.toString('utf-8') : content;
+      const markdown = this.convertHtml(html, options);
+
+      return {
+        success: true,
+        format: 'markdown',
+        content: Buffer.from(markdown, 'utf-8')
+      };
+    } catch (error) {
+      return {
+        success: false,
+        format: 'markdown',
+        error: `Markdown conversion failed: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+  }
+
+  getSupportedFormats(): string[] {
+    return ['markdown'];
+  }
+
+  getName(): string {
+    return 'quip-markdown';
+  }
+
+  /**
+   * Convert an HTML string to Markdown text
+   */
+  convertHtml(html: string, options: Partial<MarkdownOptions> = {}): string {
+    const $ = cheerio.load(html);
+    const body = $('body').get(0);
+    if (!body) {
+      return '';
+    }
+
+    const renderer = new MarkdownRenderer(options);
+    const markdown = renderer.renderBlocks(body.children).join('\n\n');
+
+    return markdown.replace(/\n{3,}/g, '\n\n').trim() + '\n';
+  }
+}
+
+/**
+ * Walks the parsed HTML tree and produces Markdown blocks
+ */
+class MarkdownRenderer {
+  private readonly headingStyle: 'atx' | 'setext';
+  private readonly bulletMarker: '-' | '*' | '+';
+  private readonly skipImages: boolean;
+
+  constructor(options: Partial<MarkdownOptions>) {
+    this.headingStyle = options.headingStyle || 'atx';
+    this.bulletMarker = options.bulletMarker || '-';
+    this.skipImages = options.imageHandling === 'skip';
+  }
+
+  /**
+   * Render a sequence of sibling nodes as Markdown blocks
+   */
+  renderBlocks(nodes: AnyNode[]): string[] {
+    const blocks: string[] = [];
+    let inlineRun: AnyNode[] = [];
+
+    const flushInline = (): void => {
+      const paragraph = this.finishInline(this.renderInline(inlineRun), false);
+      if (paragraph) {
+        blocks.push(this.escapeLineStart(paragraph));
+      }
+      inlineRun = [];
+    };
+
+    for (const node of nodes) {
+      if (isElement(node) && SKIPPED_TAGS.has(node.tagName)) {
+        continue;
+      }
+
+      if (isElement(node) && BLOCK_TAGS.has(node.tagName)) {
+        flushInline();
+        const block = this.renderBlock(node);
+        if (Array.isArray(block)) {
+          blocks.push(...block);
+        } else if (block) {
+          blocks.push(block);
+        }
+      } else {
+        inlineRun.push(node);
+      }
+    }
+
+    flushInline();
+    return blocks;
+  }
+
+  private renderBlock(element: Element): string | string[] {
+    const tag = element.tagName;
+
+    switch (tag) {
+      case 'h1':
+      case 'h2':
+      case 'h3':
+      case 'h4':
+      case 'h5':
+      case 'h6':
+        return this.renderHeading(element, parseInt(tag.charAt(1), 10));
+
+      case 'p': {
+        const paragraph = this.finishInline(this.renderInline(element.children), false);
+        return paragraph ? this.escapeLineStart(paragraph) : '';
+      }
+
+      case 'ul':
+      case 'ol':
+        return this.renderList(element, '');
+
+      case 'pre':
+        return this.renderCodeBlock(element);
+
+      case 'blockquote':
+        return this.renderBlocks(element.children)
+          .join('\n\n')
+          .split('\n')
+          .map(line => (line ? `> ${line}` : '>'))
+          .join('\n');
+
+      case 'table':
+        return this.renderTable(element);
+
+      case 'hr':
+        return '---';
+
+      default:
+        // Generic containers (div, section, ...) contribute their children as blocks
+        return this.renderBlocks(element.children);
+    }
+  }
+
+  private renderHeading(element: Element, level: number): string {
+    const text = this.finishInline(this.renderInline(element.children), false).replace(/\n+/g, ' ');
+    if (!text) {
+      return '';
+    }
+
+    if (this.headingStyle === 'setext' && level <= 2) {
+      const underline = (level === 1 ? '=' : '-').repeat(Math.max(3, text.length));
+      return `${text}\n${underline}`;
+    }
+
+    return `${'#'.repeat(level)} ${text}`;
+  }
+
+  private renderList(list: Element, indent: string): string {
+    const ordered = list.tagName === 'ol';
+    const checklist = isChecklist(list);
+    const lines: string[] = [];
+    let counter = parseInt(list.attribs.start || '1', 10) || 1;
+    let lastMarkerWidth = ordered ? 3 : 2;
+
+    for (const child of list.children) {
+      if (!isElement(child)) {
+        continue;
+      }
+
+      // Quip nests lists as siblings of the parent item rather than inside it
+      if (child.tagName === 'ul' || child.tagName === 'ol') {
+        const nested = this.renderList(child, indent + ' '.repeat(lastMarkerWidth));
+        if (nested) {
+          lines.push(nested);
+        }
+        continue;
+      }
+
+      if (child.tagName !== 'li') {
+        continue;
+      }
+
+      const marker = ordered ? `${counter++}.` : this.bulletMarker;
+      lastMarkerWidth = marker.length + 1;
+      const childIndent = indent + ' '.repeat(lastMarkerWidth);
+
+      const contentNodes = child.children.filter(
+        node => !(isElement(node) && (node.tagName === 'ul' || node.tagName === 'ol'))
+      );
+      const nestedLists = child.children.filter(
+        (node): node is Element => isElement(node) && (node.tagName === 'ul' || node.tagName === 'ol')
+      );
+
+      const checkbox = this.getCheckbox(child, checklist);
+      const text = this.renderBlocks(contentNodes)
+        .join('\n\n')
+        .split('\n')
+        .map((line, index) => (index === 0 || !line ? line : childIndent + line))
+        .join('\n');
+
+      lines.push(`${indent}${marker} ${checkbox}${text}`.trimEnd());
+
+      for (const nested of nestedLists) {
+        const rendered = this.renderList(nested, childIndent);
+        if (rendered) {
+          lines.push(rendered);
+        }
+      }
+    }
+
+    return lines.join('\n');
+  }
+
+  private getCheckbox(item: Element, checklist: boolean): string {
+    const input = findDescendant(
+      item,
+      node => node.tagName === 'input' && (node.attribs.type || '').toLowerCase() === 'checkbox'
+    );
+    const classes = (item.attribs.class || '').split(/\s+/);
+
+    if (!checklist && !input && !classes.includes('checked')) {
+      return '';
+    }
+
+    const checked = classes.includes('checked') || (input !== undefined && input.attribs.checked !== undefined);
+    return checked ? '[x] ' : '[ ] ';
+  }
+
+  private renderCodeBlock(element: Element): string {
+    const code = collectPreformattedText(element).replace(/\n+$/, '');
+    const longestRun = Math.max(0, ...(code.match(/`+/g) || []).map(run => run.length));
+    const fence = '`'.repeat(Math.max(3, longestRun + 1));
+    const language = getCodeLanguage(element);
+
+    return `${fence}${language}\n${code}\n${fence}`;
+  }
+
+  private renderTable(table: Element): string {
+    const rows: string[][] = [];
+
+    for (const row of getTableRows(table)) {
+      const cells = row.children
+        .filter((cell): cell is Element => isElement(cell) && (cell.tagName === 'td' || cell.tagName === 'th'))
+        .map(cell => this.renderTableCell(cell));
+      if (cells.length > 0) {
+        rows.push(cells);
+      }
+    }
+
+    if (rows.length === 0) {
+      return '';
+    }
+
+    const columnCount = Math.max(...rows.map(row => row.length));
+    const formatRow = (row: string[]): string => {
+      const padded = [...row, ...new Array(columnCount - row.length).fill('')];
+      return `| ${padded.join(' | ')} |`;
+    };
+
+    // GFM tables require a header row; Quip tables have none, so the first row is used
+    const [header, ...body] = rows;
+    return [
+      formatRow(header),
+      `| ${new Array(columnCount).fill('---').join(' | ')} |`,
+      ...body.map(formatRow)
+    ].join('\n');
+  }
+
+  private renderTableCell(cell: Element): string {
+    return this.renderBlocks(cell.children)
+      .join(LINE_BREAK)
+      .split('\n')
+      .join(LINE_BREAK)
+      .replace(/\|/g, '\\|')
+      .split(LINE_BREAK)
+      .map(part => part.trim())
+      .filter(part => part.length > 0)
+      .join('<br>');
+  }
+
+  /**
+   * Render nodes as inline Markdown; line breaks are left as placeholders
+   */
+  private renderInline(nodes: AnyNode[]): string {
+    return nodes.map(node => this.renderInlineNode(node)).join('');
+  }
+
+  private renderInlineNode(node: AnyNode): string {
+    if (node.type === 'text') {
+      return escapeMarkdown((node as Text).data.replace(/\s+/g, ' '));
+    }
+
+    if (!isElement(node) || SKIPPED_TAGS.has(node.tagName)) {
+      return '';
+    }
+
+    switch (node.tagName) {
+      case 'br':
+        return LINE_BREAK;
+
+      case 'strong':
+      case 'b':
+        return wrapInline(this.renderInline(node.children), '**');
+
+      case 'em':
+      case 'i':
+        return wrapInline(this.renderInline(node.children), '*');
+
+      case 'del':
+      case 's':
+      case 'strike':
+        return wrapInline(this.renderInline(node.children), '~~');
+
+      case 'code':
+        return renderCodeSpan(collectPreformattedText(node));
+
+      case 'a':
+        return this.renderLink(node);
+
+      case 'img':
+        return this.renderImage(node);
+
+      case 'input':
+        return '';
+
+      default:
+        if (BLOCK_TAGS.has(node.tagName)) {
+          // Block content in an inline position (e.g. a <div> inside a link) is flattened
+          return ` ${this.renderInline(node.children)} `;
+        }
+        return this.renderInline(node.children);
+    }
+  }
+
+  private renderLink(element: Element): string {
+    const href = (element.attribs.href || '').trim();
+    const text = this.finishInline(this.renderInline(element.children), true);
+
+    if (!href || href.startsWith('javascript:')) {
+      return text;
+    }
+
+    const destination = encodeLinkDestination(href);
+    if (!text) {
+      return `<${destination}>`;
+    }
+
+    return `[${text}](${destination})`;
+  }
+
+  private renderImage(element: Element): string {
+    const src = (element.attribs.src || '').trim();
+    if (this.skipImages || !src) {
+      return '';
+    }
+
+    const alt = escapeMarkdown(element.attribs.alt || '');
+    return `![${alt}](${encodeLinkDestination(src)})`;
+  }
+
+  /**
+   * Collapse whitespace in rendered inline text and resolve line break placeholders
+   */
+  private finishInline(text: string, singleLine: boolean): string {
+    const lines = text
+      .split(LINE_BREAK)
+      .map(line => line.replace(/ {2,}/g, ' ').trim());
+
+    while (lines.length > 0 && !lines[lines.length - 1]) {
+      lines.pop();
+    }
+    while (lines.length > 0 && !lines[0]) {
+      lines.shift();
+    }
+
+    return lines.join(singleLine ? ' ' : '  \n');
+  }
+
+  /**
+   * Escape characters that would turn a plain paragraph into another block type
+   */
+  private escapeLineStart(text: string): string {
+    return text
+      .split('\n')
+      .map(line =>
+        line
+          .replace(/^(#{1,6} )/, '\\$1')
+          .replace(/^([-+] )/, '\\$1')
+          .replace(/^>/, '\\>')
+          .replace(/^(\d+)\. /, '$1\\. ')
+          .replace(/^(={3,}|-{3,})$/, '\\$1')
+      )
+      .join('\n');
+  }
+}
+
+function isElement(node: AnyNode): node is Element {
+  return node.type === 'tag' || node.type === 'script' || node.type === 'style';
+}
+
+function isChecklist(list: Element): boolean {
+  if ((list.attribs.class || '').split(/\s+/).includes('checklist')) {
+    return true;
+  }
+
+  let parent = list.parent;
+  while (parent && isElement(parent as AnyNode)) {
+    const sectionStyle = (parent as Element).attribs['data-section-style'];
+    if (sectionStyle !== undefined) {
+      return sectionStyle === QUIP_CHECKLIST_SECTION_STYLE;
+    }
+    parent = parent.parent;
+  }
+
+  return false;
+}
+
+function findDescendant(element: Element, predicate: (node: Element) => boolean): Element | undefined {
+  for (const child of element.children) {
+    if (!isElement(child) || child.tagName === 'ul' || child.tagName === 'ol') {
+      continue;
+    }
+    if (predicate(child)) {
+      return child;
+    }
+    const found = findDescendant(child, predicate);
+    if (found) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+function getTableRows(table: Element): Element[] {
+  const rows: Element[] = [];
+
+  for (const child of table.children) {
+    if (!isElement(child)) {
+      continue;
+    }
+    if (child.tagName === 'tr') {
+      rows.push(child);
+    } else if (['thead', 'tbody', 'tfoot'].includes(child.tagName)) {
+      rows.push(
+        ...child.children.filter((row): row is Element => isElement(row) && row.tagName === 'tr')
+      );
+    }
+  }
+
+  return rows;
+}
+
+function collectPreformattedText(node: AnyNode): string {
+  if (node.type === 'text') {
+    return (node as Text).data;
+  }
+  if (!isElement(node)) {
+    return '';
+  }
+  if (node.tagName === 'br') {
+    return '\n';
+  }
+
+  const text = node.children.map(child => collectPreformattedText(child)).join('');
+  // Quip wraps each code line of a <pre> block in its own element
+  return ['div', 'p'].includes(node.tagName) && !text.endsWith('\n') ? `${text}\n` : text;
+}
+
+function getCodeLanguage(pre: Element): string {
+  const code = pre.children.find((child): child is Element => isElement(child) && child.tagName === 'code');
+  const classes = `${pre.attribs.class || ''} ${code?.attribs.class || ''}`;
+  const match = classes.match(/(?:^|\s)(?:language|lang)-([\w+-]+)/);
+  return match ? match[1] : '';
+}
+
+function renderCodeSpan(code: string): string {
+  const text = code.replace(/\n/g, ' ');
+  if (!text) {
+    return '';
+  }
+
+  const longestRun = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(longestRun + 1);
+  const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+  return `${fence}${padding}${text}${padding}${fence}`;
+}
+
+/**
+ * Wrap inline content in emphasis delimiters, keeping surrounding whitespace outside
+ */
+function wrapInline(content: string, delimiter: string): string {
+  const match = content.match(/^(\s*)([\s\S]*?)(\s*)$/);
+  if (!match || !match[2] || match[2] === LINE_BREAK) {
+    return content;
+  }
+  return `${match[1]}${delimiter}${match[2]}${delimiter}${match[3]}`;
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]])/g, '\\$1');
+}
+
+function encodeLinkDestination(url: string): string {
+  return url.replace(/ /g, '%20').replace(/\(/g, '%28').replace(/\)/g, '%29');
+}
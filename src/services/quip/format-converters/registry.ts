@@ -1,4 +1,6 @@
 import { IFormatConverter, ConversionResult } from './interfaces';
+import { QuipMarkdownConverter } from './markdown-converter';
+import { QuipSpreadsheetConverter } from './spreadsheet-converter';
 
 /**
  * Registry for managing format converters
@@ -6,6 +8,17 @@ import { IFormatConverter, ConversionResult } from './interfaces';
 export class FormatConverterRegistry {
   private converters: Map<string, IFormatConverter> = new Map();
 
+  /**
+   * Create a registry with the built-in converters registered
+   */
+  static createDefault(): FormatConverterRegistry {
+    const registry = new FormatConverterRegistry();
+    registry.register(new QuipMarkdownConverter());
+    registry.register(new QuipSpreadsheetConverter('csv'));
+    registry.register(new QuipSpreadsheetConverter('json'));
+    return registry;
+  }
+
   /**
    * Register a format converter
    */
@@ -0,0 +1,211 @@
+import * as cheerio from 'cheerio';
+import type { Element } from 'domhandler';
+import { IFormatConverter, ConversionResult } from './interfaces';
+import type { SpreadsheetOptions } from '../document-exporter';
+
+export interface SpreadsheetSheet {
+  name: string;
+  rows: string[][];
+}
+
+export interface ExportedSheet {
+  name: string;
+  content: Buffer;
+}
+
+/**
+ * Converts the HTML tables of an exported Quip spreadsheet into one CSV or
+ * JSON file per sheet. The files are returned in `metadata.sheets`; `content`
+ * holds the first sheet.
+ */
+export class QuipSpreadsheetConverter implements IFormatConverter {
+  private readonly format: 'csv' | 'json';
+
+  constructor(format: 'csv' | 'json') {
+    this.format = format;
+  }
+
+  canConvert(documentType: string, targetFormat: string): boolean {
+    return targetFormat === this.format && documentType.toUpperCase() === 'SPREADSHEET';
+  }
+
+  async convert(content: string | Buffer, options?: SpreadsheetOptions): Promise<ConversionResult> {
+    try {
+      const html = Buffer.isBuffer(content) ? content.toString('utf-8') : content;
+      const sheets = parseSpreadsheetHtml(html);
+      if (sheets.length === 0) {
+        throw new Error('No sheets found in the spreadsheet HTML');
+      }
+
+      const headerRow = options?.headerRow !== false;
+      const files: ExportedSheet[] = sheets.map(sheet => ({
+        name: sheet.name,
+        content: Buffer.from(
+          this.format === 'csv' ? renderCsv(sheet, headerRow) : renderJson(sheet, headerRow),
+          'utf-8'
+        )
+      }));
+
+      return {
+        success: true,
+        format: this.format,
+        content: files[0].content,
+        metadata: { sheets: files }
+      };
+    } catch (error) {
+      return {
+        success: false,
+        format: this.format,
+        error: `${this.format.toUpperCase()} conversion failed: ${error instanceof Error ? error.message : String(error)}`
+      };
+    }
+  }
+
+  getSupportedFormats(): string[] {
+    return [this.format];
+  }
+
+  getName(): string {
+    return `quip-spreadsheet-${this.format}`;
+  }
+}
+
+/**
+ * Read the cell text of every sheet (top-level table) in a spreadsheet's HTML
+ */
+export function parseSpreadsheetHtml(html: string): SpreadsheetSheet[] {
+  const $ = cheerio.load(html);
+  const tables = $('table').toArray().filter(table => $(table).parents('table').length === 0);
+
+  return tables.map((table, index) => {
+    const rows = $(table)
+      .find('tr')
+      .toArray()
+      .filter(row => $(row).closest('table').get(0) === table)
+      .map(row => {
+        const cells: string[] = [];
+        for (const cell of $(row).children('th, td').toArray()) {
+          cells.push(cellText($, cell));
+          const span = parseInt($(cell).attr('colspan') || '1', 10);
+          for (let i = 1; i < span; i++) {
+            cells.push('');
+          }
+        }
+        return cells;
+      });
+
+    return {
+      name: $(table).attr('title')?.trim() || `Sheet ${index + 1}`,
+      rows: normalizeRows(removeGridLabels(rows))
+    };
+  });
+}
+
+/**
+ * Render a sheet as RFC 4180 CSV. Without a header row in the data, a row of
+ * column letters is added so that every file starts with a header.
+ */
+export function renderCsv(sheet: SpreadsheetSheet, headerRow: boolean): string {
+  const rows = headerRow ? sheet.rows : [columnLabels(sheet.rows), ...sheet.rows];
+  return rows.map(row => row.map(escapeCsvField).join(',') + '\r\n').join('');
+}
+
+/**
+ * Render a sheet as JSON: objects keyed by the header row, or arrays of cells
+ */
+export function renderJson(sheet: SpreadsheetSheet, headerRow: boolean): string {
+  if (!headerRow || sheet.rows.length === 0) {
+    return JSON.stringify(sheet.rows, null, 2) + '\n';
+  }
+
+  const keys = uniqueKeys(sheet.rows[0]);
+  const records = sheet.rows.slice(1).map(row =>
+    Object.fromEntries(keys.map((key, column) => [key, row[column] ?? '']))
+  );
+  return JSON.stringify(records, null, 2) + '\n';
+}
+
+function cellText($: cheerio.CheerioAPI, cell: Element): string {
+  const clone = $(cell).clone();
+  clone.find('br').replaceWith('\n');
+  return clone
+    .text()
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .join('\n')
+    .trim();
+}
+
+/**
+ * Quip renders spreadsheets with a row of column letters (A, B, C, ...) and
+ * usually a first column of row numbers; neither is part of the data
+ */
+function removeGridLabels(rows: string[][]): string[][] {
+  if (rows.length === 0) {
+    return rows;
+  }
+
+  const offset = rows[0][0] === '' ? 1 : 0;
+  const labels = rows[0].slice(offset);
+  if (labels.length === 0 || !labels.every((label, column) => label === columnLabel(column))) {
+    return rows;
+  }
+
+  const data = rows.slice(1);
+  if (offset === 1 && data.every((row, index) => row[0] === String(index + 1))) {
+    return data.map(row => row.slice(1));
+  }
+  return data;
+}
+
+/**
+ * Drop trailing empty rows and columns and pad the rows to the same width
+ */
+function normalizeRows(rows: string[][]): string[][] {
+  const trimmed = rows.map(row => {
+    let end = row.length;
+    while (end > 0 && row[end - 1] === '') {
+      end--;
+    }
+    return row.slice(0, end);
+  });
+
+  let last = trimmed.length;
+  while (last > 0 && trimmed[last - 1].length === 0) {
+    last--;
+  }
+
+  const kept = trimmed.slice(0, last);
+  const width = Math.max(0, ...kept.map(row => row.length));
+  return kept.map(row => [...row, ...new Array<string>(width - row.length).fill('')]);
+}
+
+function columnLabels(rows: string[][]): string[] {
+  return (rows[0] || []).map((_cell, column) => columnLabel(column));
+}
+
+function columnLabel(column: number): string {
+  let label = '';
+  for (let n = column + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    label = String.fromCharCode(65 + ((n - 1) % 26)) + label;
+  }
+  return label;
+}
+
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Use the header cells as JSON keys, naming empty ones after their column and
+ * numbering duplicates
+ */
+function uniqueKeys(header: string[]): string[] {
+  const seen = new Map<string, number>();
+  return header.map((cell, column) => {
+    const key = cell || columnLabel(column);
+    const count = (seen.get(key) || 0) + 1;
+    seen.set(key, count);
+    return count === 1 ? key : `${key}_${count}`;
+  });
+}
@@ -0,0 +1,19 @@
+// Helpers shared by the exporters that render Quip data as HTML, Markdown and JSON
+
+/**
+ * Escape text for use in HTML content and double-quoted attributes
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Convert a Quip timestamp in microseconds to an ISO 8601 date
+ */
+export function usecToIso(usec: number): string {
+  return new Date(Math.floor(usec / 1000)).toISOString();
+}
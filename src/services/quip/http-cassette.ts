@@ -0,0 +1,233 @@
+// Records Quip API traffic to a cassette directory and replays it without network access
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ReadableStream, TransformStream } from 'stream/web';
+import { Logger } from '../../types';
+
+export type CassetteMode = 'record' | 'replay';
+
+// Stands in for the access token in recorded requests, and is sent while replaying
+export const CASSETTE_REDACTED_TOKEN = '[REDACTED]';
+
+// Bodies of these content types are recorded as text so cassettes can be read and edited
+const TEXT_CONTENT_TYPE_PATTERN = /json|text|html|xml|javascript/i;
+
+// Statuses whose responses cannot carry a body
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+// Response headers that describe the body on the wire rather than the decoded body that is recorded
+const TRANSPORT_HEADERS = ['content-encoding', 'content-length', 'transfer-encoding'];
+
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+    bodyEncoding: 'utf8' | 'base64';
+  };
+  recordedAt: string;
+}
+
+/**
+ * A directory of recorded Quip API requests and responses, one JSON file per
+ * request in the order they were sent. Recording redacts the access token;
+ * replaying serves the recorded responses instead of sending requests.
+ */
+export class HttpCassette {
+  readonly mode: CassetteMode;
+  readonly directory: string;
+  private readonly logger?: Logger;
+  private sequence = 0;
+  private readonly interactions = new Map<string, CassetteInteraction[]>();
+  private readonly replayed = new Map<string, number>();
+
+  private constructor(mode: CassetteMode, directory: string, logger?: Logger) {
+    this.mode = mode;
+    this.directory = directory;
+    this.logger = logger;
+  }
+
+  /**
+   * Open a cassette: recording adds to the interactions already in the
+   * directory, replaying loads them and fails when there are none
+   */
+  static async open(mode: CassetteMode, directory: string, logger?: Logger): Promise<HttpCassette> {
+    const cassette = new HttpCassette(mode, path.resolve(directory), logger);
+
+    if (mode === 'record') {
+      await fs.mkdir(cassette.directory, { recursive: true });
+      cassette.sequence = (await cassette.listFiles()).length;
+    } else {
+      await cassette.load();
+    }
+
+    return cassette;
+  }
+
+  /**
+   * Fetch-compatible entry point for the API client
+   */
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    return this.mode === 'record' ? this.record(url, init) : this.replay(url, init);
+  }
+
+  private async record(url: string, init: RequestInit): Promise<Response> {
+    // Numbered when sent, so the cassette keeps the order of requests whose bodies finish out of order
+    const sequence = ++this.sequence;
+    const response = await fetch(url, init);
+
+    if (!response.body) {
+      await this.save(sequence, toInteraction(url, init, response, Buffer.alloc(0)));
+      return response;
+    }
+
+    // Tee the body so the caller keeps streaming it while a copy is recorded
+    const [body, copy] = response.body.tee();
+    const saved = readStream(copy).then(content => this.save(sequence, toInteraction(url, init, response, content)));
+    saved.catch(() => undefined); // Surfaced to the caller when it finishes reading the body
+
+    // The caller's body ends once the interaction is saved
+    const recorded = body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({ flush: () => saved }));
+    return new Response(recorded, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers
+    });
+  }
+
+  private async replay(url: string, init: RequestInit): Promise<Response> {
+    const key = getInteractionKey(init.method || 'GET', url);
+    const recorded = this.interactions.get(key);
+
+    if (!recorded || recorded.length === 0) {
+      this.logger?.warn(`No response recorded for ${key} in cassette ${this.directory}`);
+      return new Response(`No response recorded for ${key}`, { status: 404, statusText: 'Not Recorded' });
+    }
+
+    // Responses are served in recorded order; once they run out, the last one is repeated
+    const index = this.replayed.get(key) || 0;
+    this.replayed.set(key, index + 1);
+    return toResponse(recorded[Math.min(index, recorded.length - 1)]);
+  }
+
+  private async save(sequence: number, interaction: CassetteInteraction): Promise<void> {
+    const { pathname } = new URL(interaction.request.url);
+    const slug = pathname.replace(/[^A-Za-z0-9]+/g, '-').replace(/^-|-$/g, '').substring(0, 80);
+    const fileName = `${String(sequence).padStart(5, '0')}-${interaction.request.method}-${slug}.json`;
+
+    // Write to a temp file and rename so a replay never reads a partial interaction
+    const filePath = path.join(this.directory, fileName);
+    await fs.writeFile(`${filePath}.tmp`, JSON.stringify(interaction, null, 2), 'utf8');
+    await fs.rename(`${filePath}.tmp`, filePath);
+  }
+
+  private async load(): Promise<void> {
+    let files: string[];
+    try {
+      files = await this.listFiles();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new Error(`Cassette directory not found: ${this.directory}`);
+      }
+      throw error;
+    }
+
+    if (files.length === 0) {
+      throw new Error(`No recorded requests in cassette ${this.directory}`);
+    }
+
+    for (const file of files) {
+      const interaction: CassetteInteraction = JSON.parse(await fs.readFile(path.join(this.directory, file), 'utf8'));
+      const key = getInteractionKey(interaction.request.method, interaction.request.url);
+      this.interactions.set(key, [...(this.interactions.get(key) || []), interaction]);
+    }
+
+    this.logger?.debug(`Loaded ${files.length} recorded requests from cassette ${this.directory}`);
+  }
+
+  private async listFiles(): Promise<string[]> {
+    return (await fs.readdir(this.directory)).filter(file => file.endsWith('.json')).sort();
+  }
+}
+
+/**
+ * Requests are matched by method, path and query, so a cassette replays
+ * against any Quip domain
+ */
+function getInteractionKey(method: string, url: string): string {
+  const { pathname, search } = new URL(url);
+  return `${method.toUpperCase()} ${pathname}${search}`;
+}
+
+function toHeaderRecord(headers?: RequestInit['headers']): Record<string, string> {
+  const record: Record<string, string> = {};
+  new Headers(headers).forEach((value, name) => {
+    record[name] = value;
+  });
+  return record;
+}
+
+/**
+ * Describe a request and its response body, with the access token redacted
+ */
+function toInteraction(url: string, init: RequestInit, response: Response, body: Buffer): CassetteInteraction {
+  // Header names come out of Headers in lower case
+  const requestHeaders = toHeaderRecord(init.headers);
+  const token = (requestHeaders.authorization || '').replace(/^Bearer\s+/i, '');
+  const redact = (text: string): string => (token ? text.split(token).join(CASSETTE_REDACTED_TOKEN) : text);
+  if (token) {
+    requestHeaders.authorization = `Bearer ${CASSETTE_REDACTED_TOKEN}`;
+  }
+
+  const responseHeaders: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    if (!TRANSPORT_HEADERS.includes(name.toLowerCase())) {
+      responseHeaders[name] = value;
+    }
+  });
+
+  const isText = TEXT_CONTENT_TYPE_PATTERN.test(response.headers.get('Content-Type') || '');
+  return {
+    request: {
+      method: (init.method || 'GET').toUpperCase(),
+      url: redact(url),
+      headers: requestHeaders,
+      body: typeof init.body === 'string' ? redact(init.body) : undefined
+    },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      headers: responseHeaders,
+      body: isText ? redact(body.toString('utf8')) : body.toString('base64'),
+      bodyEncoding: isText ? 'utf8' : 'base64'
+    },
+    recordedAt: new Date().toISOString()
+  };
+}
+
+async function readStream(stream: ReadableStream<Uint8Array>): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  const reader = stream.getReader();
+  for (let result = await reader.read(); !result.done; result = await reader.read()) {
+    chunks.push(Buffer.from(result.value));
+  }
+  return Buffer.concat(chunks);
+}
+
+function toResponse(interaction: CassetteInteraction): Response {
+  const { status, statusText, headers } = interaction.response;
+  const content = Buffer.from(interaction.response.body, interaction.response.bodyEncoding);
+
+  if (NULL_BODY_STATUSES.includes(status)) {
+    return new Response(null, { status, statusText, headers });
+  }
+  return new Response(content, { status, statusText, headers: { ...headers, 'Content-Length': String(content.length) } });
+}
@@ -1,7 +1,14 @@
 // Quip service module
 export * from './types';
 export * from './api-client';
+export * from './rate-limit-ledger';
+export * from './http-cassette';
 export * from './document-discovery';
 export * from './document-exporter';
+export * from './blob-assets';
+export * from './comment-exporter';
+export * from './chat-exporter';
+export * from './standalone-html';
+export * from './document-metadata';
 export * from './quip-service';
 export * from './format-converters';
\ No newline at end of file
@@ -3,6 +3,7 @@ import { QuipDocument, DocumentExport, Logger } from '../../types';
 import { QuipAuthConfig } from '../../auth/types';
 import { IQuipService } from './types';
 import { QuipApiClient } from './api-client';
+import { HttpCassette } from './http-cassette';
 import { DocumentDiscovery, DocumentFilter, DocumentWithPath, DiscoveryResult } from './document-discovery';
 import { DocumentExporter, ExportOptions, BatchExportResult } from './document-exporter';
 
@@ -15,9 +16,15 @@ export class QuipService implements IQuipService {
   private readonly documentExporter: DocumentExporter;
   private readonly logger: Logger; // Used for logging in service methods
 
-  constructor(authManager: AuthManager, logger: Logger, authConfig?: QuipAuthConfig, baseUrl?: string) {
+  constructor(
+    authManager: AuthManager,
+    logger: Logger,
+    authConfig?: QuipAuthConfig,
+    baseUrl?: string,
+    cassette?: HttpCassette // Record the API traffic to, or replay it from, a cassette directory
+  ) {
     this.logger = logger;
-    this.apiClient = new QuipApiClient(authManager, logger, authConfig, baseUrl);
+    this.apiClient = new QuipApiClient(authManager, logger, authConfig, baseUrl, undefined, cassette);
     this.documentDiscovery = new DocumentDiscovery(this.apiClient, logger);
     this.documentExporter = new DocumentExporter(this.apiClient, logger);
     
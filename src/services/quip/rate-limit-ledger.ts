@@ -0,0 +1,300 @@
+// On-disk ledger of Quip API requests, shared by every client and CLI invocation on this machine
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as os from 'os';
+import { Logger } from '../../types';
+
+// Quip limits: 50 requests per minute per user, 750 requests per hour per user
+export const RATE_LIMIT_PER_MINUTE = 50;
+export const RATE_LIMIT_PER_HOUR = 750;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const LOCK_RETRY_MS = 25;
+const STALE_LOCK_MS = 10 * 1000; // A lock held this long belongs to a process that died
+const PACING_THRESHOLD = 0.5; // Spread the remaining requests until the reset once less than this share of the limit is left
+
+// Budget reported by Quip in the X-Ratelimit-* (per user) and X-Company-RateLimit-* (per company) headers
+const RATE_LIMIT_HEADER_PREFIXES = ['X-Ratelimit', 'X-Company-RateLimit'];
+
+export interface RateLimitQuota {
+  remaining: number;
+  limit?: number;
+  resetAt: number; // Epoch milliseconds
+}
+
+export interface ThrottleStatus {
+  requestsPerMinute: number; // Rate the requests are currently paced to
+  nextSlotAt?: Date; // Set while a request waits for a free slot
+}
+
+interface RateLimitLedgerData {
+  version: 1;
+  requests: number[]; // Request timestamps of the last hour, oldest first
+  blockedUntil?: number; // Quip answered 429 and asked to wait until then
+  quota?: RateLimitQuota & { observedAt: number }; // Latest budget reported by Quip
+}
+
+export interface RateLimitStatus {
+  remainingPerMinute: number;
+  remainingPerHour: number;
+  minuteResetAt?: Date; // When the oldest request of the last minute stops counting
+  hourResetAt?: Date; // When the oldest request of the last hour stops counting
+  blockedUntil?: Date;
+  quipRemaining?: number; // Requests left by Quip's latest rate limit headers, less those sent since
+  quipResetAt?: Date;
+  ledgerPath?: string; // Undefined when the budget is only tracked in memory
+}
+
+/**
+ * Read the tightest of the user and company budgets from Quip's rate limit response headers
+ */
+export function parseRateLimitHeaders(headers?: { get(name: string): string | null }): RateLimitQuota | undefined {
+  let tightest: RateLimitQuota | undefined;
+
+  for (const prefix of RATE_LIMIT_HEADER_PREFIXES) {
+    const remaining = headers?.get(`${prefix}-Remaining`);
+    const reset = headers?.get(`${prefix}-Reset`);
+    if (!remaining || !reset || !Number.isFinite(Number(remaining)) || !Number.isFinite(Number(reset))) {
+      continue;
+    }
+
+    const limit = Number(headers?.get(`${prefix}-Limit`));
+    const quota: RateLimitQuota = {
+      remaining: Number(remaining),
+      limit: limit > 0 ? limit : undefined,
+      resetAt: Number(reset) * 1000 // Unix time in seconds
+    };
+    if (!tightest || quota.remaining < tightest.remaining) {
+      tightest = quota;
+    }
+  }
+
+  return tightest;
+}
+
+/**
+ * Default ledger location under the tool's config directory; QUIP_RATE_LIMIT_LEDGER overrides it
+ */
+export function getDefaultRateLimitLedgerPath(): string {
+  return process.env.QUIP_RATE_LIMIT_LEDGER || path.join(os.homedir(), '.quip-migration', 'rate-limit.json');
+}
+
+/**
+ * Tracks the Quip request budget in a small JSON file guarded by a lock file,
+ * so concurrent processes draw from the same per-minute and per-hour quota.
+ * Falls back to tracking the budget in memory when the file cannot be used.
+ */
+export class RateLimitLedger {
+  private readonly filePath: string;
+  private readonly logger?: Logger;
+  private memory?: RateLimitLedgerData;
+  private requestsPerMinute = RATE_LIMIT_PER_MINUTE;
+
+  constructor(filePath: string = getDefaultRateLimitLedgerPath(), logger?: Logger) {
+    this.filePath = filePath;
+    this.logger = logger;
+  }
+
+  /**
+   * Reserve a request slot: returns 0 when the request was recorded and may be
+   * sent now, otherwise the milliseconds to wait before asking again
+   */
+  async reserve(): Promise<number> {
+    return this.update(data => {
+      const now = Date.now();
+      const { waitTime, requestsPerMinute } = this.getWaitTime(data, now);
+      this.requestsPerMinute = requestsPerMinute;
+      if (waitTime === 0) {
+        data.requests.push(now);
+      }
+      return waitTime;
+    });
+  }
+
+  /**
+   * Rate the last reservation was paced to, in requests per minute
+   */
+  getRequestsPerMinute(): number {
+    return this.requestsPerMinute;
+  }
+
+  /**
+   * Record the budget Quip reported so every process paces its requests ahead of the limit
+   */
+  async recordQuota(quota: RateLimitQuota): Promise<void> {
+    await this.update(data => {
+      data.quota = { ...quota, observedAt: Date.now() };
+    });
+  }
+
+  /**
+   * Record that Quip rejected a request with 429 so every process backs off
+   */
+  async recordRateLimited(retryAfterMs: number): Promise<void> {
+    await this.update(data => {
+      data.blockedUntil = Math.max(data.blockedUntil || 0, Date.now() + retryAfterMs);
+    });
+  }
+
+  /**
+   * Remaining budget and reset times, without using a request
+   */
+  async getStatus(): Promise<RateLimitStatus> {
+    const data = await this.update(data => data);
+    const now = Date.now();
+    const lastMinute = data.requests.filter(time => now - time < MINUTE_MS);
+
+    return {
+      remainingPerMinute: Math.max(0, RATE_LIMIT_PER_MINUTE - lastMinute.length),
+      remainingPerHour: Math.max(0, RATE_LIMIT_PER_HOUR - data.requests.length),
+      minuteResetAt: lastMinute.length > 0 ? new Date(lastMinute[0] + MINUTE_MS) : undefined,
+      hourResetAt: data.requests.length > 0 ? new Date(data.requests[0] + HOUR_MS) : undefined,
+      blockedUntil: data.blockedUntil ? new Date(data.blockedUntil) : undefined,
+      quipRemaining: data.quota ? this.getQuipRemaining(data, data.quota) : undefined,
+      quipResetAt: data.quota ? new Date(data.quota.resetAt) : undefined,
+      ledgerPath: this.memory ? undefined : this.filePath
+    };
+  }
+
+  private getWaitTime(data: RateLimitLedgerData, now: number): { waitTime: number; requestsPerMinute: number } {
+    let wait = data.blockedUntil ? data.blockedUntil - now : 0;
+    let requestsPerMinute = RATE_LIMIT_PER_MINUTE;
+
+    if (data.requests.length >= RATE_LIMIT_PER_HOUR) {
+      wait = Math.max(wait, data.requests[data.requests.length - RATE_LIMIT_PER_HOUR] + HOUR_MS - now);
+    }
+
+    const lastMinute = data.requests.filter(time => now - time < MINUTE_MS);
+    if (lastMinute.length >= RATE_LIMIT_PER_MINUTE) {
+      wait = Math.max(wait, lastMinute[lastMinute.length - RATE_LIMIT_PER_MINUTE] + MINUTE_MS - now);
+    }
+
+    // Slow down as Quip's remaining budget drops by spreading it evenly until the reset
+    if (data.quota) {
+      const remaining = this.getQuipRemaining(data, data.quota);
+      const untilReset = data.quota.resetAt - now;
+      const limit = data.quota.limit || RATE_LIMIT_PER_MINUTE;
+
+      if (remaining <= 0) {
+        wait = Math.max(wait, untilReset);
+        requestsPerMinute = 0;
+      } else if (remaining < limit * PACING_THRESHOLD) {
+        const interval = untilReset / remaining;
+        const lastRequest = data.requests[data.requests.length - 1];
+        if (lastRequest) {
+          wait = Math.max(wait, lastRequest + interval - now);
+        }
+        requestsPerMinute = Math.min(requestsPerMinute, MINUTE_MS / interval);
+      }
+    }
+
+    return { waitTime: Math.max(0, Math.ceil(wait)), requestsPerMinute };
+  }
+
+  /**
+   * Quip's reported budget less the requests sent since it was reported
+   */
+  private getQuipRemaining(data: RateLimitLedgerData, quota: RateLimitQuota & { observedAt: number }): number {
+    return Math.max(0, quota.remaining - data.requests.filter(time => time > quota.observedAt).length);
+  }
+
+  /**
+   * Read, prune, change and save the ledger while holding its lock
+   */
+  private async update<T>(change: (data: RateLimitLedgerData) => T): Promise<T> {
+    if (!this.memory) {
+      try {
+        return await this.withLock(async () => {
+          const data = this.prune(await this.read());
+          const result = change(data);
+          await this.write(data);
+          return result;
+        });
+      } catch (error) {
+        this.logger?.warn(
+          `Cannot use the rate limit ledger ${this.filePath}, tracking requests in memory: ${error instanceof Error ? error.message : String(error)}`
+        );
+        this.memory = { version: 1, requests: [] };
+      }
+    }
+
+    return change(this.prune(this.memory));
+  }
+
+  private prune(data: RateLimitLedgerData): RateLimitLedgerData {
+    const now = Date.now();
+    data.requests = data.requests.filter(time => now - time < HOUR_MS);
+    if (data.blockedUntil && data.blockedUntil <= now) {
+      delete data.blockedUntil;
+    }
+    if (data.quota && data.quota.resetAt <= now) {
+      delete data.quota;
+    }
+    return data;
+  }
+
+  private async read(): Promise<RateLimitLedgerData> {
+    try {
+      const data = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+      if (Array.isArray(data.requests)) {
+        return {
+          version: 1,
+          requests: data.requests.filter((time: unknown) => typeof time === 'number').sort((a: number, b: number) => a - b),
+          blockedUntil: typeof data.blockedUntil === 'number' ? data.blockedUntil : undefined,
+          quota: typeof data.quota?.remaining === 'number' && typeof data.quota?.resetAt === 'number' ? data.quota : undefined
+        };
+      }
+    } catch (error) {
+      // A missing or corrupt ledger starts an empty budget
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT' && !(error instanceof SyntaxError)) {
+        throw error;
+      }
+    }
+    return { version: 1, requests: [] };
+  }
+
+  private async write(data: RateLimitLedgerData): Promise<void> {
+    // Write to a temp file and rename so readers never see a partial ledger
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data), 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  private async withLock<T>(action: () => Promise<T>): Promise<T> {
+    const lockPath = `${this.filePath}.lock`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+
+    let lock: fs.FileHandle | undefined;
+    while (!lock) {
+      try {
+        lock = await fs.open(lockPath, 'wx');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+          throw error;
+        }
+        await this.removeStaleLock(lockPath);
+        await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+      }
+    }
+
+    try {
+      return await action();
+    } finally {
+      await lock.close();
+      await fs.rm(lockPath, { force: true });
+    }
+  }
+
+  private async removeStaleLock(lockPath: string): Promise<void> {
+    try {
+      const stats = await fs.stat(lockPath);
+      if (Date.now() - stats.mtimeMs > STALE_LOCK_MS) {
+        await fs.rm(lockPath, { force: true });
+      }
+    } catch {
+      // The lock was released in the meantime
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import * as cheerio from 'cheerio';
+import { QuipDocument, Logger } from '../../types';
+import { QuipApiClient } from './api-client';
+import { parseBlobUrl } from './blob-assets';
+import { escapeHtml } from './format-utils';
+
+// Folder pages written next to html-standalone exports; the underscore keeps
+// them apart from documents titled "index"
+export const FOLDER_INDEX_FILE_NAME = '_index.html';
+
+export interface BreadcrumbLink {
+  name: string;
+  href: string;
+}
+
+// Styling close to Quip's document view, embedded in every page
+export const STANDALONE_HTML_CSS = `
+body { margin: 0; background: #f6f7f9; color: #1f2329; font: 15px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, sans-serif; }
+main { max-width: 816px; margin: 24px auto; padding: 48px 64px; background: #fff; border-radius: 4px; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.12); }
+nav.breadcrumb { max-width: 944px; margin: 16px auto 0; font-size: 13px; color: #6b7280; }
+nav.breadcrumb a { color: #2a6ae9; text-decoration: none; }
+nav.breadcrumb span + span::before { content: " / "; color: #9ca3af; }
+h1, h2, h3, h4, h5, h6 { line-height: 1.3; margin: 1.4em 0 0.5em; font-weight: 600; }
+h1 { font-size: 28px; margin-top: 0; }
+h2 { font-size: 22px; }
+h3 { font-size: 18px; }
+p, ul, ol, blockquote, pre, table { margin: 0 0 1em; }
+a { color: #2a6ae9; }
+img { max-width: 100%; height: auto; }
+blockquote { margin-left: 0; padding-left: 16px; border-left: 3px solid #d1d5db; color: #4b5563; }
+pre, code { font-family: SFMono-Regular, Menlo, Consolas, monospace; font-size: 13px; background: #f3f4f6; border-radius: 3px; }
+pre { padding: 12px 16px; overflow-x: auto; }
+code { padding: 1px 4px; }
+pre code { padding: 0; }
+table { border-collapse: collapse; }
+th, td { border: 1px solid #d1d5db; padding: 4px 8px; vertical-align: top; }
+th { background: #f3f4f6; }
+ul.checklist, ul[class*="checklist"] { list-style: none; padding-left: 4px; }
+li.checked, li[class*="checked"] { text-decoration: line-through; color: #6b7280; }
+footer { max-width: 944px; margin: 0 auto 24px; font-size: 12px; color: #9ca3af; }
+`;
+
+/**
+ * Wraps exported Quip HTML in a complete page that renders offline: the
+ * styling is embedded, images are inlined as data URIs and the page links
+ * back to the folder indexes of the export
+ */
+export class StandaloneHtmlRenderer {
+  private readonly apiClient: QuipApiClient;
+  private readonly logger: Logger;
+
+  constructor(apiClient: QuipApiClient, logger: Logger) {
+    this.apiClient = apiClient;
+    this.logger = logger;
+  }
+
+  /**
+   * Render a document page. `folderPath` is the document's folder below the
+   * root of the export, which the breadcrumb links lead back through.
+   */
+  async render(document: QuipDocument, html: string, folderPath?: string): Promise<string> {
+    const $ = cheerio.load(html);
+    const origin = getQuipOrigin(document.link);
+
+    // Images are embedded; attachments and other blob links can only point at Quip
+    for (const image of $('img[src]').toArray()) {
+      const dataUri = await this.fetchDataUri(document, $(image).attr('src')!);
+      if (dataUri) {
+        $(image).attr('src', dataUri);
+      }
+    }
+    if (origin) {
+      for (const link of $('a[href]').toArray()) {
+        const href = $(link).attr('href')!;
+        if (href.startsWith('/') && !href.startsWith('//') && parseBlobUrl(href)) {
+          $(link).attr('href', `${origin}${href}`);
+        }
+      }
+    }
+
+    // Quip's HTML export is sometimes a full page; only its body is kept
+    const body = ($('body').html() || '').trim();
+    const footer = document.link
+      ? `Exported from <a href="${escapeHtml(document.link)}">Quip</a>`
+      : 'Exported from Quip';
+
+    return renderStandalonePage(document.title, buildBreadcrumb(folderPath), body, footer);
+  }
+
+  /**
+   * Download an image blob as a data URI. An image that cannot be downloaded
+   * keeps its original link.
+   */
+  private async fetchDataUri(document: QuipDocument, src: string): Promise<string | undefined> {
+    const reference = parseBlobUrl(src);
+    if (!reference) {
+      return undefined;
+    }
+
+    const response = await this.apiClient.downloadBlob(reference.threadId, reference.blobId);
+    if (!response.success || !response.data) {
+      this.logger.warn(`Failed to inline image ${reference.blobId} for ${document.title}: ${response.error}`);
+      return undefined;
+    }
+
+    const contentType = response.data.contentType?.split(';')[0].trim() || 'application/octet-stream';
+    return `data:${contentType};base64,${response.data.data.toString('base64')}`;
+  }
+}
+
+/**
+ * Build the breadcrumb of a page in the given folder: the export root, then
+ * each folder down to the page's own
+ */
+export function buildBreadcrumb(folderPath?: string): BreadcrumbLink[] {
+  const segments = (folderPath || '').split('/').filter(Boolean);
+  const up = (levels: number): string => '../'.repeat(levels) + FOLDER_INDEX_FILE_NAME;
+
+  return [
+    { name: 'All documents', href: up(segments.length) },
+    ...segments.map((name, index) => ({ name, href: up(segments.length - index - 1) }))
+  ];
+}
+
+/**
+ * Render the index page of an export folder
+ */
+export function renderFolderIndex(
+  folderPath: string,
+  folders: BreadcrumbLink[],
+  documents: BreadcrumbLink[]
+): string {
+  const breadcrumb = buildBreadcrumb(folderPath);
+  const title = breadcrumb[breadcrumb.length - 1].name;
+  const list = (links: BreadcrumbLink[], className: string): string =>
+    links.length > 0
+      ? `<ul class="${className}">\n${links
+          .map(link => `<li><a href="${escapeHtml(link.href)}">${escapeHtml(link.name)}</a></li>`)
+          .join('\n')}\n</ul>`
+      : '';
+
+  const body = [
+    `<h1>${escapeHtml(title)}</h1>`,
+    folders.length > 0 ? `<h2>Folders</h2>\n${list(folders, 'folders')}` : '',
+    documents.length > 0 ? `<h2>Documents</h2>\n${list(documents, 'documents')}` : ''
+  ].filter(Boolean).join('\n');
+
+  // The page itself is the last breadcrumb entry
+  return renderStandalonePage(title, breadcrumb.slice(0, -1), body, 'Exported from Quip');
+}
+
+function renderStandalonePage(title: string, breadcrumb: BreadcrumbLink[], body: string, footer: string): string {
+  const navigation = breadcrumb
+    .map(link => `<span><a href="${escapeHtml(link.href)}">${escapeHtml(link.name)}</a></span>`)
+    .join('');
+
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${STANDALONE_HTML_CSS}</style>`,
+    '</head>',
+    '<body>',
+    navigation ? `<nav class="breadcrumb">${navigation}</nav>` : '',
+    '<main>',
+    body,
+    '</main>',
+    `<footer>${footer}</footer>`,
+    '</body>',
+    '</html>',
+    ''
+  ].filter(line => line !== '').join('\n') + '\n';
+}
+
+function getQuipOrigin(link?: string): string | undefined {
+  try {
+    return link ? new URL(link).origin : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -11,6 +11,64 @@ export interface QuipListResponse {
   [key: string]: QuipDocument | QuipFolder;
 }
 
+// Thread lookups return the thread metadata under 'thread', next to its HTML and other details
+export interface QuipThreadResponse {
+  thread: QuipDocument;
+  [key: string]: unknown;
+}
+
+export interface QuipBlob {
+  data: Buffer;
+  contentType?: string;
+  fileName?: string;
+}
+
+export interface DownloadProgress {
+  bytesDownloaded: number;
+  totalBytes?: number; // From the Content-Length header, when Quip sends one
+}
+
+export interface StreamDownloadOptions {
+  tempDirectory?: string; // Where large downloads are written (default: the OS temp directory)
+  streamThreshold?: number; // Stream responses larger than this many bytes, or of unknown size (default: 1 MiB)
+  onProgress?: (progress: DownloadProgress) => void;
+}
+
+export interface DownloadedFile {
+  path: string; // Temp file holding the download until it is moved into place
+  size: number;
+  sha256: string; // Hashed while the download was written
+}
+
+// A download is read into memory when it is small, otherwise streamed to a temp file
+export interface StreamedDownload {
+  data?: Buffer;
+  file?: DownloadedFile;
+}
+
+export interface QuipMessage {
+  id: string;
+  author_id: string;
+  author_name?: string;
+  created_usec: number;
+  updated_usec?: number;
+  text?: string;
+  parts?: [string, string][]; // [style, html] pairs
+  annotation?: {
+    id: string;
+    highlight_section_ids?: string[]; // Sections a comment is anchored to
+  };
+  files?: { hash: string; name: string }[];
+  reactions?: { emoji: string; user_ids: string[] }[]; // Emoji reactions, when the API includes them
+  visible?: boolean;
+}
+
+export interface QuipUser {
+  id: string;
+  name: string;
+  emails?: string[];
+}
+
 export interface IQuipService {
   getCurrentUser(): Promise<any>;
   listDocuments(): Promise<QuipDocument[]>;
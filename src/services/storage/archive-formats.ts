@@ -0,0 +1,202 @@
+// Low-level ZIP and tar record encoding used by the archive storage backend
+
+// ZIP files without ZIP64 extensions are limited to 65535 entries and 4 GiB offsets
+export const ZIP_MAX_ENTRIES = 0xffff;
+export const ZIP_MAX_OFFSET = 0xffffffff;
+export const ZIP_END_OF_CENTRAL_DIRECTORY_SIZE = 22;
+export const TAR_BLOCK_SIZE = 512;
+
+const ZIP_UTF8_FLAG = 0x0800;
+const ZIP_VERSION = 20;
+
+export interface ZipEntryRecord {
+  name: string;
+  method: 0 | 8; // Stored or deflated
+  crc32: number;
+  compressedSize: number;
+  size: number;
+  modified: Date;
+  offset: number; // Offset of the local file header in the volume
+}
+
+let crcTable: Uint32Array | undefined;
+
+/**
+ * CRC-32 checksum as used by ZIP and gzip; pass the checksum of the preceding
+ * chunks to continue it
+ */
+export function crc32(data: Buffer, previous = 0): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+
+  let crc = (previous ^ 0xffffffff) >>> 0;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Size of the central directory record of an entry
+ */
+export function zipCentralDirectorySize(name: string): number {
+  return 46 + Buffer.byteLength(name, 'utf-8');
+}
+
+/**
+ * Local file header that precedes an entry's data
+ */
+export function createZipLocalHeader(entry: Omit<ZipEntryRecord, 'offset'>): Buffer {
+  const name = Buffer.from(entry.name, 'utf-8');
+  const header = Buffer.alloc(30);
+  const { time, date } = toDosDateTime(entry.modified);
+
+  header.writeUInt32LE(0x04034b50, 0);
+  header.writeUInt16LE(ZIP_VERSION, 4);
+  header.writeUInt16LE(ZIP_UTF8_FLAG, 6);
+  header.writeUInt16LE(entry.method, 8);
+  header.writeUInt16LE(time, 10);
+  header.writeUInt16LE(date, 12);
+  header.writeUInt32LE(entry.crc32, 14);
+  header.writeUInt32LE(entry.compressedSize, 18);
+  header.writeUInt32LE(entry.size, 22);
+  header.writeUInt16LE(name.length, 26);
+  header.writeUInt16LE(0, 28);
+
+  return Buffer.concat([header, name]);
+}
+
+/**
+ * Central directory and end record that make a volume a complete ZIP file
+ */
+export function createZipCentralDirectory(entries: ZipEntryRecord[], centralDirectoryOffset: number): Buffer {
+  const records = entries.map(entry => {
+    const name = Buffer.from(entry.name, 'utf-8');
+    const record = Buffer.alloc(46);
+    const { time, date } = toDosDateTime(entry.modified);
+
+    record.writeUInt32LE(0x02014b50, 0);
+    record.writeUInt16LE(ZIP_VERSION, 4);
+    record.writeUInt16LE(ZIP_VERSION, 6);
+    record.writeUInt16LE(ZIP_UTF8_FLAG, 8);
+    record.writeUInt16LE(entry.method, 10);
+    record.writeUInt16LE(time, 12);
+    record.writeUInt16LE(date, 14);
+    record.writeUInt32LE(entry.crc32, 16);
+    record.writeUInt32LE(entry.compressedSize, 20);
+    record.writeUInt32LE(entry.size, 24);
+    record.writeUInt16LE(name.length, 28);
+    // Extra field, comment, disk number and attributes stay zero
+    record.writeUInt32LE(entry.offset, 42);
+
+    return Buffer.concat([record, name]);
+  });
+
+  const centralDirectory = Buffer.concat(records);
+  const end = Buffer.alloc(ZIP_END_OF_CENTRAL_DIRECTORY_SIZE);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(centralDirectory.length, 12);
+  end.writeUInt32LE(centralDirectoryOffset, 16);
+
+  return Buffer.concat([centralDirectory, end]);
+}
+
+/**
+ * Tar header block(s) for a regular file; names that do not fit the ustar
+ * header are stored in a PAX extended header
+ */
+export function createTarHeader(name: string, size: number, modified: Date): Buffer {
+  const nameBytes = Buffer.from(name, 'utf-8');
+  const fitsUstar = nameBytes.length <= 100 && /^[\x20-\x7e]*$/.test(name);
+  const mtime = Math.floor(modified.getTime() / 1000);
+
+  if (fitsUstar) {
+    return createTarBlock(name, size, mtime, '0');
+  }
+
+  const paxData = Buffer.from(createPaxRecord('path', name), 'utf-8');
+  return Buffer.concat([
+    createTarBlock('PaxHeader', paxData.length, mtime, 'x'),
+    padToBlock(paxData),
+    createTarBlock(toAsciiName(name), size, mtime, '0')
+  ]);
+}
+
+/**
+ * Zero padding that completes the last block of an entry's data
+ */
+export function tarPadding(size: number): Buffer {
+  const remainder = size % TAR_BLOCK_SIZE;
+  return Buffer.alloc(remainder === 0 ? 0 : TAR_BLOCK_SIZE - remainder);
+}
+
+/**
+ * The two empty blocks that end a tar archive
+ */
+export function createTarEnd(): Buffer {
+  return Buffer.alloc(TAR_BLOCK_SIZE * 2);
+}
+
+function createTarBlock(name: string, size: number, mtime: number, type: '0' | 'x'): Buffer {
+  const block = Buffer.alloc(TAR_BLOCK_SIZE);
+
+  block.write(name, 0, 100, 'utf-8');
+  writeOctal(block, 0o644, 100, 8);
+  writeOctal(block, 0, 108, 8);
+  writeOctal(block, 0, 116, 8);
+  writeOctal(block, size, 124, 12);
+  writeOctal(block, mtime, 136, 12);
+  block.fill(' ', 148, 156); // Checksum is computed with this field as spaces
+  block.write(type, 156, 1, 'ascii');
+  block.write('ustar\u000000', 257, 8, 'ascii');
+
+  let checksum = 0;
+  for (let i = 0; i < TAR_BLOCK_SIZE; i++) {
+    checksum += block[i];
+  }
+  block.write(`${checksum.toString(8).padStart(6, '0')}\u0000 `, 148, 8, 'ascii');
+
+  return block;
+}
+
+function writeOctal(block: Buffer, value: number, offset: number, length: number): void {
+  block.write(`${value.toString(8).padStart(length - 1, '0')}\u0000`, offset, length, 'ascii');
+}
+
+function createPaxRecord(key: string, value: string): string {
+  // The record length includes the digits of the length itself
+  const body = ` ${key}=${value}\n`;
+  const bodyLength = Buffer.byteLength(body, 'utf-8');
+  let length = bodyLength + String(bodyLength).length;
+  while (length !== bodyLength + String(length).length) {
+    length = bodyLength + String(length).length;
+  }
+  return `${length}${body}`;
+}
+
+function padToBlock(data: Buffer): Buffer {
+  return Buffer.concat([data, tarPadding(data.length)]);
+}
+
+function toAsciiName(name: string): string {
+  // Fallback name for tools without PAX support
+  return name.replace(/[^\x20-\x7e]/g, '_').slice(-100);
+}
+
+function toDosDateTime(value: Date): { time: number; date: number } {
+  const year = Math.max(value.getFullYear(), 1980);
+  return {
+    time: (value.getHours() << 11) | (value.getMinutes() << 5) | Math.floor(value.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((value.getMonth() + 1) << 5) | value.getDate()
+  };
+}
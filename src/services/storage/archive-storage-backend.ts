@@ -0,0 +1,702 @@
+// Archive storage backend that writes exported files straight into ZIP or tar.gz volumes
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { createReadStream, createWriteStream } from 'fs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { promisify } from 'util';
+import { Logger } from '../../types';
+import {
+  ArchiveOptions,
+  StorageBackend,
+  StorageObjectInfo,
+  StorageObjectStats,
+  StorageWriteProgress
+} from './types';
+import {
+  ZIP_END_OF_CENTRAL_DIRECTORY_SIZE,
+  ZIP_MAX_ENTRIES,
+  ZIP_MAX_OFFSET,
+  ZipEntryRecord,
+  crc32,
+  createTarEnd,
+  createTarHeader,
+  createZipCentralDirectory,
+  createZipLocalHeader,
+  tarPadding,
+  zipCentralDirectorySize
+} from './archive-formats';
+
+const deflateRaw = promisify(zlib.deflateRaw);
+const inflateRaw = promisify(zlib.inflateRaw);
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+export const ARCHIVE_JOURNAL_SUFFIX = '.journal';
+
+// Upper bound for the gzip-compressed tar end blocks
+const TAR_END_SIZE_ESTIMATE = 64;
+
+interface ArchiveEntry {
+  name: string;
+  volume: number;
+  offset: number; // Start of the entry's record in the volume
+  end: number; // End of the entry's record in the volume
+  dataOffset: number; // ZIP: start of the data in the volume; tar.gz: start of the data in the gzip member
+  size: number;
+  compressedSize: number;
+  crc32: number;
+  method: 0 | 8;
+  modified: string;
+}
+
+interface ArchiveVolume {
+  index: number;
+  path: string;
+  dataEnd: number; // End of the last entry; the index or end blocks follow when finalized
+  finalized: boolean;
+}
+
+// An entry's record as appended to a volume: buffers and local files that are streamed in
+interface EncodedEntry {
+  parts: Array<Buffer | { path: string }>;
+  length: number;
+  headerLength: number;
+  size: number;
+  compressedSize: number;
+  crc32: number;
+  method: 0 | 8;
+}
+
+type JournalRecord =
+  | { op: 'volume'; index: number; path: string }
+  | { op: 'entry'; entry: ArchiveEntry }
+  | { op: 'delete'; name: string; truncated: boolean }
+  | { op: 'finalize'; index: number }
+  | { op: 'reopen'; index: number };
+
+/**
+ * Writes exported files into a ZIP or tar.gz archive as they are produced,
+ * optionally split into volumes. Every entry is recorded in a journal next to
+ * the archive, so an interrupted export can reopen the archive, drop a
+ * partially written entry and continue where it stopped.
+ *
+ * Each tar.gz entry is a separate gzip member; gzip readers treat the members
+ * as one stream, and entries can still be read back and truncated on their own.
+ */
+export class ArchiveStorageBackend implements StorageBackend {
+  readonly type = 'archive' as const;
+  private readonly rootPath: string;
+  private readonly format: 'zip' | 'tar.gz';
+  private readonly archivePath: string;
+  private readonly journalPath: string;
+  private readonly maxVolumeSize?: number;
+  private readonly resume: boolean;
+  private readonly logger: Logger;
+  private readonly entries = new Map<string, ArchiveEntry>();
+  private volumes: ArchiveVolume[] = [];
+  private opened: Promise<void> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private tarEnd?: Buffer;
+
+  constructor(rootPath: string, options: ArchiveOptions, logger: Logger, resume = false) {
+    if (options.format !== 'zip' && options.format !== 'tar.gz') {
+      throw new Error(`Unsupported archive format: ${options.format}`);
+    }
+
+    this.rootPath = path.resolve(rootPath);
+    this.format = options.format;
+    this.archivePath = path.resolve(options.path || `${this.rootPath}${this.getExtension()}`);
+    this.journalPath = `${this.archivePath}${ARCHIVE_JOURNAL_SUFFIX}`;
+    this.maxVolumeSize = options.maxVolumeSize;
+    this.resume = resume;
+    this.logger = logger;
+  }
+
+  /**
+   * Archive files written so far, in order
+   */
+  getVolumePaths(): string[] {
+    return this.volumes.map(volume => volume.path);
+  }
+
+  async write(
+    filePath: string,
+    content: Buffer,
+    onProgress?: (progress: StorageWriteProgress) => void
+  ): Promise<void> {
+    const name = this.toEntryName(filePath);
+    if (!name) {
+      throw new Error(`Cannot write the archive root as a file: ${filePath}`);
+    }
+
+    await this.serialize(() => this.appendEntry(name, modified => this.format === 'zip'
+      ? this.encodeZipEntry(name, content, modified)
+      : this.encodeTarEntry(name, content, modified)));
+
+    if (onProgress) {
+      onProgress({ bytesWritten: content.length, totalBytes: content.length, percentage: 100 });
+    }
+  }
+
+  /**
+   * Stream a local file into an entry; it is compressed into a temp file next
+   * to the archive first, since entry headers and volume splits need its size
+   */
+  async moveFile(
+    sourcePath: string,
+    filePath: string,
+    onProgress?: (progress: StorageWriteProgress) => void
+  ): Promise<void> {
+    const name = this.toEntryName(filePath);
+    if (!name) {
+      throw new Error(`Cannot write the archive root as a file: ${filePath}`);
+    }
+
+    const { size } = await fs.stat(sourcePath);
+    const tempPath = `${this.archivePath}.${process.pid}.tmp`;
+    await this.serialize(async () => {
+      try {
+        await this.appendEntry(name, modified => this.format === 'zip'
+          ? this.encodeZipFile(name, sourcePath, size, tempPath, modified)
+          : this.encodeTarFile(name, sourcePath, size, tempPath, modified));
+      } finally {
+        await fs.rm(tempPath, { force: true });
+      }
+    });
+    await fs.rm(sourcePath, { force: true });
+
+    if (onProgress) {
+      onProgress({ bytesWritten: size, totalBytes: size, percentage: 100 });
+    }
+  }
+
+  async read(filePath: string): Promise<Buffer> {
+    const name = this.toEntryName(filePath);
+    return this.serialize(async () => {
+      await this.ensureOpen();
+
+      const entry = this.entries.get(name);
+      if (!entry) {
+        throw new Error(`File not found in archive: ${name}`);
+      }
+
+      const volume = this.getVolume(entry.volume);
+      const record = await this.readRange(volume.path, entry.offset, entry.end);
+
+      if (this.format === 'zip') {
+        const data = record.subarray(entry.dataOffset - entry.offset);
+        return entry.method === 8 ? inflateRaw(data) : Buffer.from(data);
+      }
+
+      const member = await gunzip(record);
+      return member.subarray(entry.dataOffset, entry.dataOffset + entry.size);
+    });
+  }
+
+  async exists(filePath: string): Promise<boolean> {
+    return (await this.stat(filePath)) !== null;
+  }
+
+  async stat(filePath: string): Promise<StorageObjectStats | null> {
+    const name = this.toEntryName(filePath);
+    return this.serialize(async () => {
+      await this.ensureOpen();
+
+      const entry = this.entries.get(name);
+      if (entry) {
+        return { size: entry.size, modified: new Date(entry.modified), isDirectory: false };
+      }
+
+      // A directory exists when any entry is below it
+      const prefix = name ? `${name}/` : '';
+      for (const entryName of this.entries.keys()) {
+        if (entryName.startsWith(prefix)) {
+          return { size: 0, isDirectory: true };
+        }
+      }
+      return null;
+    });
+  }
+
+  async list(directoryPath: string): Promise<StorageObjectInfo[]> {
+    const name = this.toEntryName(directoryPath);
+    return this.serialize(async () => {
+      await this.ensureOpen();
+
+      const prefix = name ? `${name}/` : '';
+      return Array.from(this.entries.values())
+        .filter(entry => entry.name.startsWith(prefix))
+        .map(entry => ({
+          path: path.join(this.rootPath, ...entry.name.split('/')),
+          size: entry.size,
+          modified: new Date(entry.modified)
+        }));
+    });
+  }
+
+  async delete(filePath: string): Promise<void> {
+    const name = this.toEntryName(filePath);
+    await this.serialize(async () => {
+      await this.ensureOpen();
+
+      const entry = this.entries.get(name);
+      if (!entry) {
+        return;
+      }
+
+      // The most recent entry can be cut off the end of the archive
+      const volume = this.getCurrentVolume();
+      const truncated = entry.volume === volume.index && entry.end === volume.dataEnd && !volume.finalized;
+      if (truncated) {
+        await fs.truncate(volume.path, entry.offset);
+        volume.dataEnd = entry.offset;
+      } else if (this.format === 'tar.gz' || entry.volume !== volume.index) {
+        this.logger.warn(`Removed ${name} from the archive index, but its data remains in ${this.getVolume(entry.volume).path}`);
+      }
+
+      this.entries.delete(name);
+      await this.appendJournal({ op: 'delete', name, truncated });
+    });
+  }
+
+  async ensureDirectory(directoryPath: string): Promise<void> {
+    // Archives have no directories; only check the path maps to an entry name
+    this.toEntryName(directoryPath);
+  }
+
+  describe(filePath: string): string {
+    const name = this.toEntryName(filePath);
+    return name ? `${this.archivePath}:${name}` : this.archivePath;
+  }
+
+  /**
+   * Write the archive index (ZIP) or end blocks (tar) so the last volume is complete
+   */
+  async close(): Promise<void> {
+    await this.serialize(async () => {
+      await this.ensureOpen();
+      await this.finalizeVolume(this.getCurrentVolume());
+      this.logger.info(`Archive written: ${this.getVolumePaths().join(', ')} (${this.entries.size} files)`);
+    });
+  }
+
+  /**
+   * Run archive operations one at a time, since entries are appended at tracked offsets
+   */
+  private serialize<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(operation);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async ensureOpen(): Promise<void> {
+    if (!this.opened) {
+      this.opened = this.open();
+    }
+    await this.opened;
+
+    const volume = this.getCurrentVolume();
+    if (volume.finalized) {
+      // Writing after close: remove the index or end blocks and continue the last volume
+      await fs.truncate(volume.path, volume.dataEnd);
+      volume.finalized = false;
+      await this.appendJournal({ op: 'reopen', index: volume.index });
+    }
+  }
+
+  private async open(): Promise<void> {
+    await fs.mkdir(path.dirname(this.archivePath), { recursive: true });
+
+    const records = await this.readJournal();
+    if (this.resume && records.length > 0) {
+      await this.recover(records);
+      return;
+    }
+
+    // A fresh export replaces the archive written by an earlier run
+    const previousVolumes = records.flatMap(record => (record.op === 'volume' ? [record.path] : []));
+    for (const volumePath of new Set([...previousVolumes, this.archivePath])) {
+      await fs.rm(volumePath, { force: true });
+    }
+    await fs.rm(this.journalPath, { force: true });
+
+    await this.startVolume(1);
+  }
+
+  /**
+   * Rebuild the archive state from the journal and cut off anything written
+   * after the last recorded entry
+   */
+  private async recover(records: JournalRecord[]): Promise<void> {
+    for (const record of records) {
+      switch (record.op) {
+        case 'volume':
+          this.volumes.push({ index: record.index, path: record.path, dataEnd: 0, finalized: false });
+          break;
+        case 'entry':
+          this.entries.set(record.entry.name, record.entry);
+          this.getVolume(record.entry.volume).dataEnd = record.entry.end;
+          break;
+        case 'delete': {
+          const entry = this.entries.get(record.name);
+          if (entry && record.truncated) {
+            this.getVolume(entry.volume).dataEnd = entry.offset;
+          }
+          this.entries.delete(record.name);
+          break;
+        }
+        case 'finalize':
+          this.getVolume(record.index).finalized = true;
+          break;
+        case 'reopen':
+          this.getVolume(record.index).finalized = false;
+          break;
+      }
+    }
+
+    // Drop a line cut off by a crash so that new records start on a line of their own
+    await fs.writeFile(this.journalPath, records.map(record => `${JSON.stringify(record)}\n`).join(''), 'utf-8');
+
+    if (this.volumes.length === 0) {
+      await this.startVolume(1);
+      return;
+    }
+
+    const volume = this.getCurrentVolume();
+    let size = 0;
+    try {
+      size = (await fs.stat(volume.path)).size;
+    } catch {
+      throw new Error(`Cannot resume archive: volume ${volume.path} is missing`);
+    }
+    if (size < volume.dataEnd) {
+      throw new Error(`Cannot resume archive: volume ${volume.path} is shorter than its journal (${size} < ${volume.dataEnd} bytes)`);
+    }
+
+    await fs.truncate(volume.path, volume.dataEnd);
+    if (volume.finalized) {
+      volume.finalized = false;
+      await this.appendJournal({ op: 'reopen', index: volume.index });
+    }
+
+    this.logger.info(`Resuming archive ${volume.path} with ${this.entries.size} files already written`);
+  }
+
+  private async appendEntry(name: string, encode: (modified: Date) => Promise<EncodedEntry>): Promise<void> {
+    await this.ensureOpen();
+
+    const modified = new Date();
+    const record = await encode(modified);
+
+    let volume = this.getCurrentVolume();
+    if (this.shouldStartNewVolume(volume, record.length, name)) {
+      await this.finalizeVolume(volume);
+      volume = await this.startVolume(volume.index + 1);
+    }
+
+    if (this.format === 'zip' && volume.dataEnd + record.length > ZIP_MAX_OFFSET) {
+      throw new Error(`Archive volume would exceed 4 GiB; set archive.maxVolumeSize to split the export`);
+    }
+    if (this.maxVolumeSize && record.length > this.maxVolumeSize) {
+      this.logger.warn(`${name} is larger than the maximum volume size and gets a volume of its own`);
+    }
+
+    const offset = volume.dataEnd;
+    try {
+      for (const part of record.parts) {
+        if (Buffer.isBuffer(part)) {
+          await fs.appendFile(volume.path, part);
+        } else {
+          await pipeline(createReadStream(part.path), createWriteStream(volume.path, { flags: 'a' }));
+        }
+      }
+    } catch (error) {
+      // Cut off the partly appended record so the next entry starts at the tracked offset
+      await fs.truncate(volume.path, offset);
+      throw error;
+    }
+    volume.dataEnd += record.length;
+
+    const entry: ArchiveEntry = {
+      name,
+      volume: volume.index,
+      offset,
+      end: volume.dataEnd,
+      dataOffset: this.format === 'zip' ? offset + record.headerLength : record.headerLength,
+      size: record.size,
+      compressedSize: record.compressedSize,
+      crc32: record.crc32,
+      method: record.method,
+      modified: modified.toISOString()
+    };
+    this.entries.set(name, entry);
+    await this.appendJournal({ op: 'entry', entry });
+  }
+
+  private async encodeZipEntry(name: string, content: Buffer, modified: Date): Promise<EncodedEntry> {
+    if (content.length > ZIP_MAX_OFFSET) {
+      throw new Error(`${name} is too large for a ZIP archive without ZIP64 (${content.length} bytes)`);
+    }
+
+    const deflated = await deflateRaw(content);
+    const method: 0 | 8 = deflated.length < content.length ? 8 : 0;
+    const data = method === 8 ? deflated : content;
+    const checksum = crc32(content);
+    const header = createZipLocalHeader({
+      name,
+      method,
+      crc32: checksum,
+      compressedSize: data.length,
+      size: content.length,
+      modified
+    });
+
+    return {
+      parts: [header, data],
+      length: header.length + data.length,
+      headerLength: header.length,
+      size: content.length,
+      compressedSize: data.length,
+      crc32: checksum,
+      method
+    };
+  }
+
+  private async encodeZipFile(
+    name: string,
+    sourcePath: string,
+    size: number,
+    tempPath: string,
+    modified: Date
+  ): Promise<EncodedEntry> {
+    if (size > ZIP_MAX_OFFSET) {
+      throw new Error(`${name} is too large for a ZIP archive without ZIP64 (${size} bytes)`);
+    }
+
+    let checksum = 0;
+    async function* checksummed(): AsyncGenerator<Buffer> {
+      for await (const chunk of createReadStream(sourcePath)) {
+        checksum = crc32(chunk, checksum);
+        yield chunk;
+      }
+    }
+    await pipeline(Readable.from(checksummed()), zlib.createDeflateRaw(), createWriteStream(tempPath));
+
+    // Like encodeZipEntry, store the file when deflating does not make it smaller
+    const deflatedSize = (await fs.stat(tempPath)).size;
+    const method: 0 | 8 = deflatedSize < size ? 8 : 0;
+    const compressedSize = method === 8 ? deflatedSize : size;
+    const header = createZipLocalHeader({ name, method, crc32: checksum, compressedSize, size, modified });
+
+    return {
+      parts: [header, { path: method === 8 ? tempPath : sourcePath }],
+      length: header.length + compressedSize,
+      headerLength: header.length,
+      size,
+      compressedSize,
+      crc32: checksum,
+      method
+    };
+  }
+
+  private async encodeTarEntry(name: string, content: Buffer, modified: Date): Promise<EncodedEntry> {
+    const header = createTarHeader(name, content.length, modified);
+    const member = await gzip(Buffer.concat([header, content, tarPadding(content.length)]));
+
+    return {
+      parts: [member],
+      length: member.length,
+      headerLength: header.length,
+      size: content.length,
+      compressedSize: member.length,
+      crc32: crc32(content),
+      method: 8
+    };
+  }
+
+  private async encodeTarFile(
+    name: string,
+    sourcePath: string,
+    size: number,
+    tempPath: string,
+    modified: Date
+  ): Promise<EncodedEntry> {
+    const header = createTarHeader(name, size, modified);
+
+    let checksum = 0;
+    async function* tarRecord(): AsyncGenerator<Buffer> {
+      yield header;
+      for await (const chunk of createReadStream(sourcePath)) {
+        checksum = crc32(chunk, checksum);
+        yield chunk;
+      }
+      yield tarPadding(size);
+    }
+    await pipeline(Readable.from(tarRecord()), zlib.createGzip(), createWriteStream(tempPath));
+
+    const memberSize = (await fs.stat(tempPath)).size;
+    return {
+      parts: [{ path: tempPath }],
+      length: memberSize,
+      headerLength: header.length,
+      size,
+      compressedSize: memberSize,
+      crc32: checksum,
+      method: 8
+    };
+  }
+
+  private shouldStartNewVolume(volume: ArchiveVolume, recordLength: number, name: string): boolean {
+    const volumeEntries = this.getVolumeEntries(volume.index);
+    if (volumeEntries.length === 0 && volume.dataEnd === 0) {
+      return false;
+    }
+
+    if (this.format === 'zip') {
+      if (volumeEntries.length >= ZIP_MAX_ENTRIES) {
+        return true;
+      }
+      if (!this.maxVolumeSize) {
+        return false;
+      }
+      const indexSize = volumeEntries.reduce((total, entry) => total + zipCentralDirectorySize(entry.name), 0) +
+        zipCentralDirectorySize(name) + ZIP_END_OF_CENTRAL_DIRECTORY_SIZE;
+      return volume.dataEnd + recordLength + indexSize > this.maxVolumeSize;
+    }
+
+    return this.maxVolumeSize !== undefined &&
+      volume.dataEnd + recordLength + TAR_END_SIZE_ESTIMATE > this.maxVolumeSize;
+  }
+
+  private async finalizeVolume(volume: ArchiveVolume): Promise<void> {
+    if (volume.finalized) {
+      return;
+    }
+
+    let trailer: Buffer;
+    if (this.format === 'zip') {
+      const records: ZipEntryRecord[] = this.getVolumeEntries(volume.index).map(entry => ({
+        name: entry.name,
+        method: entry.method,
+        crc32: entry.crc32,
+        compressedSize: entry.compressedSize,
+        size: entry.size,
+        modified: new Date(entry.modified),
+        offset: entry.offset
+      }));
+      trailer = createZipCentralDirectory(records, volume.dataEnd);
+    } else {
+      if (!this.tarEnd) {
+        this.tarEnd = await gzip(createTarEnd());
+      }
+      trailer = this.tarEnd;
+    }
+
+    await fs.appendFile(volume.path, trailer);
+    volume.finalized = true;
+    await this.appendJournal({ op: 'finalize', index: volume.index });
+  }
+
+  private async startVolume(index: number): Promise<ArchiveVolume> {
+    const volume: ArchiveVolume = { index, path: this.getVolumePath(index), dataEnd: 0, finalized: false };
+
+    await fs.writeFile(volume.path, Buffer.alloc(0));
+    this.volumes.push(volume);
+    await this.appendJournal({ op: 'volume', index, path: volume.path });
+
+    if (index > 1) {
+      this.logger.info(`Starting archive volume ${volume.path}`);
+    }
+    return volume;
+  }
+
+  private getVolumeEntries(index: number): ArchiveEntry[] {
+    return Array.from(this.entries.values())
+      .filter(entry => entry.volume === index)
+      .sort((a, b) => a.offset - b.offset);
+  }
+
+  private getVolumePath(index: number): string {
+    if (!this.maxVolumeSize) {
+      return this.archivePath;
+    }
+
+    const extension = this.getExtension();
+    const base = this.archivePath.endsWith(extension)
+      ? this.archivePath.slice(0, -extension.length)
+      : this.archivePath;
+    return `${base}-${String(index).padStart(3, '0')}${extension}`;
+  }
+
+  private getVolume(index: number): ArchiveVolume {
+    const volume = this.volumes.find(candidate => candidate.index === index);
+    if (!volume) {
+      throw new Error(`Archive journal refers to unknown volume ${index}`);
+    }
+    return volume;
+  }
+
+  private getCurrentVolume(): ArchiveVolume {
+    return this.volumes[this.volumes.length - 1];
+  }
+
+  private getExtension(): string {
+    return this.format === 'zip' ? '.zip' : '.tar.gz';
+  }
+
+  private async readRange(filePath: string, start: number, end: number): Promise<Buffer> {
+    const handle = await fs.open(filePath, 'r');
+    try {
+      const buffer = Buffer.alloc(end - start);
+      await handle.read(buffer, 0, buffer.length, start);
+      return buffer;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  private async readJournal(): Promise<JournalRecord[]> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.journalPath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const records: JournalRecord[] = [];
+    for (const line of raw.split('\n')) {
+      if (!line.trim()) {
+        continue;
+      }
+      try {
+        records.push(JSON.parse(line) as JournalRecord);
+      } catch {
+        // A line cut off by a crash; everything after it was never confirmed
+        this.logger.warn(`Ignoring incomplete archive journal line in ${this.journalPath}`);
+        break;
+      }
+    }
+    return records;
+  }
+
+  private async appendJournal(record: JournalRecord): Promise<void> {
+    await fs.appendFile(this.journalPath, `${JSON.stringify(record)}\n`, 'utf-8');
+  }
+
+  /**
+   * Map a local-style path below the output directory to an entry name
+   */
+  private toEntryName(filePath: string): string {
+    const relativePath = path.relative(this.rootPath, path.resolve(filePath));
+    if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      throw new Error(`Path is outside the export output directory: ${filePath}`);
+    }
+    return relativePath.split(path.sep).join('/');
+  }
+}
@@ -0,0 +1,44 @@
+// Storage backends for exported files
+
+import { Logger } from '../../types';
+import { LocalStorageBackend } from './local-storage-backend';
+import { S3StorageBackend } from './s3-storage-backend';
+import { ArchiveStorageBackend } from './archive-storage-backend';
+import { ArchiveOptions, StorageBackend, StorageConfig } from './types';
+
+export * from './types';
+export * from './local-storage-backend';
+export * from './s3-storage-backend';
+export * from './archive-storage-backend';
+
+export interface StorageBackendOptions {
+  archive?: ArchiveOptions; // Write the export into an archive instead of a directory tree
+  resume?: boolean; // Continue a partially written archive from an interrupted export
+}
+
+/**
+ * Create the storage backend for an export output directory
+ */
+export function createStorageBackend(
+  config: StorageConfig | undefined,
+  outputDirectory: string,
+  logger: Logger,
+  options: StorageBackendOptions = {}
+): StorageBackend {
+  if (options.archive) {
+    if (config && config.type !== 'local') {
+      throw new Error('Archive output can only be written to the local filesystem');
+    }
+    return new ArchiveStorageBackend(outputDirectory, options.archive, logger, options.resume);
+  }
+
+  if (!config || config.type === 'local') {
+    return new LocalStorageBackend();
+  }
+
+  if (config.type === 's3') {
+    return new S3StorageBackend(outputDirectory, config, logger);
+  }
+
+  throw new Error(`Unsupported storage type: ${(config as { type: string }).type}`);
+}
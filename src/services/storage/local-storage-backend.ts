@@ -0,0 +1,158 @@
+// Local filesystem storage backend
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { StorageBackend, StorageObjectInfo, StorageObjectStats, StorageWriteProgress } from './types';
+
+// Files of this size and larger are written in chunks with progress reporting
+const CHUNKED_WRITE_THRESHOLD = 1024 * 1024; // 1MB
+const WRITE_CHUNK_SIZE = 64 * 1024; // 64KB
+
+/**
+ * Stores exported files on the local filesystem
+ */
+export class LocalStorageBackend implements StorageBackend {
+  readonly type = 'local' as const;
+
+  async write(
+    filePath: string,
+    content: Buffer,
+    onProgress?: (progress: StorageWriteProgress) => void
+  ): Promise<void> {
+    const totalBytes = content.length;
+
+    // For small files, write directly
+    if (totalBytes < CHUNKED_WRITE_THRESHOLD) {
+      await fs.writeFile(filePath, content);
+
+      if (onProgress) {
+        onProgress({ bytesWritten: totalBytes, totalBytes, percentage: 100 });
+      }
+      return;
+    }
+
+    // For larger files, write in chunks with progress
+    const fileHandle = await fs.open(filePath, 'w');
+    let bytesWritten = 0;
+
+    try {
+      for (let offset = 0; offset < totalBytes; offset += WRITE_CHUNK_SIZE) {
+        const chunk = content.subarray(offset, Math.min(offset + WRITE_CHUNK_SIZE, totalBytes));
+
+        await fileHandle.write(chunk, 0, chunk.length, offset);
+        bytesWritten += chunk.length;
+
+        if (onProgress) {
+          onProgress({ bytesWritten, totalBytes, percentage: Math.round((bytesWritten / totalBytes) * 100) });
+        }
+      }
+    } finally {
+      await fileHandle.close();
+    }
+  }
+
+  async moveFile(
+    sourcePath: string,
+    filePath: string,
+    onProgress?: (progress: StorageWriteProgress) => void
+  ): Promise<void> {
+    const { size } = await fs.stat(sourcePath);
+
+    try {
+      await fs.rename(sourcePath, filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+        throw error;
+      }
+
+      // The source is on another filesystem: copy it next to the target first so the rename stays atomic
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      try {
+        await fs.copyFile(sourcePath, tempPath);
+        await fs.rename(tempPath, filePath);
+      } catch (copyError) {
+        await fs.rm(tempPath, { force: true });
+        throw copyError;
+      }
+      await fs.rm(sourcePath, { force: true });
+    }
+
+    if (onProgress) {
+      onProgress({ bytesWritten: size, totalBytes: size, percentage: 100 });
+    }
+  }
+
+  async read(filePath: string): Promise<Buffer> {
+    return fs.readFile(filePath);
+  }
+
+  async exists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async stat(filePath: string): Promise<StorageObjectStats | null> {
+    try {
+      const stats = await fs.stat(filePath);
+      return { size: stats.size, created: stats.birthtime, modified: stats.mtime, isDirectory: stats.isDirectory() };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async list(directoryPath: string): Promise<StorageObjectInfo[]> {
+    const files: StorageObjectInfo[] = [];
+
+    let entries;
+    try {
+      entries = await fs.readdir(directoryPath, { withFileTypes: true });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return files;
+      }
+      throw error;
+    }
+
+    for (const entry of entries) {
+      const entryPath = path.join(directoryPath, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...(await this.list(entryPath)));
+      } else if (entry.isFile()) {
+        const stats = await fs.stat(entryPath);
+        files.push({ path: entryPath, size: stats.size, modified: stats.mtime });
+      }
+    }
+
+    return files;
+  }
+
+  async delete(filePath: string): Promise<void> {
+    try {
+      await fs.unlink(filePath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  async ensureDirectory(directoryPath: string): Promise<void> {
+    await fs.mkdir(directoryPath, { recursive: true });
+
+    const stats = await fs.stat(directoryPath);
+    if (!stats.isDirectory()) {
+      throw new Error(`Path exists but is not a directory: ${directoryPath}`);
+    }
+  }
+
+  describe(filePath: string): string {
+    return filePath;
+  }
+}
@@ -0,0 +1,436 @@
+// S3-compatible object storage backend (AWS S3, MinIO, Ceph, ...)
+
+import * as crypto from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { Logger } from '../../types';
+import {
+  S3StorageOptions,
+  StorageBackend,
+  StorageObjectInfo,
+  StorageObjectStats,
+  StorageWriteProgress
+} from './types';
+
+// S3 rejects multipart parts smaller than 5 MiB (except the last one)
+export const MIN_MULTIPART_PART_SIZE = 5 * 1024 * 1024;
+const DEFAULT_PART_SIZE = 8 * 1024 * 1024;
+const EMPTY_PAYLOAD_HASH = crypto.createHash('sha256').digest('hex');
+
+export interface S3Credentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+export interface SignableRequest {
+  method: string;
+  url: URL;
+  headers: { [name: string]: string }; // Every header given here is signed
+  payloadHash: string;
+}
+
+/**
+ * Sign a request with AWS Signature Version 4 and return the Authorization header
+ */
+export function signRequest(
+  request: SignableRequest,
+  credentials: S3Credentials,
+  region: string,
+  date: Date
+): string {
+  const amzDate = toAmzDate(date);
+  const dateStamp = amzDate.substring(0, 8);
+  const scope = `${dateStamp}/${region}/s3/aws4_request`;
+
+  const headers = Object.entries(request.headers)
+    .map(([name, value]) => [name.toLowerCase(), value.trim().replace(/\s+/g, ' ')])
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const signedHeaders = headers.map(([name]) => name).join(';');
+
+  const canonicalQuery = Array.from(request.url.searchParams.entries())
+    .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)])
+    .sort(([a, x], [b, y]) => (a < b ? -1 : a > b ? 1 : x < y ? -1 : x > y ? 1 : 0))
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+
+  const canonicalRequest = [
+    request.method,
+    request.url.pathname,
+    canonicalQuery,
+    headers.map(([name, value]) => `${name}:${value}\n`).join(''),
+    signedHeaders,
+    request.payloadHash
+  ].join('\n');
+
+  const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+
+  const dateKey = hmac(`AWS4${credentials.secretAccessKey}`, dateStamp);
+  const signingKey = hmac(hmac(hmac(dateKey, region), 's3'), 'aws4_request');
+  const signature = crypto.createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+
+  return `AWS4-HMAC-SHA256 Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+}
+
+/**
+ * Stores exported files as objects in an S3-compatible bucket. Local paths
+ * below the output directory become keys below the configured prefix.
+ */
+export class S3StorageBackend implements StorageBackend {
+  readonly type = 's3' as const;
+  private readonly rootPath: string;
+  private readonly bucket: string;
+  private readonly prefix: string;
+  private readonly region: string;
+  private readonly endpoint: URL;
+  private readonly forcePathStyle: boolean;
+  private readonly credentials: S3Credentials;
+  private readonly partSize: number;
+  private readonly logger: Logger;
+
+  constructor(rootPath: string, options: S3StorageOptions, logger: Logger) {
+    if (!options.bucket) {
+      throw new Error('S3 storage requires a bucket');
+    }
+
+    const accessKeyId = options.accessKeyId || process.env.AWS_ACCESS_KEY_ID;
+    const secretAccessKey = options.secretAccessKey || process.env.AWS_SECRET_ACCESS_KEY;
+    if (!accessKeyId || !secretAccessKey) {
+      throw new Error('S3 storage requires accessKeyId and secretAccessKey (or AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY)');
+    }
+
+    this.rootPath = path.resolve(rootPath);
+    this.bucket = options.bucket;
+    this.prefix = (options.prefix || '').replace(/^\/+|\/+$/g, '');
+    this.region = options.region || process.env.AWS_REGION || 'us-east-1';
+    this.endpoint = new URL(options.endpoint || `https://s3.${this.region}.amazonaws.com`);
+    this.forcePathStyle = options.forcePathStyle ?? Boolean(options.endpoint);
+    this.credentials = {
+      accessKeyId,
+      secretAccessKey,
+      sessionToken: options.sessionToken || process.env.AWS_SESSION_TOKEN
+    };
+    this.partSize = Math.max(options.partSize || DEFAULT_PART_SIZE, MIN_MULTIPART_PART_SIZE);
+    this.logger = logger;
+  }
+
+  async write(
+    filePath: string,
+    content: Buffer,
+    onProgress?: (progress: StorageWriteProgress) => void
+  ): Promise<void> {
+    const key = this.toKey(filePath);
+    const readPart = async (offset: number, length: number): Promise<Buffer> => content.subarray(offset, offset + length);
+
+    await this.upload(key, content.length, readPart, onProgress);
+  }
+
+  /**
+   * Upload a local file, reading one part at a time instead of the whole file
+   */
+  async moveFile(
+    sourcePath: string,
+    filePath: string,
+    onProgress?: (progress: StorageWriteProgress) => void
+  ): Promise<void> {
+    const key = this.toKey(filePath);
+    const handle = await fs.open(sourcePath, 'r');
+
+    try {
+      const readPart = async (offset: number, length: number): Promise<Buffer> => {
+        const part = Buffer.alloc(length);
+        const { bytesRead } = await handle.read(part, 0, length, offset);
+        if (bytesRead !== length) {
+          throw new Error(`${sourcePath} changed while it was uploaded`);
+        }
+        return part;
+      };
+
+      await this.upload(key, (await handle.stat()).size, readPart, onProgress);
+    } finally {
+      await handle.close();
+    }
+
+    await fs.rm(sourcePath, { force: true });
+  }
+
+  async read(filePath: string): Promise<Buffer> {
+    const response = await this.send('GET', this.toKey(filePath), {}, undefined, 'GetObject');
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async exists(filePath: string): Promise<boolean> {
+    return (await this.stat(filePath)) !== null;
+  }
+
+  async stat(filePath: string): Promise<StorageObjectStats | null> {
+    const key = this.toKey(filePath);
+    const response = await this.send('HEAD', key, {}, undefined, 'HeadObject', [404]);
+
+    if (response.status === 404) {
+      // A "directory" exists when any object has it as a prefix
+      const children = await this.listKeys(`${key}/`, 1);
+      return children.length > 0 ? { size: 0, isDirectory: true } : null;
+    }
+
+    const lastModified = response.headers.get('last-modified');
+    return {
+      size: parseInt(response.headers.get('content-length') || '0', 10),
+      modified: lastModified ? new Date(lastModified) : undefined,
+      isDirectory: false
+    };
+  }
+
+  async list(directoryPath: string): Promise<StorageObjectInfo[]> {
+    const key = this.toKey(directoryPath);
+    const objects = await this.listKeys(key ? `${key}/` : '');
+
+    return objects.map(object => ({
+      path: this.toPath(object.key),
+      size: object.size,
+      modified: object.modified
+    }));
+  }
+
+  async delete(filePath: string): Promise<void> {
+    await (await this.send('DELETE', this.toKey(filePath), {}, undefined, 'DeleteObject', [404])).text();
+  }
+
+  async ensureDirectory(directoryPath: string): Promise<void> {
+    // Object storage has no directories; only check the path maps to a key
+    this.toKey(directoryPath);
+  }
+
+  describe(filePath: string): string {
+    return `s3://${this.bucket}/${this.toKey(filePath)}`;
+  }
+
+  /**
+   * Upload content in one request, or in parts when it is larger than a part
+   */
+  private async upload(
+    key: string,
+    totalBytes: number,
+    readPart: (offset: number, length: number) => Promise<Buffer>,
+    onProgress?: (progress: StorageWriteProgress) => void
+  ): Promise<void> {
+    if (totalBytes > this.partSize) {
+      await this.multipartUpload(key, totalBytes, readPart, onProgress);
+      return;
+    }
+
+    await (await this.send('PUT', key, {}, await readPart(0, totalBytes), 'PutObject')).text();
+    if (onProgress) {
+      onProgress({ bytesWritten: totalBytes, totalBytes, percentage: 100 });
+    }
+  }
+
+  /**
+   * Upload large content in parts, aborting the upload if any part fails
+   */
+  private async multipartUpload(
+    key: string,
+    totalBytes: number,
+    readPart: (offset: number, length: number) => Promise<Buffer>,
+    onProgress?: (progress: StorageWriteProgress) => void
+  ): Promise<void> {
+    const created = await this.send('POST', key, { uploads: '' }, Buffer.alloc(0), 'CreateMultipartUpload');
+    const uploadId = readXmlValue(await created.text(), 'UploadId');
+    if (!uploadId) {
+      throw new Error(`S3 CreateMultipartUpload returned no upload ID for ${key}`);
+    }
+
+    const parts: { partNumber: number; etag: string }[] = [];
+
+    try {
+      for (let offset = 0, partNumber = 1; offset < totalBytes; offset += this.partSize, partNumber++) {
+        const part = await readPart(offset, Math.min(this.partSize, totalBytes - offset));
+        const response = await this.send(
+          'PUT',
+          key,
+          { partNumber: String(partNumber), uploadId },
+          part,
+          'UploadPart'
+        );
+
+        parts.push({ partNumber, etag: response.headers.get('etag') || '' });
+        await response.text();
+
+        if (onProgress) {
+          const bytesWritten = offset + part.length;
+          onProgress({ bytesWritten, totalBytes, percentage: Math.round((bytesWritten / totalBytes) * 100) });
+        }
+      }
+
+      const body = '<CompleteMultipartUpload>' +
+        parts.map(part => `<Part><PartNumber>${part.partNumber}</PartNumber><ETag>${escapeXml(part.etag)}</ETag></Part>`).join('') +
+        '</CompleteMultipartUpload>';
+      const completed = await this.send('POST', key, { uploadId }, Buffer.from(body, 'utf-8'), 'CompleteMultipartUpload');
+
+      // Completion can fail after a 200 status; the error is then in the body
+      const completion = await completed.text();
+      if (/<Error>/.test(completion)) {
+        throw new Error(`S3 CompleteMultipartUpload failed for ${key}: ${readXmlValue(completion, 'Code') || 'unknown error'}`);
+      }
+
+      this.logger.debug(`Uploaded ${key} in ${parts.length} parts (${totalBytes} bytes)`);
+    } catch (error) {
+      try {
+        await (await this.send('DELETE', key, { uploadId }, undefined, 'AbortMultipartUpload', [404])).text();
+      } catch (abortError) {
+        this.logger.warn(`Failed to abort multipart upload of ${key}: ${abortError instanceof Error ? abortError.message : String(abortError)}`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * List objects below a key prefix, following continuation tokens
+   */
+  private async listKeys(
+    prefix: string,
+    maxKeys?: number
+  ): Promise<{ key: string; size: number; modified?: Date }[]> {
+    const objects: { key: string; size: number; modified?: Date }[] = [];
+    let continuationToken: string | undefined;
+    let hasMore = true;
+
+    while (hasMore) {
+      const query: { [name: string]: string } = { 'list-type': '2', prefix };
+      if (maxKeys) {
+        query['max-keys'] = String(maxKeys);
+      }
+      if (continuationToken) {
+        query['continuation-token'] = continuationToken;
+      }
+
+      const response = await this.send('GET', '', query, undefined, 'ListObjectsV2');
+      const xml = await response.text();
+
+      for (const match of xml.matchAll(/<Contents>([\s\S]*?)<\/Contents>/g)) {
+        const lastModified = readXmlValue(match[1], 'LastModified');
+        objects.push({
+          key: readXmlValue(match[1], 'Key') || '',
+          size: parseInt(readXmlValue(match[1], 'Size') || '0', 10),
+          modified: lastModified ? new Date(lastModified) : undefined
+        });
+      }
+
+      continuationToken = readXmlValue(xml, 'NextContinuationToken');
+      hasMore = readXmlValue(xml, 'IsTruncated') === 'true' && !!continuationToken && !maxKeys;
+    }
+
+    return objects;
+  }
+
+  /**
+   * Send a signed request for an object key (or the bucket when key is empty)
+   */
+  private async send(
+    method: string,
+    key: string,
+    query: { [name: string]: string },
+    body: Buffer | undefined,
+    operation: string,
+    allowedStatuses: number[] = []
+  ): Promise<Response> {
+    const url = this.buildUrl(key, query);
+    const payloadHash = body ? sha256Hex(body) : EMPTY_PAYLOAD_HASH;
+    const date = new Date();
+
+    const headers: { [name: string]: string } = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': toAmzDate(date)
+    };
+    if (this.credentials.sessionToken) {
+      headers['x-amz-security-token'] = this.credentials.sessionToken;
+    }
+
+    const authorization = signRequest({ method, url, headers, payloadHash }, this.credentials, this.region, date);
+
+    // fetch sets the Host header itself
+    const requestHeaders: { [name: string]: string } = { ...headers, Authorization: authorization };
+    delete requestHeaders.host;
+
+    const response = await fetch(url, { method, headers: requestHeaders, body });
+
+    if (!response.ok && !allowedStatuses.includes(response.status)) {
+      const text = method === 'HEAD' ? '' : await response.text();
+      const code = readXmlValue(text, 'Code');
+      throw new Error(`S3 ${operation} failed for ${key || this.bucket}: HTTP ${response.status}${code ? ` ${code}` : ''}`);
+    }
+
+    return response;
+  }
+
+  private buildUrl(key: string, query: { [name: string]: string }): URL {
+    const encodedKey = key.split('/').map(encodeRfc3986).join('/');
+    const url = new URL(this.endpoint.toString());
+    const basePath = url.pathname.replace(/\/+$/, '');
+
+    if (this.forcePathStyle) {
+      url.pathname = `${basePath}/${encodeRfc3986(this.bucket)}${key ? `/${encodedKey}` : ''}`;
+    } else {
+      url.hostname = `${this.bucket}.${url.hostname}`;
+      url.pathname = `${basePath}/${encodedKey}`;
+    }
+
+    for (const [name, value] of Object.entries(query)) {
+      url.searchParams.set(name, value);
+    }
+    return url;
+  }
+
+  /**
+   * Map a local-style path below the output directory to an object key
+   */
+  private toKey(filePath: string): string {
+    const relativePath = path.relative(this.rootPath, path.resolve(filePath));
+    if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+      throw new Error(`Path is outside the export output directory: ${filePath}`);
+    }
+
+    const relativeKey = relativePath.split(path.sep).filter(Boolean).join('/');
+    return [this.prefix, relativeKey].filter(Boolean).join('/');
+  }
+
+  private toPath(key: string): string {
+    const relativeKey = this.prefix ? key.substring(this.prefix.length + 1) : key;
+    return path.join(this.rootPath, ...relativeKey.split('/'));
+  }
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function toAmzDate(date: Date): string {
+  return date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+}
+
+function sha256Hex(data: string | Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return crypto.createHmac('sha256', key).update(data).digest();
+}
+
+function readXmlValue(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+  return match ? unescapeXml(match[1]) : undefined;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function unescapeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,99 @@
+// Storage backend types shared by the local filesystem and object storage implementations
+
+export interface StorageObjectStats {
+  size: number;
+  created?: Date;
+  modified?: Date;
+  isDirectory?: boolean;
+}
+
+export interface StorageObjectInfo extends StorageObjectStats {
+  path: string;
+}
+
+export interface StorageWriteProgress {
+  bytesWritten: number;
+  totalBytes: number;
+  percentage: number;
+}
+
+/**
+ * Where exported files are stored. Paths are always local-style paths under
+ * the export output directory; object storage backends map them to keys.
+ */
+export interface StorageBackend {
+  readonly type: 'local' | 's3' | 'archive';
+
+  /**
+   * Write a file, replacing any existing file at the same path
+   */
+  write(filePath: string, content: Buffer, onProgress?: (progress: StorageWriteProgress) => void): Promise<void>;
+
+  /**
+   * Move a finished file from the local disk (e.g. a streamed download) into
+   * place without reading it into memory, replacing any existing file without
+   * exposing a partial one. The source file is removed.
+   */
+  moveFile(sourcePath: string, filePath: string, onProgress?: (progress: StorageWriteProgress) => void): Promise<void>;
+
+  /**
+   * Read a whole file
+   */
+  read(filePath: string): Promise<Buffer>;
+
+  /**
+   * Check whether a file or directory exists
+   */
+  exists(filePath: string): Promise<boolean>;
+
+  /**
+   * Get size and modification time, or null when the path does not exist
+   */
+  stat(filePath: string): Promise<StorageObjectStats | null>;
+
+  /**
+   * List all files below a directory, recursively
+   */
+  list(directoryPath: string): Promise<StorageObjectInfo[]>;
+
+  /**
+   * Delete a file; deleting a missing file is not an error
+   */
+  delete(filePath: string): Promise<void>;
+
+  /**
+   * Make sure files can be written into a directory
+   */
+  ensureDirectory(directoryPath: string): Promise<void>;
+
+  /**
+   * Human-readable location of a path, e.g. for logs and summaries
+   */
+  describe(filePath: string): string;
+
+  /**
+   * Finish the output once an export is complete, e.g. write an archive's
+   * index; later writes reopen it
+   */
+  close?(): Promise<void>;
+}
+
+export interface S3StorageOptions {
+  bucket: string;
+  prefix?: string; // Key prefix the output directory is mapped to, e.g. "exports/quip"
+  region?: string; // Defaults to AWS_REGION or us-east-1
+  endpoint?: string; // S3-compatible endpoint, e.g. http://localhost:9000 for MinIO
+  forcePathStyle?: boolean; // Use <endpoint>/<bucket>/<key> URLs (default: true with a custom endpoint)
+  accessKeyId?: string; // Defaults to AWS_ACCESS_KEY_ID
+  secretAccessKey?: string; // Defaults to AWS_SECRET_ACCESS_KEY
+  sessionToken?: string; // Defaults to AWS_SESSION_TOKEN
+  partSize?: number; // Multipart upload part size in bytes (default: 8 MiB, minimum: 5 MiB)
+}
+
+export interface ArchiveOptions {
+  format: 'zip' | 'tar.gz';
+  path?: string; // Archive file (default: the output directory with a .zip or .tar.gz extension)
+  maxVolumeSize?: number; // Split into volumes of at most this many bytes, e.g. export-001.zip
+}
+
+export type StorageConfig = { type: 'local' } | ({ type: 's3' } & S3StorageOptions);
@@ -23,6 +23,7 @@ export interface QuipFolder {
   updated_usec: number;
   children: string[];
   member_ids: string[];
+  parent_id?: string;
 }
 
 // Export state and error types are defined in core/export-types.ts